@@ -9,6 +9,7 @@ import { UserPreferencesProvider } from '@/contexts/UserPreferencesContext';
 import { useEffect } from "react";
 import { useBackgroundReminders } from "@/hooks/useBackgroundReminders";
 import { ThemeProvider } from "@/components/theme-provider";
+import { StreakRecomputeDialog } from "@/components/settings/StreakRecomputeDialog";
 
 // Pages
 import Index from "./pages/Index";
@@ -84,6 +85,7 @@ const App = () => {
               <TooltipProvider>
                 <Toaster />
                 <Sonner />
+                <StreakRecomputeDialog />
                 <BrowserRouter>
                   <PersistenceWrapper>
                     <Routes>
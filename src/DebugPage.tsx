@@ -1,7 +1,7 @@
 import React, { useEffect, useState } from 'react';
 import { supabase } from '@/lib/supabase';
 import { useAuth } from '@/contexts/AuthContext';
-import { calculateStreakForTask } from '@/lib/streakCalculator';
+import { openStreakRecompute } from '@/services/streakRecomputeService';
 
 const DebugPage = () => {
     const [logs, setLogs] = useState<string[]>([]);
@@ -9,68 +9,6 @@ const DebugPage = () => {
 
     const log = (msg: string) => setLogs(prev => [...prev, msg + '\n']);
 
-    const runRepair = async () => {
-        if (!user) return log('❌ Must be logged in');
-        log('\n🔧 STARTING REPAIR SEQUENCE (Dec 11 - Dec 16)...');
-        log('This enforces the chain: Dec 11 -> 12 -> 13 -> 14 -> 15');
-
-        const datesToCheck = [
-            '2025-12-11', '2025-12-12', '2025-12-13',
-            '2025-12-14', '2025-12-15', '2025-12-16'
-        ];
-
-        for (const date of datesToCheck) {
-            log(`\n📅 Processing ${date}...`);
-
-            // 1. Get tasks for this date
-            const { data: tasks } = await supabase
-                .from('tasks')
-                .select('*')
-                .eq('date', date)
-                .eq('user_id', user.id);
-
-            if (!tasks || tasks.length === 0) {
-                log('   (No tasks found)');
-                continue;
-            }
-
-            for (const task of tasks) {
-                // Only care if it's a template task or has a name (fallback logic)
-                if (!task.template_id && !task.name) continue;
-
-                log(`   Refixing "${task.name}" (${task.progress}%)...`);
-
-                // 2. Client-Side Recalculation (Forces fetch of NOW-CORRECT yesterday)
-                try {
-                    const streaks = await calculateStreakForTask(
-                        user.id,
-                        task.template_id,
-                        task.date,
-                        task.progress,
-                        task.name
-                    );
-
-                    // 3. Update DB
-                    const { error } = await supabase
-                        .from('tasks')
-                        .update({
-                            achiever_strike: streaks.achiever_strike,
-                            fighter_strike: streaks.fighter_strike,
-                            updated_at: new Date().toISOString()
-                        })
-                        .eq('id', task.id);
-
-                    if (error) log(`   ❌ DB Error: ${error.message}`);
-                    else log(`   ✅ Result: ${streaks.achiever_strike} 🔥 / ${streaks.fighter_strike} ⚔️ (Saved)`);
-
-                } catch (err: any) {
-                    log(`   ❌ Calc Error: ${err.message}`);
-                }
-            }
-        }
-        log('\n✨ REPAIR COMPLETE. Check your main app now!');
-    };
-
     useEffect(() => {
         const runCheck = async () => {
             log(`User: ${user?.id || 'NOT LOGGED IN'}`);
@@ -194,10 +132,10 @@ const DebugPage = () => {
                     </button>
                 </div>
                 <button
-                    onClick={runRepair}
+                    onClick={() => openStreakRecompute()}
                     className="px-4 py-2 bg-green-500 text-white rounded hover:bg-green-600"
                 >
-                    🛠️ Repair Data Chain (Dec 11-16)
+                    🛠️ Recompute Streaks
                 </button>
             </div>
             {logs}
@@ -21,7 +21,14 @@ import {
 import { Button } from '@/components/ui/button';
 import { Calendar } from '@/components/ui/calendar';
 import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
-import { CalendarIcon, Filter, Archive, BarChart3, LineChart, Activity, Maximize2, Minimize2 } from 'lucide-react';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { CalendarIcon, Filter, Archive, BarChart3, LineChart, Activity, Maximize2, Minimize2, Download } from 'lucide-react';
+import { toast } from 'sonner';
 import { DateRange } from 'react-day-picker';
 import {
   fetchAnalyticsData,
@@ -33,6 +40,9 @@ import {
   AnalyticsCategoryType,
   AnalyticsGoal
 } from '@/services/analyticsService';
+import { exportSessionsCsv, exportTasksCsv, csvExportFilename, type CsvExportKind } from '@/services/csvExportService';
+import { exportCalendar, calendarFilename } from '@/services/icalService';
+import { downloadFile } from '@/utils/download';
 import { useAuth } from '@/contexts/AuthContext';
 import { cn } from '@/lib/utils';
 import { useUserPreferences } from '@/contexts/UserPreferencesContext';
@@ -74,6 +84,8 @@ const AnalyticsChart = () => {
   const [selectedIds, setSelectedIds] = useState<number[]>([]); // IDs of selected categories/types
   const [goals, setGoals] = useState<AnalyticsGoal[]>([]);
 
+  const [exporting, setExporting] = useState(false);
+
   const [showArchived, setShowArchived] = useState(() => {
     return localStorage.getItem('analytics_show_archived') === 'true';
   });
@@ -424,6 +436,30 @@ const AnalyticsChart = () => {
     ? "fixed inset-0 z-50 bg-background/95 backdrop-blur-sm p-4 sm:p-6 flex flex-col animate-in fade-in duration-200"
     : "bg-card p-6 rounded-xl border shadow-sm transition-all duration-300";
 
+  const handleExport = async (kind: CsvExportKind | 'calendar') => {
+    if (!user || !dateRange?.from) return;
+    const from = dateRange.from;
+    const to = dateRange.to || dateRange.from;
+
+    setExporting(true);
+    try {
+      if (kind === 'calendar') {
+        const ics = await exportCalendar(user.id, from, to, dayStartHour);
+        downloadFile(ics, calendarFilename(from, to), 'text/calendar;charset=utf-8');
+      } else {
+        const csv = kind === 'sessions'
+          ? await exportSessionsCsv(user.id, from, to)
+          : await exportTasksCsv(user.id, from, to);
+        downloadFile(csv, csvExportFilename(kind, from, to), 'text/csv;charset=utf-8');
+      }
+    } catch (error) {
+      console.error('Export failed', error);
+      toast.error(`Export failed: ${(error as Error).message}`);
+    } finally {
+      setExporting(false);
+    }
+  };
+
   return (
     <motion.div
       initial={{ opacity: 0, y: 10 }}
@@ -474,6 +510,21 @@ const AnalyticsChart = () => {
                 onGoalsUpdated={setGoals}
               />
             </div>
+
+            {/* Export (CSV / iCalendar) */}
+            <DropdownMenu>
+              <DropdownMenuTrigger asChild>
+                <Button variant="outline" className="gap-2 w-full sm:w-auto" disabled={exporting || !dateRange?.from}>
+                  <Download className="h-4 w-4" />
+                  {exporting ? 'Exporting...' : 'Export'}
+                </Button>
+              </DropdownMenuTrigger>
+              <DropdownMenuContent align="end">
+                <DropdownMenuItem onClick={() => handleExport('sessions')}>Sessions (CSV)</DropdownMenuItem>
+                <DropdownMenuItem onClick={() => handleExport('tasks')}>Tasks (CSV)</DropdownMenuItem>
+                <DropdownMenuItem onClick={() => handleExport('calendar')}>Calendar (.ics)</DropdownMenuItem>
+              </DropdownMenuContent>
+            </DropdownMenu>
           </div>
 
           {/* 2. Grouped Toggles: View Mode & Chart Type */}
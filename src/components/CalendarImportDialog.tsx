@@ -0,0 +1,189 @@
+import { useRef, useState } from 'react';
+import { toast } from 'sonner';
+import { CalendarPlus, Upload } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import {
+    Dialog,
+    DialogContent,
+    DialogDescription,
+    DialogFooter,
+    DialogHeader,
+    DialogTitle,
+} from '@/components/ui/dialog';
+import {
+    Select,
+    SelectContent,
+    SelectItem,
+    SelectTrigger,
+    SelectValue,
+} from '@/components/ui/select';
+import { type Category } from '@/lib/db';
+import { useAuth } from '@/contexts/AuthContext';
+import { useUserPreferences } from '@/contexts/UserPreferencesContext';
+import {
+    importCalendarSessions,
+    readCalendarDay,
+    type CalendarImportCandidate
+} from '@/services/icalService';
+import { cn } from '@/lib/utils';
+
+interface CalendarImportDialogProps {
+    open: boolean;
+    onOpenChange: (open: boolean) => void;
+    date: string;
+    categories: Category[];
+    onImported: () => void;
+}
+
+const CalendarImportDialog = ({ open, onOpenChange, date, categories, onImported }: CalendarImportDialogProps) => {
+    const { user } = useAuth();
+    const { dayStartHour } = useUserPreferences();
+    const fileInputRef = useRef<HTMLInputElement>(null);
+
+    const [candidates, setCandidates] = useState<CalendarImportCandidate[] | null>(null);
+    const [selected, setSelected] = useState<Record<string, boolean>>({});
+    const [categoryByKey, setCategoryByKey] = useState<Record<string, string>>({});
+    const [importing, setImporting] = useState(false);
+
+    // Same default as a new session: first work category
+    const fallbackCategory = categories.find(c => c.type === 'work') || categories[0];
+
+    const reset = () => {
+        setCandidates(null);
+        setSelected({});
+        setCategoryByKey({});
+    };
+
+    const handleOpenChange = (next: boolean) => {
+        if (!next) reset();
+        onOpenChange(next);
+    };
+
+    const handleFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+        const file = event.target.files?.[0];
+        event.target.value = '';
+        if (!file || !user) return;
+
+        try {
+            const found = await readCalendarDay(await file.text(), user.id, date, categories, dayStartHour);
+            setCandidates(found);
+            setSelected(Object.fromEntries(found.map(candidate => [candidate.key, !candidate.duplicate])));
+            setCategoryByKey(Object.fromEntries(found.map(candidate => [
+                candidate.key,
+                (candidate.category || fallbackCategory)?.name || ''
+            ])));
+        } catch (error) {
+            console.error('Failed to read calendar file', error);
+            toast.error(`Failed to read calendar: ${(error as Error).message}`);
+        }
+    };
+
+    const handleImport = async () => {
+        if (!user || !candidates) return;
+
+        const selections = candidates
+            .filter(candidate => selected[candidate.key])
+            .map(candidate => ({
+                candidate,
+                category: categories.find(c => c.name === categoryByKey[candidate.key]) || fallbackCategory
+            }))
+            .filter(selection => selection.category);
+        if (selections.length === 0) return;
+
+        setImporting(true);
+        try {
+            const count = await importCalendarSessions(user.id, date, selections);
+            toast.success(`Imported ${count} session${count === 1 ? '' : 's'} from calendar`);
+            onImported();
+            handleOpenChange(false);
+        } catch (error) {
+            console.error('Failed to import calendar events', error);
+            toast.error(`Failed to import: ${(error as Error).message}`);
+        } finally {
+            setImporting(false);
+        }
+    };
+
+    const selectedCount = candidates?.filter(candidate => selected[candidate.key]).length || 0;
+
+    return (
+        <Dialog open={open} onOpenChange={handleOpenChange}>
+            <DialogContent className="max-w-lg">
+                <DialogHeader>
+                    <DialogTitle className="flex items-center gap-2">
+                        <CalendarPlus className="h-5 w-5 text-primary" />
+                        Import from Calendar
+                    </DialogTitle>
+                    <DialogDescription>
+                        Turn the events of {date} in an .ics file (Google Calendar, Outlook) into sessions.
+                    </DialogDescription>
+                </DialogHeader>
+
+                <input
+                    ref={fileInputRef}
+                    type="file"
+                    accept=".ics,text/calendar"
+                    className="hidden"
+                    onChange={handleFile}
+                />
+
+                {!candidates ? (
+                    <Button variant="outline" className="gap-2" onClick={() => fileInputRef.current?.click()}>
+                        <Upload className="h-4 w-4" />
+                        Choose .ics file
+                    </Button>
+                ) : (
+                    <div className="max-h-72 overflow-y-auto custom-scrollbar rounded-md border border-border/50 divide-y divide-border/50">
+                        {candidates.length === 0 && (
+                            <div className="text-center text-sm text-muted-foreground py-4">No timed events on this day.</div>
+                        )}
+                        {candidates.map(candidate => (
+                            <div key={candidate.key} className={cn("flex items-center gap-3 px-3 py-2", !selected[candidate.key] && "opacity-60")}>
+                                <Checkbox
+                                    checked={!!selected[candidate.key]}
+                                    onCheckedChange={checked => setSelected(prev => ({ ...prev, [candidate.key]: checked === true }))}
+                                />
+                                <div className="flex-1 min-w-0">
+                                    <div className="text-sm font-medium truncate">{candidate.event.summary || 'Untitled event'}</div>
+                                    <div className="text-xs text-muted-foreground tabular-nums">
+                                        {candidate.startTime} – {candidate.endTime}
+                                        {candidate.duplicate && ' · already logged'}
+                                    </div>
+                                </div>
+                                <Select
+                                    value={categoryByKey[candidate.key]}
+                                    onValueChange={value => setCategoryByKey(prev => ({ ...prev, [candidate.key]: value }))}
+                                >
+                                    <SelectTrigger className="h-8 w-[140px] text-xs">
+                                        <SelectValue placeholder="Category" />
+                                    </SelectTrigger>
+                                    <SelectContent>
+                                        {categories.map(category => (
+                                            <SelectItem key={category.id} value={category.name}>
+                                                <span className={category.color}>{category.name}</span>
+                                            </SelectItem>
+                                        ))}
+                                    </SelectContent>
+                                </Select>
+                            </div>
+                        ))}
+                    </div>
+                )}
+
+                <DialogFooter>
+                    {candidates && (
+                        <Button variant="ghost" onClick={() => fileInputRef.current?.click()} disabled={importing}>
+                            Other file
+                        </Button>
+                    )}
+                    <Button onClick={handleImport} disabled={importing || selectedCount === 0}>
+                        {importing ? 'Importing...' : selectedCount > 0 ? `Import ${selectedCount} session${selectedCount === 1 ? '' : 's'}` : 'Import'}
+                    </Button>
+                </DialogFooter>
+            </DialogContent>
+        </Dialog>
+    );
+};
+
+export default CalendarImportDialog;
@@ -0,0 +1,124 @@
+import { useState } from 'react';
+import { toast } from 'sonner';
+import { ArrowRightFromLine } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import {
+    Dialog,
+    DialogContent,
+    DialogDescription,
+    DialogFooter,
+    DialogHeader,
+    DialogTitle,
+} from '@/components/ui/dialog';
+import {
+    Select,
+    SelectContent,
+    SelectItem,
+    SelectTrigger,
+    SelectValue,
+} from '@/components/ui/select';
+import { useAuth } from '@/contexts/AuthContext';
+import {
+    carryOverTasks,
+    loadCarryOverSettings,
+    nextDate,
+    saveCarryOverSettings,
+    type CarryOverMode,
+    type CarryOverSettings
+} from '@/services/carryOverService';
+import { formatDateForDisplay } from '@/utils/dateUtils';
+
+interface CarryOverDialogProps {
+    open: boolean;
+    onOpenChange: (open: boolean) => void;
+    date: string; // Day whose unfinished tasks are carried to the next one
+    onCarried: () => void;
+}
+
+const CarryOverDialog = ({ open, onOpenChange, date, onCarried }: CarryOverDialogProps) => {
+    const { user } = useAuth();
+    const [settings, setSettings] = useState<CarryOverSettings>(loadCarryOverSettings);
+    const [running, setRunning] = useState(false);
+    const target = nextDate(date);
+
+    const updateSettings = (updates: Partial<CarryOverSettings>) => {
+        const next = { ...settings, ...updates };
+        setSettings(next);
+        saveCarryOverSettings(next);
+    };
+
+    const handleRun = async () => {
+        if (!user) return;
+        setRunning(true);
+        try {
+            const { carried, skipped } = await carryOverTasks(user.id, date, target, settings.mode);
+            if (carried.length === 0) {
+                toast.info(skipped > 0 ? 'Unfinished tasks have no time left to carry' : 'Nothing to carry over');
+            } else {
+                toast.success(`Carried ${carried.length} task${carried.length === 1 ? '' : 's'} to ${formatDateForDisplay(target)}`);
+            }
+            onCarried();
+            onOpenChange(false);
+        } catch (error) {
+            console.error('Carry-over failed:', error);
+            toast.error(`Carry-over failed: ${(error as Error).message}`);
+        } finally {
+            setRunning(false);
+        }
+    };
+
+    return (
+        <Dialog open={open} onOpenChange={onOpenChange}>
+            <DialogContent className="max-w-md">
+                <DialogHeader>
+                    <DialogTitle className="flex items-center gap-2">
+                        <ArrowRightFromLine className="h-5 w-5 text-primary" />
+                        Carry Over Unfinished Tasks
+                    </DialogTitle>
+                    <DialogDescription>
+                        Tasks of {formatDateForDisplay(date)} below 100% go to {formatDateForDisplay(target)} with
+                        the time they still need.
+                    </DialogDescription>
+                </DialogHeader>
+
+                <div className="space-y-4">
+                    <div className="space-y-1.5">
+                        <Label>Mode</Label>
+                        <Select value={settings.mode} onValueChange={(mode) => updateSettings({ mode: mode as CarryOverMode })}>
+                            <SelectTrigger>
+                                <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                                <SelectItem value="copy">Copy: keep the task on its day</SelectItem>
+                                <SelectItem value="move">Move: take the task off its day</SelectItem>
+                            </SelectContent>
+                        </Select>
+                        <p className="text-xs text-muted-foreground">
+                            Template tasks are always copied, so their streaks keep one task per day.
+                        </p>
+                    </div>
+                    <div className="flex items-center justify-between gap-4">
+                        <Label htmlFor="carry-over-automatic" className="text-sm font-normal">
+                            Carry yesterday's tasks over automatically when a new day starts
+                        </Label>
+                        <Switch
+                            id="carry-over-automatic"
+                            checked={settings.automatic}
+                            onCheckedChange={(automatic) => updateSettings({ automatic })}
+                        />
+                    </div>
+                </div>
+
+                <DialogFooter>
+                    <Button onClick={handleRun} disabled={running || !user}>
+                        Carry over now
+                    </Button>
+                </DialogFooter>
+            </DialogContent>
+        </Dialog>
+    );
+};
+
+export default CarryOverDialog;
@@ -1,7 +1,9 @@
 import { useState, useMemo, useEffect, useCallback } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
+import { toast } from 'sonner';
 import { PieChart, Pie, Cell, ResponsiveContainer, Tooltip } from 'recharts';
-import { supabase } from '@/lib/supabase';
+import { repositories } from '@/repositories';
+import { duplicateSession, mergeSessions, resizeSession, splitSession } from '@/services/sessionFixService';
 import { useAuth } from '@/contexts/AuthContext';
 import { Card } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
@@ -9,6 +11,10 @@ import { generateChartData, generateTimelineSlices, formatMinutesToHours, type V
 import { cn } from '@/lib/utils';
 import { getDateString, Session, Task, Category } from '@/lib/db';
 import { TimelineView } from './Timeline/TimelineView';
+import SessionIssues from './SessionIssues';
+import PlanVsActual from './PlanVsActual';
+import { describeDrift, getPlanDrift, type PlannedBlock } from '@/utils/planDrift';
+import { getCurrentTime, getLogicalDateString } from '@/utils/dateUtils';
 import { LayoutList, PieChart as PieChartIcon } from 'lucide-react';
 
 interface DailyBreakdownProps {
@@ -62,30 +68,16 @@ const DailyBreakdown = ({ selectedDate, wakeUpTime, bedTime, previousBedTime, da
 
         try {
             // 1. Fetch Sessions
-            const { data: sessionsData } = await supabase
-                .from('sessions')
-                .select('*')
-                .eq('date', dateString)
-                .eq('user_id', user.id);
+            const sessionsData = await repositories.sessions.list({ where: { date: dateString, user_id: user.id } });
 
             // 2. Fetch Tasks (for naming)
-            const { data: tasksData } = await supabase
-                .from('tasks')
-                .select('*')
-                .eq('date', dateString)
-                .eq('user_id', user.id);
+            const tasksData = await repositories.tasks.list({ where: { date: dateString, user_id: user.id } });
 
             // 3. Fetch Categories (Execution)
-            const { data: categoriesData } = await supabase
-                .from('categories')
-                .select('*')
-                .eq('user_id', user.id);
+            const categoriesData = await repositories.categories.list({ where: { user_id: user.id } });
 
             // 4. Fetch Category Types (Main Types for Colors)
-            const { data: typesData } = await supabase
-                .from('category_types')
-                .select('*')
-                .eq('user_id', user.id);
+            const typesData = await repositories.category_types.list({ where: { user_id: user.id } });
 
             if (sessionsData) {
                 setSessions(sessionsData.map(s => ({
@@ -110,6 +102,8 @@ const DailyBreakdown = ({ selectedDate, wakeUpTime, bedTime, previousBedTime, da
             if (tasksData) setTasks(tasksData.map(t => ({
                 ...t,
                 targetTime: t.target_time,
+                plannedStart: t.planned_start,
+                plannedEnd: t.planned_end,
                 createdAt: new Date(t.created_at),
                 updatedAt: new Date(t.updated_at)
             })) as Task[]);
@@ -136,33 +130,15 @@ const DailyBreakdown = ({ selectedDate, wakeUpTime, bedTime, previousBedTime, da
     useEffect(() => {
         if (!user) return;
 
-        // Unique channel per user/date context to avoid collisions if multiple tabs open
-        const channelName = `daily-breakdown-${user.id}-${dateString}`;
-
-        const channel = supabase.channel(channelName)
-            .on(
-                'postgres_changes',
-                {
-                    event: '*',
-                    schema: 'public',
-                    table: 'sessions',
-                    // REMOVED FILTER: Explicit date filter might be failing if date formats mismatch or RLS weirdness.
-                    // We listen to ALL session changes for this user (RLS handles user filter) and filter client-side.
-                },
-                (payload: any) => {
-                    // 🛡️ Aggressive Refresh Strategy
-                    // Since default RLS policies prevent REPLICA IDENTITY FULL (no old.date on DELETE),
-                    // and we only receive events for THIS user (RLS),
-                    // we safer to refresh on ANY change to the sessions table.
-                    console.log('🔄 Realtime update caught:', payload.eventType);
-                    fetchData(true);
-                }
-            )
-            .subscribe();
-
-        return () => {
-            supabase.removeChannel(channel);
-        };
+        // NO DATE FILTER: Explicit date filter might be failing if date formats mismatch or RLS weirdness.
+        // 🛡️ Aggressive Refresh Strategy
+        // Since default RLS policies prevent REPLICA IDENTITY FULL (no old.date on DELETE),
+        // and we only receive events for THIS user (RLS),
+        // we safer to refresh on ANY change to the sessions table.
+        return repositories.sessions.subscribe(() => {
+            console.log('🔄 Sessions changed, refreshing breakdown');
+            fetchData(true);
+        });
     }, [dateString, user, fetchData]);
 
 
@@ -333,19 +309,64 @@ const DailyBreakdown = ({ selectedDate, wakeUpTime, bedTime, previousBedTime, da
         }
     }, [logs, selectedDate, wakeUpTime, bedTime, viewMode, categoryColors, categoryTypeMap, dayStartHour]);
 
+    // 🔥 Time-blocked plan vs the sessions logged on each task
+    const planDrifts = useMemo(() => {
+        const blocks: PlannedBlock[] = tasks
+            .filter(t => t.id && t.plannedStart && t.plannedEnd && !t.isDeleted)
+            .map(t => ({ taskId: t.id!, name: t.name, start: t.plannedStart!, end: t.plannedEnd! }));
+        if (blocks.length === 0) return [];
+
+        return getPlanDrift(blocks, sessions, {
+            dayStartHour,
+            // Today: open sessions run until now and later blocks are not missed yet
+            now: dateString === getLogicalDateString(new Date(), dayStartHour) ? getCurrentTime() : undefined
+        });
+    }, [tasks, sessions, dayStartHour, dateString]);
+
+    const plannedBlocks = useMemo(() => planDrifts.map(drift => {
+        const task = tasks.find(t => t.id === drift.block.taskId);
+        const category = sessions.find(s => s.taskId === drift.block.taskId)?.category;
+        return {
+            name: drift.block.name || task?.name || 'Untitled task',
+            start: drift.block.start,
+            end: drift.block.end,
+            fill: category ? categoryColors[category] : undefined,
+            detail: describeDrift(drift)
+        };
+    }), [planDrifts, tasks, sessions, categoryColors]);
+
     // Calculate total tracked time
     const totalTrackedMinutes = useMemo(() => {
         return chartData
             .reduce((sum, slice) => sum + slice.value, 0);
     }, [chartData]);
 
+    // Archived categories stay in the colour map but are not offered for new sessions
+    const activeCategories = useMemo(
+        () => categories.filter(c => (c as Category & { is_active?: boolean }).is_active !== false),
+        [categories]
+    );
+
     const handleUpdateRichContent = async (id: number, content: string) => {
         setSessions(prev => prev.map(s => s.id === id ? { ...s, richContent: content } : s));
-        const { error } = await supabase
-            .from('sessions')
-            .update({ rich_content: content })
-            .eq('id', id);
-        if (error) console.error("Failed to save rich content:", error);
+        try {
+            await repositories.sessions.update(id, { rich_content: content });
+        } catch (error) {
+            console.error("Failed to save rich content:", error);
+        }
+    };
+
+    // Timeline restructuring: write back, then reload silently
+    const restructure = async (action: () => Promise<unknown>, message: string) => {
+        try {
+            await action();
+            toast.success(message);
+            await fetchData(true);
+        } catch (error) {
+            console.error('Failed to update sessions:', error);
+            toast.error(`Could not update sessions: ${(error as Error).message}`);
+            throw error;
+        }
     };
 
     // Custom tooltip
@@ -458,10 +479,25 @@ const DailyBreakdown = ({ selectedDate, wakeUpTime, bedTime, previousBedTime, da
                             exit={{ opacity: 0, x: -20 }}
                             transition={{ duration: 0.3 }}
                         >
+                            <SessionIssues
+                                sessions={sessions}
+                                date={dateString}
+                                dayStartHour={dayStartHour}
+                                categories={activeCategories}
+                                wakeUpTime={wakeUpTime}
+                                bedTime={bedTime}
+                                onFixed={() => fetchData(true)}
+                                className="mb-4"
+                            />
                             <TimelineView
                                 slices={timelineSlices}
                                 onUpdateSession={handleUpdateRichContent}
                                 dayStartHour={dayStartHour}
+                                onSplitSession={(id, at) => restructure(() => splitSession(id, at, dayStartHour), `Session split at ${at}`)}
+                                onMergeSessions={(firstId, secondId) => restructure(() => mergeSessions(firstId, secondId, dayStartHour), 'Sessions merged')}
+                                onDuplicateSession={(id, date) => restructure(() => duplicateSession(id, date), `Session copied to ${date}`)}
+                                onResizeSession={(id, start, end) => restructure(() => resizeSession(id, start, end), `Session now ${start}–${end}`)}
+                                plannedBlocks={plannedBlocks}
                             />
                         </motion.div>
                     ) : (
@@ -548,6 +584,8 @@ const DailyBreakdown = ({ selectedDate, wakeUpTime, bedTime, previousBedTime, da
                     )}
                 </AnimatePresence>
             </Card>
+
+            <PlanVsActual drifts={planDrifts} />
         </motion.div>
     );
 };
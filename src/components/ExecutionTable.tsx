@@ -1,18 +1,24 @@
 import { useState, useEffect } from 'react';
-import { Plus, Trash2, Settings, ArrowUp, ArrowDown, ArrowUpDown, Paperclip, ArrowRight, List, Rows3 } from 'lucide-react';
+import { Plus, Trash2, Settings, CalendarPlus, ArrowUp, ArrowDown, ArrowUpDown, Paperclip, ArrowRight, List, Rows3 } from 'lucide-react';
 import { motion, AnimatePresence } from 'framer-motion';
 // CLOUD-ONLY MODE
 import { type Session, type Task, formatDuration, calculateDuration, getDateString, type Category } from '@/lib/db';
-import { supabase } from '@/lib/supabase';
+import { repositories } from '@/repositories';
+import { getCurrentTime } from '@/utils/dateUtils';
 import { useAuth } from '@/contexts/AuthContext';
-import { calculateStreakForTask } from '@/lib/streakCalculator'; // 🔥 FIX
+import { recalculateTaskProgress } from '@/services/taskProgressService';
 import { Input } from '@/components/ui/input';
 import { Textarea } from '@/components/ui/textarea';
 import { Button } from '@/components/ui/button';
 import { PeriodSidebar } from '@/features/periods/PeriodSidebar'; // Import Sidebar
 import TimePicker from './TimePicker';
+import SessionTimer from './SessionTimer';
+import FocusMode from './FocusMode';
 import TaskComboBox from './TaskComboBox';
 import { SettingsDialog } from './SettingsDialog';
+import CalendarImportDialog from './CalendarImportDialog';
+import SessionIssues from './SessionIssues';
+import QuickLogBar from './QuickLogBar';
 import {
   Select,
   SelectContent,
@@ -51,6 +57,14 @@ const DescriptionInput = ({ sessionId, initialDescription, selectedDate, onUpdat
   );
 };
 
+// End cell of a session that a live timer is still recording
+const RunningBadge = () => (
+  <span className="inline-flex h-8 items-center gap-1.5 px-2 text-xs font-medium text-primary">
+    <span className="h-2 w-2 rounded-full bg-primary animate-pulse" />
+    Running
+  </span>
+);
+
 interface ExecutionTableProps {
   selectedDate: Date;
   wakeUpTime?: string;
@@ -59,6 +73,7 @@ interface ExecutionTableProps {
 const ExecutionTable = ({ selectedDate, wakeUpTime }: ExecutionTableProps) => {
   const dateString = getDateString(selectedDate);
   const [settingsOpen, setSettingsOpen] = useState(false);
+  const [calendarImportOpen, setCalendarImportOpen] = useState(false);
   const { user } = useAuth();
   const isMobile = useIsMobile();
 
@@ -82,6 +97,7 @@ const ExecutionTable = ({ selectedDate, wakeUpTime }: ExecutionTableProps) => {
   // 🔥 FIX: Track session IDs to prevent duplicates
   const [sessionIds, setSessionIds] = useState<Map<number, string>>(new Map());
   const [refreshTasksTrigger, setRefreshTasksTrigger] = useState(0); // Trigger for re-fetching tasks
+  const [refreshSessionsTrigger, setRefreshSessionsTrigger] = useState(0); // Trigger for re-fetching sessions (calendar import)
 
   // Fetch sessions from Supabase
   useEffect(() => {
@@ -91,13 +107,8 @@ const ExecutionTable = ({ selectedDate, wakeUpTime }: ExecutionTableProps) => {
         return;
       }
 
-      const { data, error } = await supabase
-        .from('sessions')
-        .select('*')
-        .eq('date', dateString)
-        .eq('user_id', user.id);
-
-      if (!error && data) {
+      try {
+        const data = await repositories.sessions.list({ where: { date: dateString, user_id: user.id } });
         const sessionsConverted = data.map(s => ({
           id: s.id,
           date: s.date,
@@ -111,30 +122,32 @@ const ExecutionTable = ({ selectedDate, wakeUpTime }: ExecutionTableProps) => {
           richContent: s.rich_content || ''
         }));
         setSessions(sessionsConverted);
+      } catch (error) {
+        console.error('Error fetching sessions:', error);
       }
       setLoading(false);
     };
     fetchSessions();
-  }, [dateString, user]);
+  }, [dateString, user, refreshSessionsTrigger]);
 
   // Fetch tasks
   useEffect(() => {
     const fetchTasks = async () => {
       if (!user) return;
 
-      const { data } = await supabase
-        .from('tasks')
-        .select('*')
-        .eq('date', dateString)
-        .eq('user_id', user.id);
-
-      if (data) {
-        setTasks(data.map(t => ({
-          id: t.id,
-          name: t.name,
-          targetTime: t.target_time,
-          templateId: t.template_id // 🔥 NEW: Needed for streak calculation
-        })));
+      try {
+        const data = await repositories.tasks.list({ where: { date: dateString, user_id: user.id } });
+
+        if (data) {
+          setTasks(data.map(t => ({
+            id: t.id,
+            name: t.name,
+            targetTime: t.target_time,
+            templateId: t.template_id // 🔥 NEW: Needed for streak calculation
+          })));
+        }
+      } catch (error) {
+        console.error('Error fetching tasks:', error);
       }
     };
     fetchTasks();
@@ -144,14 +157,16 @@ const ExecutionTable = ({ selectedDate, wakeUpTime }: ExecutionTableProps) => {
   useEffect(() => {
     const fetchCategories = async () => {
       if (!user) return;
-      const { data } = await supabase
-        .from('categories')
-        .select('*')
-        .eq('user_id', user.id)
-        .eq('is_active', true) // 🔥 FIX: Hide archived categories
-        .order('order', { ascending: true });
-
-      if (data) setCategories(data as Category[]);
+      try {
+        const data = await repositories.categories.list({
+          where: { user_id: user.id, is_active: true }, // 🔥 FIX: Hide archived categories
+          orderBy: 'order'
+        });
+
+        if (data) setCategories(data as Category[]);
+      } catch (error) {
+        console.error('Error fetching categories:', error);
+      }
     };
     fetchCategories();
   }, [user, settingsOpen]); // Refetch when settings closes
@@ -164,51 +179,12 @@ const ExecutionTable = ({ selectedDate, wakeUpTime }: ExecutionTableProps) => {
   const updateTaskProgress = async (taskId: string) => {
     if (!taskId || !user) return;
 
-    // 1. Calculate total duration from ALL sessions for this task
-    // Better: Fetch fresh sessions to ensure accuracy before writing to 'tasks'
-    const { data: taskSessions } = await supabase
-      .from('sessions')
-      .select('start_time, end_time')
-      .eq('task_id', taskId)
-      .eq('date', dateString)
-      .eq('user_id', user.id);
-
-    if (!taskSessions) return;
-
-    const totalMinutes = taskSessions.reduce((sum, s) => sum + calculateDuration(s.start_time, s.end_time), 0);
-
-    // 2. Get Task details (Target Time & Template ID)
-    const task = tasks.find(t => t.id === taskId);
-    if (!task) return;
-
-    const progressPercent = task.targetTime > 0
-      ? Math.round((totalMinutes / task.targetTime) * 100)
-      : 0;
-
-    console.log(`♻️ Syncing Task ${taskId}: ${totalMinutes}m / ${task.targetTime}m = ${progressPercent}%`);
-
-    // 3. Calculate Streak (Client-Side)
-    const streaks = await calculateStreakForTask(
-      user.id,
-      task.templateId,
-      dateString,
-      progressPercent,
-      task.name
-    );
-
-    // 4. Update Task in DB
-    const { error } = await supabase
-      .from('tasks')
-      .update({
-        progress: progressPercent,
-        achiever_strike: streaks.achiever_strike,
-        fighter_strike: streaks.fighter_strike,
-        updated_at: new Date().toISOString()
-      })
-      .eq('id', taskId);
-
-    if (error) console.error('Error updating task progress:', error);
-    else console.log(`✅ Task Updated: ${streaks.achiever_strike} 🔥 / ${streaks.fighter_strike} ⚔️`);
+    try {
+      const updated = await recalculateTaskProgress(user.id, taskId);
+      if (updated) console.log(`✅ Task Updated: ${updated.achiever_strike} 🔥 / ${updated.fighter_strike} ⚔️`);
+    } catch (error) {
+      console.error('Error updating task progress:', error);
+    }
   };
 
   // 🔥 FIX: Time Overlap Validation Helper
@@ -219,15 +195,16 @@ const ExecutionTable = ({ selectedDate, wakeUpTime }: ExecutionTableProps) => {
       return h * 60 + m;
     };
 
+    // A running session (no end yet) lasts until now
     const startM = toMinutes(start);
-    const endM = toMinutes(end);
+    const endM = toMinutes(end || getCurrentTime());
 
     // Filter out the current session being edited
     const otherSessions = sessions.filter(s => s.id !== currentSessionId);
 
     return otherSessions.some(s => {
       const sStart = toMinutes(s.startTime);
-      const sEnd = toMinutes(s.endTime);
+      const sEnd = toMinutes(s.endTime || getCurrentTime());
 
       // Overlap logic: (StartA < EndB) && (EndA > StartB)
       return (startM < sEnd) && (endM > sStart);
@@ -241,12 +218,11 @@ const ExecutionTable = ({ selectedDate, wakeUpTime }: ExecutionTableProps) => {
       return;
     }
 
-    // Get current time in HH:mm format
-    const now = new Date();
-    const currentHHMM = `${String(now.getHours()).padStart(2, '0')}:${String(now.getMinutes()).padStart(2, '0')}`;
+    // Get current time in HH:mm format (user's timezone)
+    const currentHHMM = getCurrentTime();
 
     // Get last session to auto-fill start time
-    const sortedByEnd = [...sessions].sort((a, b) => {
+    const sortedByEnd = sessions.filter(s => s.endTime).sort((a, b) => {
       const endA = a.endTime.split(':').map(Number);
       const endB = b.endTime.split(':').map(Number);
       return (endA[0] * 60 + endA[1]) - (endB[0] * 60 + endB[1]);
@@ -293,16 +269,16 @@ const ExecutionTable = ({ selectedDate, wakeUpTime }: ExecutionTableProps) => {
       created_at: new Date().toISOString()
     };
 
-    const { data: insertedData, error } = await supabase
-      .from('sessions')
-      .insert(newSession)
-      .select()
-      .single();
-
-    if (error) {
+    let insertedData;
+    try {
+      insertedData = await repositories.sessions.insert(newSession);
+    } catch (error) {
       console.error('Error adding session:', error);
-      alert('Failed to add session: ' + error.message);
-    } else if (insertedData) {
+      alert('Failed to add session: ' + (error as Error).message);
+      return;
+    }
+
+    if (insertedData) {
       // Add to UI immediately with the returned ID
       setSessions(prev => [...prev, {
         id: insertedData.id,
@@ -354,31 +330,28 @@ const ExecutionTable = ({ selectedDate, wakeUpTime }: ExecutionTableProps) => {
     if (updates.endTime !== undefined) supabaseUpdates.end_time = updates.endTime;
     if (updates.description !== undefined) supabaseUpdates.description = updates.description;
 
-    const { error } = await supabase
-      .from('sessions')
-      .update(supabaseUpdates)
-      .eq('id', id)
-      .eq('user_id', user.id);
-
-    if (error) {
+    try {
+      await repositories.sessions.updateWhere({ id, user_id: user.id }, supabaseUpdates);
+    } catch (error) {
       console.error('Error updating session:', error);
-    } else {
-      // Optimistic update
-      setSessions(prev =>
-        prev.map(s =>
-          s.id === id ? { ...s, ...updates } : s
-        )
-      );
-
-      // 🔥 UPDATE STREAKS
-      const newTaskId = updates.taskId !== undefined ? updates.taskId : oldTaskId;
-
-      if (oldTaskId && oldTaskId !== newTaskId) {
-        await updateTaskProgress(oldTaskId);
-      }
-      if (newTaskId) {
-        setTimeout(() => updateTaskProgress(newTaskId), 500);
-      }
+      return;
+    }
+
+    // Optimistic update
+    setSessions(prev =>
+      prev.map(s =>
+        s.id === id ? { ...s, ...updates } : s
+      )
+    );
+
+    // 🔥 UPDATE STREAKS
+    const newTaskId = updates.taskId !== undefined ? updates.taskId : oldTaskId;
+
+    if (oldTaskId && oldTaskId !== newTaskId) {
+      await updateTaskProgress(oldTaskId);
+    }
+    if (newTaskId) {
+      setTimeout(() => updateTaskProgress(newTaskId), 500);
     }
   };
 
@@ -388,22 +361,19 @@ const ExecutionTable = ({ selectedDate, wakeUpTime }: ExecutionTableProps) => {
 
     const session = sessions.find(s => s.id === id); // Get task ID before delete
 
-    const { error } = await supabase
-      .from('sessions')
-      .delete()
-      .eq('id', id)
-      .eq('user_id', user.id);
-
-    if (error) {
+    try {
+      await repositories.sessions.removeWhere({ id, user_id: user.id });
+    } catch (error) {
       console.error('Error deleting session:', error);
-    } else {
-      // Remove from UI
-      setSessions(prev => prev.filter(s => s.id !== id));
+      return;
+    }
 
-      // Update Task
-      if (session?.taskId) {
-        setTimeout(() => updateTaskProgress(session.taskId), 500);
-      }
+    // Remove from UI
+    setSessions(prev => prev.filter(s => s.id !== id));
+
+    // Update Task
+    if (session?.taskId) {
+      setTimeout(() => updateTaskProgress(session.taskId), 500);
     }
   };
 
@@ -443,15 +413,11 @@ const ExecutionTable = ({ selectedDate, wakeUpTime }: ExecutionTableProps) => {
   };
 
   const handleUpdateRichContent = async (id: number, content: string) => {
-    const { error } = await supabase
-      .from('sessions')
-      .update({ rich_content: content })
-      .eq('id', id);
-
-    if (error) {
-      console.error("Failed to update rich content:", error);
-    } else {
+    try {
+      await repositories.sessions.update(id, { rich_content: content });
       setSessions(prev => prev.map(s => s.id === id ? { ...s, richContent: content } : s));
+    } catch (error) {
+      console.error("Failed to update rich content:", error);
     }
   };
 
@@ -464,15 +430,41 @@ const ExecutionTable = ({ selectedDate, wakeUpTime }: ExecutionTableProps) => {
     >
       <div className="flex justify-between items-center px-4 py-3 border-b border-border">
         <h2 className="text-lg font-semibold tracking-tight">Daily Execution</h2>
-        <Button
-          variant="ghost"
-          size="icon"
-          onClick={() => setSettingsOpen(true)}
-          title="Settings"
-          className="h-8 w-8 text-muted-foreground hover:text-foreground"
-        >
-          <Settings className="h-4 w-4" />
-        </Button>
+        <div className="flex items-center gap-1">
+          <FocusMode
+            tasks={tasks}
+            date={dateString}
+            onBlocksRecorded={() => {
+              setRefreshSessionsTrigger(prev => prev + 1);
+              setRefreshTasksTrigger(prev => prev + 1);
+            }}
+          />
+          <SessionTimer
+            categories={categories}
+            onSessionsChanged={(closed) => {
+              setRefreshSessionsTrigger(prev => prev + 1);
+              closed.forEach(session => session.task_id && updateTaskProgress(session.task_id));
+            }}
+          />
+          <Button
+            variant="ghost"
+            size="icon"
+            onClick={() => setCalendarImportOpen(true)}
+            title="Import from calendar"
+            className="h-8 w-8 text-muted-foreground hover:text-foreground"
+          >
+            <CalendarPlus className="h-4 w-4" />
+          </Button>
+          <Button
+            variant="ghost"
+            size="icon"
+            onClick={() => setSettingsOpen(true)}
+            title="Settings"
+            className="h-8 w-8 text-muted-foreground hover:text-foreground"
+          >
+            <Settings className="h-4 w-4" />
+          </Button>
+        </div>
       </div>
 
       {/* Period Goals Sidebar */}
@@ -499,6 +491,33 @@ const ExecutionTable = ({ selectedDate, wakeUpTime }: ExecutionTableProps) => {
         </Button>
       </motion.div>
 
+      {/* Quick log: one line of text instead of the fields */}
+      <div className="px-3 py-2 border-b border-border">
+        <QuickLogBar
+          date={dateString}
+          categories={categories}
+          onLogged={(session) => {
+            if (session.date !== dateString) return;
+            setRefreshSessionsTrigger(prev => prev + 1);
+            if (session.task_id) setRefreshTasksTrigger(prev => prev + 1);
+          }}
+        />
+      </div>
+
+      {/* Overlaps, boundary crossings and gaps with one-click fixes */}
+      <SessionIssues
+        sessions={sessions}
+        date={dateString}
+        dayStartHour={dayStartHour}
+        categories={categories}
+        wakeUpTime={wakeUpTime}
+        onFixed={() => {
+          setRefreshSessionsTrigger(prev => prev + 1);
+          setRefreshTasksTrigger(prev => prev + 1);
+        }}
+        className="mx-3 mt-3"
+      />
+
       {/* Table Content */}
       <div className="flex-1 overflow-auto custom-scrollbar relative">
 
@@ -615,12 +634,16 @@ const ExecutionTable = ({ selectedDate, wakeUpTime }: ExecutionTableProps) => {
                       </div>
                       <div className="flex-1 min-w-0">
                         <label className="text-[10px] text-muted-foreground uppercase tracking-wide font-semibold block mb-0.5 ml-1">End</label>
-                        <TimePicker
-                          value={session.endTime}
-                          onChange={(time) => updateSession(session.id!, { endTime: time })}
-                          placeholder="End"
-                          className={cn("h-8 text-sm", isOverlapping && "text-destructive border-destructive/50")}
-                        />
+                        {session.endTime ? (
+                          <TimePicker
+                            value={session.endTime}
+                            onChange={(time) => updateSession(session.id!, { endTime: time })}
+                            placeholder="End"
+                            className={cn("h-8 text-sm", isOverlapping && "text-destructive border-destructive/50")}
+                          />
+                        ) : (
+                          <RunningBadge />
+                        )}
                       </div>
                     </div>
 
@@ -765,12 +788,16 @@ const ExecutionTable = ({ selectedDate, wakeUpTime }: ExecutionTableProps) => {
                       {/* End Time */}
                       <td className="min-w-[120px] px-4 py-3">
                         <div className={cn("flex justify-center transition-colors", isOverlapping && "text-destructive")}>
-                          <TimePicker
-                            value={session.endTime}
-                            onChange={(time) => updateSession(session.id!, { endTime: time })}
-                            placeholder="End"
-                            className={cn(isOverlapping && "text-destructive border-destructive/50 ring-destructive/30")}
-                          />
+                          {session.endTime ? (
+                            <TimePicker
+                              value={session.endTime}
+                              onChange={(time) => updateSession(session.id!, { endTime: time })}
+                              placeholder="End"
+                              className={cn(isOverlapping && "text-destructive border-destructive/50 ring-destructive/30")}
+                            />
+                          ) : (
+                            <RunningBadge />
+                          )}
                         </div>
                       </td>
 
@@ -828,6 +855,14 @@ const ExecutionTable = ({ selectedDate, wakeUpTime }: ExecutionTableProps) => {
           <SettingsDialog open={settingsOpen} onOpenChange={setSettingsOpen} />
         )}
       </AnimatePresence>
+
+      <CalendarImportDialog
+        open={calendarImportOpen}
+        onOpenChange={setCalendarImportOpen}
+        date={dateString}
+        categories={categories}
+        onImported={() => setRefreshSessionsTrigger(prev => prev + 1)}
+      />
     </motion.div>
   );
 };
@@ -0,0 +1,211 @@
+import { useState } from 'react';
+import { toast } from 'sonner';
+import { Brain, SkipForward, Square } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+    Dialog,
+    DialogContent,
+    DialogDescription,
+    DialogFooter,
+    DialogHeader,
+    DialogTitle,
+} from '@/components/ui/dialog';
+import {
+    Select,
+    SelectContent,
+    SelectItem,
+    SelectTrigger,
+    SelectValue,
+} from '@/components/ui/select';
+import { formatDuration } from '@/lib/db';
+import { type Row } from '@/repositories';
+import { useAuth } from '@/contexts/AuthContext';
+import { useFocusMode } from '@/hooks/useFocusMode';
+import {
+    loadFocusSettings,
+    skipFocusPhase,
+    startFocus,
+    stopFocus,
+    type FocusSettings
+} from '@/services/focusService';
+import { formatElapsed } from '@/services/sessionTimerService';
+import { cn } from '@/lib/utils';
+
+interface FocusModeProps {
+    tasks: { id: string; name: string; targetTime: number }[];
+    date: string;
+    onBlocksRecorded: (sessions: Row[]) => void;
+}
+
+const PHASE_LABELS = {
+    work: 'Focus',
+    short_break: 'Short break',
+    long_break: 'Long break'
+};
+
+const SETTING_FIELDS: { key: keyof FocusSettings; label: string }[] = [
+    { key: 'workMinutes', label: 'Focus (min)' },
+    { key: 'shortBreakMinutes', label: 'Short break (min)' },
+    { key: 'longBreakMinutes', label: 'Long break (min)' },
+    { key: 'blocksBeforeLongBreak', label: 'Blocks before long break' }
+];
+
+const FocusMode = ({ tasks, date, onBlocksRecorded }: FocusModeProps) => {
+    const { user } = useAuth();
+    const { state, remainingMs } = useFocusMode(onBlocksRecorded);
+    const [open, setOpen] = useState(false);
+    const [taskId, setTaskId] = useState('');
+    const [settings, setSettings] = useState<FocusSettings>(loadFocusSettings);
+    const [busy, setBusy] = useState(false);
+
+    const run = async (action: () => Promise<unknown>) => {
+        setBusy(true);
+        try {
+            await action();
+        } catch (error) {
+            console.error('Focus mode failed:', error);
+            toast.error(`Focus mode: ${(error as Error).message}`);
+        } finally {
+            setBusy(false);
+        }
+    };
+
+    const handleStart = () => run(async () => {
+        const task = tasks.find(t => String(t.id) === taskId);
+        if (!task) return;
+        if ('Notification' in window && Notification.permission === 'default') {
+            Notification.requestPermission().catch(() => undefined);
+        }
+        await startFocus({ id: task.id, name: task.name, date }, settings);
+    });
+
+    const handleSkip = () => run(async () => {
+        if (!user) return;
+        const result = await skipFocusPhase(user.id);
+        if (result?.recorded.length) onBlocksRecorded(result.recorded);
+    });
+
+    const handleStop = () => run(async () => {
+        if (!user) return;
+        const recorded = await stopFocus(user.id);
+        if (recorded.length > 0) onBlocksRecorded(recorded);
+        setOpen(false);
+    });
+
+    const updateSetting = (key: keyof FocusSettings, value: string) => {
+        const number = Math.max(1, Math.round(Number(value) || 1));
+        setSettings(prev => ({ ...prev, [key]: number }));
+    };
+
+    const remaining = formatElapsed(remainingMs).replace(/^0:/, '');
+
+    return (
+        <>
+            <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => setOpen(true)}
+                title="Focus mode"
+                className={cn(
+                    "h-8 gap-1.5",
+                    state ? (state.phase === 'work' ? "text-primary" : "text-success") : "text-muted-foreground hover:text-foreground"
+                )}
+            >
+                <Brain className="h-4 w-4" />
+                {state ? (
+                    <span className="font-mono text-sm tabular-nums">{remaining}</span>
+                ) : (
+                    <span className="hidden sm:inline">Focus</span>
+                )}
+            </Button>
+
+            <Dialog open={open} onOpenChange={setOpen}>
+                <DialogContent className="max-w-md">
+                    <DialogHeader>
+                        <DialogTitle className="flex items-center gap-2">
+                            <Brain className="h-5 w-5 text-primary" />
+                            Focus Mode
+                        </DialogTitle>
+                        <DialogDescription>
+                            Work in focus blocks on a planned task. Every finished block is logged as a session on it.
+                        </DialogDescription>
+                    </DialogHeader>
+
+                    {state ? (
+                        <div className="flex flex-col items-center gap-2 py-4">
+                            <span className={cn(
+                                "text-xs font-semibold uppercase tracking-wide",
+                                state.phase === 'work' ? "text-primary" : "text-success"
+                            )}>
+                                {PHASE_LABELS[state.phase]}
+                            </span>
+                            <span className="font-mono text-5xl tabular-nums">{remaining}</span>
+                            <span className="text-sm font-medium">{state.taskName}</span>
+                            <span className="text-xs text-muted-foreground">
+                                {state.completedBlocks} block{state.completedBlocks === 1 ? '' : 's'} done
+                            </span>
+                        </div>
+                    ) : (
+                        <div className="space-y-4">
+                            <div className="space-y-1.5">
+                                <Label>Task</Label>
+                                <Select value={taskId} onValueChange={setTaskId}>
+                                    <SelectTrigger>
+                                        <SelectValue placeholder={tasks.length ? 'Pick a planned task' : 'No tasks planned for this day'} />
+                                    </SelectTrigger>
+                                    <SelectContent>
+                                        {tasks.map(task => (
+                                            <SelectItem key={task.id} value={String(task.id)}>
+                                                {task.name}
+                                                {task.targetTime > 0 && (
+                                                    <span className="text-muted-foreground"> · {formatDuration(task.targetTime)}</span>
+                                                )}
+                                            </SelectItem>
+                                        ))}
+                                    </SelectContent>
+                                </Select>
+                            </div>
+                            <div className="grid grid-cols-2 gap-3">
+                                {SETTING_FIELDS.map(({ key, label }) => (
+                                    <div key={key} className="space-y-1.5">
+                                        <Label htmlFor={`focus-${key}`} className="text-xs">{label}</Label>
+                                        <Input
+                                            id={`focus-${key}`}
+                                            type="number"
+                                            min={1}
+                                            value={settings[key]}
+                                            onChange={e => updateSetting(key, e.target.value)}
+                                        />
+                                    </div>
+                                ))}
+                            </div>
+                        </div>
+                    )}
+
+                    <DialogFooter>
+                        {state ? (
+                            <>
+                                <Button variant="ghost" onClick={handleSkip} disabled={busy} className="gap-2">
+                                    <SkipForward className="h-4 w-4" />
+                                    {state.phase === 'work' ? 'Finish block' : 'Skip break'}
+                                </Button>
+                                <Button variant="destructive" onClick={handleStop} disabled={busy} className="gap-2">
+                                    <Square className="h-4 w-4" />
+                                    Stop
+                                </Button>
+                            </>
+                        ) : (
+                            <Button onClick={handleStart} disabled={busy || !taskId}>
+                                Start focus
+                            </Button>
+                        )}
+                    </DialogFooter>
+                </DialogContent>
+            </Dialog>
+        </>
+    );
+};
+
+export default FocusMode;
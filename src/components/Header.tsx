@@ -19,17 +19,23 @@ import { LayoutDashboard, BarChart3, Grid3X3, Menu } from 'lucide-react';
 import { cn } from '@/lib/utils';
 import { Button } from '@/components/ui/button';
 import AuthStatus from './AuthStatus';
+import SyncIndicator from './SyncIndicator';
 import { ModeToggle } from "@/components/mode-toggle";
 import { useEffect, useState } from 'react';
 import { useUserPreferences } from '@/contexts/UserPreferencesContext';
 import { useIsMobile } from '@/hooks/use-mobile';
+import { getSupportedTimeZones } from '@/utils/dateUtils';
 
 const Header = () => {
   const location = useLocation();
   const navigate = useNavigate();
-  const { dayStartHour, setDayStartHour } = useUserPreferences();
+  const { dayStartHour, setDayStartHour, timeZone, setTimeZone } = useUserPreferences();
   const isMobile = useIsMobile();
   const [mobileOpen, setMobileOpen] = useState(false);
+  const [timeZones] = useState(() => {
+    const zones = getSupportedTimeZones();
+    return zones.includes(timeZone) ? zones : [timeZone, ...zones];
+  });
 
   // Mode effects removed
 
@@ -106,6 +112,18 @@ const Header = () => {
                           ))}
                         </select>
                       </div>
+                      <div className="flex items-center justify-between px-2 py-1">
+                        <span className="text-sm">Timezone</span>
+                        <select
+                          className="bg-background border border-border rounded text-xs px-2 py-1 max-w-[160px]"
+                          value={timeZone}
+                          onChange={(e) => setTimeZone(e.target.value)}
+                        >
+                          {timeZones.map(zone => (
+                            <option key={zone} value={zone}>{zone.replace(/_/g, ' ')}</option>
+                          ))}
+                        </select>
+                      </div>
                     </div>
                   </div>
                 </SheetContent>
@@ -132,12 +150,23 @@ const Header = () => {
                     </option>
                   ))}
                 </select>
+                <select
+                  className="bg-background border border-border rounded text-xs px-2 py-1 max-w-[140px]"
+                  value={timeZone}
+                  onChange={(e) => setTimeZone(e.target.value)}
+                  title="Timezone"
+                >
+                  {timeZones.map(zone => (
+                    <option key={zone} value={zone}>{zone.replace(/_/g, ' ')}</option>
+                  ))}
+                </select>
               </div>
             )}
           </div>
 
           {/* Auth Button */}
           <div className="flex items-center gap-2">
+            <SyncIndicator />
             <ModeToggle />
             <AuthStatus />
           </div>
@@ -0,0 +1,70 @@
+import { CalendarClock } from 'lucide-react';
+import { Card } from '@/components/ui/card';
+import { formatDuration } from '@/lib/db';
+import { formatDrift, type BlockDrift, type DriftStatus } from '@/utils/planDrift';
+import { cn } from '@/lib/utils';
+
+interface PlanVsActualProps {
+    drifts: BlockDrift[];
+    className?: string;
+}
+
+const STATUS_STYLES: Record<DriftStatus, { label: string; className: string }> = {
+    upcoming: { label: 'Upcoming', className: 'bg-muted text-muted-foreground' },
+    missed: { label: 'Missed', className: 'bg-danger/10 text-danger' },
+    on_time: { label: 'On time', className: 'bg-success/10 text-success' },
+    late: { label: 'Late', className: 'bg-warning/15 text-warning' },
+    early: { label: 'Early', className: 'bg-primary/10 text-primary' }
+};
+
+/**
+ * The day's planned time blocks next to what was logged on each task
+ */
+const PlanVsActual = ({ drifts, className }: PlanVsActualProps) => {
+    if (drifts.length === 0) return null;
+
+    const planned = drifts.reduce((sum, d) => sum + d.plannedMinutes, 0);
+    const inBlock = drifts.reduce((sum, d) => sum + d.inBlockMinutes, 0);
+
+    return (
+        <Card className={cn("p-6 border-border/50 shadow-sm bg-card/50", className)}>
+            <div className="flex items-center justify-between mb-4">
+                <h3 className="text-sm font-medium text-muted-foreground uppercase tracking-wider flex items-center gap-2">
+                    <CalendarClock className="h-4 w-4" />
+                    Plan vs Actual
+                </h3>
+                <span className="text-xs text-muted-foreground">
+                    {formatDuration(inBlock)} of {formatDuration(planned)} planned worked in its block
+                    {planned > 0 && ` (${Math.round((inBlock / planned) * 100)}%)`}
+                </span>
+            </div>
+
+            <div className="divide-y divide-border/40">
+                {drifts.map(drift => {
+                    const status = STATUS_STYLES[drift.status];
+                    return (
+                        <div key={drift.block.taskId} className="py-2.5 grid grid-cols-[1fr_auto] md:grid-cols-[minmax(0,1fr)_130px_130px_150px_80px] gap-x-4 gap-y-1 items-center text-sm">
+                            <span className="font-medium truncate" title={drift.block.name}>{drift.block.name || 'Untitled task'}</span>
+                            <span className="font-mono text-xs text-muted-foreground md:text-center">
+                                {drift.block.start}–{drift.block.end}
+                            </span>
+                            <span className="font-mono text-xs md:text-center">
+                                {drift.actualStart ? `${drift.actualStart}–${drift.actualEnd}` : '—'}
+                            </span>
+                            <span className="text-xs text-muted-foreground md:text-center">
+                                {drift.startDrift !== undefined
+                                    ? `start ${formatDrift(drift.startDrift)} · end ${formatDrift(drift.endDrift!)}`
+                                    : `${formatDuration(drift.plannedMinutes)} planned`}
+                            </span>
+                            <span className={cn("justify-self-end rounded px-1.5 py-0.5 text-[10px] font-medium", status.className)}>
+                                {status.label}
+                            </span>
+                        </div>
+                    );
+                })}
+            </div>
+        </Card>
+    );
+};
+
+export default PlanVsActual;
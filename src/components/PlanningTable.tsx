@@ -1,13 +1,15 @@
 import { useState, useEffect } from 'react';
-import { Plus, Trash2, Settings } from 'lucide-react';
+import { Plus, Trash2, Settings, ArrowRightFromLine, ListChecks } from 'lucide-react';
 import { motion, AnimatePresence } from 'framer-motion';
 // DISABLED for Cloud-Only mode
 // import { useLiveQuery } from 'dexie-react-hooks';
 // import { db, type Task, getDateString, calculateTaskProgress } from '@/lib/db';
-import { type Task, type Priority, getDateString } from '@/lib/db';
+import { type Task, type Priority, type ChecklistItem, getDateString } from '@/lib/db';
 import { calculateDuration } from '@/lib/db';
-import { supabase } from '@/lib/supabase';
+import { repositories } from '@/repositories';
 import { useAuth } from '@/contexts/AuthContext';
+import { subscribeTemplateGeneration } from '@/services/templateGenerationService';
+import { toTaskTemplateId } from '@/services/templateService';
 // import { useSync } from '@/hooks/useSync';
 // import { updateStrikesForTask } from '@/utils/strikeCalculator';
 import ProgressRing from './ProgressRing';
@@ -18,12 +20,16 @@ import StrikeBadge from './StrikeBadge';
 import RepeatScheduleDialog from './RepeatScheduleDialog';
 import TemplateDropdown from './TemplateDropdown';
 import { SettingsDialog } from './SettingsDialog';
+import CarryOverDialog from './CarryOverDialog';
+import TaskChecklist from './TaskChecklist';
+import TimeBlockPicker from './TimeBlockPicker';
 import { DebouncedInput } from './DebouncedInput';
 import { DebouncedTextarea } from './DebouncedTextarea';
 import { Input } from '@/components/ui/input';
 import { Textarea } from '@/components/ui/textarea';
 import { Button } from '@/components/ui/button';
 import { Switch } from '@/components/ui/switch';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
 import {
   Select,
   SelectContent,
@@ -39,6 +45,7 @@ import {
 } from "@/components/ui/context-menu";
 import { cn } from '@/lib/utils';
 import { useIsMobile } from '@/hooks/use-mobile';
+import { copyChecklist, getTaskProgress } from '@/utils/checklist';
 
 interface PlanningTableProps {
   selectedDate: Date;
@@ -49,6 +56,8 @@ const PlanningTable = ({ selectedDate }: PlanningTableProps) => {
   const [taskProgress, setTaskProgress] = useState<Record<string, number>>({});
   const [repeatDialogOpen, setRepeatDialogOpen] = useState(false);
   const [settingsOpen, setSettingsOpen] = useState(false);
+  const [carryOverOpen, setCarryOverOpen] = useState(false);
+  const [refreshTasksTrigger, setRefreshTasksTrigger] = useState(0); // Re-fetch after a carry-over
   const [selectedTask, setSelectedTask] = useState<any | undefined>();
   const isMobile = useIsMobile();
 
@@ -72,12 +81,13 @@ const PlanningTable = ({ selectedDate }: PlanningTableProps) => {
 
       setLoading(true);
       setSessions(null); // 🔥 CRITICAL: Lock updates until new sessions arrive
-      const { data, error } = await supabase
-        .from('tasks')
-        .select('*')
-        .eq('date', dateString)
-        .eq('user_id', user.id);
-      // .is('is_deleted', false); // REMOVED - column doesn't exist yet
+      let data, error;
+      try {
+        data = await repositories.tasks.list({ where: { date: dateString, user_id: user.id } });
+        // .is('is_deleted', false); // REMOVED - column doesn't exist yet
+      } catch (fetchError) {
+        error = fetchError;
+      }
 
       if (!error && data) {
         // Convert from Supabase snake_case to camelCase
@@ -95,7 +105,12 @@ const PlanningTable = ({ selectedDate }: PlanningTableProps) => {
           // 🔥 Streak fields
           templateId: t.template_id,
           achieverStrike: t.achiever_strike || 0,
-          fighterStrike: t.fighter_strike || 0
+          fighterStrike: t.fighter_strike || 0,
+          carryOverCount: t.carry_over_count || 0,
+          checklist: t.checklist || [],
+          progressMode: t.progress_mode || 'time',
+          plannedStart: t.planned_start || null,
+          plannedEnd: t.planned_end || null
         }));
 
         setTasks(tasksConverted);
@@ -108,7 +123,12 @@ const PlanningTable = ({ selectedDate }: PlanningTableProps) => {
 
     fetchTasks();
     fetchSessions(); // 🔥 NEW: Fetch sessions immediately
-  }, [dateString, user]);
+  }, [dateString, user, refreshTasksTrigger]);
+
+  // Re-fetch when tasks were generated from templates for this day
+  useEffect(() => subscribeTemplateGeneration(result => {
+    if (result.dates.includes(dateString)) setRefreshTasksTrigger(n => n + 1);
+  }), [dateString]);
 
   // 🔥 NEW: Fetch sessions for progress calculation
   const fetchSessions = async () => {
@@ -117,11 +137,12 @@ const PlanningTable = ({ selectedDate }: PlanningTableProps) => {
       return;
     }
 
-    const { data, error } = await supabase
-      .from('sessions')
-      .select('*')
-      .eq('date', dateString)
-      .eq('user_id', user.id);
+    let data, error;
+    try {
+      data = await repositories.sessions.list({ where: { date: dateString, user_id: user.id } });
+    } catch (fetchError) {
+      error = fetchError;
+    }
 
     if (error) {
       console.error("🚨 CRITICAL: Failed to fetch sessions. Aborting update to prevent data loss.", error);
@@ -156,10 +177,8 @@ const PlanningTable = ({ selectedDate }: PlanningTableProps) => {
           return sum + duration;
         }, 0);
 
-        // Calculate percentage
-        const progressPercent = task.targetTime > 0
-          ? Math.round((totalMinutes / task.targetTime) * 100)
-          : 0;
+        // Calculate percentage (of the target time, or of the checklist)
+        const progressPercent = getTaskProgress(task, totalMinutes);
 
         progressMap[task.id] = progressPercent;
 
@@ -183,7 +202,8 @@ const PlanningTable = ({ selectedDate }: PlanningTableProps) => {
           streaks.fighter_strike !== task.fighterStrike;
 
         // 🚨 SAFETY GUARD: If progress is dropping from >0 to 0 AUTOMATICALLY, it's likely a bug.
-        const isDangerousDrop = task.progress > 0 && progressPercent === 0;
+        // Unchecking a checklist is not automatic, so checklist progress may drop to 0.
+        const isDangerousDrop = task.progressMode !== 'checklist' && task.progress > 0 && progressPercent === 0;
 
         if (isDangerousDrop) {
           console.warn(`🛑 PREVENTED AUTO-RESET: Task '${task.name}' 100% -> 0%. Keeping ${task.progress}%.`);
@@ -208,18 +228,14 @@ const PlanningTable = ({ selectedDate }: PlanningTableProps) => {
           );
 
           // 3. Save to database with calculated values
-          const { error: updateError } = await supabase
-            .from('tasks')
-            .update({
+          try {
+            await repositories.tasks.updateWhere({ id: task.id, user_id: user.id }, {
               progress: progressPercent,
               achiever_strike: streaks.achiever_strike,
               fighter_strike: streaks.fighter_strike,
               updated_at: new Date().toISOString()
-            })
-            .eq('id', task.id)
-            .eq('user_id', user.id);
-
-          if (updateError) {
+            });
+          } catch (updateError) {
             console.error('❌ Database UPDATE FAILED:', updateError);
             // Revert optimistic update on error
             setTasks((prevTasks) =>
@@ -234,8 +250,6 @@ const PlanningTable = ({ selectedDate }: PlanningTableProps) => {
                   : t
               )
             );
-          } else {
-            // success silently
           }
         }
       }
@@ -250,13 +264,13 @@ const PlanningTable = ({ selectedDate }: PlanningTableProps) => {
   useEffect(() => {
     const fetchPriorities = async () => {
       if (!user) return;
-      const { data } = await supabase
-        .from('priorities')
-        .select('*')
-        .eq('user_id', user.id)
-        .order('order', { ascending: true });
+      try {
+        const data = await repositories.priorities.list({ where: { user_id: user.id }, orderBy: 'order' });
 
-      if (data) setPriorities(data);
+        if (data) setPriorities(data as Priority[]);
+      } catch (error) {
+        console.error('Error fetching priorities:', error);
+      }
     };
     fetchPriorities();
 
@@ -267,8 +281,8 @@ const PlanningTable = ({ selectedDate }: PlanningTableProps) => {
     // We can add a simple "refetch" prop or just refetch when settings closes.
   }, [user, settingsOpen]); // Refetch when settings dialog closes
 
-  // Streak calculation is now handled by PostgreSQL trigger
-  // See: migrations/001_create_streak_trigger.sql
+  // Streaks are computed above through the streak engine (utils/streakEngine);
+  // the server recomputes them with it too (supabase/functions/recompute-streaks)
 
   // === CLOUD-ONLY FUNCTIONS ===
 
@@ -295,16 +309,16 @@ const PlanningTable = ({ selectedDate }: PlanningTableProps) => {
       updated_at: new Date().toISOString()
     };
 
-    const { data: insertedData, error } = await supabase
-      .from('tasks')
-      .insert(newTask)
-      .select()
-      .single(); // Get single row instead of array
-
-    if (error) {
+    let insertedData;
+    try {
+      insertedData = await repositories.tasks.insert(newTask);
+    } catch (error) {
       console.error('Error adding task:', error);
-      alert('Failed to add task: ' + error.message);
-    } else if (insertedData) {
+      alert('Failed to add task: ' + (error as Error).message);
+      return;
+    }
+
+    if (insertedData) {
       // ✨ OPTIMISTIC UPDATE - Add to UI immediately
       const taskConverted = {
         id: insertedData.id,
@@ -316,7 +330,8 @@ const PlanningTable = ({ selectedDate }: PlanningTableProps) => {
         description: insertedData.description || '',
         completedDescription: insertedData.completed_description || '',
         progress: insertedData.progress || 0,
-
+        checklist: [],
+        progressMode: 'time'
       };
 
       setTasks(prevTasks => [...prevTasks, taskConverted]);
@@ -333,43 +348,41 @@ const PlanningTable = ({ selectedDate }: PlanningTableProps) => {
     if (updates.targetTime !== undefined) supabaseUpdates.target_time = updates.targetTime;
     if (updates.description !== undefined) supabaseUpdates.description = updates.description;
     if (updates.progress !== undefined) supabaseUpdates.progress = updates.progress;
+    if (updates.checklist !== undefined) supabaseUpdates.checklist = updates.checklist;
+    if (updates.progressMode !== undefined) supabaseUpdates.progress_mode = updates.progressMode;
+    if (updates.plannedStart !== undefined) supabaseUpdates.planned_start = updates.plannedStart;
+    if (updates.plannedEnd !== undefined) supabaseUpdates.planned_end = updates.plannedEnd;
 
     supabaseUpdates.updated_at = new Date().toISOString();
 
-    const { error } = await supabase
-      .from('tasks')
-      .update(supabaseUpdates)
-      .eq('id', id)
-      .eq('user_id', user.id);
-
-    if (error) {
+    try {
+      await repositories.tasks.updateWhere({ id, user_id: user.id }, supabaseUpdates);
+    } catch (error) {
       console.error('Error updating task:', error);
-    } else {
-      // Update local state optimistically
-      setTasks(prevTasks =>
-        prevTasks.map(t =>
-          t.id === id ? { ...t, ...updates } : t
-        )
-      );
+      return;
     }
+
+    // Update local state optimistically
+    setTasks(prevTasks =>
+      prevTasks.map(t =>
+        t.id === id ? { ...t, ...updates } : t
+      )
+    );
   };
 
   const deleteTask = async (id: string) => {
     if (!user) return;
 
     // Hard delete since is_deleted column doesn't exist in Supabase
-    const { error } = await supabase
-      .from('tasks')
-      .delete()
-      .eq('id', id)
-      .eq('user_id', user.id);
-
-    if (error) {
+    try {
+      await repositories.tasks.removeWhere({ id, user_id: user.id });
+    } catch (error) {
       console.error('Error deleting task:', error);
-    } else {
-      // Remove from UI immediately
-      setTasks(prevTasks => prevTasks.filter(t => t.id !== id));
+      return;
     }
+
+    // Remove from UI immediately
+    setTasks(prevTasks => prevTasks.filter(t => t.id !== id));
   };
 
   const handleTemplateSelect = async (template: any) => {
@@ -382,7 +395,7 @@ const PlanningTable = ({ selectedDate }: PlanningTableProps) => {
 
     // 🔥 FIX: Convert Cloud integer ID to distinct UUID format (Offset from Local IDs)
     // Local Dexie IDs used 0000... prefix. We use ffff... for Cloud to prevent collision.
-    const templateUuid = `ffffffff-ffff-ffff-ffff-${String(template.id).padStart(12, '0')}`;
+    const templateUuid = toTaskTemplateId(template.id);
     console.log('📝 Template ID conversion (Cloud):', template.id, '→', templateUuid);
 
     // Streaks will be calculated automatically by PostgreSQL trigger
@@ -400,6 +413,7 @@ const PlanningTable = ({ selectedDate }: PlanningTableProps) => {
       description: template.description || '',
       completed_description: '',
       progress: 0,
+      checklist: copyChecklist(template.checklist),
 
       // 🔥 Save template_id so trigger can calculate streaks
       template_id: templateUuid,
@@ -410,16 +424,16 @@ const PlanningTable = ({ selectedDate }: PlanningTableProps) => {
       updated_at: new Date().toISOString()
     };
 
-    const { data: insertedData, error } = await supabase
-      .from('tasks')
-      .insert(newTask)
-      .select()
-      .single(); // Get single row
-
-    if (error) {
+    let insertedData;
+    try {
+      insertedData = await repositories.tasks.insert(newTask);
+    } catch (error) {
       console.error('Error adding task from template:', error);
-      alert('Failed to add task: ' + error.message);
-    } else if (insertedData) {
+      alert('Failed to add task: ' + (error as Error).message);
+      return;
+    }
+
+    if (insertedData) {
       console.log('✅ Task created with template_id:', insertedData.template_id);
       console.log('✅ Base streaks saved:', {
         achiever: insertedData.achiever_strike,
@@ -438,6 +452,9 @@ const PlanningTable = ({ selectedDate }: PlanningTableProps) => {
         completedDescription: insertedData.completed_description || '',
         progress: insertedData.progress || 0,
 
+        checklist: insertedData.checklist || [],
+        progressMode: insertedData.progress_mode || 'time',
+
         // 🔥 Include streak data
         templateId: insertedData.template_id,
         achieverStrike: insertedData.achiever_strike || 0,
@@ -455,7 +472,7 @@ const PlanningTable = ({ selectedDate }: PlanningTableProps) => {
     if (!confirmed) return;
 
     try {
-      const { recalculateStreakChain } = await import('@/lib/streakCorrection');
+      const { recalculateStreakChain } = await import('@/lib/streakCalculator');
       await recalculateStreakChain(user?.id || '', task.templateId, task.name);
       alert('Recalculation complete. Refreshing...');
       window.location.reload();
@@ -485,6 +502,15 @@ const PlanningTable = ({ selectedDate }: PlanningTableProps) => {
           Add task...
         </Button>
         <TemplateDropdown onTemplateSelect={handleTemplateSelect} />
+        <Button
+          variant="ghost"
+          size="icon"
+          onClick={() => setCarryOverOpen(true)}
+          title="Carry over unfinished tasks"
+          className="h-9 w-9 text-muted-foreground hover:text-foreground"
+        >
+          <ArrowRightFromLine className="h-4 w-4" />
+        </Button>
         <Button
           variant="ghost"
           size="icon"
@@ -583,13 +609,21 @@ const PlanningTable = ({ selectedDate }: PlanningTableProps) => {
                 </div>
 
                 {/* Task Name */}
-                <div className="mb-3">
+                <div className="mb-3 flex items-center gap-2">
                   <DebouncedInput
                     value={task.name}
                     onChange={(value) => updateTask(task.id!, { name: value })}
                     placeholder="Task name..."
                     className="ghost-input h-7 text-sm font-semibold flex-1 min-w-0"
                   />
+                  {task.carryOverCount > 0 && (
+                    <span
+                      className="shrink-0 rounded bg-warning/15 px-1.5 py-0.5 text-[10px] font-medium text-warning"
+                      title={`Carried over ${task.carryOverCount} day${task.carryOverCount === 1 ? '' : 's'} in a row`}
+                    >
+                      ↻ {task.carryOverCount}
+                    </span>
+                  )}
                 </div>
 
                 {/* Progress Bar */}
@@ -619,6 +653,27 @@ const PlanningTable = ({ selectedDate }: PlanningTableProps) => {
                   </div>
                 </div>
 
+                {/* Time Block */}
+                <div className="mt-3 flex items-center justify-between gap-2">
+                  <span className="text-[10px] text-muted-foreground uppercase tracking-wider">Block</span>
+                  <TimeBlockPicker
+                    start={task.plannedStart}
+                    end={task.plannedEnd}
+                    targetTime={task.targetTime}
+                    onChange={(plannedStart, plannedEnd) => updateTask(task.id!, { plannedStart, plannedEnd })}
+                  />
+                </div>
+
+                {/* Checklist */}
+                <div className="mt-3 border-t border-border/50 pt-2">
+                  <TaskChecklist
+                    items={task.checklist}
+                    onChange={(checklist) => updateTask(task.id!, { checklist })}
+                    progressMode={task.progressMode}
+                    onProgressModeChange={(progressMode) => updateTask(task.id!, { progressMode })}
+                  />
+                </div>
+
                 {/* Completed Desc */}
                 {task.completedDescription && (
                   <div className="mt-2 text-xs text-muted-foreground bg-muted/20 px-2 py-1 rounded">
@@ -647,6 +702,7 @@ const PlanningTable = ({ selectedDate }: PlanningTableProps) => {
                 <th className="min-w-[150px] px-4 py-3 text-center text-sm font-medium text-muted-foreground whitespace-nowrap">Progress</th>
                 <th className="min-w-[150px] px-4 py-3 text-center text-sm font-medium text-muted-foreground whitespace-nowrap">Priority</th>
                 <th className="min-w-[100px] px-4 py-3 text-center text-sm font-medium text-muted-foreground whitespace-nowrap">Target</th>
+                <th className="min-w-[230px] px-4 py-3 text-center text-sm font-medium text-muted-foreground whitespace-nowrap">Block</th>
                 <th className="min-w-[350px] px-4 py-3 text-left text-sm font-medium text-muted-foreground whitespace-nowrap">Description</th>
                 <th className="min-w-[300px] px-4 py-3 text-left text-sm font-medium text-muted-foreground whitespace-nowrap">Completed</th>
                 <th className="w-[80px] px-4 py-3"></th>
@@ -719,6 +775,40 @@ const PlanningTable = ({ selectedDate }: PlanningTableProps) => {
                             placeholder="Task name..."
                             className="ghost-input h-8 text-sm font-medium flex-1 min-w-0"
                           />
+                          <Popover>
+                            <PopoverTrigger asChild>
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                title="Checklist"
+                                className={cn(
+                                  "h-7 shrink-0 gap-1 px-1.5 text-xs text-muted-foreground hover:text-foreground",
+                                  task.checklist.length === 0 && "opacity-0 group-hover:opacity-100"
+                                )}
+                              >
+                                <ListChecks className="h-3.5 w-3.5" />
+                                {task.checklist.length > 0 && (
+                                  <span>{task.checklist.filter((item: ChecklistItem) => item.done).length}/{task.checklist.length}</span>
+                                )}
+                              </Button>
+                            </PopoverTrigger>
+                            <PopoverContent align="start" className="w-80">
+                              <TaskChecklist
+                                items={task.checklist}
+                                onChange={(checklist) => updateTask(task.id!, { checklist })}
+                                progressMode={task.progressMode}
+                                onProgressModeChange={(progressMode) => updateTask(task.id!, { progressMode })}
+                              />
+                            </PopoverContent>
+                          </Popover>
+                          {task.carryOverCount > 0 && (
+                            <span
+                              className="shrink-0 rounded bg-warning/15 px-1.5 py-0.5 text-[10px] font-medium text-warning"
+                              title={`Carried over ${task.carryOverCount} day${task.carryOverCount === 1 ? '' : 's'} in a row`}
+                            >
+                              ↻ {task.carryOverCount}
+                            </span>
+                          )}
                         </div>
                       </td>
 
@@ -766,6 +856,18 @@ const PlanningTable = ({ selectedDate }: PlanningTableProps) => {
                         </div>
                       </td>
 
+                      {/* Time Block */}
+                      <td className="min-w-[230px] px-4 py-3">
+                        <div className="flex justify-center">
+                          <TimeBlockPicker
+                            start={task.plannedStart}
+                            end={task.plannedEnd}
+                            targetTime={task.targetTime}
+                            onChange={(plannedStart, plannedEnd) => updateTask(task.id!, { plannedStart, plannedEnd })}
+                          />
+                        </div>
+                      </td>
+
                       {/* Description */}
                       <td className="min-w-[350px] px-4 py-3">
                         <DebouncedTextarea
@@ -820,6 +922,13 @@ const PlanningTable = ({ selectedDate }: PlanningTableProps) => {
         onOpenChange={setSettingsOpen}
         defaultTab="priorities"
       />
+
+      <CarryOverDialog
+        open={carryOverOpen}
+        onOpenChange={setCarryOverOpen}
+        date={dateString}
+        onCarried={() => setRefreshTasksTrigger(prev => prev + 1)}
+      />
     </motion.div >
   );
 };
@@ -0,0 +1,133 @@
+import { useEffect, useState } from 'react';
+import { toast } from 'sonner';
+import { CornerDownLeft, Zap } from 'lucide-react';
+import { Input } from '@/components/ui/input';
+import { Button } from '@/components/ui/button';
+import { type Category, calculateDuration, formatDuration } from '@/lib/db';
+import { type Row } from '@/repositories';
+import { useAuth } from '@/contexts/AuthContext';
+import { useUserPreferences } from '@/contexts/UserPreferencesContext';
+import { previewQuickLog, saveQuickLog, type QuickLogDraft } from '@/services/quickLogService';
+import { formatDateForDisplay } from '@/utils/dateUtils';
+import { cn } from '@/lib/utils';
+
+interface QuickLogBarProps {
+    date: string; // Day the entry goes to when the text names none
+    categories: Category[];
+    onLogged: (session: Row) => void;
+}
+
+const PREVIEW_DELAY_MS = 250;
+
+const QuickLogBar = ({ date, categories, onLogged }: QuickLogBarProps) => {
+    const { user } = useAuth();
+    const { dayStartHour } = useUserPreferences();
+    const [text, setText] = useState('');
+    const [preview, setPreview] = useState<{ text: string; draft: QuickLogDraft } | null>(null);
+    const [hint, setHint] = useState('');
+    const [saving, setSaving] = useState(false);
+
+    // Preview while typing
+    useEffect(() => {
+        if (!user || !text.trim()) {
+            setPreview(null);
+            setHint('');
+            return;
+        }
+
+        let cancelled = false;
+        const timeout = setTimeout(() => {
+            previewQuickLog(user.id, text, { defaultDate: date, categories, dayStartHour })
+                .then(result => {
+                    if (cancelled) return;
+                    setPreview({ text, draft: result });
+                    setHint('');
+                })
+                .catch(error => {
+                    if (cancelled) return;
+                    setPreview(null);
+                    setHint((error as Error).message);
+                });
+        }, PREVIEW_DELAY_MS);
+
+        return () => {
+            cancelled = true;
+            clearTimeout(timeout);
+        };
+    }, [text, user, date, categories, dayStartHour]);
+
+    // Only a preview of the text as it is now can be saved
+    const draft = preview?.text === text ? preview.draft : null;
+
+    const handleSave = async () => {
+        if (!user || !draft || saving) return;
+        setSaving(true);
+        try {
+            const session = await saveQuickLog(user.id, draft);
+            toast.success(
+                draft.date === date
+                    ? `Logged ${draft.startTime}–${draft.endTime}`
+                    : `Logged ${draft.startTime}–${draft.endTime} on ${formatDateForDisplay(draft.date)}`
+            );
+            setText('');
+            onLogged(session);
+        } catch (error) {
+            console.error('Quick log failed:', error);
+            toast.error(`Could not log: ${(error as Error).message}`);
+        } finally {
+            setSaving(false);
+        }
+    };
+
+    return (
+        <div className="space-y-1.5">
+            <div className="flex items-center gap-2">
+                <div className="relative flex-1">
+                    <Zap className="absolute left-2.5 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
+                    <Input
+                        value={text}
+                        onChange={(e) => setText(e.target.value)}
+                        onKeyDown={(e) => {
+                            if (e.key === 'Enter') handleSave();
+                            if (e.key === 'Escape') setText('');
+                        }}
+                        placeholder='Quick log: "9:30-11 deep focus on API refactor #work" or "45m gym yesterday"'
+                        className="h-9 pl-8 text-sm"
+                    />
+                </div>
+                <Button
+                    variant="ghost"
+                    size="icon"
+                    onClick={handleSave}
+                    disabled={!draft || saving}
+                    title="Log it (Enter)"
+                    className="h-9 w-9 text-muted-foreground hover:text-foreground"
+                >
+                    <CornerDownLeft className="h-4 w-4" />
+                </Button>
+            </div>
+
+            {draft ? (
+                <div className="flex flex-wrap items-center gap-1.5 text-xs">
+                    {draft.date !== date && (
+                        <span className="rounded bg-warning/15 px-1.5 py-0.5 text-warning">{formatDateForDisplay(draft.date)}</span>
+                    )}
+                    <span className="rounded bg-muted px-1.5 py-0.5 font-mono">
+                        {draft.startTime}–{draft.endTime} · {formatDuration(calculateDuration(draft.startTime, draft.endTime))}
+                    </span>
+                    <span className={cn("rounded px-1.5 py-0.5", draft.categoryGuessed ? "bg-muted text-muted-foreground" : "bg-primary/10 text-primary")}>
+                        {draft.category.name}
+                    </span>
+                    {draft.task && (
+                        <span className="rounded bg-success/10 px-1.5 py-0.5 text-success">Task: {draft.task.name}</span>
+                    )}
+                    {draft.customName && <span className="text-muted-foreground">“{draft.customName}”</span>}
+                </div>
+            ) : hint ? (
+                <p className="text-xs text-muted-foreground">{hint}</p>
+            ) : null}
+        </div>
+    );
+};
+
+export default QuickLogBar;
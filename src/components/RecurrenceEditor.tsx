@@ -0,0 +1,263 @@
+import { useState } from 'react';
+import { Plus, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+    Select,
+    SelectContent,
+    SelectItem,
+    SelectTrigger,
+    SelectValue,
+} from '@/components/ui/select';
+import { type RecurrenceRule } from '@/lib/db';
+import { describeRecurrence, needsStartDate, nextOccurrences, WEEKDAY_LABELS } from '@/utils/recurrence';
+import { formatDateForDisplay, getToday } from '@/utils/dateUtils';
+import { cn } from '@/lib/utils';
+
+interface RecurrenceEditorProps {
+    value: RecurrenceRule;
+    onChange: (rule: RecurrenceRule) => void;
+}
+
+// Monthly rules come in two shapes, picked separately in the UI
+type RepeatKind = 'daily' | 'weekly' | 'monthly_day' | 'monthly_weekday' | 'weekly_count';
+
+const KIND_LABELS: Record<RepeatKind, string> = {
+    daily: 'Every N days',
+    weekly: 'Weekly on chosen days',
+    monthly_day: 'Monthly on a day',
+    monthly_weekday: 'Monthly on a weekday (e.g. 2nd Tuesday)',
+    weekly_count: 'X times a week, any days'
+};
+
+const INTERVAL_UNITS: Partial<Record<RepeatKind, string>> = {
+    daily: 'day(s)',
+    weekly: 'week(s)',
+    monthly_day: 'month(s)',
+    monthly_weekday: 'month(s)'
+};
+
+const NTH_LABELS: [number, string][] = [[1, '1st'], [2, '2nd'], [3, '3rd'], [4, '4th'], [-1, 'Last']];
+
+const kindOf = (rule: RecurrenceRule): RepeatKind =>
+    rule.freq === 'monthly' ? (rule.nthWeekday ? 'monthly_weekday' : 'monthly_day') : rule.freq;
+
+/**
+ * How often a template repeats, with a preview of its next days
+ */
+const RecurrenceEditor = ({ value, onChange }: RecurrenceEditorProps) => {
+    const [exception, setException] = useState('');
+    const kind = kindOf(value);
+    const today = getToday();
+
+    // An interval counts from the start date: a rule that has one always gets one
+    const update = (updates: Partial<RecurrenceRule>) => {
+        const next = { ...value, ...updates };
+        onChange(needsStartDate(next) ? { ...next, startDate: value.startDate || today } : next);
+    };
+
+    // Keep the bounds, reset what belongs to the previous kind
+    const changeKind = (next: RepeatKind) => {
+        const { startDate, endDate, exceptions } = value;
+        const base = { startDate: startDate || today, endDate, exceptions };
+        const startWeekday = new Date(`${base.startDate}T00:00:00`).getDay();
+        switch (next) {
+            case 'daily':
+                return onChange({ ...base, freq: 'daily', interval: 1 });
+            case 'weekly':
+                return onChange({ ...base, freq: 'weekly', interval: 1, weekdays: [startWeekday] });
+            case 'monthly_day':
+                return onChange({ ...base, freq: 'monthly', interval: 1, monthDay: Number(base.startDate.slice(8)) });
+            case 'monthly_weekday':
+                return onChange({ ...base, freq: 'monthly', interval: 1, nthWeekday: { nth: 1, weekday: startWeekday } });
+            case 'weekly_count':
+                return onChange({ ...base, freq: 'weekly_count', timesPerWeek: 3 });
+        }
+    };
+
+    const toggleWeekday = (weekday: number) => {
+        const weekdays = value.weekdays || [];
+        const next = weekdays.includes(weekday) ? weekdays.filter(d => d !== weekday) : [...weekdays, weekday].sort();
+        if (next.length > 0) update({ weekdays: next });
+    };
+
+    const addException = () => {
+        if (!exception || value.exceptions?.includes(exception)) return;
+        update({ exceptions: [...(value.exceptions || []), exception].sort() });
+        setException('');
+    };
+
+    const upcoming = nextOccurrences(value, today, 3);
+
+    return (
+        <div className="space-y-3">
+            <Select value={kind} onValueChange={(v) => changeKind(v as RepeatKind)}>
+                <SelectTrigger className="bg-background">
+                    <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                    {(Object.keys(KIND_LABELS) as RepeatKind[]).map(k => (
+                        <SelectItem key={k} value={k}>{KIND_LABELS[k]}</SelectItem>
+                    ))}
+                </SelectContent>
+            </Select>
+
+            {INTERVAL_UNITS[kind] && (
+                <div className="flex items-center gap-2 text-sm">
+                    <span className="text-muted-foreground">Every</span>
+                    <Input
+                        type="number"
+                        min={1}
+                        value={value.interval || 1}
+                        onChange={(e) => update({ interval: Math.max(1, Number(e.target.value) || 1) })}
+                        className="h-8 w-16 bg-background"
+                    />
+                    <span className="text-muted-foreground">{INTERVAL_UNITS[kind]}</span>
+                </div>
+            )}
+
+            {kind === 'weekly' && (
+                <div className="flex flex-wrap gap-1">
+                    {WEEKDAY_LABELS.map((label, weekday) => (
+                        <Button
+                            key={label}
+                            type="button"
+                            variant={value.weekdays?.includes(weekday) ? 'default' : 'outline'}
+                            size="sm"
+                            onClick={() => toggleWeekday(weekday)}
+                            className="h-8 w-11 px-0 text-xs"
+                        >
+                            {label}
+                        </Button>
+                    ))}
+                </div>
+            )}
+
+            {kind === 'monthly_day' && (
+                <div className="flex items-center gap-2 text-sm">
+                    <span className="text-muted-foreground">On</span>
+                    <Select value={String(value.monthDay || -1)} onValueChange={(v) => update({ monthDay: Number(v) })}>
+                        <SelectTrigger className="h-8 w-32 bg-background">
+                            <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                            {Array.from({ length: 31 }, (_, i) => i + 1).map(day => (
+                                <SelectItem key={day} value={String(day)}>Day {day}</SelectItem>
+                            ))}
+                            <SelectItem value="-1">Last day</SelectItem>
+                        </SelectContent>
+                    </Select>
+                </div>
+            )}
+
+            {kind === 'monthly_weekday' && value.nthWeekday && (
+                <div className="flex items-center gap-2 text-sm">
+                    <span className="text-muted-foreground">On the</span>
+                    <Select
+                        value={String(value.nthWeekday.nth)}
+                        onValueChange={(v) => update({ nthWeekday: { ...value.nthWeekday!, nth: Number(v) } })}
+                    >
+                        <SelectTrigger className="h-8 w-24 bg-background">
+                            <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                            {NTH_LABELS.map(([nth, label]) => (
+                                <SelectItem key={nth} value={String(nth)}>{label}</SelectItem>
+                            ))}
+                        </SelectContent>
+                    </Select>
+                    <Select
+                        value={String(value.nthWeekday.weekday)}
+                        onValueChange={(v) => update({ nthWeekday: { ...value.nthWeekday!, weekday: Number(v) } })}
+                    >
+                        <SelectTrigger className="h-8 w-24 bg-background">
+                            <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                            {WEEKDAY_LABELS.map((label, weekday) => (
+                                <SelectItem key={label} value={String(weekday)}>{label}</SelectItem>
+                            ))}
+                        </SelectContent>
+                    </Select>
+                </div>
+            )}
+
+            {kind === 'weekly_count' && (
+                <div className="flex items-center gap-2 text-sm">
+                    <Input
+                        type="number"
+                        min={1}
+                        max={7}
+                        value={value.timesPerWeek || 1}
+                        onChange={(e) => update({ timesPerWeek: Math.min(7, Math.max(1, Number(e.target.value) || 1)) })}
+                        className="h-8 w-16 bg-background"
+                    />
+                    <span className="text-muted-foreground">times a week; a task is added each day until the week's goal is met</span>
+                </div>
+            )}
+
+            <div className="grid grid-cols-2 gap-2">
+                <div className="space-y-1">
+                    <Label className="text-xs text-muted-foreground">Starts</Label>
+                    <Input
+                        type="date"
+                        value={value.startDate || ''}
+                        onChange={(e) => update({ startDate: e.target.value || undefined })}
+                        className="h-8 bg-background"
+                    />
+                </div>
+                <div className="space-y-1">
+                    <Label className="text-xs text-muted-foreground">Ends (optional)</Label>
+                    <Input
+                        type="date"
+                        value={value.endDate || ''}
+                        min={value.startDate}
+                        onChange={(e) => update({ endDate: e.target.value || undefined })}
+                        className="h-8 bg-background"
+                    />
+                </div>
+            </div>
+
+            <div className="space-y-1">
+                <Label className="text-xs text-muted-foreground">Skip dates</Label>
+                <div className="flex items-center gap-2">
+                    <Input
+                        type="date"
+                        value={exception}
+                        onChange={(e) => setException(e.target.value)}
+                        className="h-8 bg-background"
+                    />
+                    <Button type="button" variant="ghost" size="icon" onClick={addException} disabled={!exception} className="h-8 w-8 shrink-0">
+                        <Plus className="h-4 w-4" />
+                    </Button>
+                </div>
+                {value.exceptions && value.exceptions.length > 0 && (
+                    <div className="flex flex-wrap gap-1 pt-1">
+                        {value.exceptions.map(date => (
+                            <span key={date} className="flex items-center gap-1 rounded bg-muted px-1.5 py-0.5 text-xs">
+                                {formatDateForDisplay(date)}
+                                <button
+                                    type="button"
+                                    onClick={() => update({ exceptions: value.exceptions!.filter(d => d !== date) })}
+                                    className="text-muted-foreground hover:text-foreground"
+                                >
+                                    <X className="h-3 w-3" />
+                                </button>
+                            </span>
+                        ))}
+                    </div>
+                )}
+            </div>
+
+            <p className={cn("text-xs", upcoming.length ? "text-muted-foreground" : "text-warning")}>
+                {describeRecurrence(value)}.{' '}
+                {upcoming.length
+                    ? `Next: ${upcoming.map(date => formatDateForDisplay(date)).join(', ')}`
+                    : 'No upcoming days.'}
+            </p>
+        </div>
+    );
+};
+
+export default RecurrenceEditor;
@@ -30,10 +30,16 @@ import DurationPicker from './DurationPicker';
 import { Input } from '@/components/ui/input';
 import { Textarea } from '@/components/ui/textarea';
 import PriorityTag from './PriorityTag';
-import { type Task, type Priority } from '@/lib/db';
-import { supabase } from '@/lib/supabase';
+import TaskChecklist from './TaskChecklist';
+import RecurrenceEditor from './RecurrenceEditor';
+import StreakProtectionEditor from './StreakProtectionEditor';
+import { type Task, type Priority, type ChecklistItem, type RecurrenceRule, type StreakProtection } from '@/lib/db';
+import { getRecurrenceRule, toLegacyPattern } from '@/utils/recurrence';
+import { getToday } from '@/utils/dateUtils';
+import { repositories } from '@/repositories';
 import { useAuth } from '@/contexts/AuthContext';
 import { createTemplate, updateTemplate, TaskTemplate } from '@/services/templateService';
+import { openStreakRecompute } from '@/services/streakRecomputeService';
 import { toast } from 'sonner';
 
 interface RepeatScheduleDialogProps {
@@ -52,18 +58,22 @@ const RepeatScheduleDialog = ({ open, onOpenChange, task, onSave }: RepeatSchedu
     const [targetTime, setTargetTime] = useState(task?.targetTime || 60);
     const [description, setDescription] = useState(task?.description || '');
     const [minCompletionTarget, setMinCompletionTarget] = useState(50); // Default 50%
+    const [checklist, setChecklist] = useState<ChecklistItem[]>([]);
+    const [recurrence, setRecurrence] = useState<RecurrenceRule>({ freq: 'daily' });
+    const [streakProtection, setStreakProtection] = useState<StreakProtection>({});
+    const [addAtTime, setAddAtTime] = useState('');
 
     // Fetch Priorities from Supabase
     useEffect(() => {
         const fetchPriorities = async () => {
             if (!user) return;
-            const { data } = await supabase
-                .from('priorities')
-                .select('*')
-                .eq('user_id', user.id)
-                .order('order', { ascending: true });
+            try {
+                const data = await repositories.priorities.list({ where: { user_id: user.id }, orderBy: 'order' });
 
-            if (data) setPriorities(data);
+                if (data) setPriorities(data as Priority[]);
+            } catch (error) {
+                console.error("Failed to load priorities", error);
+            }
         };
         if (open) fetchPriorities();
     }, [open, user]);
@@ -83,7 +93,15 @@ const RepeatScheduleDialog = ({ open, onOpenChange, task, onSave }: RepeatSchedu
                 if ('isActive' in task) {
                     const template = task as TaskTemplate;
                     setMinCompletionTarget(template.minCompletionTarget || 50);
+                    setRecurrence(getRecurrenceRule(template));
+                    setStreakProtection(template.streakProtection || {});
+                    setAddAtTime(template.addAtTime || '');
+                } else {
+                    setRecurrence({ freq: 'daily', startDate: getToday() });
+                    setStreakProtection({});
+                    setAddAtTime('');
                 }
+                setChecklist(task.checklist || []);
             } else {
                 // Creating new template - reset form
                 setName('');
@@ -91,6 +109,10 @@ const RepeatScheduleDialog = ({ open, onOpenChange, task, onSave }: RepeatSchedu
                 setTargetTime(60);
                 setDescription('');
                 setMinCompletionTarget(50); // Reset to default
+                setChecklist([]);
+                setRecurrence({ freq: 'daily', startDate: getToday() });
+                setStreakProtection({});
+                setAddAtTime('');
             }
         }
     }, [open, task]);
@@ -105,6 +127,11 @@ const RepeatScheduleDialog = ({ open, onOpenChange, task, onSave }: RepeatSchedu
             targetTime,
             description,
             minCompletionTarget,
+            checklist,
+            recurrence,
+            ...toLegacyPattern(recurrence),
+            streakProtection,
+            addAtTime,
             isActive: true,
         };
 
@@ -113,9 +140,22 @@ const RepeatScheduleDialog = ({ open, onOpenChange, task, onSave }: RepeatSchedu
 
         try {
             if (isEditingTemplate) {
-                const templateId = (task as TaskTemplate).id!;
+                const template = task as TaskTemplate;
+                const templateId = template.id!;
                 await updateTemplate(templateId, templateData);
-                toast.success("Template updated");
+
+                // Stored streaks of past days were counted under the old rules
+                const rulesChanged = JSON.stringify(getRecurrenceRule(template)) !== JSON.stringify(recurrence)
+                    || JSON.stringify(template.streakProtection || {}) !== JSON.stringify(streakProtection)
+                    || (template.minCompletionTarget || 50) !== minCompletionTarget;
+                if (rulesChanged) {
+                    toast.success("Template updated", {
+                        description: "Past streaks still follow the old schedule.",
+                        action: { label: "Recompute", onClick: () => openStreakRecompute({ templateIds: [templateId] }) }
+                    });
+                } else {
+                    toast.success("Template updated");
+                }
             } else {
                 await createTemplate({
                     ...templateData,
@@ -131,6 +171,7 @@ const RepeatScheduleDialog = ({ open, onOpenChange, task, onSave }: RepeatSchedu
             // Reset form
             setName('');
             setDescription('');
+            setChecklist([]);
 
             if (onSave) onSave();
 
@@ -180,6 +221,26 @@ const RepeatScheduleDialog = ({ open, onOpenChange, task, onSave }: RepeatSchedu
                 <DurationPicker value={targetTime} onChange={setTargetTime} />
             </div>
 
+            {/* Recurrence */}
+            <div className="space-y-2">
+                <Label>Repeats</Label>
+                <RecurrenceEditor value={recurrence} onChange={setRecurrence} />
+            </div>
+
+            {/* Generation time */}
+            <div className="space-y-2">
+                <Label htmlFor="addAtTime">Add to the day at</Label>
+                <Input
+                    id="addAtTime"
+                    type="time"
+                    value={addAtTime}
+                    onChange={(e) => setAddAtTime(e.target.value)}
+                />
+                <p className="text-xs text-muted-foreground">
+                    The task is created automatically on each due day; leave empty to add it as soon as the day starts.
+                </p>
+            </div>
+
             {/* Minimum Completion Target (Strike System) */}
             <div className="space-y-2 bg-muted/30 p-3 rounded-lg border border-border/50">
                 <div className="flex items-center justify-between">
@@ -209,6 +270,12 @@ const RepeatScheduleDialog = ({ open, onOpenChange, task, onSave }: RepeatSchedu
                 </div>
             </div>
 
+            {/* Streak Protection */}
+            <div className="space-y-2 bg-muted/30 p-3 rounded-lg border border-border/50">
+                <Label>🧊 Streak Protection</Label>
+                <StreakProtectionEditor value={streakProtection} onChange={setStreakProtection} />
+            </div>
+
             {/* Description */}
             <div className="space-y-2">
                 <Label htmlFor="description">Description</Label>
@@ -221,6 +288,15 @@ const RepeatScheduleDialog = ({ open, onOpenChange, task, onSave }: RepeatSchedu
                     className="bg-background resize-none"
                 />
             </div>
+
+            {/* Default Checklist */}
+            <div className="space-y-2">
+                <Label>Default Checklist</Label>
+                <TaskChecklist items={checklist} onChange={setChecklist} />
+                <p className="text-xs text-muted-foreground">
+                    Every task added from this template starts with these items, unchecked.
+                </p>
+            </div>
         </div>
     );
 
@@ -0,0 +1,212 @@
+import { useMemo, useState } from 'react';
+import { toast } from 'sonner';
+import { AlertTriangle, ChevronDown, ChevronUp, Merge, Scissors, SplitSquareHorizontal, PlusSquare } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import {
+    DropdownMenu,
+    DropdownMenuContent,
+    DropdownMenuItem,
+    DropdownMenuLabel,
+    DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { type Category, formatDuration } from '@/lib/db';
+import { useAuth } from '@/contexts/AuthContext';
+import { getCurrentTime, getLogicalDateString } from '@/utils/dateUtils';
+import {
+    DEFAULT_GAP_THRESHOLD_MINUTES,
+    validateSessions,
+    type SessionIssue,
+    type ValidatedSession
+} from '@/utils/sessionValidation';
+import { fillGap, mergeSessions, splitAtDayBoundary, trimOverlap } from '@/services/sessionFixService';
+import { cn } from '@/lib/utils';
+
+export interface IssueSession extends ValidatedSession {
+    category: string;
+    customName?: string;
+}
+
+interface SessionIssuesProps {
+    sessions: IssueSession[];
+    date: string;
+    dayStartHour: number;
+    categories: Category[]; // Offered when filling a gap
+    wakeUpTime?: string;
+    bedTime?: string;
+    onFixed: () => void;
+    className?: string;
+}
+
+const GAP_THRESHOLD_KEY = 'gap_threshold_minutes';
+const GAP_THRESHOLDS = [5, 15, 30, 60];
+
+const label = (session: IssueSession) => session.customName || session.category;
+
+const SessionIssues = ({ sessions, date, dayStartHour, categories, wakeUpTime, bedTime, onFixed, className }: SessionIssuesProps) => {
+    const { user } = useAuth();
+    const [expanded, setExpanded] = useState(false);
+    const [busy, setBusy] = useState(false);
+    const [gapThreshold, setGapThreshold] = useState(
+        () => Number(localStorage.getItem(GAP_THRESHOLD_KEY)) || DEFAULT_GAP_THRESHOLD_MINUTES
+    );
+
+    const issues = useMemo(() => validateSessions(sessions, {
+        dayStartHour,
+        gapThresholdMinutes: gapThreshold,
+        wakeTime: wakeUpTime,
+        bedTime,
+        // Today: open sessions run until now and the rest of the day is not a gap yet
+        now: date === getLogicalDateString(new Date(), dayStartHour) ? getCurrentTime() : undefined
+    }), [sessions, dayStartHour, gapThreshold, wakeUpTime, bedTime, date]);
+
+    const changeThreshold = (minutes: number) => {
+        localStorage.setItem(GAP_THRESHOLD_KEY, String(minutes));
+        setGapThreshold(minutes);
+    };
+
+    const run = async <T,>(action: () => Promise<T>, message: string | ((result: T) => string)) => {
+        setBusy(true);
+        try {
+            const result = await action();
+            toast.success(typeof message === 'string' ? message : message(result));
+            onFixed();
+        } catch (error) {
+            console.error('Session fix failed:', error);
+            toast.error(`Could not fix: ${(error as Error).message}`);
+        } finally {
+            setBusy(false);
+        }
+    };
+
+    if (issues.length === 0) return null;
+
+    const describe = (issue: SessionIssue<IssueSession>) => {
+        switch (issue.type) {
+            case 'overlap':
+                return `${label(issue.first)} and ${label(issue.second)} overlap ${issue.start}–${issue.end}`;
+            case 'crosses_boundary':
+                return `${label(issue.session)} runs ${formatDuration(issue.minutes)} past the day start (${issue.boundary})`;
+            case 'gap':
+                return `Untracked ${issue.start}–${issue.end} (${formatDuration(issue.minutes)})`;
+        }
+    };
+
+    const actions = (issue: SessionIssue<IssueSession>) => {
+        switch (issue.type) {
+            case 'overlap':
+                return (
+                    <>
+                        <Button
+                            variant="ghost"
+                            size="sm"
+                            disabled={busy}
+                            onClick={() => run(() => trimOverlap(issue.first.id!, issue.second.id!, dayStartHour), 'Overlap trimmed')}
+                            title={`Cut the overlap out of ${label(issue.first)}`}
+                            className="h-7 gap-1 text-xs"
+                        >
+                            <Scissors className="h-3.5 w-3.5" />
+                            Trim
+                        </Button>
+                        <Button
+                            variant="ghost"
+                            size="sm"
+                            disabled={busy}
+                            onClick={() => run(() => mergeSessions(issue.first.id!, issue.second.id!, dayStartHour), 'Sessions merged')}
+                            title="Combine both into one session"
+                            className="h-7 gap-1 text-xs"
+                        >
+                            <Merge className="h-3.5 w-3.5" />
+                            Merge
+                        </Button>
+                    </>
+                );
+            case 'crosses_boundary':
+                return (
+                    <Button
+                        variant="ghost"
+                        size="sm"
+                        disabled={busy}
+                        onClick={() => run(() => splitAtDayBoundary(issue.session.id!, dayStartHour), ([head, tail]) =>
+                            head.task_id && !tail.task_id
+                                ? 'Session split at the day start. The next day has no matching task, so the rest is not linked to one'
+                                : 'Session split at the day start')}
+                        title="End it at the day start and continue on the next day"
+                        className="h-7 gap-1 text-xs"
+                    >
+                        <SplitSquareHorizontal className="h-3.5 w-3.5" />
+                        Split
+                    </Button>
+                );
+            case 'gap':
+                return (
+                    <DropdownMenu>
+                        <DropdownMenuTrigger asChild>
+                            <Button variant="ghost" size="sm" disabled={busy || !user} className="h-7 gap-1 text-xs">
+                                <PlusSquare className="h-3.5 w-3.5" />
+                                Fill
+                            </Button>
+                        </DropdownMenuTrigger>
+                        <DropdownMenuContent align="end" className="max-h-64 overflow-auto">
+                            <DropdownMenuLabel className="text-xs">Log as</DropdownMenuLabel>
+                            {categories.map(category => (
+                                <DropdownMenuItem
+                                    key={category.id ?? category.name}
+                                    onClick={() => user && run(
+                                        () => fillGap(user.id, date, issue.start, issue.end, category),
+                                        `Logged ${issue.start}–${issue.end} as ${category.name}`
+                                    )}
+                                >
+                                    {category.name}
+                                </DropdownMenuItem>
+                            ))}
+                        </DropdownMenuContent>
+                    </DropdownMenu>
+                );
+        }
+    };
+
+    return (
+        <div className={cn("rounded-md border border-warning/30 bg-warning/5 text-sm", className)}>
+            <button
+                type="button"
+                onClick={() => setExpanded(prev => !prev)}
+                className="flex w-full items-center gap-2 px-3 py-2 text-left"
+            >
+                <AlertTriangle className="h-4 w-4 text-warning" />
+                <span className="flex-1 font-medium">
+                    {issues.length} timeline issue{issues.length === 1 ? '' : 's'}
+                </span>
+                {expanded ? <ChevronUp className="h-4 w-4" /> : <ChevronDown className="h-4 w-4" />}
+            </button>
+
+            {expanded && (
+                <div className="border-t border-warning/20 px-3 py-2 space-y-1">
+                    {issues.map(issue => (
+                        <div key={issue.key} className="flex items-center justify-between gap-2">
+                            <span className="text-xs text-muted-foreground">{describe(issue)}</span>
+                            <div className="flex shrink-0 items-center">{actions(issue)}</div>
+                        </div>
+                    ))}
+                    <div className="flex items-center gap-2 pt-1 text-xs text-muted-foreground">
+                        <span>Flag gaps longer than</span>
+                        {GAP_THRESHOLDS.map(minutes => (
+                            <button
+                                key={minutes}
+                                type="button"
+                                onClick={() => changeThreshold(minutes)}
+                                className={cn(
+                                    "rounded px-1.5 py-0.5",
+                                    minutes === gapThreshold ? "bg-warning/20 text-foreground" : "hover:text-foreground"
+                                )}
+                            >
+                                {minutes}m
+                            </button>
+                        ))}
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default SessionIssues;
@@ -0,0 +1,118 @@
+import { useState } from 'react';
+import { toast } from 'sonner';
+import { Pause, Play, Square, Timer } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { type Category } from '@/lib/db';
+import { type Row } from '@/repositories';
+import { useAuth } from '@/contexts/AuthContext';
+import { useUserPreferences } from '@/contexts/UserPreferencesContext';
+import { useSessionTimer } from '@/hooks/useSessionTimer';
+import {
+    pauseSessionTimer,
+    resumeSessionTimer,
+    startSessionTimer,
+    stopSessionTimer
+} from '@/services/sessionTimerService';
+import { cn } from '@/lib/utils';
+
+interface SessionTimerProps {
+    categories: Category[];
+    onSessionsChanged: (closed: Row[]) => void;
+}
+
+const SessionTimer = ({ categories, onSessionsChanged }: SessionTimerProps) => {
+    const { user } = useAuth();
+    const { dayStartHour } = useUserPreferences();
+    const { timer, running, elapsed } = useSessionTimer();
+    const [busy, setBusy] = useState(false);
+
+    const run = async (action: () => Promise<Row[] | unknown>) => {
+        setBusy(true);
+        try {
+            const closed = await action();
+            onSessionsChanged(Array.isArray(closed) ? closed : []);
+        } catch (error) {
+            console.error('Session timer failed:', error);
+            toast.error(`Timer: ${(error as Error).message}`);
+        } finally {
+            setBusy(false);
+        }
+    };
+
+    const handleStart = () => {
+        if (!user) return;
+        // Same default as a new session: first work category
+        const category = categories.find(c => c.type === 'work') || categories[0] || { name: 'Deep Work', type: 'work' };
+        run(() => startSessionTimer(user.id, {
+            task_id: null,
+            custom_name: '',
+            category: category.name,
+            category_type: category.type,
+            description: ''
+        }, dayStartHour));
+    };
+
+    if (!timer) {
+        return (
+            <Button
+                variant="ghost"
+                size="sm"
+                onClick={handleStart}
+                disabled={busy || !user}
+                title="Start a timed session"
+                className="h-8 gap-1.5 text-muted-foreground hover:text-foreground"
+            >
+                <Timer className="h-4 w-4" />
+                <span className="hidden sm:inline">Start timer</span>
+            </Button>
+        );
+    }
+
+    return (
+        <div className="flex items-center gap-1">
+            <span
+                className={cn(
+                    "font-mono text-sm tabular-nums px-2 py-0.5 rounded",
+                    running ? "text-primary bg-primary/10" : "text-muted-foreground bg-muted/50"
+                )}
+            >
+                {elapsed}
+            </span>
+            {running ? (
+                <Button
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => run(() => pauseSessionTimer(dayStartHour))}
+                    disabled={busy}
+                    title="Pause"
+                    className="h-8 w-8 text-muted-foreground hover:text-foreground"
+                >
+                    <Pause className="h-4 w-4" />
+                </Button>
+            ) : (
+                <Button
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => user && run(() => resumeSessionTimer(user.id, dayStartHour))}
+                    disabled={busy || !user}
+                    title="Resume"
+                    className="h-8 w-8 text-muted-foreground hover:text-foreground"
+                >
+                    <Play className="h-4 w-4" />
+                </Button>
+            )}
+            <Button
+                variant="ghost"
+                size="icon"
+                onClick={() => run(() => stopSessionTimer(dayStartHour))}
+                disabled={busy}
+                title="Stop"
+                className="h-8 w-8 text-muted-foreground hover:text-destructive"
+            >
+                <Square className="h-4 w-4" />
+            </Button>
+        </div>
+    );
+};
+
+export default SessionTimer;
@@ -1,6 +1,6 @@
 import { useState, useEffect } from 'react';
 import { db, type Priority, type Category } from '@/lib/db';
-import { supabase } from '@/lib/supabase';
+import { isLocalMode, repositories } from '@/repositories';
 import { useAuth } from '@/contexts/AuthContext';
 import {
     Dialog,
@@ -87,46 +87,43 @@ export const SettingsDialog = ({ open, onOpenChange, defaultTab = 'priorities' }
 
         try {
             // 1. Fetch Priorities
-            const { data: pData } = await supabase
-                .from('priorities')
-                .select('*')
-                .eq('user_id', user.id)
-                .order('order', { ascending: true });
+            const pData = await repositories.priorities.list({ where: { user_id: user.id }, orderBy: 'order' });
 
             if (pData) {
-                setPriorities(pData);
-                // Sync to local DB for offline access/analytics
+                setPriorities(pData as Priority[]);
+            }
+            // Sync to local DB for offline access/analytics (local-only mode already reads it)
+            // Rows come straight from the server, so they are already synced
+            if (pData && !isLocalMode) {
                 await db.priorities.clear();
-                await db.priorities.bulkPut(pData);
+                await db.priorities.bulkPut((pData as Priority[]).map(p => ({ ...p, syncStatus: 'synced' })));
             }
 
             // 2. Fetch Category Types (Main Categories)
-            const { data: ctData } = await supabase
-                .from('category_types')
-                .select('*')
-                .eq('user_id', user.id)
-                .eq('is_active', true) // Filter active
-                .order('name', { ascending: true });
+            const ctData = await repositories.category_types.list({
+                where: { user_id: user.id, is_active: true }, // Filter active
+                orderBy: 'name'
+            });
             if (ctData) {
-                setCategoryTypes(ctData);
+                setCategoryTypes(ctData as CategoryType[]);
                 if (!newCategoryType && ctData.length > 0) {
                     setNewCategoryType(ctData[0].name);
                 }
             }
 
             // 3. Fetch Execution Categories
-            const { data: cData } = await supabase
-                .from('categories')
-                .select('*')
-                .eq('user_id', user.id)
-                .eq('is_active', true) // Filter active
-                .order('order', { ascending: true });
+            const cData = await repositories.categories.list({
+                where: { user_id: user.id, is_active: true }, // Filter active
+                orderBy: 'order'
+            });
 
             if (cData) {
                 setCategories(cData as Category[]);
-                // Sync to local DB for offline access/analytics
+            }
+            // Sync to local DB for offline access/analytics
+            if (cData && !isLocalMode) {
                 await db.categories.clear();
-                await db.categories.bulkPut(cData as Category[]);
+                await db.categories.bulkPut((cData as Category[]).map(c => ({ ...c, syncStatus: 'synced' })));
             }
         } catch (error) {
             console.error("Error fetching settings:", error);
@@ -145,42 +142,44 @@ export const SettingsDialog = ({ open, onOpenChange, defaultTab = 'priorities' }
     // === TYPE MANAGEMENT (Categories Tab) ===
     const handleAddType = async () => {
         if (!newTypeName.trim() || !user) return;
-        const { error } = await supabase.from('category_types').insert({
-            user_id: user.id,
-            name: newTypeName.trim(),
-            order: categoryTypes.length + 1,
-            color: newTypeColor // ADDED COLOR
-        });
-        if (error) alert(error.message);
-        else {
+        try {
+            await repositories.category_types.insert({
+                user_id: user.id,
+                name: newTypeName.trim(),
+                order: categoryTypes.length + 1,
+                color: newTypeColor, // ADDED COLOR
+                is_active: true
+            });
             setNewTypeName('');
             fetchData();
+        } catch (error) {
+            alert((error as Error).message);
         }
     };
 
     const handleUpdateType = async () => {
         if (!editingTypeId || !user) return;
-        const { error } = await supabase
-            .from('category_types')
-            .update({ name: editTypeName, color: editTypeColor }) // ADDED COLOR
-            .eq('id', editingTypeId)
-            .eq('user_id', user.id);
-
-        if (error) alert(error.message);
-        else {
-            // Update associated categories if name changed
-            const oldType = categoryTypes.find(t => t.id === editingTypeId);
-            if (oldType && oldType.name !== editTypeName) {
-                await supabase
-                    .from('categories')
-                    .update({ type: editTypeName })
-                    .eq('type', oldType.name)
-                    .eq('user_id', user.id);
-            }
+        try {
+            await repositories.category_types.updateWhere(
+                { id: editingTypeId, user_id: user.id },
+                { name: editTypeName, color: editTypeColor } // ADDED COLOR
+            );
+        } catch (error) {
+            alert((error as Error).message);
+            return;
+        }
 
-            setEditingTypeId(null);
-            fetchData();
+        // Update associated categories if name changed
+        const oldType = categoryTypes.find(t => t.id === editingTypeId);
+        if (oldType && oldType.name !== editTypeName) {
+            await repositories.categories.updateWhere(
+                { type: oldType.name, user_id: user.id },
+                { type: editTypeName }
+            );
         }
+
+        setEditingTypeId(null);
+        fetchData();
     };
 
     const handleDeleteType = async (id: number) => {
@@ -188,29 +187,29 @@ export const SettingsDialog = ({ open, onOpenChange, defaultTab = 'priorities' }
         if (!confirm('Archive this main category? It will be hidden from planning but historical data remains.')) return;
 
         // SOFT DELETE: Set is_active = false
-        const { error } = await supabase
-            .from('category_types')
-            .update({ is_active: false })
-            .eq('id', id)
-            .eq('user_id', user.id);
-        if (error) alert(error.message);
-        else fetchData();
+        try {
+            await repositories.category_types.updateWhere({ id, user_id: user.id }, { is_active: false });
+            fetchData();
+        } catch (error) {
+            alert((error as Error).message);
+        }
     };
 
 
     // === PRIORITIES LOGIC ===
     const handleAddPriority = async () => {
         if (!newPriorityName.trim() || !user) return;
-        const { error } = await supabase.from('priorities').insert({
-            user_id: user.id,
-            name: newPriorityName,
-            color: newPriorityColor,
-            order: priorities.length + 1,
-        });
-        if (error) alert(`Error: ${error.message}`);
-        else {
+        try {
+            await repositories.priorities.insert({
+                user_id: user.id,
+                name: newPriorityName,
+                color: newPriorityColor,
+                order: priorities.length + 1,
+            });
             setNewPriorityName('');
             fetchData();
+        } catch (error) {
+            alert(`Error: ${(error as Error).message}`);
         }
     };
 
@@ -218,22 +217,22 @@ export const SettingsDialog = ({ open, onOpenChange, defaultTab = 'priorities' }
         if (!editingPriorityId || !user) return;
         const oldPriority = priorities.find(p => p.id === editingPriorityId);
 
-        const { error } = await supabase.from('priorities')
-            .update({ name: editPriorityName, color: editPriorityColor })
-            .eq('id', editingPriorityId)
-            .eq('user_id', user.id);
-
-        if (error) {
-            alert(`Error: ${error.message}`);
+        try {
+            await repositories.priorities.updateWhere(
+                { id: editingPriorityId, user_id: user.id },
+                { name: editPriorityName, color: editPriorityColor }
+            );
+        } catch (error) {
+            alert(`Error: ${(error as Error).message}`);
             return;
         }
 
         // Cascade rename
         if (oldPriority && oldPriority.name !== editPriorityName) {
-            await supabase.from('tasks')
-                .update({ priority: editPriorityName })
-                .eq('priority', oldPriority.name)
-                .eq('user_id', user.id);
+            await repositories.tasks.updateWhere(
+                { priority: oldPriority.name, user_id: user.id },
+                { priority: editPriorityName }
+            );
         }
 
         setEditingPriorityId(null);
@@ -242,8 +241,12 @@ export const SettingsDialog = ({ open, onOpenChange, defaultTab = 'priorities' }
 
     const handleDeletePriority = async (id: number) => {
         if (!user) return;
-        const { error } = await supabase.from('priorities').delete().eq('id', id).eq('user_id', user.id);
-        if (!error) fetchData();
+        try {
+            await repositories.priorities.removeWhere({ id, user_id: user.id });
+            fetchData();
+        } catch (error) {
+            console.error('Failed to delete priority', error);
+        }
     };
 
 
@@ -255,18 +258,19 @@ export const SettingsDialog = ({ open, onOpenChange, defaultTab = 'priorities' }
             return;
         }
 
-        const { error } = await supabase.from('categories').insert({
-            user_id: user.id,
-            name: newCategoryName,
-            type: newCategoryType,
-            color: newCategoryColor,
-            order: categories.length + 1,
-        });
-
-        if (error) alert(`Error: ${error.message}`);
-        else {
+        try {
+            await repositories.categories.insert({
+                user_id: user.id,
+                name: newCategoryName,
+                type: newCategoryType,
+                color: newCategoryColor,
+                order: categories.length + 1,
+                is_active: true
+            });
             setNewCategoryName('');
             fetchData();
+        } catch (error) {
+            alert(`Error: ${(error as Error).message}`);
         }
     };
 
@@ -274,36 +278,30 @@ export const SettingsDialog = ({ open, onOpenChange, defaultTab = 'priorities' }
         if (!editingCategoryId || !user) return;
         const oldCategory = categories.find(c => c.id === editingCategoryId);
 
-        const { error } = await supabase.from('categories')
-            .update({
+        try {
+            await repositories.categories.updateWhere({ id: editingCategoryId, user_id: user.id }, {
                 name: editCategoryName,
                 type: editCategoryType,
                 color: editCategoryColor
-            })
-            .eq('id', editingCategoryId)
-            .eq('user_id', user.id);
-
-        if (error) {
-            alert(`Error: ${error.message}`);
+            });
+        } catch (error) {
+            alert(`Error: ${(error as Error).message}`);
             return;
         }
 
         // Cascade updates to sessions if Name or Type changed
         if (oldCategory && (oldCategory.name !== editCategoryName || oldCategory.type !== editCategoryType)) {
             // Update all past sessions that used this category
-            await supabase.from('sessions')
-                .update({
-                    category: editCategoryName,
-                    category_type: editCategoryType // Update the type as well
-                })
-                .eq('category', oldCategory.name)
-                .eq('user_id', user.id);
+            await repositories.sessions.updateWhere({ category: oldCategory.name, user_id: user.id }, {
+                category: editCategoryName,
+                category_type: editCategoryType // Update the type as well
+            });
 
             // Also update any Templates if they store category info (though they just reference name usually)
-            await supabase.from('task_templates')
-                .update({ category: editCategoryName })
-                .eq('category', oldCategory.name)
-                .eq('user_id', user.id);
+            await repositories.task_templates.updateWhere(
+                { category: oldCategory.name, user_id: user.id },
+                { category: editCategoryName }
+            );
         }
 
         setEditingCategoryId(null);
@@ -313,12 +311,12 @@ export const SettingsDialog = ({ open, onOpenChange, defaultTab = 'priorities' }
     const handleDeleteCategory = async (id: number) => {
         if (!user) return;
         // SOFT DELETE: Set is_active = false
-        const { error } = await supabase
-            .from('categories')
-            .update({ is_active: false })
-            .eq('id', id)
-            .eq('user_id', user.id);
-        if (!error) fetchData();
+        try {
+            await repositories.categories.updateWhere({ id, user_id: user.id }, { is_active: false });
+            fetchData();
+        } catch (error) {
+            console.error('Failed to delete category', error);
+        }
     };
 
 
@@ -0,0 +1,78 @@
+import { getWeekRange, shiftDate } from '@/utils/recurrence';
+import { FIGHTER_THRESHOLD, type StreakDay } from '@/utils/streakEngine';
+import { formatDateForDisplay } from '@/utils/dateUtils';
+import { cn } from '@/lib/utils';
+
+interface StreakHeatmapProps {
+    days: StreakDay[]; // Oldest first, one per day
+    minCompletionTarget: number;
+    weeks?: number; // Most recent weeks shown
+}
+
+const ROW_LABELS = ['Mon', '', 'Wed', '', 'Fri', '', 'Sun'];
+
+const cellClass = (day: StreakDay | undefined, minCompletionTarget: number) => {
+    if (!day) return 'bg-transparent';
+    if (day.frozen) return 'bg-sky-400/70';
+    if (!day.due || day.rest) return 'border border-dashed border-border/60';
+    if (day.progress > FIGHTER_THRESHOLD) return 'bg-success';
+    if (day.progress >= minCompletionTarget) return 'bg-success/60';
+    if (day.progress > 0) return 'bg-success/25';
+    return day.open ? 'bg-muted/50' : 'bg-muted';
+};
+
+const describeDay = (day: StreakDay) => {
+    const status = day.frozen ? ' · freeze used'
+        : day.rest ? ' · rest day'
+            : !day.due ? ' · not due'
+                : !day.logged ? ' · nothing logged' : '';
+    return `${formatDateForDisplay(day.date)}: ${day.progress}%${status}`;
+};
+
+/**
+ * Calendar of a habit's daily progress, a column per week (Monday on top)
+ */
+const StreakHeatmap = ({ days, minCompletionTarget, weeks = 26 }: StreakHeatmapProps) => {
+    if (days.length === 0) return null;
+
+    const byDate = new Map(days.map(day => [day.date, day]));
+    const lastWeek = getWeekRange(days[days.length - 1].date);
+    const firstMonday = shiftDate(lastWeek.start, -7 * (weeks - 1));
+    const columns = Array.from({ length: weeks }, (_, week) =>
+        Array.from({ length: 7 }, (_, row) => shiftDate(firstMonday, week * 7 + row))
+    );
+
+    return (
+        <div className="space-y-2">
+            <div className="flex gap-1 overflow-x-auto pb-1">
+                <div className="grid grid-rows-7 gap-[3px] pr-1 text-[9px] leading-[11px] text-muted-foreground">
+                    {ROW_LABELS.map((label, row) => <span key={row}>{label}</span>)}
+                </div>
+                {columns.map(column => (
+                    <div key={column[0]} className="grid grid-rows-7 gap-[3px]">
+                        {column.map(date => {
+                            const day = byDate.get(date);
+                            return (
+                                <div
+                                    key={date}
+                                    title={day ? describeDay(day) : undefined}
+                                    className={cn("h-[11px] w-[11px] rounded-[2px]", cellClass(day, minCompletionTarget))}
+                                />
+                            );
+                        })}
+                    </div>
+                ))}
+            </div>
+            <div className="flex flex-wrap items-center gap-3 text-[10px] text-muted-foreground">
+                <span className="flex items-center gap-1"><span className="h-2.5 w-2.5 rounded-[2px] bg-muted" /> Missed</span>
+                <span className="flex items-center gap-1"><span className="h-2.5 w-2.5 rounded-[2px] bg-success/25" /> Below {minCompletionTarget}%</span>
+                <span className="flex items-center gap-1"><span className="h-2.5 w-2.5 rounded-[2px] bg-success/60" /> Met</span>
+                <span className="flex items-center gap-1"><span className="h-2.5 w-2.5 rounded-[2px] bg-success" /> Over {FIGHTER_THRESHOLD}%</span>
+                <span className="flex items-center gap-1"><span className="h-2.5 w-2.5 rounded-[2px] bg-sky-400/70" /> Freeze</span>
+                <span className="flex items-center gap-1"><span className="h-2.5 w-2.5 rounded-[2px] border border-dashed border-border/60" /> Off / rest</span>
+            </div>
+        </div>
+    );
+};
+
+export default StreakHeatmap;
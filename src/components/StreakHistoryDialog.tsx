@@ -0,0 +1,174 @@
+import { useEffect, useState } from 'react';
+import { History } from 'lucide-react';
+import {
+    Dialog,
+    DialogContent,
+    DialogDescription,
+    DialogHeader,
+    DialogTitle,
+} from '@/components/ui/dialog';
+import { useAuth } from '@/contexts/AuthContext';
+import { fetchChainTasks, fetchStreakSchedule } from '@/lib/streakCalculator';
+import { toTaskTemplateId, type TaskTemplate } from '@/services/templateService';
+import { getToday, formatDateForDisplay } from '@/utils/dateUtils';
+import { describeRecurrence } from '@/utils/recurrence';
+import type { StreakSchedule } from '@/utils/streakEngine';
+import { describeChainBreak, getStreakHistory, type StreakChain, type StreakHistory } from '@/utils/streakHistory';
+import StreakHeatmap from './StreakHeatmap';
+import { cn } from '@/lib/utils';
+
+interface StreakHistoryDialogProps {
+    open: boolean;
+    onOpenChange: (open: boolean) => void;
+    template: TaskTemplate | null;
+}
+
+const KIND_ICONS = { achiever: '🔥', fighter: '⚔️' };
+
+const formatSpan = (chain: StreakChain) =>
+    chain.start === chain.end
+        ? formatDateForDisplay(chain.start)
+        : `${formatDateForDisplay(chain.start)} – ${formatDateForDisplay(chain.end)}`;
+
+/**
+ * Every past streak of a template, its records, weekday completion rate
+ * and a calendar of daily progress
+ */
+const StreakHistoryDialog = ({ open, onOpenChange, template }: StreakHistoryDialogProps) => {
+    const { user } = useAuth();
+    const [schedule, setSchedule] = useState<StreakSchedule | null>(null);
+    const [history, setHistory] = useState<StreakHistory | null>(null);
+    const [loading, setLoading] = useState(false);
+
+    useEffect(() => {
+        if (!open || !user || !template?.id) return;
+
+        let cancelled = false;
+        const load = async () => {
+            setLoading(true);
+            try {
+                const taskTemplateId = toTaskTemplateId(template.id!);
+                const [loadedSchedule, tasks] = await Promise.all([
+                    fetchStreakSchedule(taskTemplateId),
+                    fetchChainTasks(user.id, taskTemplateId, template.name)
+                ]);
+                if (cancelled) return;
+                setSchedule(loadedSchedule);
+                setHistory(getStreakHistory(loadedSchedule, tasks, getToday()));
+            } catch (error) {
+                console.error('Failed to load streak history', error);
+                if (!cancelled) setHistory(null);
+            } finally {
+                if (!cancelled) setLoading(false);
+            }
+        };
+
+        load();
+        return () => { cancelled = true; };
+    }, [open, user, template]);
+
+    const current = history?.days[history.days.length - 1];
+
+    return (
+        <Dialog open={open} onOpenChange={onOpenChange}>
+            <DialogContent className="max-w-2xl max-h-[85vh] overflow-y-auto custom-scrollbar">
+                <DialogHeader>
+                    <DialogTitle className="flex items-center gap-2">
+                        <History className="h-5 w-5" />
+                        {template?.name || 'Streak History'}
+                    </DialogTitle>
+                    <DialogDescription>
+                        {schedule
+                            ? `${describeRecurrence(schedule.rule)} · goal ${schedule.minCompletionTarget}%`
+                            : 'Streaks, records and daily progress'}
+                    </DialogDescription>
+                </DialogHeader>
+
+                {loading && <p className="py-8 text-center text-sm text-muted-foreground">Loading history...</p>}
+
+                {!loading && (!history || !schedule || history.days.length === 0) && (
+                    <p className="py-8 text-center text-sm text-muted-foreground">No tasks from this template yet.</p>
+                )}
+
+                {!loading && history && schedule && current && (
+                    <div className="space-y-6">
+                        {/* Records */}
+                        <div className="grid grid-cols-2 gap-3 sm:grid-cols-4">
+                            {([
+                                ['Current 🔥', current.achiever],
+                                ['Longest 🔥', history.longest.achiever?.length || 0],
+                                ['Current ⚔️', current.fighter],
+                                ['Longest ⚔️', history.longest.fighter?.length || 0]
+                            ] as [string, number][]).map(([label, value]) => (
+                                <div key={label} className="rounded-lg border border-border/50 bg-muted/30 p-3">
+                                    <div className="text-[10px] uppercase tracking-wider text-muted-foreground">{label}</div>
+                                    <div className="text-2xl font-semibold">{value}</div>
+                                </div>
+                            ))}
+                        </div>
+
+                        {/* Calendar */}
+                        <section className="space-y-2">
+                            <h4 className="text-xs font-medium uppercase tracking-wider text-muted-foreground">Daily progress</h4>
+                            <StreakHeatmap days={history.days} minCompletionTarget={schedule.minCompletionTarget} />
+                        </section>
+
+                        {/* Weekday completion */}
+                        <section className="space-y-2">
+                            <h4 className="text-xs font-medium uppercase tracking-wider text-muted-foreground">Completion by weekday</h4>
+                            <div className="grid grid-cols-7 gap-2">
+                                {history.weekdays.map(day => (
+                                    <div key={day.weekday} className="flex flex-col items-center gap-1" title={`${day.met} of ${day.due} due days met`}>
+                                        <div className="relative h-16 w-full overflow-hidden rounded bg-muted">
+                                            <div
+                                                className="absolute inset-x-0 bottom-0 bg-success/60"
+                                                style={{ height: `${day.rate}%` }}
+                                            />
+                                        </div>
+                                        <span className="text-[10px] text-muted-foreground">{day.label}</span>
+                                        <span className="text-xs font-medium">{day.due ? `${day.rate}%` : '—'}</span>
+                                    </div>
+                                ))}
+                            </div>
+                        </section>
+
+                        {/* Chains */}
+                        <section className="space-y-2">
+                            <h4 className="text-xs font-medium uppercase tracking-wider text-muted-foreground">Streaks</h4>
+                            {history.chains.length === 0 ? (
+                                <p className="text-sm text-muted-foreground">No streaks yet.</p>
+                            ) : (
+                                <div className="divide-y divide-border/40">
+                                    {history.chains.map(chain => {
+                                        const isRecord = history.longest[chain.kind] === chain;
+                                        return (
+                                            <div
+                                                key={`${chain.kind}-${chain.start}`}
+                                                className="grid grid-cols-[24px_1fr_auto] items-center gap-x-3 py-2 text-sm sm:grid-cols-[24px_1fr_60px_180px]"
+                                            >
+                                                <span>{KIND_ICONS[chain.kind]}</span>
+                                                <span className="truncate">{formatSpan(chain)}</span>
+                                                <span className={cn("text-right font-semibold", isRecord && "text-primary")}>
+                                                    {chain.length}{isRecord && ' 🏆'}
+                                                </span>
+                                                <span className={cn(
+                                                    "col-span-2 col-start-2 text-xs text-muted-foreground sm:col-span-1 sm:col-start-auto sm:text-right",
+                                                    chain.reason === 'ongoing' && "text-success"
+                                                )}>
+                                                    {chain.brokenOn && `${formatDateForDisplay(chain.brokenOn)}: `}
+                                                    {describeChainBreak(chain, schedule.minCompletionTarget)}
+                                                </span>
+                                            </div>
+                                        );
+                                    })}
+                                </div>
+                            )}
+                        </section>
+                    </div>
+                )}
+            </DialogContent>
+        </Dialog>
+    );
+};
+
+export default StreakHistoryDialog;
@@ -0,0 +1,124 @@
+import { useState } from 'react';
+import { Plus, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import {
+    Select,
+    SelectContent,
+    SelectItem,
+    SelectTrigger,
+    SelectValue,
+} from '@/components/ui/select';
+import { type StreakProtection } from '@/lib/db';
+import { DEFAULT_MAX_FREEZES } from '@/utils/streakEngine';
+import { formatDateForDisplay } from '@/utils/dateUtils';
+
+interface StreakProtectionEditorProps {
+    value: StreakProtection;
+    onChange: (protection: StreakProtection) => void;
+}
+
+const DEFAULT_FREEZE_EVERY = 7;
+
+/**
+ * Freeze tokens, late-logging grace and planned rest days of a template
+ */
+const StreakProtectionEditor = ({ value, onChange }: StreakProtectionEditorProps) => {
+    const [restDay, setRestDay] = useState('');
+    const update = (updates: Partial<StreakProtection>) => onChange({ ...value, ...updates });
+
+    const addRestDay = () => {
+        if (!restDay || value.restDays?.includes(restDay)) return;
+        update({ restDays: [...(value.restDays || []), restDay].sort() });
+        setRestDay('');
+    };
+
+    return (
+        <div className="space-y-3">
+            <div className="flex items-center justify-between gap-2">
+                <Label htmlFor="freezes" className="text-sm font-normal">Freeze tokens</Label>
+                <Switch
+                    id="freezes"
+                    checked={!!value.freezeEvery}
+                    onCheckedChange={(checked) => update({
+                        freezeEvery: checked ? DEFAULT_FREEZE_EVERY : undefined,
+                        maxFreezes: checked ? DEFAULT_MAX_FREEZES : undefined
+                    })}
+                />
+            </div>
+            {!!value.freezeEvery && (
+                <div className="flex flex-wrap items-center gap-2 text-sm text-muted-foreground">
+                    <span>Earn one every</span>
+                    <Input
+                        type="number"
+                        min={1}
+                        value={value.freezeEvery}
+                        onChange={(e) => update({ freezeEvery: Math.max(1, Number(e.target.value) || 1) })}
+                        className="h-8 w-16 bg-background"
+                    />
+                    <span>met days, hold up to</span>
+                    <Input
+                        type="number"
+                        min={1}
+                        value={value.maxFreezes ?? DEFAULT_MAX_FREEZES}
+                        onChange={(e) => update({ maxFreezes: Math.max(1, Number(e.target.value) || 1) })}
+                        className="h-8 w-16 bg-background"
+                    />
+                </div>
+            )}
+
+            <div className="flex items-center justify-between gap-2">
+                <Label className="text-sm font-normal">Grace for logging late</Label>
+                <Select
+                    value={String(value.graceDays || 0)}
+                    onValueChange={(v) => update({ graceDays: Number(v) || undefined })}
+                >
+                    <SelectTrigger className="h-8 w-28 bg-background">
+                        <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                        <SelectItem value="0">None</SelectItem>
+                        <SelectItem value="1">1 day</SelectItem>
+                        <SelectItem value="2">2 days</SelectItem>
+                        <SelectItem value="3">3 days</SelectItem>
+                    </SelectContent>
+                </Select>
+            </div>
+
+            <div className="space-y-1">
+                <Label className="text-xs text-muted-foreground">Rest days (a miss on them doesn't count)</Label>
+                <div className="flex items-center gap-2">
+                    <Input
+                        type="date"
+                        value={restDay}
+                        onChange={(e) => setRestDay(e.target.value)}
+                        className="h-8 bg-background"
+                    />
+                    <Button type="button" variant="ghost" size="icon" onClick={addRestDay} disabled={!restDay} className="h-8 w-8 shrink-0">
+                        <Plus className="h-4 w-4" />
+                    </Button>
+                </div>
+                {value.restDays && value.restDays.length > 0 && (
+                    <div className="flex flex-wrap gap-1 pt-1">
+                        {value.restDays.map(date => (
+                            <span key={date} className="flex items-center gap-1 rounded bg-muted px-1.5 py-0.5 text-xs">
+                                {formatDateForDisplay(date)}
+                                <button
+                                    type="button"
+                                    onClick={() => update({ restDays: value.restDays!.filter(d => d !== date) })}
+                                    className="text-muted-foreground hover:text-foreground"
+                                >
+                                    <X className="h-3 w-3" />
+                                </button>
+                            </span>
+                        ))}
+                    </div>
+                )}
+            </div>
+        </div>
+    );
+};
+
+export default StreakProtectionEditor;
@@ -1,7 +1,17 @@
 import { useState, useEffect } from 'react';
-import { supabase } from '@/lib/supabase';
+import { repositories } from '@/repositories';
 import { useAuth } from '@/contexts/AuthContext';
 import { getDateString } from '@/lib/db';
+import { fetchStreakHistory, fetchStreakSchedule } from '@/lib/streakCalculator';
+import { getToday } from '@/utils/dateUtils';
+import {
+    getStreakSchedule,
+    getStreaksOn,
+    meetsAchiever,
+    meetsFighter,
+    type StreakHistoryEntry,
+    type StreakSchedule
+} from '@/utils/streakEngine';
 import { cn } from '@/lib/utils';
 
 interface StrikeBadgeProps {
@@ -20,6 +30,9 @@ interface StrikeBadgeProps {
  * KEY LOGIC:
  * - If NO templateId → Show "—"
  * - If YES templateId → ALWAYS show 🔥 and ⚔️ (even if 0)
+ * - Counts come from the streak engine with the live progress, the same
+ *   numbers the planner saves on the task
+ * - ❄️ shows the freezes spent on the current streak, when the template has any
  */
 const StrikeBadge = ({
     taskName,
@@ -31,110 +44,55 @@ const StrikeBadge = ({
     className
 }: StrikeBadgeProps) => {
     const { user } = useAuth();
-    const [historicalAchiever, setHistoricalAchiever] = useState(0);
-    const [historicalFighter, setHistoricalFighter] = useState(0);
-    const [minCompletionTarget, setMinCompletionTarget] = useState(60);
+    const [schedule, setSchedule] = useState<StreakSchedule>(() => getStreakSchedule(null));
+    const [history, setHistory] = useState<StreakHistoryEntry[]>([]);
     const [hasTemplate, setHasTemplate] = useState(false);
+    const dateString = getDateString(currentDate);
 
     useEffect(() => {
         const fetchStreaks = async () => {
-            if (!user || !taskId) {
-                console.log('🔍 StrikeBadge: Missing user or taskId', { user: !!user, taskId });
-                return;
-            }
+            if (!user || !taskId) return;
 
-            // Fetch historical streak data
-            const { data: task, error } = await supabase
-                .from('tasks')
-                .select('achiever_strike, fighter_strike, template_id')
-                .eq('id', taskId)
-                .eq('user_id', user.id)
-                .single();
+            const task = await repositories.tasks
+                .find({ where: { id: taskId, user_id: user.id } })
+                .catch(() => null);
 
-            console.log('🔍 StrikeBadge: Fetched task', {
-                taskId,
-                task,
-                passedTemplateId: templateId,
-                dbTemplateId: task?.template_id
-            });
-
-            if (error || !task) {
-                console.log('🔍 StrikeBadge: No task found', error);
+            if (!task) {
+                console.log('🔍 StrikeBadge: No task found', taskId);
                 return;
             }
 
-            // Store historical values
-            const historicalAchieverCount = task.achiever_strike || 0;
-            const historicalFighterCount = task.fighter_strike || 0;
-
-            setHistoricalAchiever(historicalAchieverCount);
-            setHistoricalFighter(historicalFighterCount);
-
             // Check if template exists (by templateId OR by name lookup)
-            const hasTemplateId = !!(templateId || task.template_id);
-
-            if (!hasTemplateId) {
-                // Try name lookup as fallback
-                const { data: template } = await supabase
-                    .from('repeating_tasks')
-                    .select('id, min_completion_target')
-                    .eq('name', taskName)
-                    .eq('is_active', true)
-                    .single();
-
-                if (template) {
-                    setHasTemplate(true);
-                    setMinCompletionTarget(template.min_completion_target || 60);
-                    console.log('✅ StrikeBadge: Found template by name', { minTarget: template.min_completion_target });
-                } else {
-                    setHasTemplate(false);
-                    console.log('❌ StrikeBadge: Not a template task');
-                }
-            } else {
-                // Has template ID - fetch min target
-                setHasTemplate(true);
+            let chainTemplateId = templateId || task.template_id;
+            if (!chainTemplateId) {
+                const template = await repositories.repeating_tasks
+                    .find({ where: { name: taskName, is_active: true } })
+                    .catch(() => null);
+                chainTemplateId = template?.id;
+            }
 
-                const { data: template } = await supabase
-                    .from('repeating_tasks')
-                    .select('min_completion_target')
-                    .eq('id', templateId || task.template_id)
-                    .single();
+            setHasTemplate(!!chainTemplateId);
+            if (!chainTemplateId) return;
 
-                setMinCompletionTarget(template?.min_completion_target || 60);
-                console.log('✅ StrikeBadge: Template task detected', {
-                    templateId: templateId || task.template_id,
-                    minTarget: template?.min_completion_target
-                });
-            }
+            setSchedule(await fetchStreakSchedule(chainTemplateId));
+            setHistory(await fetchStreakHistory(user.id, templateId || task.template_id, taskName, dateString).catch(() => []));
         };
 
         fetchStreaks();
-    }, [taskId, taskName, templateId, user]);
-
-    // 🔥 Calculate TODAY's achievement in real-time
-    const todayAchiever = currentProgress >= minCompletionTarget ? 1 : 0;
-    const todayFighter = currentProgress > 100 ? 1 : 0;
-
-    // Total = Historical + Today
-    const totalAchiever = historicalAchiever + todayAchiever;
-    const totalFighter = historicalFighter + todayFighter;
-
-    console.log('🔥 StrikeBadge: Render decision', {
-        hasTemplate,
-        templateId,
-        currentProgress,
-        minCompletionTarget,
-        todayAchiever,
-        todayFighter,
-        historicalAchiever,
-        historicalFighter,
-        totalAchiever,
-        totalFighter
-    });
+    }, [taskId, taskName, templateId, user, dateString]);
+
+    // 🔥 Streaks including TODAY's live progress
+    const { achiever: totalAchiever, fighter: totalFighter, freezesUsed, freezesLeft } = getStreaksOn(
+        schedule,
+        history,
+        { date: dateString, progress: currentProgress },
+        getToday()
+    );
+    const todayAchiever = meetsAchiever(schedule, currentProgress) ? 1 : 0;
+    const todayFighter = meetsFighter(currentProgress) ? 1 : 0;
 
     // 🔥 KEY FIX: Show "—" ONLY if NOT a template task
     if (!hasTemplate) {
-        console.log('❌ StrikeBadge: Showing dash (not a template)');
         return (
             <div className={cn("flex flex-col items-center justify-center", className)}>
                 <span className="text-xs text-muted-foreground">—</span>
@@ -143,8 +101,6 @@ const StrikeBadge = ({
     }
 
     // 🔥 KEY FIX: If it IS a template, ALWAYS show icons (even if counts are 0)
-    console.log('✅ StrikeBadge: Showing icons (template task)');
-
     return (
         <div className={cn("flex flex-col gap-1", className)}>
             {/* Achiever Strike - ALWAYS show for template tasks */}
@@ -171,6 +127,17 @@ const StrikeBadge = ({
                     {totalFighter}
                 </span>
             </div>
+
+            {/* Freezes - only for templates that earn them */}
+            {(schedule.protection?.freezeEvery || freezesUsed > 0) && (
+                <div
+                    className="flex items-center gap-1.5"
+                    title={`${freezesUsed} freeze${freezesUsed === 1 ? '' : 's'} used on this streak, ${freezesLeft} left`}
+                >
+                    <span className="text-base">❄️</span>
+                    <span className="text-sm font-semibold text-sky-500">{freezesUsed}</span>
+                </div>
+            )}
         </div>
     );
 };
@@ -0,0 +1,42 @@
+import { CloudOff, CloudUpload, AlertCircle, RefreshCw } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { useAuth } from '@/contexts/AuthContext';
+import { useSync } from '@/hooks/useSync';
+import { isLocalMode } from '@/repositories';
+
+// Header pill: "12 changes waiting", click to retry now
+const SyncIndicator = () => {
+  const { user } = useAuth();
+  const { syncStatus, isOnline, queueDepth, lastError, processSyncQueue } = useSync();
+
+  if (!user || isLocalMode) return null; // Nothing ever leaves the device
+  if (queueDepth === 0 && syncStatus !== 'error' && isOnline) return null;
+
+  const syncing = syncStatus === 'syncing';
+  const failed = syncStatus === 'error' || !!lastError;
+  const Icon = syncing ? RefreshCw : !isOnline ? CloudOff : failed ? AlertCircle : CloudUpload;
+
+  const label = queueDepth > 0
+    ? `${queueDepth} change${queueDepth === 1 ? '' : 's'} waiting`
+    : !isOnline ? 'Offline' : 'Sync failed';
+
+  return (
+    <button
+      type="button"
+      onClick={() => processSyncQueue()}
+      disabled={syncing || !isOnline}
+      title={lastError ? `Last error: ${lastError}` : 'Click to sync now'}
+      className={cn(
+        "flex items-center gap-1.5 rounded-md px-2 py-1 text-xs font-medium transition-colors",
+        failed
+          ? "text-amber-500 hover:bg-amber-500/10"
+          : "text-muted-foreground hover:bg-muted"
+      )}
+    >
+      <Icon className={cn("h-3.5 w-3.5", syncing && "animate-spin")} />
+      <span className="hidden sm:inline">{label}</span>
+    </button>
+  );
+};
+
+export default SyncIndicator;
@@ -0,0 +1,119 @@
+import { useState } from 'react';
+import { Plus, X } from 'lucide-react';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Button } from '@/components/ui/button';
+import { DebouncedInput } from './DebouncedInput';
+import { type ChecklistItem, formatDuration } from '@/lib/db';
+import { createChecklistItem, getChecklistEstimate, getChecklistProgress, type ProgressMode } from '@/utils/checklist';
+import { cn } from '@/lib/utils';
+
+interface TaskChecklistProps {
+    items: ChecklistItem[];
+    onChange: (items: ChecklistItem[]) => void;
+    // Without these the list is edited as a template's default checklist (nothing to check off)
+    progressMode?: ProgressMode;
+    onProgressModeChange?: (mode: ProgressMode) => void;
+}
+
+const TaskChecklist = ({ items, onChange, progressMode, onProgressModeChange }: TaskChecklistProps) => {
+    const [newTitle, setNewTitle] = useState('');
+    const canCheck = !!onProgressModeChange;
+    const estimate = getChecklistEstimate(items);
+
+    const updateItem = (id: string, updates: Partial<ChecklistItem>) =>
+        onChange(items.map(item => (item.id === id ? { ...item, ...updates } : item)));
+
+    const addItem = () => {
+        const title = newTitle.trim();
+        if (!title) return;
+        onChange([...items, createChecklistItem(title)]);
+        setNewTitle('');
+    };
+
+    return (
+        <div className="space-y-2">
+            {items.length > 0 && (
+                <div className="flex items-center justify-between text-xs text-muted-foreground">
+                    <span>
+                        {canCheck
+                            ? `${items.filter(item => item.done).length}/${items.length} done · ${getChecklistProgress(items)}%`
+                            : `${items.length} item${items.length === 1 ? '' : 's'}`}
+                    </span>
+                    {estimate > 0 && <span>≈ {formatDuration(estimate)}</span>}
+                </div>
+            )}
+
+            <ul className="space-y-1">
+                {items.map(item => (
+                    <li key={item.id} className="group/item flex items-center gap-2">
+                        {canCheck && (
+                            <Checkbox
+                                checked={item.done}
+                                onCheckedChange={(checked) => updateItem(item.id, { done: checked === true })}
+                            />
+                        )}
+                        <DebouncedInput
+                            value={item.title}
+                            onChange={(title) => updateItem(item.id, { title })}
+                            placeholder="Item..."
+                            className={cn("ghost-input h-7 flex-1 min-w-0 text-sm", item.done && "line-through text-muted-foreground")}
+                        />
+                        <Input
+                            type="number"
+                            min={0}
+                            value={item.estimate || ''}
+                            onChange={(e) => updateItem(item.id, { estimate: Number(e.target.value) || undefined })}
+                            placeholder="min"
+                            title="Estimate in minutes"
+                            className="h-7 w-16 text-xs"
+                        />
+                        <Button
+                            variant="ghost"
+                            size="icon"
+                            onClick={() => onChange(items.filter(i => i.id !== item.id))}
+                            className="h-6 w-6 shrink-0 text-muted-foreground opacity-0 group-hover/item:opacity-100 hover:text-danger"
+                        >
+                            <X className="h-3.5 w-3.5" />
+                        </Button>
+                    </li>
+                ))}
+            </ul>
+
+            <div className="flex items-center gap-2">
+                <Input
+                    value={newTitle}
+                    onChange={(e) => setNewTitle(e.target.value)}
+                    onKeyDown={(e) => {
+                        if (e.key === 'Enter') {
+                            e.preventDefault();
+                            addItem();
+                        }
+                    }}
+                    placeholder="Add checklist item..."
+                    className="h-7 text-sm"
+                />
+                <Button variant="ghost" size="icon" onClick={addItem} disabled={!newTitle.trim()} className="h-7 w-7 shrink-0">
+                    <Plus className="h-4 w-4" />
+                </Button>
+            </div>
+
+            {onProgressModeChange && (
+                <div className="flex items-center justify-between gap-4 pt-1">
+                    <Label className="text-xs font-normal text-muted-foreground">
+                        Count progress by checked items instead of logged time
+                    </Label>
+                    <Switch
+                        checked={progressMode === 'checklist'}
+                        onCheckedChange={(checked) => onProgressModeChange(checked ? 'checklist' : 'time')}
+                        disabled={items.length === 0}
+                    />
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default TaskChecklist;
@@ -10,6 +10,7 @@ import {
     Trash2,
     FileIcon,
     Layers,
+    History,
 } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import {
@@ -29,8 +30,10 @@ import {
     type TaskTemplate,
     type TaskBundle
 } from '@/services/templateService';
+import { describeRecurrence, getRecurrenceRule } from '@/utils/recurrence';
 import RepeatScheduleDialog from './RepeatScheduleDialog';
 import BundleSettingsDialog from './BundleSettingsDialog';
+import StreakHistoryDialog from './StreakHistoryDialog';
 import { cn } from '@/lib/utils';
 import { toast } from 'sonner';
 
@@ -49,6 +52,7 @@ const TemplateDropdown = ({ onTemplateSelect }: TemplateDropdownProps) => {
 
     const [selectedTemplate, setSelectedTemplate] = useState<TaskTemplate | undefined>();
     const [editingTemplate, setEditingTemplate] = useState<TaskTemplate | undefined>();
+    const [historyTemplate, setHistoryTemplate] = useState<TaskTemplate | null>(null);
 
     // Fetch Data
     useEffect(() => {
@@ -239,6 +243,7 @@ const TemplateDropdown = ({ onTemplateSelect }: TemplateDropdownProps) => {
                                     key={template.id}
                                     className="px-2 py-1.5 flex items-center justify-between hover:bg-muted rounded-sm cursor-pointer group"
                                     onClick={() => handleTemplateClick(template)}
+                                    title={describeRecurrence(getRecurrenceRule(template))}
                                 >
                                     <div className="flex items-center gap-2 flex-1 min-w-0">
                                         {template.icon && <span>{template.icon}</span>}
@@ -273,6 +278,10 @@ const TemplateDropdown = ({ onTemplateSelect }: TemplateDropdownProps) => {
                                                 <Copy className="h-4 w-4 mr-2" />
                                                 Duplicate
                                             </DropdownMenuItem>
+                                            <DropdownMenuItem onClick={(e) => { e.stopPropagation(); setHistoryTemplate(template); }}>
+                                                <History className="h-4 w-4 mr-2" />
+                                                Streak history
+                                            </DropdownMenuItem>
                                             <DropdownMenuSeparator />
                                             <DropdownMenuItem
                                                 onClick={(e) => { e.stopPropagation(); handleDelete(template); }}
@@ -298,6 +307,12 @@ const TemplateDropdown = ({ onTemplateSelect }: TemplateDropdownProps) => {
                 task={editingTemplate as any}
                 onSave={loadData} // Pass a callback to reload data after save
             />
+
+            <StreakHistoryDialog
+                open={!!historyTemplate}
+                onOpenChange={(open) => !open && setHistoryTemplate(null)}
+                template={historyTemplate}
+            />
         </>
     );
 };
@@ -0,0 +1,73 @@
+import { useEffect, useState } from 'react';
+import { X } from 'lucide-react';
+import { Input } from '@/components/ui/input';
+import { Button } from '@/components/ui/button';
+import { fromLogicalMinutes, toLogicalMinutes } from '@/utils/sessionValidation';
+
+interface TimeBlockPickerProps {
+    start?: string | null;
+    end?: string | null;
+    targetTime: number; // Length of a new block, in minutes
+    onChange: (start: string | null, end: string | null) => void;
+}
+
+/**
+ * Planned start/end of a task. Saved when a field loses focus; a start
+ * without an end gets a block as long as the task's target.
+ */
+const TimeBlockPicker = ({ start, end, targetTime, onChange }: TimeBlockPickerProps) => {
+    const [draftStart, setDraftStart] = useState(start || '');
+    const [draftEnd, setDraftEnd] = useState(end || '');
+
+    useEffect(() => {
+        setDraftStart(start || '');
+        setDraftEnd(end || '');
+    }, [start, end]);
+
+    const commit = () => {
+        if (!draftStart) {
+            if (start || end) onChange(null, null);
+            setDraftEnd('');
+            return;
+        }
+        const nextEnd = draftEnd || fromLogicalMinutes(toLogicalMinutes(draftStart) + (targetTime || 60));
+        setDraftEnd(nextEnd);
+        if (draftStart !== start || nextEnd !== end) onChange(draftStart, nextEnd);
+    };
+
+    return (
+        <div className="flex items-center gap-1">
+            <Input
+                type="time"
+                value={draftStart}
+                onChange={(e) => setDraftStart(e.target.value)}
+                onBlur={commit}
+                className="h-8 w-[92px] px-2 text-xs"
+                title="Planned start"
+            />
+            <span className="text-xs text-muted-foreground">–</span>
+            <Input
+                type="time"
+                value={draftEnd}
+                onChange={(e) => setDraftEnd(e.target.value)}
+                onBlur={commit}
+                disabled={!draftStart}
+                className="h-8 w-[92px] px-2 text-xs"
+                title="Planned end"
+            />
+            {(start || end) && (
+                <Button
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => onChange(null, null)}
+                    title="Clear time block"
+                    className="h-6 w-6 shrink-0 text-muted-foreground hover:text-foreground"
+                >
+                    <X className="h-3.5 w-3.5" />
+                </Button>
+            )}
+        </div>
+    );
+};
+
+export default TimeBlockPicker;
@@ -8,6 +8,7 @@ import {
 } from '@/components/ui/popover';
 import { cn } from '@/lib/utils';
 import { useIsMobile } from '@/hooks/use-mobile';
+import { getCurrentTime } from '@/utils/dateUtils';
 import { motion, useSpring, useMotionValue, useTransform, animate } from 'framer-motion';
 
 interface TimePickerProps {
@@ -31,9 +32,7 @@ const formatTime = (hour: number, minute: number, period: 'AM' | 'PM'): string =
 
 const parseTime = (timeStr: string) => {
   if (!timeStr) {
-    const now = new Date();
-    const h = now.getHours();
-    const m = now.getMinutes();
+    const [h, m] = getCurrentTime().split(':').map(Number);
     const period = h >= 12 ? 'PM' : 'AM';
     const hour12 = h === 0 ? 12 : h > 12 ? h - 12 : h;
     return { hour: hour12, minute: m, period: period as 'AM' | 'PM' };
@@ -63,22 +62,21 @@ const TimePicker = ({ value, onChange, className, placeholder = 'Select time' }:
       return p.hour;
     }
     // Fix: Default to current hour to prevent "9 AM default" glitch
-    const h = new Date().getHours();
-    return h === 0 ? 12 : h > 12 ? h - 12 : h;
+    return parseTime('').hour;
   });
   const [tempMinute, setTempMinute] = useState(() => {
     if (value) {
       const p = parseTime(value);
       return p.minute;
     }
-    return new Date().getMinutes();
+    return parseTime('').minute;
   });
   const [tempPeriod, setTempPeriod] = useState<'AM' | 'PM'>(() => {
     if (value) {
       const p = parseTime(value);
       return p.period;
     }
-    return new Date().getHours() >= 12 ? 'PM' : 'AM';
+    return parseTime('').period;
   });
 
   // Motion Values for smooth rotation
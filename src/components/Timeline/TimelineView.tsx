@@ -4,8 +4,10 @@ import { motion, AnimatePresence } from 'framer-motion';
 import { cn } from '@/lib/utils';
 import { RichEditor } from './RichEditor';
 import { Button } from '@/components/ui/button';
-import { Maximize2, Minimize2, Edit2, Check, Info, ZoomIn, ZoomOut, RotateCcw } from 'lucide-react';
+import { Input } from '@/components/ui/input';
+import { Maximize2, Minimize2, Edit2, Check, Info, ZoomIn, ZoomOut, RotateCcw, Scissors, Merge, Copy } from 'lucide-react';
 import { TimelineSlice } from '@/utils/chartLogic';
+import { fromLogicalMinutes, getLogicalRange } from '@/utils/sessionValidation';
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from '@/components/ui/tooltip';
 
 export interface TimelineViewProps {
@@ -13,13 +15,44 @@ export interface TimelineViewProps {
     onUpdateSession?: (id: number, content: string) => Promise<void>;
     classNames?: string;
     dayStartHour?: number;
+    // Restructuring: times are HH:mm, the parent writes the sessions back
+    onSplitSession?: (id: number, at: string) => Promise<void>;
+    onMergeSessions?: (firstId: number, secondId: number) => Promise<void>;
+    onDuplicateSession?: (id: number, date: string) => Promise<void>;
+    onResizeSession?: (id: number, startTime: string, endTime: string) => Promise<void>;
+    // Ghost layer: the day's time-blocked plan, drawn in its own row above the sessions
+    plannedBlocks?: PlannedTimelineBlock[];
 }
 
+export interface PlannedTimelineBlock {
+    name: string;
+    start: string; // HH:mm
+    end: string;
+    fill?: string;
+    detail?: string; // e.g. the drift against what was logged
+}
+
+interface ResizeDraft {
+    index: number;
+    edge: 'start' | 'end';
+    originX: number;
+    pxPerMinute: number;
+    start: number; // Logical minutes when the drag began
+    end: number;
+}
+
+const RESIZE_SNAP_MINUTES = 5;
+
 export const TimelineView: React.FC<TimelineViewProps> = ({
     slices,
     onUpdateSession,
     classNames,
-    dayStartHour = 0
+    dayStartHour = 0,
+    onSplitSession,
+    onMergeSessions,
+    onDuplicateSession,
+    onResizeSession,
+    plannedBlocks = []
 }) => {
     const [expandedSliceIndex, setExpandedSliceIndex] = useState<number | null>(null);
     const [editingSliceIndex, setEditingSliceIndex] = useState<number | null>(null);
@@ -29,6 +62,13 @@ export const TimelineView: React.FC<TimelineViewProps> = ({
     const [isFullScreen, setIsFullScreen] = useState(false);
     const scrollContainerRef = useRef<HTMLDivElement>(null);
 
+    // Restructuring State
+    const [busy, setBusy] = useState(false);
+    const [splitAt, setSplitAt] = useState('');
+    const [duplicateDate, setDuplicateDate] = useState('');
+    const resizeRef = useRef<ResizeDraft | null>(null);
+    const [resizePreview, setResizePreview] = useState<{ index: number; start: number; end: number } | null>(null);
+
     // Timeline Configuration
     const TOTAL_MINUTES = 24 * 60; // 1440 minutes
     const MIN_WIDTH_PX = 3000; // Expanded base width for better breathing room
@@ -119,7 +159,93 @@ export const TimelineView: React.FC<TimelineViewProps> = ({
         return date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit', hour12: false });
     };
 
-    // ... (rest of logic)
+    // Sessions in time order, for finding the neighbours to merge with
+    const sessionSlices = useMemo(
+        () => slices
+            .map((slice, index) => ({ slice, index }))
+            .filter(({ slice }) => slice.type === 'session' && slice.originalLog?.originalSessionId)
+            .sort((a, b) => a.slice.start.getTime() - b.slice.start.getTime()),
+        [slices]
+    );
+
+    const toTime = (minutes: number) => fromLogicalMinutes(minutes, dayStartHour);
+
+    // Logical range of the stored session (slices may be clipped by overlaps)
+    const getSessionRange = (slice: TimelineSlice) =>
+        getLogicalRange(slice.originalLog!.startTime, slice.originalLog!.endTime, dayStartHour);
+
+    // Reset the tools whenever another slice is opened
+    React.useEffect(() => {
+        const slice = expandedSliceIndex !== null ? slices[expandedSliceIndex] : null;
+        if (!slice || slice.type !== 'session' || !slice.originalLog?.endTime) return;
+        const range = getSessionRange(slice);
+        setSplitAt(toTime(range.start + Math.round((range.end - range.start) / 2)));
+        setDuplicateDate('');
+        // eslint-disable-next-line react-hooks/exhaustive-deps
+    }, [expandedSliceIndex, slices]);
+
+    const runAction = async (action: () => Promise<void>) => {
+        setBusy(true);
+        try {
+            await action();
+            setExpandedSliceIndex(null);
+            setEditingSliceIndex(null);
+        } catch {
+            // The parent reports the failure; keep the panel open to retry
+        } finally {
+            setBusy(false);
+        }
+    };
+
+    // --- Drag to resize (handles on both edges of a session) ---
+    const handleResizeStart = (e: React.PointerEvent<HTMLDivElement>, index: number, edge: 'start' | 'end') => {
+        e.stopPropagation();
+        e.preventDefault();
+        const row = e.currentTarget.closest('[data-timeline-row]') as HTMLElement | null;
+        if (!row) return;
+
+        const { start, end } = getSessionRange(slices[index]);
+        e.currentTarget.setPointerCapture(e.pointerId);
+        resizeRef.current = {
+            index,
+            edge,
+            originX: e.clientX,
+            pxPerMinute: row.getBoundingClientRect().width / TOTAL_MINUTES,
+            start,
+            end
+        };
+        setResizePreview({ index, start, end });
+    };
+
+    const handleResizeMove = (e: React.PointerEvent<HTMLDivElement>) => {
+        const draft = resizeRef.current;
+        if (!draft) return;
+        const delta = Math.round((e.clientX - draft.originX) / draft.pxPerMinute / RESIZE_SNAP_MINUTES) * RESIZE_SNAP_MINUTES;
+        setResizePreview({
+            index: draft.index,
+            start: draft.edge === 'start' ? Math.min(Math.max(draft.start + delta, 0), draft.end - RESIZE_SNAP_MINUTES) : draft.start,
+            end: draft.edge === 'end' ? Math.max(Math.min(draft.end + delta, TOTAL_MINUTES), draft.start + RESIZE_SNAP_MINUTES) : draft.end
+        });
+    };
+
+    const handleResizeEnd = async (e: React.PointerEvent<HTMLDivElement>) => {
+        const draft = resizeRef.current;
+        resizeRef.current = null;
+        e.currentTarget.releasePointerCapture(e.pointerId);
+        const preview = resizePreview;
+        const id = draft && slices[draft.index]?.originalLog?.originalSessionId;
+        if (!draft || !preview || !id || !onResizeSession || (preview.start === draft.start && preview.end === draft.end)) {
+            setResizePreview(null);
+            return;
+        }
+        try {
+            await onResizeSession(id, toTime(preview.start), toTime(preview.end));
+        } catch {
+            // Reported by the parent; the slice snaps back
+        } finally {
+            setResizePreview(null);
+        }
+    };
 
     const handleZoomIn = () => setZoomLevel(prev => Math.min(prev + 0.5, 4));
     const handleZoomOut = () => setZoomLevel(prev => Math.max(prev - 0.5, 1));
@@ -174,6 +300,11 @@ export const TimelineView: React.FC<TimelineViewProps> = ({
                             </div>
                             {/* Row Labels */}
                             <div className="flex flex-col pb-4">
+                                {plannedBlocks.length > 0 && (
+                                    <div className="h-14 flex items-center px-4 border-b border-dashed border-border/30">
+                                        <span className="text-xs font-medium italic text-muted-foreground">Plan</span>
+                                    </div>
+                                )}
                                 {groupedSlices.map((group) => (
                                     <div key={group.name} className="h-14 flex items-center px-4 border-b border-border/5 last:border-0 truncate group/row transition-colors hover:bg-white/[0.02]">
                                         <span className="text-xs font-medium text-foreground/80 truncate group-hover/row:text-foreground transition-colors" title={group.name}>{group.name}</span>
@@ -224,20 +355,66 @@ export const TimelineView: React.FC<TimelineViewProps> = ({
                                     />
                                 </div>
 
+                                {/* Ghost Layer: Planned Blocks */}
+                                {plannedBlocks.length > 0 && (
+                                    <div className="h-14 border-b border-dashed border-border/30 relative w-full grid grid-cols-[repeat(1440,1fr)]">
+                                        <TooltipProvider delayDuration={0}>
+                                            {plannedBlocks.map((block, i) => {
+                                                const range = getLogicalRange(block.start, block.end, dayStartHour);
+                                                const span = Math.min(range.end, TOTAL_MINUTES) - range.start;
+                                                if (span <= 0) return null;
+                                                return (
+                                                    <Tooltip key={i}>
+                                                        <TooltipTrigger asChild>
+                                                            <div
+                                                                className="relative z-10 my-2 mx-[1px] rounded-md border border-dashed text-[10px] font-medium flex items-center justify-center overflow-hidden text-foreground/70"
+                                                                style={{
+                                                                    gridColumn: `${range.start + 1} / span ${span}`,
+                                                                    borderColor: block.fill || 'hsl(var(--border))',
+                                                                    backgroundColor: block.fill ? `${block.fill}1f` : undefined
+                                                                }}
+                                                            >
+                                                                {(zoomLevel * span) > 40 && (
+                                                                    <span className="truncate px-1 pointer-events-none select-none">{block.name}</span>
+                                                                )}
+                                                            </div>
+                                                        </TooltipTrigger>
+                                                        <TooltipContent className="bg-popover border-border text-popover-foreground shadow-xl" sideOffset={5}>
+                                                            <div className="text-center">
+                                                                <p className="font-bold text-sm mb-1">{block.name}</p>
+                                                                <p className="text-xs text-muted-foreground/80 font-mono">Planned {block.start} → {block.end}</p>
+                                                                {block.detail && <p className="text-xs mt-1">{block.detail}</p>}
+                                                            </div>
+                                                        </TooltipContent>
+                                                    </Tooltip>
+                                                );
+                                            })}
+                                        </TooltipProvider>
+                                    </div>
+                                )}
+
                                 {groupedSlices.map((group) => (
-                                    <div key={group.name} className="h-14 border-b border-border/5 last:border-0 relative w-full hover:bg-white/[0.01] transition-colors grid grid-cols-[repeat(1440,1fr)]">
+                                    <div key={group.name} data-timeline-row className="h-14 border-b border-border/5 last:border-0 relative w-full hover:bg-white/[0.01] transition-colors grid grid-cols-[repeat(1440,1fr)]">
 
                                         <TooltipProvider delayDuration={0}>
                                             {group.slices.map((slice, i) => {
                                                 const globalIndex = slices.findIndex(s => s === slice);
                                                 const isSelected = expandedSliceIndex === globalIndex;
-                                                const startMins = getMinutesFromStart(slice.start);
+                                                let startMins = getMinutesFromStart(slice.start);
                                                 const endMins = getMinutesFromStart(slice.end);
                                                 let duration = endMins - startMins;
                                                 if (duration <= 0) duration += TOTAL_MINUTES;
 
+                                                // While dragging, show the new size
+                                                if (resizePreview?.index === globalIndex) {
+                                                    startMins = resizePreview.start;
+                                                    duration = Math.min(resizePreview.end, TOTAL_MINUTES) - resizePreview.start;
+                                                }
+
                                                 const isUntracked = slice.type === 'untracked';
                                                 const isSleep = slice.type === 'sleep';
+                                                const isResizable = !!onResizeSession && slice.type === 'session'
+                                                    && !!slice.originalLog?.originalSessionId && !!slice.originalLog.endTime;
 
                                                 return (
                                                     <Tooltip key={i}>
@@ -268,6 +445,20 @@ export const TimelineView: React.FC<TimelineViewProps> = ({
                                                                         <span className={cn(isSleep && "italic text-xs")}>{slice.name}</span>
                                                                     )}
                                                                 </div>
+                                                                {isResizable && (['start', 'end'] as const).map(edge => (
+                                                                    <div
+                                                                        key={edge}
+                                                                        className={cn(
+                                                                            "absolute inset-y-0 w-1.5 cursor-ew-resize hover:bg-white/30 touch-none",
+                                                                            edge === 'start' ? "left-0" : "right-0"
+                                                                        )}
+                                                                        onClick={(e) => e.stopPropagation()}
+                                                                        onPointerDown={(e) => handleResizeStart(e, globalIndex, edge)}
+                                                                        onPointerMove={handleResizeMove}
+                                                                        onPointerUp={handleResizeEnd}
+                                                                        onPointerCancel={handleResizeEnd}
+                                                                    />
+                                                                ))}
                                                             </motion.div>
                                                         </TooltipTrigger>
                                                         <TooltipContent className="bg-popover border-border text-popover-foreground shadow-xl" sideOffset={5}>
@@ -324,6 +515,13 @@ export const TimelineView: React.FC<TimelineViewProps> = ({
                             const slice = slices[expandedSliceIndex];
                             const isEditing = editingSliceIndex === expandedSliceIndex;
                             const isSession = slice.type === 'session';
+                            const sessionId = isSession && slice.originalLog?.endTime ? slice.originalLog.originalSessionId : undefined;
+                            const position = sessionSlices.findIndex(s => s.index === expandedSliceIndex);
+                            const previous = position > 0 ? sessionSlices[position - 1].slice : undefined;
+                            const next = position >= 0 ? sessionSlices[position + 1]?.slice : undefined;
+                            // Only neighbours that overlap or touch merge: the time between would count as tracked
+                            const mergesPrevious = !!previous && previous.end.getTime() >= slice.start.getTime();
+                            const mergesNext = !!next && slice.end.getTime() >= next.start.getTime();
 
                             return (
                                 <div className="space-y-4 max-w-4xl mx-auto">
@@ -364,6 +562,78 @@ export const TimelineView: React.FC<TimelineViewProps> = ({
                                         </div>
                                     </div>
 
+                                    {/* Restructure: split, merge with a neighbour, copy to another day */}
+                                    {sessionId && (onSplitSession || onMergeSessions || onDuplicateSession) && (
+                                        <div className="flex flex-wrap items-center gap-2 text-xs">
+                                            {onSplitSession && (
+                                                <div className="flex items-center gap-1">
+                                                    <Input
+                                                        type="time"
+                                                        value={splitAt}
+                                                        onChange={(e) => setSplitAt(e.target.value)}
+                                                        className="h-8 w-[110px] text-xs"
+                                                    />
+                                                    <Button
+                                                        variant="outline"
+                                                        size="sm"
+                                                        disabled={busy || !splitAt}
+                                                        onClick={() => runAction(() => onSplitSession(sessionId, splitAt))}
+                                                        className="gap-1.5 h-8"
+                                                    >
+                                                        <Scissors className="w-3 h-3" />
+                                                        Split
+                                                    </Button>
+                                                </div>
+                                            )}
+                                            {onMergeSessions && (
+                                                <>
+                                                    <Button
+                                                        variant="outline"
+                                                        size="sm"
+                                                        disabled={busy || !mergesPrevious}
+                                                        onClick={() => previous && runAction(() => onMergeSessions(previous.originalLog!.originalSessionId!, sessionId))}
+                                                        title={!previous ? 'No earlier session' : mergesPrevious ? `Merge with ${previous.name}` : `There is a gap after ${previous.name}`}
+                                                        className="gap-1.5 h-8"
+                                                    >
+                                                        <Merge className="w-3 h-3" />
+                                                        Merge previous
+                                                    </Button>
+                                                    <Button
+                                                        variant="outline"
+                                                        size="sm"
+                                                        disabled={busy || !mergesNext}
+                                                        onClick={() => next && runAction(() => onMergeSessions(sessionId, next.originalLog!.originalSessionId!))}
+                                                        title={!next ? 'No later session' : mergesNext ? `Merge with ${next.name}` : `There is a gap before ${next.name}`}
+                                                        className="gap-1.5 h-8"
+                                                    >
+                                                        <Merge className="w-3 h-3" />
+                                                        Merge next
+                                                    </Button>
+                                                </>
+                                            )}
+                                            {onDuplicateSession && (
+                                                <div className="flex items-center gap-1">
+                                                    <Input
+                                                        type="date"
+                                                        value={duplicateDate}
+                                                        onChange={(e) => setDuplicateDate(e.target.value)}
+                                                        className="h-8 w-[150px] text-xs"
+                                                    />
+                                                    <Button
+                                                        variant="outline"
+                                                        size="sm"
+                                                        disabled={busy || !duplicateDate}
+                                                        onClick={() => runAction(() => onDuplicateSession(sessionId, duplicateDate))}
+                                                        className="gap-1.5 h-8"
+                                                    >
+                                                        <Copy className="w-3 h-3" />
+                                                        Duplicate
+                                                    </Button>
+                                                </div>
+                                            )}
+                                        </div>
+                                    )}
+
                                     {/* Description / Rich Content */}
                                     {isSession && (
                                         <div className={cn("transition-all", isEditing ? "mt-2" : "mt-0")}>
@@ -84,10 +84,12 @@ export const TimetableImporter = ({ onImportComplete }: { onImportComplete: () =
                     isDefault: false,
                     category: 'Deep Focus', // Default category
                     createdAt: new Date(),
+                    updatedAt: new Date(),
                     minCompletionTarget: 75,
                     achieverStrike: 0,
                     fighterStrike: 0,
-                    strikeCount: 0
+                    strikeCount: 0,
+                    syncStatus: 'pending'
                 });
             }
 
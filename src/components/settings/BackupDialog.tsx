@@ -0,0 +1,113 @@
+import { useState } from 'react';
+import { toast } from 'sonner';
+import { ArchiveRestore } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { cn } from '@/lib/utils';
+import { Label } from '@/components/ui/label';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import {
+    Dialog,
+    DialogContent,
+    DialogDescription,
+    DialogFooter,
+    DialogHeader,
+    DialogTitle,
+} from '@/components/ui/dialog';
+import { openStreakRecompute } from '@/services/streakRecomputeService';
+import { isLocalMode } from '@/repositories';
+import { restoreBackup, type BackupPreview, type RestoreMode } from '@/services/backupService';
+
+interface BackupDialogProps {
+    preview: BackupPreview | null;
+    onOpenChange: (open: boolean) => void;
+}
+
+export const BackupDialog = ({ preview, onOpenChange }: BackupDialogProps) => {
+    const [mode, setMode] = useState<RestoreMode>('merge');
+    const [restoring, setRestoring] = useState(false);
+
+    const handleRestore = async () => {
+        if (!preview) return;
+        if (mode === 'replace' && !confirm('Replace the whole workspace with this backup? Current data that is not in the backup will be deleted.')) return;
+
+        setRestoring(true);
+        try {
+            const result = await restoreBackup(preview.archive, mode);
+            toast.success(`Backup restored: ${result.added} added, ${result.updated} updated, ${result.skipped} skipped`, {
+                action: { label: 'Recompute streaks', onClick: () => openStreakRecompute() }
+            });
+            onOpenChange(false);
+        } catch (error) {
+            console.error('Failed to restore backup', error);
+            toast.error(`Failed to restore backup: ${(error as Error).message}`);
+        } finally {
+            setRestoring(false);
+        }
+    };
+
+    const counts = preview?.counts.filter(entry => entry.count > 0) || [];
+
+    return (
+        <Dialog open={!!preview} onOpenChange={onOpenChange}>
+            <DialogContent className="max-w-md">
+                <DialogHeader>
+                    <DialogTitle className="flex items-center gap-2">
+                        <ArchiveRestore className="h-5 w-5 text-primary" />
+                        Restore Backup
+                    </DialogTitle>
+                    <DialogDescription>
+                        Backup from {preview?.exportedAt.toLocaleString()} · {preview?.total || 0} records
+                    </DialogDescription>
+                </DialogHeader>
+
+                <div className="max-h-48 overflow-y-auto custom-scrollbar rounded-md border border-border/50 divide-y divide-border/50">
+                    {counts.length === 0 && (
+                        <div className="text-center text-sm text-muted-foreground py-4">This backup is empty.</div>
+                    )}
+                    {counts.map(entry => (
+                        <div key={entry.table} className="flex items-center justify-between px-3 py-1.5 text-sm">
+                            <span>{entry.label}</span>
+                            <span className="text-muted-foreground tabular-nums">{entry.count}</span>
+                        </div>
+                    ))}
+                </div>
+
+                <RadioGroup value={mode} onValueChange={value => setMode(value as RestoreMode)} className="gap-3">
+                    <div className="flex items-start gap-2">
+                        <RadioGroupItem value="merge" id="restore-merge" className="mt-0.5" />
+                        <Label htmlFor="restore-merge" className="font-normal leading-snug">
+                            <span className="font-medium">Merge</span>
+                            <span className="block text-xs text-muted-foreground">
+                                Keep current data. Add missing records and take backed-up records that were edited more recently.
+                            </span>
+                        </Label>
+                    </div>
+                    <div className="flex items-start gap-2">
+                        <RadioGroupItem value="replace" id="restore-replace" className="mt-0.5" disabled={!isLocalMode} />
+                        <Label htmlFor="restore-replace" className={cn("font-normal leading-snug", !isLocalMode && "opacity-50")}>
+                            <span className="font-medium">Replace</span>
+                            <span className="block text-xs text-muted-foreground">
+                                {isLocalMode
+                                    ? 'Delete the current workspace and load the backup exactly as it was.'
+                                    : 'Only in local-only mode: synced data would come back from the cloud.'}
+                            </span>
+                        </Label>
+                    </div>
+                </RadioGroup>
+
+                <DialogFooter>
+                    <Button variant="ghost" onClick={() => onOpenChange(false)} disabled={restoring}>
+                        Cancel
+                    </Button>
+                    <Button
+                        variant={mode === 'replace' ? 'destructive' : 'default'}
+                        onClick={handleRestore}
+                        disabled={restoring || !preview || preview.total === 0}
+                    >
+                        {restoring ? 'Restoring...' : 'Restore'}
+                    </Button>
+                </DialogFooter>
+            </DialogContent>
+        </Dialog>
+    );
+};
@@ -1,10 +1,79 @@
+import { useRef, useState } from 'react';
+import { useLiveQuery } from 'dexie-react-hooks';
+import { toast } from 'sonner';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { useStorage } from '@/contexts/StorageContext';
-import { Database, HardDrive, LogOut, CheckCircle2 } from 'lucide-react';
+import { db } from '@/lib/db';
+import { DATA_MODE_KEY, isLocalMode } from '@/repositories';
+import { syncData } from '@/services/SyncManager';
+import { openStreakRecompute } from '@/services/streakRecomputeService';
+import { backupFilename, createBackup, parseBackup, type BackupPreview } from '@/services/backupService';
+import { downloadFile } from '@/utils/download';
+import { SyncConflictsDialog } from './SyncConflictsDialog';
+import { BackupDialog } from './BackupDialog';
+import { Database, HardDrive, LogOut, CheckCircle2, RefreshCw, GitMerge, Archive, Download, Upload, Flame } from 'lucide-react';
 
 export const StorageSettings = () => {
     const { isStorageConnected, storageEmail, connectStorage, disconnectStorage } = useStorage();
+    const [syncing, setSyncing] = useState(false);
+    const [conflictsOpen, setConflictsOpen] = useState(false);
+    const [exporting, setExporting] = useState(false);
+    const [backupPreview, setBackupPreview] = useState<BackupPreview | null>(null);
+    const backupInput = useRef<HTMLInputElement>(null);
+    const openConflicts = useLiveQuery(() => db.syncConflicts.where('status').equals('open').count(), []) || 0;
+
+    const handleSyncNow = async (full = false) => {
+        setSyncing(true);
+        const result = await syncData({ full });
+        setSyncing(false);
+
+        if (result.success) {
+            toast.success(`Synced: ${result.pushed} up, ${result.pulled} down`);
+        } else {
+            toast.error(result.errors[0] || 'Sync failed');
+        }
+        if (result.conflicts > 0) {
+            toast.warning(`${result.conflicts} conflicting edit(s) merged. Review them below.`);
+        }
+    };
+
+    const handleExportBackup = async () => {
+        setExporting(true);
+        try {
+            const archive = await createBackup();
+            downloadFile(JSON.stringify(archive, null, 2), backupFilename(), 'application/json');
+        } catch (error) {
+            console.error('Backup export failed', error);
+            toast.error(`Backup failed: ${(error as Error).message}`);
+        } finally {
+            setExporting(false);
+        }
+    };
+
+    const handleBackupFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+        const file = event.target.files?.[0];
+        event.target.value = ''; // Allow picking the same file again
+        if (!file) return;
+
+        try {
+            setBackupPreview(parseBackup(await file.text()));
+        } catch (error) {
+            toast.error((error as Error).message);
+        }
+    };
+
+    // The storage backend is picked at startup, so switching needs a reload
+    const handleSwitchMode = () => {
+        const message = isLocalMode
+            ? 'Switch to cloud storage? Tasks, sessions and settings created offline are uploaded on the next sync; periods, profiles and goals stay on this device.'
+            : 'Switch to local-only mode? The app will stop talking to the cloud and use this browser\'s database.';
+        if (!confirm(message)) return;
+
+        if (isLocalMode) localStorage.removeItem(DATA_MODE_KEY);
+        else localStorage.setItem(DATA_MODE_KEY, 'local');
+        window.location.reload();
+    };
 
     return (
         <div className="space-y-6">
@@ -24,17 +93,119 @@ export const StorageSettings = () => {
                             <CardTitle className="text-base">Application Data</CardTitle>
                         </div>
                         <CardDescription>
-                            Your tasks, sessions, and streaks are stored securely in the cloud.
+                            {isLocalMode
+                                ? 'Your tasks, sessions, and streaks are stored only in this browser.'
+                                : 'Your tasks, sessions, and streaks are stored securely in the cloud.'}
+                        </CardDescription>
+                    </CardHeader>
+                    <CardContent>
+                        {isLocalMode ? (
+                            <div className="flex items-center justify-between gap-2">
+                                <div className="flex items-center gap-2 text-sm text-green-500 font-medium">
+                                    <CheckCircle2 className="h-4 w-4" />
+                                    Local only (this device)
+                                </div>
+                                {import.meta.env.VITE_SUPABASE_URL && (
+                                    <Button variant="outline" size="sm" onClick={handleSwitchMode}>
+                                        Use cloud
+                                    </Button>
+                                )}
+                            </div>
+                        ) : (
+                            <>
+                                <div className="flex items-center justify-between gap-2">
+                                    <div className="flex items-center gap-2 text-sm text-green-500 font-medium">
+                                        <CheckCircle2 className="h-4 w-4" />
+                                        Connected (Supabase)
+                                    </div>
+                                    <div className="flex items-center gap-2">
+                                        <Button
+                                            variant="ghost"
+                                            size="sm"
+                                            onClick={() => handleSyncNow(true)}
+                                            disabled={syncing}
+                                            title="Re-download everything instead of only recent changes"
+                                        >
+                                            Full resync
+                                        </Button>
+                                        <Button variant="outline" size="sm" onClick={() => handleSyncNow()} disabled={syncing}>
+                                            <RefreshCw className={syncing ? "h-4 w-4 mr-2 animate-spin" : "h-4 w-4 mr-2"} />
+                                            Sync now
+                                        </Button>
+                                    </div>
+                                </div>
+                                <div className="flex items-center justify-between gap-2 mt-3 pt-3 border-t border-border/50">
+                                    <div className="flex items-center gap-2 text-sm">
+                                        <GitMerge className="h-4 w-4 text-muted-foreground" />
+                                        {openConflicts > 0
+                                            ? <span className="text-amber-500 font-medium">{openConflicts} sync conflict(s) to review</span>
+                                            : <span className="text-muted-foreground">No sync conflicts</span>}
+                                    </div>
+                                    <Button variant="ghost" size="sm" onClick={() => setConflictsOpen(true)}>
+                                        Review
+                                    </Button>
+                                </div>
+                                <div className="flex justify-end mt-3">
+                                    <Button variant="ghost" size="sm" className="text-muted-foreground" onClick={handleSwitchMode}>
+                                        Switch to local-only mode
+                                    </Button>
+                                </div>
+                            </>
+                        )}
+                    </CardContent>
+                </Card>
+
+                {/* Backups */}
+                <Card>
+                    <CardHeader className="pb-3">
+                        <div className="flex items-center gap-2">
+                            <Archive className="h-5 w-5 text-primary" />
+                            <CardTitle className="text-base">Backup</CardTitle>
+                        </div>
+                        <CardDescription>
+                            Download everything (tasks, sessions, templates, periods, profiles, goals...) as one JSON file, or restore one.
                         </CardDescription>
                     </CardHeader>
                     <CardContent>
-                        <div className="flex items-center gap-2 text-sm text-green-500 font-medium">
-                            <CheckCircle2 className="h-4 w-4" />
-                            Connected (Supabase)
+                        <div className="flex items-center gap-2">
+                            <Button variant="outline" size="sm" onClick={handleExportBackup} disabled={exporting}>
+                                <Download className="h-4 w-4 mr-2" />
+                                {exporting ? 'Exporting...' : 'Export backup'}
+                            </Button>
+                            <Button variant="ghost" size="sm" onClick={() => backupInput.current?.click()}>
+                                <Upload className="h-4 w-4 mr-2" />
+                                Import backup
+                            </Button>
+                            <input
+                                ref={backupInput}
+                                type="file"
+                                accept="application/json,.json"
+                                className="hidden"
+                                onChange={handleBackupFile}
+                            />
                         </div>
                     </CardContent>
                 </Card>
 
+                {/* Streak maintenance */}
+                <Card>
+                    <CardHeader className="pb-3">
+                        <div className="flex items-center gap-2">
+                            <Flame className="h-5 w-5 text-primary" />
+                            <CardTitle className="text-base">Streak Maintenance</CardTitle>
+                        </div>
+                        <CardDescription>
+                            Recalculate the streaks stored on past tasks, e.g. after restoring a backup or changing a schedule.
+                        </CardDescription>
+                    </CardHeader>
+                    <CardContent>
+                        <Button variant="outline" size="sm" onClick={() => openStreakRecompute()}>
+                            <RefreshCw className="h-4 w-4 mr-2" />
+                            Recompute streaks
+                        </Button>
+                    </CardContent>
+                </Card>
+
                 {/* Secondary Storage (Google Drive) */}
                 <Card className={isStorageConnected ? "border-primary/50 bg-primary/5" : ""}>
                     <CardHeader className="pb-3">
@@ -77,6 +248,9 @@ export const StorageSettings = () => {
                     </CardContent>
                 </Card>
             </div>
+
+            <SyncConflictsDialog open={conflictsOpen} onOpenChange={setConflictsOpen} />
+            <BackupDialog preview={backupPreview} onOpenChange={open => !open && setBackupPreview(null)} />
         </div>
     );
 };
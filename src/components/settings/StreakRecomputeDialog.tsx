@@ -0,0 +1,230 @@
+import { useEffect, useRef, useState } from 'react';
+import { toast } from 'sonner';
+import { Download, RotateCcw, Wrench } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Progress } from '@/components/ui/progress';
+import {
+    Dialog,
+    DialogContent,
+    DialogDescription,
+    DialogFooter,
+    DialogHeader,
+    DialogTitle,
+} from '@/components/ui/dialog';
+import { useAuth } from '@/contexts/AuthContext';
+import { useStreakRecompute } from '@/hooks/useStreakRecompute';
+import { fetchTemplates, type TaskTemplate } from '@/services/templateService';
+import {
+    applyStreakRecompute,
+    cancelStreakRecompute,
+    closeStreakRecompute,
+    openStreakRecompute,
+    resetStreakRecompute,
+    startStreakRecompute,
+    streakReportCsv,
+    streakReportFilename,
+    type StreakRecomputeStatus
+} from '@/services/streakRecomputeService';
+import { formatDateForDisplay } from '@/utils/dateUtils';
+import { downloadFile } from '@/utils/download';
+
+// Shown once when a job finishes while the dialog is closed
+const FINISHED_MESSAGES: Partial<Record<StreakRecomputeStatus, string>> = {
+    review: 'Streak recompute is ready to review',
+    done: 'Recomputed streaks were saved',
+    error: 'Streak recompute failed'
+};
+
+/**
+ * Maintenance tool: recompute the stored streaks of all (or some) templates
+ * over a date range, review the differences, then write them. Mounted once
+ * at the app root and opened with openStreakRecompute().
+ */
+export const StreakRecomputeDialog = () => {
+    const { user } = useAuth();
+    const job = useStreakRecompute();
+    const [templates, setTemplates] = useState<TaskTemplate[]>([]);
+    const [selected, setSelected] = useState<number[] | null>(null); // null: every template
+    const [from, setFrom] = useState('');
+    const [to, setTo] = useState('');
+    const previousStatus = useRef(job.status);
+
+    // Start from the options the tool was opened with
+    useEffect(() => {
+        if (!job.open || job.status !== 'idle') return;
+        setSelected(job.options.templateIds || null);
+        setFrom(job.options.from || '');
+        setTo(job.options.to || '');
+    }, [job.open, job.status, job.options]);
+
+    useEffect(() => {
+        if (!job.open || !user) return;
+        fetchTemplates(user.id).then(setTemplates).catch(error => console.error('Failed to load templates', error));
+    }, [job.open, user]);
+
+    useEffect(() => {
+        const message = FINISHED_MESSAGES[job.status];
+        if (message && previousStatus.current !== job.status && !job.open) {
+            toast(message, { action: { label: 'Open', onClick: () => openStreakRecompute() } });
+        }
+        previousStatus.current = job.status;
+    }, [job.status, job.open]);
+
+    const toggleTemplate = (id: number, checked: boolean) => {
+        const current = selected || templates.map(t => t.id!);
+        const next = checked ? [...current, id] : current.filter(t => t !== id);
+        setSelected(next.length === templates.length ? null : next);
+    };
+
+    const handleStart = () => {
+        if (!user) return;
+        startStreakRecompute(user.id, { templateIds: selected || undefined, from: from || undefined, to: to || undefined });
+    };
+
+    const handleDownload = () => {
+        if (job.report) downloadFile(streakReportCsv(job.report), streakReportFilename(job.report), 'text/csv;charset=utf-8');
+    };
+
+    const percent = job.total > 0 ? Math.round((job.done / job.total) * 100) : 0;
+    const report = job.report;
+
+    return (
+        <Dialog open={job.open} onOpenChange={open => !open && closeStreakRecompute()}>
+            <DialogContent className="max-w-2xl max-h-[85vh] flex flex-col">
+                <DialogHeader>
+                    <DialogTitle className="flex items-center gap-2">
+                        <Wrench className="h-5 w-5 text-primary" />
+                        Recompute Streaks
+                    </DialogTitle>
+                    <DialogDescription>
+                        Recalculate stored streaks from each day's progress. Nothing is saved before you review the changes;
+                        closing this window keeps the job running.
+                    </DialogDescription>
+                </DialogHeader>
+
+                {job.status === 'idle' && (
+                    <div className="space-y-4 overflow-y-auto custom-scrollbar">
+                        <div className="space-y-2">
+                            <div className="flex items-center justify-between">
+                                <Label>Templates</Label>
+                                <Button variant="ghost" size="sm" onClick={() => setSelected(selected ? null : [])}>
+                                    {selected ? 'Select all' : 'Select none'}
+                                </Button>
+                            </div>
+                            <div className="max-h-48 overflow-y-auto custom-scrollbar rounded-md border border-border/50 divide-y divide-border/50">
+                                {templates.length === 0 && (
+                                    <div className="text-center text-sm text-muted-foreground py-4">No templates.</div>
+                                )}
+                                {templates.map(template => (
+                                    <label key={template.id} className="flex items-center gap-2 px-3 py-2 text-sm cursor-pointer">
+                                        <Checkbox
+                                            checked={!selected || selected.includes(template.id!)}
+                                            onCheckedChange={checked => toggleTemplate(template.id!, checked === true)}
+                                        />
+                                        {template.icon && <span>{template.icon}</span>}
+                                        <span className="truncate">{template.name}</span>
+                                    </label>
+                                ))}
+                            </div>
+                        </div>
+
+                        <div className="grid grid-cols-2 gap-3">
+                            <div className="space-y-1">
+                                <Label className="text-xs text-muted-foreground">From (optional)</Label>
+                                <Input type="date" value={from} max={to || undefined} onChange={e => setFrom(e.target.value)} />
+                            </div>
+                            <div className="space-y-1">
+                                <Label className="text-xs text-muted-foreground">To (optional)</Label>
+                                <Input type="date" value={to} min={from || undefined} onChange={e => setTo(e.target.value)} />
+                            </div>
+                        </div>
+                        <p className="text-xs text-muted-foreground">
+                            Only tasks in the range are rewritten, but the days before it still count towards their streaks.
+                        </p>
+                    </div>
+                )}
+
+                {(job.status === 'planning' || job.status === 'applying') && (
+                    <div className="space-y-2 py-4">
+                        <Progress value={percent} />
+                        <p className="text-sm text-muted-foreground">
+                            {job.status === 'planning'
+                                ? `Checking ${job.current || 'templates'} (${job.done}/${job.total} templates)`
+                                : `Saving ${job.done}/${job.total} tasks`}
+                        </p>
+                    </div>
+                )}
+
+                {job.status === 'review' && report && (
+                    <div className="flex min-h-0 flex-col gap-3">
+                        <p className="text-sm">
+                            {report.changes.length === 0
+                                ? `All ${report.checked} tasks across ${report.templates} templates are up to date.`
+                                : `${report.changes.length} of ${report.checked} tasks across ${report.templates} templates would change.`}
+                        </p>
+                        {report.changes.length > 0 && (
+                            <div className="min-h-0 flex-1 overflow-y-auto custom-scrollbar rounded-md border border-border/50 divide-y divide-border/50 text-sm">
+                                {report.changes.map(change => (
+                                    <div key={String(change.taskId)} className="grid grid-cols-[90px_1fr_auto_auto] items-center gap-3 px-3 py-1.5">
+                                        <span className="text-xs text-muted-foreground">{formatDateForDisplay(change.date)}</span>
+                                        <span className="truncate">{change.template}</span>
+                                        <span className="font-mono text-xs">🔥 {change.before.achiever} → {change.after.achiever}</span>
+                                        <span className="font-mono text-xs">⚔️ {change.before.fighter} → {change.after.fighter}</span>
+                                    </div>
+                                ))}
+                            </div>
+                        )}
+                    </div>
+                )}
+
+                {job.status === 'done' && (
+                    <p className="py-4 text-sm">Saved new streaks on {job.applied} task{job.applied === 1 ? '' : 's'}.</p>
+                )}
+                {job.status === 'cancelled' && (
+                    <p className="py-4 text-sm text-muted-foreground">
+                        Cancelled{job.applied > 0 ? ` after saving ${job.applied} task${job.applied === 1 ? '' : 's'}` : ''}.
+                    </p>
+                )}
+                {job.status === 'error' && (
+                    <p className="py-4 text-sm text-destructive">Failed: {job.error}</p>
+                )}
+
+                <DialogFooter className="gap-2 sm:gap-0">
+                    {job.status === 'idle' && (
+                        <Button onClick={handleStart} disabled={!user || (!!selected && selected.length === 0)}>
+                            Find changes
+                        </Button>
+                    )}
+                    {(job.status === 'planning' || job.status === 'applying') && (
+                        <Button variant="outline" onClick={cancelStreakRecompute}>Cancel</Button>
+                    )}
+                    {job.status === 'review' && report && (
+                        <>
+                            <Button variant="ghost" onClick={resetStreakRecompute}>Discard</Button>
+                            {report.changes.length > 0 && (
+                                <>
+                                    <Button variant="outline" onClick={handleDownload}>
+                                        <Download className="h-4 w-4 mr-2" />
+                                        Download report
+                                    </Button>
+                                    <Button onClick={applyStreakRecompute}>
+                                        Apply {report.changes.length} change{report.changes.length === 1 ? '' : 's'}
+                                    </Button>
+                                </>
+                            )}
+                        </>
+                    )}
+                    {(job.status === 'done' || job.status === 'cancelled' || job.status === 'error') && (
+                        <Button variant="outline" onClick={resetStreakRecompute}>
+                            <RotateCcw className="h-4 w-4 mr-2" />
+                            Run again
+                        </Button>
+                    )}
+                </DialogFooter>
+            </DialogContent>
+        </Dialog>
+    );
+};
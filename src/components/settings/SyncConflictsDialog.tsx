@@ -0,0 +1,131 @@
+import { useLiveQuery } from 'dexie-react-hooks';
+import { toast } from 'sonner';
+import { GitMerge } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import {
+    Dialog,
+    DialogContent,
+    DialogDescription,
+    DialogHeader,
+    DialogTitle,
+} from '@/components/ui/dialog';
+import { type SyncConflict } from '@/lib/db';
+import { getOpenConflicts, isSameValue, resolveConflict } from '@/services/conflictResolver';
+import { cn } from '@/lib/utils';
+
+interface SyncConflictsDialogProps {
+    open: boolean;
+    onOpenChange: (open: boolean) => void;
+}
+
+const TABLE_LABELS: Record<SyncConflict['table'], string> = {
+    tasks: 'Task',
+    sessions: 'Session',
+    sleepEntries: 'Sleep',
+    repeatingTasks: 'Template',
+    priorities: 'Priority',
+    categories: 'Category',
+    subjects: 'Subject',
+    attendanceRecords: 'Attendance',
+    deletedTasks: 'Deleted task'
+};
+
+// camelCase field -> "Target Time"
+const formatField = (field: string) =>
+    field.replace(/([A-Z])/g, ' $1').replace(/^./, c => c.toUpperCase());
+
+const formatValue = (value: unknown) => {
+    if (value === undefined || value === null || value === '') return '—';
+    if (typeof value === 'boolean') return value ? 'Yes' : 'No';
+    if (Array.isArray(value)) return value.join(', ');
+    return String(value);
+};
+
+const formatTime = (iso: string) => (iso ? new Date(iso).toLocaleString() : 'unknown');
+
+export const SyncConflictsDialog = ({ open, onOpenChange }: SyncConflictsDialogProps) => {
+    const conflicts = useLiveQuery(() => getOpenConflicts(), []) || [];
+
+    const handleResolve = async (conflict: SyncConflict, choice: 'local' | 'remote') => {
+        try {
+            await resolveConflict(conflict.id!, choice);
+            toast.success(choice === 'local' ? 'Kept this device' : 'Kept other device');
+        } catch (error) {
+            console.error('Failed to resolve conflict', error);
+            toast.error('Failed to resolve conflict');
+        }
+    };
+
+    return (
+        <Dialog open={open} onOpenChange={onOpenChange}>
+            <DialogContent className="max-w-2xl max-h-[85vh] overflow-hidden flex flex-col">
+                <DialogHeader>
+                    <DialogTitle className="flex items-center gap-2">
+                        <GitMerge className="h-5 w-5 text-primary" />
+                        Sync Conflicts
+                    </DialogTitle>
+                    <DialogDescription>
+                        These fields were edited on this device and on another device before they could sync.
+                        The highlighted value is the one currently saved; pick the version you want to keep.
+                    </DialogDescription>
+                </DialogHeader>
+
+                <div className="flex-1 overflow-y-auto custom-scrollbar space-y-3 pr-1">
+                    {conflicts.length === 0 && (
+                        <div className="text-center text-sm text-muted-foreground py-8">
+                            No conflicts. Everything is in sync.
+                        </div>
+                    )}
+
+                    {conflicts.map(conflict => {
+                        const localApplied = isSameValue(conflict.appliedValue, conflict.localValue);
+                        const remoteApplied = isSameValue(conflict.appliedValue, conflict.remoteValue);
+
+                        return (
+                            <div key={conflict.id} className="rounded-lg border border-border p-3 space-y-3">
+                                <div className="flex items-center justify-between gap-2">
+                                    <div className="min-w-0">
+                                        <p className="text-sm font-medium truncate">{conflict.label}</p>
+                                        <p className="text-xs text-muted-foreground">
+                                            {TABLE_LABELS[conflict.table]} · {formatField(conflict.field)}
+                                        </p>
+                                    </div>
+                                    <span className="text-[10px] text-muted-foreground whitespace-nowrap">
+                                        {conflict.detectedAt.toLocaleString()}
+                                    </span>
+                                </div>
+
+                                <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+                                    <div className={cn(
+                                        "rounded-md border p-2 space-y-2",
+                                        localApplied ? "border-primary/50 bg-primary/5" : "border-border/50"
+                                    )}>
+                                        <p className="text-[10px] uppercase tracking-wide text-muted-foreground">
+                                            This device · {formatTime(conflict.localUpdatedAt)}
+                                        </p>
+                                        <p className="text-sm break-words">{formatValue(conflict.localValue)}</p>
+                                        <Button size="sm" variant="outline" className="w-full h-7" onClick={() => handleResolve(conflict, 'local')}>
+                                            Keep this
+                                        </Button>
+                                    </div>
+                                    <div className={cn(
+                                        "rounded-md border p-2 space-y-2",
+                                        remoteApplied ? "border-primary/50 bg-primary/5" : "border-border/50"
+                                    )}>
+                                        <p className="text-[10px] uppercase tracking-wide text-muted-foreground">
+                                            Other device · {formatTime(conflict.remoteUpdatedAt)}
+                                        </p>
+                                        <p className="text-sm break-words">{formatValue(conflict.remoteValue)}</p>
+                                        <Button size="sm" variant="outline" className="w-full h-7" onClick={() => handleResolve(conflict, 'remote')}>
+                                            Keep this
+                                        </Button>
+                                    </div>
+                                </div>
+                            </div>
+                        );
+                    })}
+                </div>
+            </DialogContent>
+        </Dialog>
+    );
+};
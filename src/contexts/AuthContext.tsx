@@ -1,10 +1,21 @@
 import { createContext, useContext, useEffect, useState, ReactNode } from 'react';
 import { User, Session } from '@supabase/supabase-js';
 import { supabase } from '@/lib/supabase';
+import { isLocalMode, LOCAL_USER_ID } from '@/repositories';
 import { toast } from 'sonner';
 
 type AuthFlow = 'login' | 'register';
 
+// Local-only mode has no accounts: everyone is the owner of this browser's data
+const LOCAL_USER = {
+    id: LOCAL_USER_ID,
+    email: '',
+    app_metadata: {},
+    user_metadata: { full_name: 'Local' },
+    aud: 'local',
+    created_at: new Date(0).toISOString()
+} as User;
+
 interface AuthContextType {
     user: User | null;
     session: Session | null;
@@ -39,6 +50,12 @@ export function AuthProvider({ children }: AuthProviderProps) {
     const [loading, setLoading] = useState(true);
 
     useEffect(() => {
+        if (isLocalMode) {
+            setUser(LOCAL_USER);
+            setLoading(false);
+            return;
+        }
+
         // Get initial session
         supabase.auth.getSession().then(({ data: { session } }) => {
             handleSession(session);
@@ -133,6 +150,8 @@ export function AuthProvider({ children }: AuthProviderProps) {
     };
 
     const signOut = async () => {
+        if (isLocalMode) return;
+
         try {
             const { error } = await supabase.auth.signOut();
             if (error) {
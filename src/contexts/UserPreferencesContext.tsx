@@ -1,12 +1,51 @@
 import React, { createContext, useContext, useEffect, useState } from 'react';
-import { supabase } from '@/lib/supabase';
+import { repositories } from '@/repositories';
+import { db } from '@/lib/db';
+import {
+    getBrowserTimeZone,
+    getZonedDateTime,
+    setTimeZone as applyTimeZone,
+    type TimeZoneChange
+} from '@/utils/dateUtils';
 import { useAuth } from './AuthContext';
 
 interface UserPreferencesContextType {
     dayStartHour: number;
     setDayStartHour: (hour: number) => void;
+    timeZone: string;
+    setTimeZone: (timeZone: string) => void;
 }
 
+interface TimeZoneState {
+    timeZone: string;
+    history: TimeZoneChange[];
+}
+
+const TIME_ZONE_KEY = 'timezone';
+const TIME_ZONE_HISTORY_KEY = 'timezone_history';
+
+const loadTimeZone = (): TimeZoneState => {
+    const saved = localStorage.getItem(TIME_ZONE_KEY);
+    if (saved) {
+        try {
+            return { timeZone: saved, history: JSON.parse(localStorage.getItem(TIME_ZONE_HISTORY_KEY) || '[]') };
+        } catch {
+            return { timeZone: saved, history: [] };
+        }
+    }
+    // First run with a configurable zone: days before today were recorded in IST (the old fixed zone)
+    const timeZone = getBrowserTimeZone();
+    return { timeZone, history: [{ timeZone, since: getZonedDateTime(new Date(), timeZone).date }] };
+};
+
+// localStorage for the app, Dexie for the service worker's reminder check
+const saveTimeZone = ({ timeZone, history }: TimeZoneState) => {
+    localStorage.setItem(TIME_ZONE_KEY, timeZone);
+    localStorage.setItem(TIME_ZONE_HISTORY_KEY, JSON.stringify(history));
+    db.preferences.put({ key: TIME_ZONE_KEY, value: { timeZone, history } })
+        .catch(error => console.error('Failed to store timezone for the service worker:', error));
+};
+
 const UserPreferencesContext = createContext<UserPreferencesContextType | undefined>(undefined);
 
 export const UserPreferencesProvider = ({ children }: { children: React.ReactNode }) => {
@@ -15,17 +54,26 @@ export const UserPreferencesProvider = ({ children }: { children: React.ReactNod
         const saved = localStorage.getItem('dayStartHour');
         return saved ? parseInt(saved, 10) : 0;
     });
+    const [timeZoneState, setTimeZoneState] = useState<TimeZoneState>(() => {
+        const initial = loadTimeZone();
+        // Date helpers must know the zone before the first render of the pages
+        applyTimeZone(initial.timeZone, initial.history);
+        return initial;
+    });
+
+    useEffect(() => {
+        applyTimeZone(timeZoneState.timeZone, timeZoneState.history);
+        saveTimeZone(timeZoneState);
+    }, [timeZoneState]);
 
     // 1. Fetch from DB on mount/user change
     useEffect(() => {
         const fetchPreferences = async () => {
             if (!user) return;
 
-            const { data, error } = await supabase
-                .from('profiles')
-                .select('day_start_hour')
-                .eq('user_id', user.id)
-                .maybeSingle(); // Use maybeSingle to avoid 406 if multiple profiles (should handle better but okay for now)
+            const data = await repositories.profiles
+                .find({ where: { user_id: user.id } }) // First profile if there are several (should handle better but okay for now)
+                .catch(() => null);
 
             if (data && data.day_start_hour !== undefined && data.day_start_hour !== null) {
                 // Only update if different to avoid potential loops or flickers
@@ -37,6 +85,16 @@ export const UserPreferencesProvider = ({ children }: { children: React.ReactNod
                     return current;
                 });
             }
+
+            if (data && data.timezone) {
+                setTimeZoneState((current) => {
+                    const history: TimeZoneChange[] = data.timezone_history || current.history;
+                    if (current.timeZone === data.timezone && JSON.stringify(current.history) === JSON.stringify(history)) {
+                        return current;
+                    }
+                    return { timeZone: data.timezone, history };
+                });
+            }
         };
 
         fetchPreferences();
@@ -53,17 +111,39 @@ export const UserPreferencesProvider = ({ children }: { children: React.ReactNod
             // Upsert or Update Profile
             // We assume a profile exists, but if not we might need to create it?
             // User likely has a profile if they are logged in via app logic
-            const { error } = await supabase
-                .from('profiles')
-                .update({ day_start_hour: hour })
-                .eq('user_id', user.id);
+            try {
+                await repositories.profiles.updateWhere({ user_id: user.id }, { day_start_hour: hour });
+            } catch (error) {
+                console.error("Failed to sync start hour:", error);
+            }
+        }
+    };
+
+    // Days recorded from today on are in the new zone; older days keep the zone they were recorded in
+    const setTimeZone = async (timeZone: string) => {
+        if (timeZone === timeZoneState.timeZone) return;
+
+        const since = getZonedDateTime(new Date(), timeZone).date;
+        const next: TimeZoneState = {
+            timeZone,
+            history: [...timeZoneState.history.filter(change => change.since < since), { timeZone, since }]
+        };
+        setTimeZoneState(next);
 
-            if (error) console.error("Failed to sync start hour:", error);
+        if (user) {
+            try {
+                await repositories.profiles.updateWhere(
+                    { user_id: user.id },
+                    { timezone: next.timeZone, timezone_history: next.history }
+                );
+            } catch (error) {
+                console.error("Failed to sync timezone:", error);
+            }
         }
     };
 
     return (
-        <UserPreferencesContext.Provider value={{ dayStartHour, setDayStartHour }}>
+        <UserPreferencesContext.Provider value={{ dayStartHour, setDayStartHour, timeZone: timeZoneState.timeZone, setTimeZone }}>
             {children}
         </UserPreferencesContext.Provider>
     );
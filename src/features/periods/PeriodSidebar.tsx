@@ -1,6 +1,6 @@
 import { useState, useEffect } from 'react';
 import { Period, PeriodTask, fetchActivePeriods } from '@/services/periodService';
-import { supabase } from '@/lib/supabase';
+import { getCurrentUserId, repositories } from '@/repositories';
 import { Button } from '@/components/ui/button';
 import { Plus, Target, ChevronDown, ChevronRight, Check } from 'lucide-react';
 import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '@/components/ui/collapsible';
@@ -37,10 +37,9 @@ export const PeriodSidebar = ({
 
     const handleAddTargetToDay = async (task: PeriodTask) => {
         // Add to Execution Tasks for the day
-        const { error } = await supabase
-            .from('tasks')
-            .insert({
-                user_id: (await supabase.auth.getUser()).data.user?.id,
+        try {
+            await repositories.tasks.insert({
+                user_id: await getCurrentUserId(),
                 date: format(selectedDate, 'yyyy-MM-dd'),
                 name: task.title,
                 status: 'lagging', // Default status
@@ -48,11 +47,9 @@ export const PeriodSidebar = ({
                 period_task_id: task.id,
                 created_at: new Date().toISOString()
             });
-
-        if (error) {
-            console.error("Failed to add target to day", error);
-        } else {
             onTaskAdded();
+        } catch (error) {
+            console.error("Failed to add target to day", error);
         }
     };
 
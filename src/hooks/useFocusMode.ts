@@ -0,0 +1,61 @@
+import { useEffect, useRef, useState } from 'react';
+import { useLiveQuery } from 'dexie-react-hooks';
+import { toast } from 'sonner';
+import { db } from '@/lib/db';
+import { type Row } from '@/repositories';
+import { useAuth } from '@/contexts/AuthContext';
+import { FOCUS_KEY, advanceFocus, type FocusState } from '@/services/focusService';
+
+const PHASE_MESSAGES: Record<FocusState['phase'], string> = {
+    work: 'Break over: back to focus',
+    short_break: 'Focus block done: take a short break',
+    long_break: 'Focus block done: take a long break'
+};
+
+/**
+ * Hook to drive focus mode: ticks every second, moves to the next phase when
+ * the current one ends and reports the work blocks that were recorded
+ */
+export const useFocusMode = (onBlocksRecorded: (sessions: Row[]) => void) => {
+    const { user } = useAuth();
+    const state = useLiveQuery(
+        async () => ((await db.preferences.get(FOCUS_KEY))?.value as FocusState) || null,
+        []
+    ) ?? null;
+    const [now, setNow] = useState(() => Date.now());
+    const advancing = useRef(false);
+    const onRecorded = useRef(onBlocksRecorded);
+    onRecorded.current = onBlocksRecorded;
+
+    useEffect(() => {
+        if (!state) return;
+        setNow(Date.now());
+        const interval = setInterval(() => setNow(Date.now()), 1000);
+        return () => clearInterval(interval);
+    }, [state]);
+
+    useEffect(() => {
+        if (!state || !user || now < state.phaseEndsAt || advancing.current) return;
+
+        advancing.current = true;
+        advanceFocus(user.id, now)
+            .then(result => {
+                if (!result) return;
+                toast.success(PHASE_MESSAGES[result.state.phase]);
+                if ('Notification' in window && Notification.permission === 'granted') {
+                    new Notification(PHASE_MESSAGES[result.state.phase], { body: result.state.taskName });
+                }
+                if (result.recorded.length > 0) onRecorded.current(result.recorded);
+            })
+            .catch(error => {
+                console.error('Focus mode failed to advance:', error);
+                toast.error(`Focus mode: ${(error as Error).message}`);
+            })
+            .finally(() => {
+                advancing.current = false;
+            });
+    }, [state, user, now]);
+
+    const remainingMs = state ? Math.max(0, state.phaseEndsAt - now) : 0;
+    return { state, remainingMs };
+};
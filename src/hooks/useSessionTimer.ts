@@ -0,0 +1,43 @@
+import { useEffect, useState } from 'react';
+import { useLiveQuery } from 'dexie-react-hooks';
+import { db } from '@/lib/db';
+import {
+    SESSION_TIMER_KEY,
+    formatElapsed,
+    getElapsedMs,
+    isTimerRunning,
+    type SessionTimer
+} from '@/services/sessionTimerService';
+
+/**
+ * Hook to follow the live session timer
+ * Ticks every second while running and shows the elapsed time in the tab title
+ */
+export const useSessionTimer = () => {
+    const timer = useLiveQuery(
+        async () => ((await db.preferences.get(SESSION_TIMER_KEY))?.value as SessionTimer) || null,
+        []
+    ) ?? null;
+    const running = isTimerRunning(timer);
+    const [now, setNow] = useState(() => Date.now());
+
+    useEffect(() => {
+        if (!running) return;
+        setNow(Date.now());
+        const interval = setInterval(() => setNow(Date.now()), 1000);
+        return () => clearInterval(interval);
+    }, [running]);
+
+    const elapsed = formatElapsed(getElapsedMs(timer, now));
+
+    useEffect(() => {
+        if (!running) return;
+        const originalTitle = document.title;
+        document.title = `⏱ ${elapsed} · ${originalTitle}`;
+        return () => {
+            document.title = originalTitle;
+        };
+    }, [running, elapsed]);
+
+    return { timer, running, elapsed };
+};
@@ -0,0 +1,13 @@
+import { useEffect, useState } from 'react';
+import { getStreakRecomputeState, subscribeStreakRecompute } from '@/services/streakRecomputeService';
+
+/**
+ * Hook to follow the bulk streak recompute job (see streakRecomputeService)
+ */
+export const useStreakRecompute = () => {
+    const [state, setState] = useState(getStreakRecomputeState);
+
+    useEffect(() => subscribeStreakRecompute(setState), []);
+
+    return state;
+};
@@ -1,7 +1,10 @@
-import { useEffect, useState, useCallback } from 'react';
+import { useEffect, useState, useCallback, useRef } from 'react';
 import { useAuth } from '@/contexts/AuthContext';
-import { db, Task, Session, SleepEntry } from '@/lib/db';
+import { db, Task } from '@/lib/db';
 import { supabase } from '@/lib/supabase';
+import { isLocalMode } from '@/repositories';
+import { syncData, type SyncOptions } from '@/services/SyncManager';
+import { getLastUploadError, getQueueDepth } from '@/services/syncOutbox';
 import { useLiveQuery } from 'dexie-react-hooks';
 
 export type SyncStatus = 'idle' | 'syncing' | 'error' | 'offline';
@@ -22,33 +25,17 @@ const taskToSupabase = (task: Task, userId: string) => ({
     updated_at: task.updatedAt?.toISOString() || new Date().toISOString()
 });
 
-// Helper: Convert Session from Dexie (camelCase) to Supabase (snake_case)
-const sessionToSupabase = (session: Session, userId: string) => ({
-    user_id: userId,
-    date: session.date,
-    task_id: null, // Will handle task linking later
-    custom_name: session.customName || '',
-    category: session.category,
-    category_type: session.categoryType,
-    start_time: session.startTime,
-    end_time: session.endTime,
-    description: session.description || '',
-    created_at: session.createdAt?.toISOString() || new Date().toISOString()
-});
-
-// Helper: Convert Sleep Entry from Dexie (camelCase) to Supabase (snake_case)
-const sleepToSupabase = (entry: SleepEntry, userId: string) => ({
-    user_id: userId,
-    date: entry.date,
-    wake_up_time: entry.wakeUpTime || null,
-    bed_time: entry.bedTime || null,
-    created_at: new Date().toISOString()
-});
-
 export const useSync = () => {
     const { user } = useAuth();
     const [syncStatus, setSyncStatus] = useState<SyncStatus>('idle');
     const [isOnline, setIsOnline] = useState(navigator.onLine);
+    const [syncError, setSyncError] = useState<string | null>(null);
+    const retryTimer = useRef<ReturnType<typeof setTimeout>>();
+
+    // Local changes not uploaded yet, and why the last upload failed
+    const queueDepth = useLiveQuery(() => getQueueDepth(), []) ?? 0;
+    const uploadError = useLiveQuery(() => getLastUploadError(), []);
+    const lastError = syncError || uploadError || null;
 
     // Monitor online status
     useEffect(() => {
@@ -71,64 +58,48 @@ export const useSync = () => {
         };
     }, []);
 
-    // Process waiting queue when coming back online
-    const processSyncQueue = useCallback(async () => {
-        if (!user || !navigator.onLine) return;
+    const runSync = useCallback(async (options: SyncOptions = {}) => {
+        if (!user || !navigator.onLine || isLocalMode) return;
 
         try {
             setSyncStatus('syncing');
 
-            // 1. Sync Tasks
-            const pendingTasks = await db.tasks.where('syncStatus').equals('pending').toArray();
-            for (const task of pendingTasks) {
-                // Convert to Supabase format
-                const supabaseTask = taskToSupabase(task, user.id);
-
-                // Upsert to Supabase
-                const { error } = await supabase.from('tasks').upsert(supabaseTask);
-
-                if (!error) {
-                    await db.tasks.update(task.id!, { syncStatus: 'synced' });
-                } else {
-                    console.error('Task sync error:', error);
-                }
+            // Conflict-aware push/pull (merges rows edited on several devices)
+            const result = await syncData(options);
+            if (result.conflicts > 0) {
+                console.warn(`⚠️ Sync merged ${result.conflicts} conflicting field(s). Review them in Settings → Storage.`);
             }
 
-            // 2. Sync Sessions
-            const pendingSessions = await db.sessions.where('syncStatus').equals('pending').toArray();
-            for (const session of pendingSessions) {
-                const supabaseSession = sessionToSupabase(session, user.id);
-                const { error } = await supabase.from('sessions').upsert(supabaseSession);
-
-                if (!error) {
-                    await db.sessions.update(session.id!, { syncStatus: 'synced' });
-                } else {
-                    console.error('Session sync error:', error);
-                }
+            // Come back when the failed uploads are due again
+            clearTimeout(retryTimer.current);
+            if (result.nextRetryAt) {
+                retryTimer.current = setTimeout(() => runSync(), Math.max(result.nextRetryAt - Date.now(), 0));
             }
 
-            // 3. Sync Sleep Entries
-            const pendingSleep = await db.sleepEntries.where('syncStatus').equals('pending').toArray();
-            for (const entry of pendingSleep) {
-                const supabaseSleep = sleepToSupabase(entry, user.id);
-                const { error } = await supabase.from('sleep_entries').upsert(supabaseSleep, {
-                    onConflict: 'user_id,date'
-                });
-
-                if (!error) {
-                    await db.sleepEntries.update(entry.id!, { syncStatus: 'synced' });
-                } else {
-                    console.error('Sleep sync error:', error);
-                }
+            if (!result.success) {
+                console.error('Sync errors:', result.errors);
+                setSyncError(result.errors[0] || 'Sync failed');
+                setSyncStatus('error');
+                return;
             }
 
+            setSyncError(null);
             setSyncStatus('idle');
         } catch (error) {
             console.error('Queue sync failed:', error);
+            setSyncError((error as Error).message);
             setSyncStatus('error');
         }
     }, [user]);
 
+    useEffect(() => () => clearTimeout(retryTimer.current), []);
+
+    // Process waiting queue when coming back online (incremental pull)
+    const processSyncQueue = useCallback(() => runSync(), [runSync]);
+
+    // Escape hatch: ignore pull cursors, re-fetch everything and prune remote deletions
+    const fullResync = useCallback(() => runSync({ full: true }), [runSync]);
+
     // Initial sync on mount/auth change
     useEffect(() => {
         if (user && isOnline) {
@@ -152,7 +123,7 @@ export const useSync = () => {
         const id = await db.tasks.add(newTask);
 
         // 2. Try background sync
-        if (user && navigator.onLine) {
+        if (user && navigator.onLine && !isLocalMode) {
             // Don't await this, let it happen in background
             (async () => {
                 try {
@@ -177,7 +148,7 @@ export const useSync = () => {
      * Fetch data for a specific date from cloud (and merge to local)
      */
     const fetchDateData = useCallback(async (dateString: string) => {
-        if (!user || !navigator.onLine) return;
+        if (!user || !navigator.onLine || isLocalMode) return;
 
         try {
             setSyncStatus('syncing');
@@ -194,10 +165,11 @@ export const useSync = () => {
                 const localTasks = await db.tasks.where('date').equals(dateString).toArray();
 
                 for (const cTask of cloudTasks) {
-                    // Simple dedup by name for now since IDs don't match
-                    const exists = localTasks.find(l => l.name === cTask.name);
+                    // Same uuid, or same name for rows created before uuids
+                    const exists = localTasks.find(l => l.uuid === cTask.client_id || l.name === cTask.name);
                     if (!exists) {
                         await db.tasks.add({
+                            uuid: cTask.client_id,
                             name: cTask.name,
                             date: cTask.date,
                             status: cTask.status,
@@ -210,7 +182,9 @@ export const useSync = () => {
                             createdAt: new Date(cTask.created_at),
                             updatedAt: new Date(cTask.updated_at),
                             syncStatus: 'synced',
-                            userId: user.id
+                            userId: user.id,
+                            // Server id so sessions can link to it; the next sync fills in the rest
+                            syncBase: { remoteId: cTask.id, updatedAt: '', values: {} }
                         } as any); // Cast because of some field mismatches maybe
                     }
                 }
@@ -228,18 +202,26 @@ export const useSync = () => {
                 for (const cSession of cloudSessions) {
                     // Dedup by start time and category
                     const exists = localSessions.find(
-                        l => l.startTime === cSession.start_time && l.category === cSession.category
+                        l => l.uuid === cSession.client_id ||
+                            (l.startTime === cSession.start_time && l.category === cSession.category)
                     );
                     if (!exists) {
+                        // Re-link to the local copy of the planned task (tasks are fetched above)
+                        const linkedTask = cSession.task_id
+                            ? await db.tasks.filter(t => t.syncBase?.remoteId === cSession.task_id).first()
+                            : undefined;
+
                         await db.sessions.add({
+                            uuid: cSession.client_id,
                             date: cSession.date,
-                            taskId: null, // Hard to link without UUIDs
+                            taskId: linkedTask?.id ?? null,
                             customName: cSession.custom_name || '',
                             category: cSession.category,
                             categoryType: cSession.category_type as any,
                             startTime: cSession.start_time,
                             endTime: cSession.end_time,
                             description: cSession.description || '',
+                            richContent: cSession.rich_content || undefined,
                             createdAt: new Date(cSession.created_at),
                             syncStatus: 'synced',
                             userId: user.id
@@ -260,6 +242,7 @@ export const useSync = () => {
                 const localSleep = await db.sleepEntries.where('date').equals(dateString).first();
                 if (!localSleep) {
                     await db.sleepEntries.add({
+                        uuid: cloudSleep.client_id,
                         date: cloudSleep.date,
                         wakeUpTime: cloudSleep.wake_up_time || '',
                         bedTime: cloudSleep.bed_time || '',
@@ -289,8 +272,11 @@ export const useSync = () => {
     return {
         syncStatus,
         isOnline,
+        queueDepth,
+        lastError,
         saveTaskWithSync,
         fetchDateData,
-        processSyncQueue
+        processSyncQueue,
+        fullResync
     };
 };
@@ -1,34 +1,45 @@
 import { useEffect } from 'react';
-import { generateTasksFromTemplates } from '@/lib/db';
-import { getTodayIST } from '@/utils/dateUtils';
+import { toast } from 'sonner';
+import { useAuth } from '@/contexts/AuthContext';
+import { useUserPreferences } from '@/contexts/UserPreferencesContext';
+import { loadCarryOverSettings, runAutomaticCarryOver } from '@/services/carryOverService';
+import { generateTemplateTasks } from '@/services/templateGenerationService';
 
 /**
- * Hook to automatically generate tasks from templates for TODAY'S date
- * Runs on mount and checks periodically for new days
- * 
- * ⚠️ TEMPORARILY DISABLED - Causing duplicate tasks
- * Re-enable after switching to cloud-only mode
+ * Hook to create the day's tasks from the active templates (see
+ * templateGenerationService), then carry yesterday's unfinished tasks into
+ * today if automatic carry-over is on. One job, in that order: carry-over
+ * adds to the task generation made instead of racing it for the day.
+ * Runs on mount and checks every minute, so tasks appear at their
+ * template's addAtTime and when the logical day (dayStartHour) changes.
  */
 export const useTemplateGenerator = () => {
-    useEffect(() => {
-        // DISABLED: Automatic task generation
-        // This was causing duplicate tasks in local database
+    const { user } = useAuth();
+    const { dayStartHour } = useUserPreferences();
 
-        /* 
-        const generate = async () => {
-            const todayString = getTodayIST();
-            await generateTasksFromTemplates(todayString);
-        };
+    useEffect(() => {
+        if (!user) return;
 
-        // Generate on mount
-        generate();
+        const run = async () => {
+            try {
+                await generateTemplateTasks(user.id, dayStartHour);
+            } catch (error) {
+                console.error('Task generation from templates failed:', error);
+            }
 
-        // Check every hour if we've crossed into a new day
-        const interval = setInterval(() => {
-            generate();
-        }, 60 * 60 * 1000); // Check every hour
+            const settings = loadCarryOverSettings();
+            if (!settings.automatic) return;
+            try {
+                const result = await runAutomaticCarryOver(user.id, dayStartHour, settings.mode);
+                const count = result?.carried.length || 0;
+                if (count > 0) toast.success(`Carried ${count} unfinished task${count === 1 ? '' : 's'} over to today`);
+            } catch (error) {
+                console.error('Automatic carry-over failed:', error);
+            }
+        };
 
+        run();
+        const interval = setInterval(run, 60 * 1000);
         return () => clearInterval(interval);
-        */
-    }, []); // Only run on mount, no dependencies
+    }, [user, dayStartHour]);
 };
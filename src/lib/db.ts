@@ -1,9 +1,21 @@
 import Dexie, { type EntityTable } from 'dexie';
-import { getTodayIST, formatToIST } from '../utils/dateUtils';
+import { formatDateString } from '../utils/dateUtils';
+import type { RecurrenceRule } from '../utils/recurrence';
+import type { StreakProtection } from '../utils/streakEngine';
 
 // Types for our database entities
+export type { RecurrenceRule, StreakProtection };
+
+export interface ChecklistItem {
+  id: string;
+  title: string;
+  done: boolean;
+  estimate?: number; // Optional estimate in minutes, weighs the item in checklist progress
+}
+
 export interface Task {
   id?: number;
+  uuid?: string; // Client-generated sync identity (client_id in Supabase)
   date: string; // ISO date string YYYY-MM-DD
   name: string;
   status: 'lagging' | 'on-track' | 'overachiever';
@@ -18,47 +30,75 @@ export interface Task {
   userId?: string;
   isDeleted?: boolean; // Soft delete flag
   periodTaskId?: number; // Link to a Period Task (Sprint Goal)
+  templateId?: string | null; // Template the task was made from (its streak chain)
+  carryOverCount?: number; // Days in a row the unfinished task was carried over
+  carriedTo?: string | null; // Day the remaining time was copied to
+  checklist?: ChecklistItem[]; // Subtasks, in order
+  progressMode?: 'time' | 'checklist'; // What progress counts: logged time (default) or checked items
+  plannedStart?: string | null; // HH:mm - time block the task is scheduled into
+  plannedEnd?: string | null; // HH:mm
+  syncBase?: SyncBase; // Remote snapshot from the last successful sync
 }
 
 export interface Session {
   id?: number;
+  uuid?: string; // Client-generated sync identity (client_id in Supabase)
   date: string;
   taskId: number | null;
   customName: string; // custom session name when not linked to task
   category: string | null;
   categoryType: 'work' | 'life' | 'untracked' | null;
   startTime: string; // HH:mm format
-  endTime: string;
+  endTime: string; // HH:mm format, empty while a live timer is running
   description: string;
   richContent?: string; // JSON string for rich text editor content
   createdAt: Date;
+  updatedAt?: Date;
   syncStatus: 'pending' | 'synced' | 'error';
   userId?: string;
   isDeleted?: boolean; // Soft delete flag
+  syncBase?: SyncBase;
 }
 
 export interface SleepEntry {
   id?: number;
+  uuid?: string; // Client-generated sync identity (client_id in Supabase)
   date: string;
   wakeUpTime: string;
   bedTime: string;
+  updatedAt?: Date;
   syncStatus: 'pending' | 'synced' | 'error';
   userId?: string;
+  syncBase?: SyncBase;
+}
+
+/**
+ * Remote state of a row as of the last successful sync.
+ * Used as the common ancestor when both devices edited the same row.
+ */
+export interface SyncBase {
+  remoteId?: string | number; // Server id, used to translate links between tables
+  updatedAt: string; // Remote updated_at (ISO)
+  values: Record<string, unknown>; // Mergeable fields in local (camelCase) shape
 }
 
 export interface RepeatingTask {
   id?: number;
+  uuid?: string; // Client-generated sync identity (client_id in Supabase)
   name: string;
   priority: string;
   targetTime: number;
   category?: string;
   description: string;
   richContent?: string; // JSON string for rich text editor content (SOPs, etc)
+  checklist?: ChecklistItem[]; // Default checklist, copied unchecked into generated tasks
 
   // Repeat configuration
   repeatPattern: 'daily' | 'weekly' | 'custom';
   repeatDays?: number[]; // 0=Sunday, 1=Monday, ..., 6=Saturday (for weekly/custom)
   addAtTime?: string; // HH:mm format - optional time when task should be added
+  generatedThrough?: string; // Last day (YYYY-MM-DD) its task was generated for (see templateGenerationService)
+  recurrence?: RecurrenceRule | null; // Overrides repeatPattern/repeatDays when set
 
   categoryType?: 'work' | 'life';
   color?: string;
@@ -78,33 +118,55 @@ export interface RepeatingTask {
   achieverStrike: number; // Consecutive days meeting minimum
   fighterStrike: number; // Consecutive days exceeding 100%
   lastCompletedDate?: string; // ISO date of last completion (YYYY-MM-DD)
+  streakProtection?: StreakProtection | null;
+
+  syncStatus?: 'pending' | 'synced' | 'error';
+  userId?: string;
+  syncBase?: SyncBase;
 }
 
 export interface Priority {
   id?: number;
+  uuid?: string; // Client-generated sync identity (client_id in Supabase)
   name: string;
   color: string; // e.g. text-danger, bg-success/10
   order: number;
+  updatedAt?: Date;
+  syncStatus?: 'pending' | 'synced' | 'error';
+  userId?: string;
+  syncBase?: SyncBase;
 }
 
 export interface Category {
   id?: number;
+  uuid?: string; // Client-generated sync identity (client_id in Supabase)
   name: string;
   type: 'work' | 'life' | 'untracked';
   color: string;
   order: number;
+  isActive?: boolean; // Archived categories are kept for old sessions
+  updatedAt?: Date;
+  syncStatus?: 'pending' | 'synced' | 'error';
+  userId?: string;
+  syncBase?: SyncBase;
 }
 
 export interface DeletedTask {
   id?: number;
+  uuid?: string; // Client-generated sync identity (client_id in Supabase)
   date: string; // ISO date string YYYY-MM-DD
   taskName: string; // Name of the deleted task
   deletedAt: Date; // When it was deleted
+  updatedAt?: Date;
+  syncStatus?: 'pending' | 'synced' | 'error';
+  userId?: string;
+  syncBase?: SyncBase;
 }
 
 
 export interface Subject {
   id?: number;
+  uuid?: string; // Client-generated sync identity (client_id in Supabase)
   name: string;
   criteria: number; // e.g., 75
   professor?: string;
@@ -113,17 +175,117 @@ export interface Subject {
   totalClasses?: number;
   attendedClasses?: number;
 
+  updatedAt?: Date;
   syncStatus: 'pending' | 'synced' | 'error';
   userId?: string;
+  isDeleted?: boolean; // Soft delete flag, so the deletion can sync
+  syncBase?: SyncBase;
 }
 
 export interface AttendanceRecord {
   id?: number;
+  uuid?: string; // Client-generated sync identity (client_id in Supabase)
   subjectId: number;
   date: string; // ISO Date YYYY-MM-DD
   status: 'present' | 'absent' | 'cancelled';
+  updatedAt?: Date;
   syncStatus: 'pending' | 'synced' | 'error';
   userId?: string;
+  isDeleted?: boolean; // Soft delete flag, so the deletion can sync
+  syncBase?: SyncBase;
+}
+
+// Every Dexie table that is synced with Supabase
+export type SyncTableName =
+  | 'tasks'
+  | 'sessions'
+  | 'sleepEntries'
+  | 'repeatingTasks'
+  | 'priorities'
+  | 'categories'
+  | 'subjects'
+  | 'attendanceRecords'
+  | 'deletedTasks';
+
+export const SYNC_TABLES: SyncTableName[] = [
+  'tasks',
+  'sessions',
+  'sleepEntries',
+  'repeatingTasks',
+  'priorities',
+  'categories',
+  'subjects',
+  'attendanceRecords',
+  'deletedTasks'
+];
+
+export interface SyncConflict {
+  id?: number;
+  table: SyncTableName;
+  localId: number;
+  label: string; // Human readable record name, e.g. task name
+  field: string; // Local (camelCase) field name
+  localValue: unknown;
+  remoteValue: unknown;
+  appliedValue: unknown; // Value picked by the merge policy during sync
+  localUpdatedAt: string;
+  remoteUpdatedAt: string;
+  status: 'open' | 'resolved';
+  detectedAt: Date;
+  resolvedAt?: Date;
+}
+
+/**
+ * Device preference that the service worker needs too (it can't read localStorage)
+ */
+export interface Preference {
+  key: string;
+  value: unknown;
+}
+
+/**
+ * Incremental pull state for one synced table
+ */
+export interface SyncCursor {
+  table: SyncTableName;
+  cursor?: string; // Highest server_updated_at seen in a completed sync (ISO)
+  fullSyncedAt?: Date; // Last time the whole table was fetched (and pruned)
+}
+
+/**
+ * RFC 4122 v4 uuid. crypto.randomUUID only exists in secure contexts,
+ * so fall back to getRandomValues (e.g. when served over plain http on a LAN)
+ */
+export function generateUuid(): string {
+  if (typeof crypto.randomUUID === 'function') return crypto.randomUUID();
+
+  const bytes = crypto.getRandomValues(new Uint8Array(16));
+  bytes[6] = (bytes[6] & 0x0f) | 0x40;
+  bytes[8] = (bytes[8] & 0x3f) | 0x80;
+  const hex = Array.from(bytes, b => b.toString(16).padStart(2, '0')).join('');
+  return `${hex.slice(0, 8)}-${hex.slice(8, 12)}-${hex.slice(12, 16)}-${hex.slice(16, 20)}-${hex.slice(20)}`;
+}
+
+/**
+ * Upload state of a row waiting in the sync outbox
+ */
+export interface SyncOutboxEntry {
+  id?: number;
+  table: SyncTableName;
+  localId: number;
+  attempts: number; // Failed uploads so far
+  nextAttemptAt: number; // Epoch ms, exponential backoff after a failure
+  lastError?: string;
+  lastAttemptAt?: Date;
+}
+
+/**
+ * Row of a table that only the repository layer uses in local-only mode
+ * (periods, profiles, bundles, goals...). Stored in the Supabase snake_case shape.
+ */
+export interface LocalRow {
+  id?: number;
+  [column: string]: unknown;
 }
 
 // Create Dexie database
@@ -137,6 +299,18 @@ const db = new Dexie('DailyTrackerDB') as Dexie & {
   deletedTasks: EntityTable<DeletedTask, 'id'>;
   subjects: EntityTable<Subject, 'id'>;
   attendanceRecords: EntityTable<AttendanceRecord, 'id'>;
+  syncConflicts: EntityTable<SyncConflict, 'id'>;
+  syncCursors: EntityTable<SyncCursor, 'table'>;
+  syncOutbox: EntityTable<SyncOutboxEntry, 'id'>;
+  categoryTypes: EntityTable<LocalRow, 'id'>;
+  periods: EntityTable<LocalRow, 'id'>;
+  periodTasks: EntityTable<LocalRow, 'id'>;
+  profiles: EntityTable<LocalRow, 'id'>;
+  profileItems: EntityTable<LocalRow, 'id'>;
+  analyticsGoals: EntityTable<LocalRow, 'id'>;
+  taskBundles: EntityTable<LocalRow, 'id'>;
+  taskBundleItems: EntityTable<LocalRow, 'id'>;
+  preferences: EntityTable<Preference, 'key'>;
 };
 
 // ... (previous versions)
@@ -157,6 +331,163 @@ db.version(15).stores({
   // No data migration needed, fields will just be undefined initially
 });
 
+// Version 16: Conflict-aware sync (updatedAt on every synced row + conflict log)
+db.version(16).stores({
+  tasks: '++id, date, status, priority, createdAt, syncStatus, userId',
+  sessions: '++id, date, taskId, category, categoryType, startTime, syncStatus, userId',
+  sleepEntries: '++id, date, syncStatus, userId',
+  repeatingTasks: '++id, isActive, createdAt, repeatPattern, isDefault',
+  priorities: '++id, name, order',
+  categories: '++id, name, type, order',
+  deletedTasks: '++id, [date+taskName], deletedAt',
+  subjects: '++id, name, status, syncStatus, userId',
+  attendanceRecords: '++id, subjectId, date, status, syncStatus, userId',
+  syncConflicts: '++id, table, localId, status, detectedAt'
+}).upgrade(async tx => {
+  // Backfill updatedAt so existing rows can take part in last-write-wins
+  await tx.table('sessions').toCollection().modify((session: Session) => {
+    if (!session.updatedAt) session.updatedAt = session.createdAt || new Date();
+  });
+  await tx.table('sleepEntries').toCollection().modify((entry: SleepEntry) => {
+    if (!entry.updatedAt) entry.updatedAt = new Date();
+  });
+});
+
+// Version 17: Sync every table (templates, priorities, categories, attendance, deleted tasks)
+db.version(17).stores({
+  tasks: '++id, date, status, priority, createdAt, syncStatus, userId',
+  sessions: '++id, date, taskId, category, categoryType, startTime, syncStatus, userId',
+  sleepEntries: '++id, date, syncStatus, userId',
+  repeatingTasks: '++id, isActive, createdAt, repeatPattern, isDefault, syncStatus',
+  priorities: '++id, name, order, syncStatus',
+  categories: '++id, name, type, order, syncStatus',
+  deletedTasks: '++id, [date+taskName], deletedAt, syncStatus',
+  subjects: '++id, name, status, syncStatus, userId',
+  attendanceRecords: '++id, subjectId, date, status, syncStatus, userId',
+  syncConflicts: '++id, table, localId, status, detectedAt'
+}).upgrade(async tx => {
+  // Rows created before this version never left the device: queue them for upload
+  for (const name of ['repeatingTasks', 'priorities', 'categories', 'deletedTasks', 'subjects', 'attendanceRecords']) {
+    await tx.table(name).toCollection().modify(row => {
+      if (!row.syncStatus) row.syncStatus = 'pending';
+      if (!row.updatedAt) row.updatedAt = row.createdAt || row.deletedAt || new Date();
+    });
+  }
+});
+
+// Version 18: Per-table pull cursors for incremental sync
+db.version(18).stores({
+  tasks: '++id, date, status, priority, createdAt, syncStatus, userId',
+  sessions: '++id, date, taskId, category, categoryType, startTime, syncStatus, userId',
+  sleepEntries: '++id, date, syncStatus, userId',
+  repeatingTasks: '++id, isActive, createdAt, repeatPattern, isDefault, syncStatus',
+  priorities: '++id, name, order, syncStatus',
+  categories: '++id, name, type, order, syncStatus',
+  deletedTasks: '++id, [date+taskName], deletedAt, syncStatus',
+  subjects: '++id, name, status, syncStatus, userId',
+  attendanceRecords: '++id, subjectId, date, status, syncStatus, userId',
+  syncConflicts: '++id, table, localId, status, detectedAt',
+  syncCursors: '&table'
+});
+
+// Version 19: Sync outbox (batched uploads with retry/backoff)
+db.version(19).stores({
+  tasks: '++id, date, status, priority, createdAt, syncStatus, userId',
+  sessions: '++id, date, taskId, category, categoryType, startTime, syncStatus, userId',
+  sleepEntries: '++id, date, syncStatus, userId',
+  repeatingTasks: '++id, isActive, createdAt, repeatPattern, isDefault, syncStatus',
+  priorities: '++id, name, order, syncStatus',
+  categories: '++id, name, type, order, syncStatus',
+  deletedTasks: '++id, [date+taskName], deletedAt, syncStatus',
+  subjects: '++id, name, status, syncStatus, userId',
+  attendanceRecords: '++id, subjectId, date, status, syncStatus, userId',
+  syncConflicts: '++id, table, localId, status, detectedAt',
+  syncCursors: '&table',
+  syncOutbox: '++id, &[table+localId], nextAttemptAt, lastAttemptAt'
+});
+
+// Version 20: Client-generated uuids as sync identity
+db.version(20).stores({
+  tasks: '++id, &uuid, date, status, priority, createdAt, syncStatus, userId',
+  sessions: '++id, &uuid, date, taskId, category, categoryType, startTime, syncStatus, userId',
+  sleepEntries: '++id, &uuid, date, syncStatus, userId',
+  repeatingTasks: '++id, &uuid, isActive, createdAt, repeatPattern, isDefault, syncStatus',
+  priorities: '++id, &uuid, name, order, syncStatus',
+  categories: '++id, &uuid, name, type, order, syncStatus',
+  deletedTasks: '++id, &uuid, [date+taskName], deletedAt, syncStatus',
+  subjects: '++id, &uuid, name, status, syncStatus, userId',
+  attendanceRecords: '++id, &uuid, subjectId, date, status, syncStatus, userId',
+  syncConflicts: '++id, table, localId, status, detectedAt',
+  syncCursors: '&table',
+  syncOutbox: '++id, &[table+localId], nextAttemptAt, lastAttemptAt'
+}).upgrade(async tx => {
+  // The server doesn't know these uuids yet: drop the old snapshots so the next
+  // (full) sync pairs rows by natural key and adopts the server's uuid
+  for (const name of SYNC_TABLES) {
+    await tx.table(name).toCollection().modify(row => {
+      if (!row.uuid) row.uuid = generateUuid();
+      delete row.syncBase;
+    });
+  }
+  await tx.table('syncCursors').clear();
+});
+
+// Version 21: Local-only mode (tables that otherwise only exist in Supabase)
+db.version(21).stores({
+  tasks: '++id, &uuid, date, status, priority, createdAt, syncStatus, userId',
+  sessions: '++id, &uuid, date, taskId, category, categoryType, startTime, syncStatus, userId',
+  sleepEntries: '++id, &uuid, date, syncStatus, userId',
+  repeatingTasks: '++id, &uuid, isActive, createdAt, repeatPattern, isDefault, syncStatus',
+  priorities: '++id, &uuid, name, order, syncStatus',
+  categories: '++id, &uuid, name, type, order, syncStatus',
+  deletedTasks: '++id, &uuid, [date+taskName], deletedAt, syncStatus',
+  subjects: '++id, &uuid, name, status, syncStatus, userId',
+  attendanceRecords: '++id, &uuid, subjectId, date, status, syncStatus, userId',
+  syncConflicts: '++id, table, localId, status, detectedAt',
+  syncCursors: '&table',
+  syncOutbox: '++id, &[table+localId], nextAttemptAt, lastAttemptAt',
+  categoryTypes: '++id, name',
+  periods: '++id, start_date, end_date',
+  periodTasks: '++id, period_id',
+  profiles: '++id, user_id',
+  profileItems: '++id, profile_id, template_id',
+  analyticsGoals: '++id',
+  taskBundles: '++id',
+  taskBundleItems: '++id, bundle_id, template_id'
+});
+
+// Version 22: Device preferences (timezone) readable by the service worker
+db.version(22).stores({
+  tasks: '++id, &uuid, date, status, priority, createdAt, syncStatus, userId',
+  sessions: '++id, &uuid, date, taskId, category, categoryType, startTime, syncStatus, userId',
+  sleepEntries: '++id, &uuid, date, syncStatus, userId',
+  repeatingTasks: '++id, &uuid, isActive, createdAt, repeatPattern, isDefault, syncStatus',
+  priorities: '++id, &uuid, name, order, syncStatus',
+  categories: '++id, &uuid, name, type, order, syncStatus',
+  deletedTasks: '++id, &uuid, [date+taskName], deletedAt, syncStatus',
+  subjects: '++id, &uuid, name, status, syncStatus, userId',
+  attendanceRecords: '++id, &uuid, subjectId, date, status, syncStatus, userId',
+  syncConflicts: '++id, table, localId, status, detectedAt',
+  syncCursors: '&table',
+  syncOutbox: '++id, &[table+localId], nextAttemptAt, lastAttemptAt',
+  categoryTypes: '++id, name',
+  periods: '++id, start_date, end_date',
+  periodTasks: '++id, period_id',
+  profiles: '++id, user_id',
+  profileItems: '++id, profile_id, template_id',
+  analyticsGoals: '++id',
+  taskBundles: '++id',
+  taskBundleItems: '++id, bundle_id, template_id',
+  preferences: '&key'
+});
+
+// Every new row gets its uuid, whichever component creates it
+for (const name of SYNC_TABLES) {
+  db.table(name).hook('creating', (_primKey, row) => {
+    if (!row.uuid) row.uuid = generateUuid();
+  });
+}
+
 export { db };
 
 // Helper functions (kept as is)
@@ -177,6 +508,9 @@ export const parseDuration = (str: string): number => {
 };
 
 export const calculateDuration = (startTime: string, endTime: string): number => {
+  // Open session (live timer): nothing to count until it is stopped
+  if (!startTime || !endTime) return 0;
+
   const [startH, startM] = startTime.split(':').map(Number);
   const [endH, endM] = endTime.split(':').map(Number);
   let diff = (endH * 60 + endM) - (startH * 60 + startM);
@@ -189,12 +523,12 @@ export const calculateDuration = (startTime: string, endTime: string): number =>
 };
 
 /**
- * Get date string in IST timezone (YYYY-MM-DD)
- * @deprecated Use formatToIST from dateUtils instead
- * Keeping this for backward compatibility but delegates to IST function
+ * Get the date string (YYYY-MM-DD) of a day
+ * @deprecated Use formatDateString from dateUtils instead
+ * Keeping this for backward compatibility but delegates to dateUtils
  */
 export const getDateString = (date: Date): string => {
-  return formatToIST(date);
+  return formatDateString(date);
 };
 
 // Calculate task progress from linked sessions
@@ -217,52 +551,3 @@ export const calculateTaskProgress = async (taskId: number, date: string): Promi
   // Calculate percentage
   return Math.round((totalMinutes / task.targetTime) * 100);
 };
-
-// Generate tasks from active templates for a specific date
-export const generateTasksFromTemplates = async (targetDate: string): Promise<void> => {
-  const dayOfWeek = new Date(targetDate).getDay(); // 0=Sunday, 1=Monday, ..., 6=Saturday
-
-  // Get active templates
-  const templates = await db.repeatingTasks
-    .filter(t => t.isActive === true)
-    .toArray();
-
-  for (const template of templates) {
-    // Check if should generate for this day
-    let shouldGenerate = false;
-
-    if (template.repeatPattern === 'daily') {
-      shouldGenerate = true;
-    } else if (template.repeatPattern === 'weekly' || template.repeatPattern === 'custom') {
-      shouldGenerate = template.repeatDays?.includes(dayOfWeek) || false;
-    }
-
-    if (!shouldGenerate) continue;
-
-    // Check if already exists (by name)
-    // This finds active AND soft-deleted tasks (since we don't filter !isDeleted here)
-    // So if a task was soft-deleted, it counts as "existing" and we WON'T recreate it.
-    const existing = await db.tasks
-      .where({ date: targetDate, name: template.name })
-      .first();
-
-    if (existing) continue; // Already generated
-
-    // Generate task from template
-    await db.tasks.add({
-      date: targetDate,
-      name: template.name,
-      status: 'lagging',
-      priority: template.priority,
-      targetTime: template.targetTime,
-      description: template.description,
-      completedDescription: '',
-      progress: 0,
-
-      createdAt: new Date(),
-      updatedAt: new Date(),
-      syncStatus: 'pending',
-      userId: 'local',
-    });
-  }
-};
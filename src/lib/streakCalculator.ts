@@ -1,5 +1,16 @@
-import { supabase } from './supabase';
-import { format, subDays, parseISO, isBefore } from 'date-fns';
+import { repositories, type Row, type RowId } from '@/repositories';
+import { fetchTemplateForTask } from '@/services/templateService';
+import { getToday } from '@/utils/dateUtils';
+import {
+    getStreakSchedule,
+    getStreakSeries,
+    getStreaksOn,
+    meetsAchiever,
+    meetsFighter,
+    withoutDeleted,
+    type StreakHistoryEntry,
+    type StreakSchedule
+} from '@/utils/streakEngine';
 
 interface StreakResult {
     achiever_strike: number;
@@ -7,11 +18,65 @@ interface StreakResult {
 }
 
 /**
- * ROBUST HISTORY-BASED STREAK CALCULATOR
- * Fetches last 50 days of history to calculate streaks from raw progress data.
- * This solves the "Gap Problem" (e.g. 13 -> 15) by not relying on potentially stale
- * stored streak values of previous days.
+ * STREAK CALCULATOR
+ * Loads a task's template and history and runs them through the streak
+ * engine (utils/streakEngine), which holds every rule. Streaks come from raw
+ * progress, never from the stored streaks of previous days, so a stale day
+ * can't leave a gap (e.g. 13 -> 15).
  */
+
+/**
+ * Schedule and minimum target of a task's template (defaults without one)
+ */
+export async function fetchStreakSchedule(templateId: RowId | null | undefined): Promise<StreakSchedule> {
+    const template = templateId ? await fetchTemplateForTask(templateId) : null; // null if not found (instead of a 406 error)
+    return getStreakSchedule(template && {
+        recurrence: template.recurrence,
+        repeatPattern: template.repeat_pattern,
+        repeatDays: template.repeat_days,
+        minCompletionTarget: template.min_completion_target,
+        streakProtection: template.streak_protection,
+        createdAt: template.created_at
+    });
+}
+
+// Tasks of the same chain: same template, or same name without one (deleted ones
+// are dropped after the query: the flag is unset on older local rows)
+const chainWhere = (userId: string, templateId: RowId | null | undefined, taskName: string | null | undefined) =>
+    templateId ? { user_id: userId, template_id: templateId } : { user_id: userId, name: taskName };
+
+/**
+ * Past days of a task's chain, newest first
+ */
+export function fetchStreakHistory(
+    userId: string,
+    templateId: RowId | null | undefined,
+    taskName: string | null | undefined,
+    beforeDate: string
+): Promise<(Row & StreakHistoryEntry)[]> {
+    return repositories.tasks.list({
+        where: chainWhere(userId, templateId, taskName),
+        ranges: [{ column: 'date', lt: beforeDate }],
+        orderBy: 'date',
+        ascending: false, // Newest (yesterday) first
+        limit: 365 // Cap at 1 year history for performance (still very fast)
+    }).then(withoutDeleted) as Promise<(Row & StreakHistoryEntry)[]>;
+}
+
+/**
+ * Every day of a task's chain, oldest first
+ */
+export function fetchChainTasks(
+    userId: string,
+    templateId: RowId | null | undefined,
+    taskName: string | null | undefined
+): Promise<(Row & StreakHistoryEntry)[]> {
+    return repositories.tasks.list({
+        where: chainWhere(userId, templateId, taskName),
+        orderBy: 'date'
+    }).then(withoutDeleted) as Promise<(Row & StreakHistoryEntry)[]>;
+}
+
 export async function calculateStreakForTask(
     userId: string,
     templateId: string | null,
@@ -19,160 +84,70 @@ export async function calculateStreakForTask(
     currentProgress: number,
     taskName: string | null
 ): Promise<StreakResult> {
-
-    console.log('='.repeat(60));
-    console.log('🚀 ROBUST HISTORY CALCULATOR v3 (Strict Dates)');
-    console.log(`   userId: ${userId}`);
-    console.log(`   templateId: ${templateId}`);
-    console.log(`   currentDate: ${currentDate}`);
-
     if (!templateId && !taskName) {
         return { achiever_strike: 0, fighter_strike: 0 };
     }
 
-    try {
-        // 1. Fetch Template Settings (Min Target)
-        let minTarget = 60;
-        if (templateId) {
-            const { data } = await supabase
-                .from('repeating_tasks')
-                .select('min_completion_target')
-                .eq('id', templateId)
-                .maybeSingle(); // <--- SAFE: Returns null if not found (instead of 406 Error)
-            if (data && data.min_completion_target !== null) {
-                minTarget = data.min_completion_target;
-            }
-        }
-        console.log(`   🎯 Target: ${minTarget}% | Fighter: >100%`);
-
-        // 2. Fetch History Batch (Last 50 Records)
-        // We look for anything strictly BEFORE today.
-        console.log('   📚 Fetching history batch...');
-
-        let query = supabase
-            .from('tasks')
-            .select('date, progress, status')
-            .eq('user_id', userId)
-            .lt('date', currentDate)
-            .order('date', { ascending: false }) // Newest (yesterday) first
-            .limit(365); // Cap at 1 year history for performance (still very fast)
-
-        if (templateId) {
-            query = query.eq('template_id', templateId);
-        } else if (taskName) {
-            query = query.eq('name', taskName);
-        }
-
-        const { data: history, error } = await query;
-
-        if (error) {
-            console.error('   ❌ History fetch error:', error);
-            return calculateFreshStreak(currentProgress, minTarget);
-        }
-
-        console.log(`   📜 Found ${history?.length || 0} past records.`);
-
-        // 3. Walk backwards strictly
-        let achieverBase = 0;
-        let fighterBase = 0;
-
-        let achieverAlive = true;
-        let fighterAlive = true;
-
-        // STRICT DATE SETUP
-        // Use parseISO to ensure we parse the input string 'YYYY-MM-DD' correctly without timezone shifts
-        const currentParsed = parseISO(currentDate);
-        // Calculate Yesterday strictly
-        const yesterdayObj = subDays(currentParsed, 1);
-        const yesterdayStr = format(yesterdayObj, 'yyyy-MM-dd');
-
-        console.log(`   🕵️ LOOKING FOR YESTERDAY: ${yesterdayStr}`);
-
-        let expectedDateObj = yesterdayObj;
-        const fmt = (d: Date) => format(d, 'yyyy-MM-dd');
-
-        if (history && history.length > 0) {
-            let visitedDays = 0;
-
-            for (const task of history) {
-                const expectedDateStr = fmt(expectedDateObj);
-                const taskDate = task.date; // Should be YYYY-MM-DD from DB
-                const progress = task.progress || 0;
-
-                // Stop if both chains are dead
-                if (!achieverAlive && !fighterAlive) break;
-
-                // CHECK DATE CONTINUITY
-                // We compare the Task Date vs The Expected Date
-                const isMatch = taskDate === expectedDateStr;
-
-                if (visitedDays === 0) {
-                    // First iteration: This MUST be yesterday for the streak to continue immediately
-                    console.log(`   🔎 Checking Most Recent History: Is '${taskDate}' == Yesterday '${yesterdayStr}'? ${isMatch ? 'YES' : 'NO'}`);
-                }
-
-                if (!isMatch) {
-                    console.log(`   💔 Gap encountered: Expected ${expectedDateStr}, found ${taskDate}`);
-                    // A gap means the streak breaks
-                    achieverAlive = false;
-                    fighterAlive = false;
-                    break;
-                }
-
-                // CHECK ACHIEVER
-                if (achieverAlive) {
-                    if (progress >= minTarget) {
-                        achieverBase++;
-                    } else {
-                        achieverAlive = false; // Progress too low
-                    }
-                }
-
-                // CHECK FIGHTER
-                if (fighterAlive) {
-                    if (progress > 100) {
-                        fighterBase++;
-                    } else {
-                        fighterAlive = false;
-                    }
-                }
-
-                // Decrement expected date for next loop
-                expectedDateObj = subDays(expectedDateObj, 1);
-                visitedDays++;
-            }
-        } else {
-            console.log('   ⚠️ No history found at all.');
-        }
-
-        console.log(`   🏗️ Calculated Base Streaks: Achiever=${achieverBase}, Fighter=${fighterBase}`);
-
-        // 4. Add Today's contribution
-        let finalAchiever = achieverBase;
-        let finalFighter = fighterBase;
-
-        if (currentProgress >= minTarget) {
-            finalAchiever += 1;
-        }
-
-        if (currentProgress > 100) {
-            finalFighter += 1;
-        }
-
-        console.log(`   🎯 Final Result: ${finalAchiever} / ${finalFighter}`);
-        console.log('='.repeat(60));
+    const schedule = await fetchStreakSchedule(templateId);
 
+    let history;
+    try {
+        history = await fetchStreakHistory(userId, templateId, taskName, currentDate);
+    } catch (error) {
+        console.error('❌ Streak history fetch error:', error);
         return {
-            achiever_strike: finalAchiever,
-            fighter_strike: finalFighter
+            achiever_strike: meetsAchiever(schedule, currentProgress) ? 1 : 0,
+            fighter_strike: meetsFighter(currentProgress) ? 1 : 0
         };
+    }
+
+    const streaks = getStreaksOn(schedule, history, { date: currentDate, progress: currentProgress }, getToday());
+    return { achiever_strike: streaks.achiever, fighter_strike: streaks.fighter };
+}
+
+/**
+ * Recalculates the entire streak history for a given task (by templateId or name).
+ * This fixes gaps where past days might have been saved as 0 incorrectly.
+ */
+export const recalculateStreakChain = async (userId: string, templateId?: RowId | null, taskName?: string) => {
+    if (!userId) return;
+    if (!templateId && !taskName) return;
 
+    console.log(`♻️ Starting Full Streak Recalculation for: ${taskName || templateId}`);
+
+    let tasks;
+    try {
+        tasks = await fetchChainTasks(userId, templateId, taskName);
     } catch (error) {
-        console.error('💥 UNEXPECTED ERROR:', error);
-        return calculateFreshStreak(currentProgress, 60);
+        console.error('Failed to fetch task chain:', error);
+        return;
     }
-}
+    if (tasks.length === 0) return;
 
-function calculateFreshStreak(p: number, t: number) {
-    return { achiever_strike: p >= t ? 1 : 0, fighter_strike: p > 100 ? 1 : 0 };
-}
+    const schedule = await fetchStreakSchedule(templateId);
+    const series = getStreakSeries(schedule, tasks, getToday());
+
+    // Series and tasks are both oldest first
+    const updates = tasks
+        .map((task, i) => ({ task, streaks: series[i] }))
+        .filter(({ task, streaks }) =>
+            task.achiever_strike !== streaks.achiever || task.fighter_strike !== streaks.fighter
+        );
+
+    console.log(`📝 Correcting ${updates.length} tasks in chain...`);
+    if (updates.length === 0) return;
+
+    // Supabase doesn't support massive bulk update easily without rpc or many requests.
+    // We'll do parallel requests for now (safe enough for <100 tasks).
+    try {
+        const updatedAt = new Date().toISOString();
+        await Promise.all(updates.map(({ task, streaks }) => repositories.tasks.update(task.id, {
+            achiever_strike: streaks.achiever,
+            fighter_strike: streaks.fighter,
+            updated_at: updatedAt
+        })));
+        console.log('✅ Streak Correction Complete!');
+    } catch (updateError) {
+        console.error('Error saving corrected streaks:', updateError);
+    }
+};
@@ -6,6 +6,7 @@
  */
 
 import { createClient } from '@supabase/supabase-js';
+import type { ChecklistItem, RecurrenceRule, StreakProtection } from './db';
 
 const supabaseUrl = import.meta.env.VITE_SUPABASE_URL;
 const supabaseAnonKey = import.meta.env.VITE_SUPABASE_ANON_KEY;
@@ -23,6 +24,7 @@ export const supabase = createClient(
 export interface SupabaseTask {
     id: string;
     user_id: string;
+    client_id?: string;
     date: string;
     name: string;
     status: string;
@@ -31,6 +33,15 @@ export interface SupabaseTask {
     description: string | null;
     completed_description: string | null;
     progress: number;
+    is_deleted?: boolean;
+    period_task_id?: number | null;
+    template_id?: string | null;
+    carry_over_count?: number;
+    carried_to?: string | null;
+    checklist?: ChecklistItem[] | null;
+    progress_mode?: string | null;
+    planned_start?: string | null;
+    planned_end?: string | null;
 
     created_at: string;
     updated_at: string;
@@ -39,6 +50,7 @@ export interface SupabaseTask {
 export interface SupabaseSession {
     id: string;
     user_id: string;
+    client_id?: string;
     date: string;
     task_id?: string;
     custom_name: string;
@@ -47,14 +59,107 @@ export interface SupabaseSession {
     start_time: string;
     end_time: string;
     description: string;
+    rich_content?: string | null;
+    is_deleted?: boolean;
     created_at: string;
+    updated_at?: string;
 }
 
 export interface SupabaseSleepEntry {
     id: string;
     user_id: string;
+    client_id?: string;
     date: string;
     wake_up_time?: string;
     bed_time?: string;
     created_at: string;
+    updated_at?: string;
+}
+
+export interface SupabaseTemplate {
+    id: number;
+    user_id: string;
+    client_id?: string;
+    name: string;
+    priority: string;
+    target_time: number;
+    category?: string | null;
+    description: string | null;
+    rich_content?: string | null;
+    repeat_pattern: string;
+    repeat_days?: number[] | null;
+    add_at_time?: string | null;
+    generated_through?: string | null;
+    category_type?: string | null;
+    color?: string | null;
+    is_default: boolean;
+    icon?: string | null;
+    strike_count?: number;
+    is_active: boolean;
+    min_completion_target?: number;
+    achiever_strike?: number;
+    fighter_strike?: number;
+    last_completed_date?: string | null;
+    checklist?: ChecklistItem[] | null;
+    recurrence?: RecurrenceRule | null;
+    streak_protection?: StreakProtection | null;
+    created_at: string;
+    updated_at?: string;
+}
+
+export interface SupabasePriority {
+    id: number;
+    user_id: string;
+    client_id?: string;
+    name: string;
+    color: string;
+    order: number;
+    updated_at?: string;
+}
+
+export interface SupabaseCategory {
+    id: number;
+    user_id: string;
+    client_id?: string;
+    name: string;
+    type: string;
+    color: string;
+    order: number;
+    is_active?: boolean;
+    updated_at?: string;
+}
+
+export interface SupabaseSubject {
+    id: number;
+    user_id: string;
+    client_id?: string;
+    name: string;
+    criteria: number;
+    professor?: string | null;
+    color: string;
+    is_deleted?: boolean;
+    created_at: string;
+    updated_at?: string;
+}
+
+export interface SupabaseAttendanceRecord {
+    id: number;
+    user_id: string;
+    client_id?: string;
+    subject_id: number;
+    date: string;
+    status: string;
+    is_deleted?: boolean;
+    created_at: string;
+    updated_at?: string;
+}
+
+export interface SupabaseDeletedTask {
+    id: number;
+    user_id: string;
+    client_id?: string;
+    date: string;
+    task_name: string;
+    deleted_at: string;
+    updated_at?: string;
 }
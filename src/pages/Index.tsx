@@ -9,7 +9,7 @@ import PlanningTable from '@/components/PlanningTable';
 import ExecutionTable from '@/components/ExecutionTable';
 import DailyBreakdown from '@/components/DailyBreakdown';
 import { db } from '@/lib/db';
-import { formatToIST, getLogicalDate } from '@/utils/dateUtils';
+import { formatDateString, getLogicalDate } from '@/utils/dateUtils';
 import { useTemplateGenerator } from '@/hooks/useTemplateGenerator';
 import { useSync } from '@/hooks/useSync';
 import { syncData } from '@/services/SyncManager';
@@ -33,11 +33,11 @@ const Index = () => {
     localStorage.setItem('last_active_phase', activePhase);
   }, [activePhase]);
 
-  // Auto-generate tasks from templates for TODAY only
+  // Create the due tasks of active templates (today, plus missed days), then
+  // roll yesterday's unfinished tasks into today (when turned on in Planning)
   useTemplateGenerator();
 
-  // Use IST timezone for date string
-  const dateString = formatToIST(selectedDate);
+  const dateString = formatDateString(selectedDate);
 
   // Fetch data from cloud when date changes
   useEffect(() => {
@@ -104,7 +104,7 @@ const Index = () => {
   // 🔥 NEW: Fetch previous day's sleep entry to link Bed Time
   const prevDate = new Date(selectedDate);
   prevDate.setDate(prevDate.getDate() - 1);
-  const prevDateString = formatToIST(prevDate);
+  const prevDateString = formatDateString(prevDate);
 
   const prevSleepEntry = useLiveQuery(
     () => db.sleepEntries.where('date').equals(prevDateString).first(),
@@ -116,6 +116,7 @@ const Index = () => {
       // Optimistic update with sync pending
       await db.sleepEntries.update(sleepEntry.id!, {
         wakeUpTime: time,
+        updatedAt: new Date(),
         syncStatus: 'pending' // Mark for sync
       });
     } else {
@@ -123,6 +124,7 @@ const Index = () => {
         date: dateString,
         wakeUpTime: time,
         bedTime: '',
+        updatedAt: new Date(),
         syncStatus: 'pending',
         userId: 'local'
       });
@@ -135,6 +137,7 @@ const Index = () => {
     if (sleepEntry) {
       await db.sleepEntries.update(sleepEntry.id!, {
         bedTime: time,
+        updatedAt: new Date(),
         syncStatus: 'pending' // Mark for sync
       });
     } else {
@@ -142,6 +145,7 @@ const Index = () => {
         date: dateString,
         wakeUpTime: '',
         bedTime: time,
+        updatedAt: new Date(),
         syncStatus: 'pending',
         userId: 'local'
       });
@@ -266,7 +270,7 @@ const Index = () => {
             </div>
             <div className="bg-background rounded-md p-5 border border-border/50">
               <h3 className="text-lg font-medium text-foreground mb-2">Can I recover my data if I clear my browser cache?</h3>
-              <p className="text-muted-foreground">Because the core functional data relies on local storage, clearing your site data will erase your local history. However, you can frequently utilize export functionality to save backups, or configure optional cross-device synchronization to ensure data persists.</p>
+              <p className="text-muted-foreground">Because the core functional data relies on local storage, clearing your site data will erase your local history. However, you can frequently export a backup file from Settings → Storage, or configure optional cross-device synchronization to ensure data persists.</p>
             </div>
             <div className="bg-background rounded-md p-5 border border-border/50">
               <h3 className="text-lg font-medium text-foreground mb-2">Do I need to sign up for an account to start tracking?</h3>
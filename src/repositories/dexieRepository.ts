@@ -0,0 +1,218 @@
+import { liveQuery } from 'dexie';
+import { db, type SyncTableName } from '@/lib/db';
+import { discard } from '@/services/syncOutbox';
+import type { Include, ListQuery, RangeFilter, Repository, Row, RowId, TableName } from './types';
+
+/**
+ * Dexie Repository - Local storage for local-only mode
+ *
+ * Tables that are also synced keep their camelCase Dexie shape (so the sync
+ * engine and the Dexie based pages keep working) and are converted to the
+ * Supabase row shape on the way in and out:
+ *   targetTime <-> target_time, uuid <-> client_id, Date <-> ISO string
+ * Supabase-only tables are stored as snake_case rows, exactly as the cloud has them.
+ *
+ * Queries are evaluated in memory: a personal tracker's tables are small.
+ */
+
+interface LocalTable {
+    store: string;
+    mapped: boolean; // camelCase store shared with SyncManager
+    defaults?: Row; // Supabase column defaults, for rows that don't have the column
+}
+
+const LOCAL_TABLES: Record<TableName, LocalTable> = {
+    tasks: { store: 'tasks', mapped: true },
+    sessions: { store: 'sessions', mapped: true },
+    sleep_entries: { store: 'sleepEntries', mapped: true },
+    task_templates: { store: 'repeatingTasks', mapped: true },
+    repeating_tasks: { store: 'repeatingTasks', mapped: true },
+    priorities: { store: 'priorities', mapped: true },
+    categories: { store: 'categories', mapped: true, defaults: { is_active: true } },
+    category_types: { store: 'categoryTypes', mapped: false, defaults: { is_active: true } },
+    periods: { store: 'periods', mapped: false },
+    period_tasks: { store: 'periodTasks', mapped: false },
+    profiles: { store: 'profiles', mapped: false },
+    profile_items: { store: 'profileItems', mapped: false },
+    analytics_goals: { store: 'analyticsGoals', mapped: false },
+    task_bundles: { store: 'taskBundles', mapped: false },
+    task_bundle_items: { store: 'taskBundleItems', mapped: false }
+};
+
+// Sync bookkeeping, never part of the row itself
+const LOCAL_ONLY_FIELDS = new Set(['syncStatus', 'syncBase']);
+const DATE_FIELDS = new Set(['createdAt', 'updatedAt', 'deletedAt']);
+
+const toColumn = (field: string) =>
+    field === 'uuid' ? 'client_id' : field.replace(/[A-Z]/g, c => `_${c.toLowerCase()}`);
+
+const toField = (column: string) =>
+    column === 'client_id' ? 'uuid' : column.replace(/_([a-z0-9])/g, (_, c: string) => c.toUpperCase());
+
+const toRemoteShape = (local: Row): Row => {
+    const remote: Row = {};
+    for (const [field, value] of Object.entries(local)) {
+        if (LOCAL_ONLY_FIELDS.has(field)) continue;
+        remote[toColumn(field)] = value instanceof Date ? value.toISOString() : value;
+    }
+    return remote;
+};
+
+const toLocalShape = (remote: Row): Row => {
+    const local: Row = {};
+    for (const [column, value] of Object.entries(remote)) {
+        const field = toField(column);
+        local[field] = DATE_FIELDS.has(field) && typeof value === 'string' ? new Date(value) : value;
+    }
+    return local;
+};
+
+const isEmpty = (value: unknown) => value === null || value === undefined;
+
+// Loose equality: ids may arrive as strings (route params, select values)
+const sameValue = (a: unknown, b: unknown) =>
+    isEmpty(a) || isEmpty(b) ? isEmpty(a) && isEmpty(b) : String(a) === String(b);
+
+// The local database belongs to whoever uses this browser: user_id filters don't apply
+const matchesWhere = (row: Row, where: Row = {}) =>
+    Object.entries(where).every(([column, value]) => column === 'user_id' || sameValue(row[column], value));
+
+const inRange = (row: Row, { column, gt, gte, lt, lte }: RangeFilter) => {
+    const value = row[column];
+    if (isEmpty(value)) return false;
+    if (gt !== undefined && !(value > gt)) return false;
+    if (gte !== undefined && !(value >= gte)) return false;
+    if (lt !== undefined && !(value < lt)) return false;
+    if (lte !== undefined && !(value <= lte)) return false;
+    return true;
+};
+
+const compareBy = (column: string, ascending: boolean) => (a: Row, b: Row) => {
+    const x = a[column];
+    const y = b[column];
+    if (isEmpty(x) || isEmpty(y)) return isEmpty(x) === isEmpty(y) ? 0 : isEmpty(x) ? 1 : -1;
+    const order = x < y ? -1 : x > y ? 1 : 0;
+    return ascending ? order : -order;
+};
+
+const toKey = (id: RowId) => Number(id);
+
+export function createDexieRepository(table: TableName): Repository {
+    const { store, mapped, defaults = {} } = LOCAL_TABLES[table];
+    const dexieTable = () => db.table(store);
+
+    const read = (local: Row): Row => {
+        const row = mapped ? toRemoteShape(local) : { ...local };
+        for (const [column, value] of Object.entries(defaults)) {
+            if (row[column] === undefined) row[column] = value;
+        }
+        return row;
+    };
+
+    const prepareInsert = (row: Row): Row => {
+        const { id, ...fields } = row;
+        const now = new Date();
+        if (!mapped) return { created_at: now.toISOString(), ...fields };
+        return { createdAt: now, ...toLocalShape(fields), updatedAt: now, syncStatus: 'pending' };
+    };
+
+    const prepareUpdate = (changes: Row): Row => {
+        const { id, ...fields } = changes;
+        if (!mapped) return fields;
+        return { ...toLocalShape(fields), updatedAt: new Date(), syncStatus: 'pending' };
+    };
+
+    const attach = async (rows: Row[], include: Include) => {
+        const related = await createDexieRepository(include.table).list({ include: include.include });
+        for (const row of rows) {
+            row[include.as] = include.many
+                ? related.filter(other => sameValue(other[include.foreignKey], row.id))
+                : related.find(other => sameValue(other.id, row[include.foreignKey])) || null;
+        }
+    };
+
+    const list = async (query: ListQuery = {}): Promise<Row[]> => {
+        let rows = (await dexieTable().toArray()).map(read);
+
+        rows = rows.filter(row =>
+            matchesWhere(row, query.where) &&
+            (query.ranges || []).every(range => inRange(row, range)) &&
+            (!query.in || query.in.values.some(value => sameValue(row[query.in!.column], value)))
+        );
+        if (query.orderBy) rows.sort(compareBy(query.orderBy, query.ascending !== false));
+        if (query.limit) rows = rows.slice(0, query.limit);
+
+        for (const include of query.include || []) {
+            await attach(rows, include);
+        }
+        return rows;
+    };
+
+    const get = async (id: RowId) => {
+        if (Number.isNaN(toKey(id))) return null; // Cloud ids (uuids) never exist locally
+        const row = await dexieTable().get(toKey(id));
+        return row ? read(row) : null;
+    };
+
+    return {
+        table,
+        list,
+        get,
+
+        find: async (query) => {
+            const rows = await list({ ...query, limit: 1 });
+            return rows[0] || null;
+        },
+
+        count: async (where) => (await list({ where })).length,
+
+        insert: async (row) => {
+            const id = await dexieTable().add(prepareInsert(row));
+            return get(id as number);
+        },
+
+        insertMany: async (rows) => {
+            if (rows.length === 0) return [];
+            const ids = await dexieTable().bulkAdd(rows.map(prepareInsert), { allKeys: true });
+            const added = await dexieTable().bulkGet(ids);
+            return added.filter(Boolean).map(read);
+        },
+
+        update: async (id, changes) => {
+            await dexieTable().update(toKey(id), prepareUpdate(changes));
+            return get(id);
+        },
+
+        updateWhere: async (where, changes) => {
+            const ids = (await list({ where })).map(row => toKey(row.id));
+            const update = prepareUpdate(changes);
+            await db.transaction('rw', dexieTable(), async () => {
+                for (const id of ids) await dexieTable().update(id, update);
+            });
+        },
+
+        remove: async (id) => {
+            await dexieTable().delete(toKey(id));
+            if (mapped) await discard(store as SyncTableName, [toKey(id)]);
+        },
+
+        removeWhere: async (where) => {
+            const ids = (await list({ where })).map(row => toKey(row.id));
+            await dexieTable().bulkDelete(ids);
+            if (mapped) await discard(store as SyncTableName, ids);
+        },
+
+        subscribe: (onChange) => {
+            let initial = true;
+            const subscription = liveQuery(() => dexieTable().toArray()).subscribe({
+                next: () => {
+                    // liveQuery emits the current rows right away: only report changes
+                    if (initial) initial = false;
+                    else onChange();
+                },
+                error: error => console.error(`Live query on ${store} failed`, error)
+            });
+            return () => subscription.unsubscribe();
+        }
+    };
+}
@@ -0,0 +1,58 @@
+import { supabase } from '@/lib/supabase';
+import { createDexieRepository } from './dexieRepository';
+import { createSupabaseRepository } from './supabaseRepository';
+import type { Repository, TableName } from './types';
+
+export type { Include, ListQuery, RangeFilter, Repository, Row, RowId, TableName } from './types';
+
+/**
+ * Repositories - Storage backend picked once at startup
+ *
+ * Local-only mode (everything in IndexedDB, no Supabase calls) is used when
+ * the app is built without Supabase credentials, or when the user opted in:
+ *   localStorage.setItem('data_mode', 'local')
+ */
+
+export const DATA_MODE_KEY = 'data_mode';
+
+// Owner of rows created in local-only mode (same as the Dexie based pages)
+export const LOCAL_USER_ID = 'local';
+
+export const isLocalMode =
+    !import.meta.env.VITE_SUPABASE_URL ||
+    !import.meta.env.VITE_SUPABASE_ANON_KEY ||
+    localStorage.getItem(DATA_MODE_KEY) === 'local';
+
+/**
+ * Id of the user whose rows are read and written (null when signed out)
+ */
+export async function getCurrentUserId(): Promise<string | null> {
+    if (isLocalMode) return LOCAL_USER_ID;
+
+    const { data: { user } } = await supabase.auth.getUser();
+    return user?.id ?? null;
+}
+
+const TABLES: TableName[] = [
+    'tasks',
+    'sessions',
+    'sleep_entries',
+    'task_templates',
+    'repeating_tasks',
+    'priorities',
+    'categories',
+    'category_types',
+    'periods',
+    'period_tasks',
+    'profiles',
+    'profile_items',
+    'analytics_goals',
+    'task_bundles',
+    'task_bundle_items'
+];
+
+const createRepository = isLocalMode ? createDexieRepository : createSupabaseRepository;
+
+export const repositories = Object.fromEntries(
+    TABLES.map(table => [table, createRepository(table)])
+) as Record<TableName, Repository>;
@@ -0,0 +1,112 @@
+import { supabase } from '@/lib/supabase';
+import type { Include, ListQuery, Repository, Row, RowId, TableName } from './types';
+
+/**
+ * Supabase Repository - Cloud storage (RLS scopes every query to the signed-in user)
+ */
+
+// [{ as: 'tasks', table: 'period_tasks' }] -> "*, tasks:period_tasks(*)"
+const selectClause = (include: Include[] = []): string =>
+    ['*', ...include.map(inc => `${inc.as}:${inc.table}(${selectClause(inc.include)})`)].join(', ');
+
+// PostgREST needs IS NULL instead of = null
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+const applyWhere = <Q extends { eq: any; is: any }>(query: Q, where: Row = {}): Q => {
+    for (const [column, value] of Object.entries(where)) {
+        query = value === null || value === undefined
+            ? query.is(column, null)
+            : query.eq(column, value);
+    }
+    return query;
+};
+
+export function createSupabaseRepository(table: TableName): Repository {
+    const list = async (query: ListQuery = {}): Promise<Row[]> => {
+        let request = applyWhere(supabase.from(table).select(selectClause(query.include)), query.where);
+
+        for (const range of query.ranges || []) {
+            if (range.gt !== undefined) request = request.gt(range.column, range.gt);
+            if (range.gte !== undefined) request = request.gte(range.column, range.gte);
+            if (range.lt !== undefined) request = request.lt(range.column, range.lt);
+            if (range.lte !== undefined) request = request.lte(range.column, range.lte);
+        }
+        if (query.in) request = request.in(query.in.column, query.in.values);
+        if (query.orderBy) request = request.order(query.orderBy, { ascending: query.ascending !== false });
+        if (query.limit) request = request.limit(query.limit);
+
+        const { data, error } = await request;
+        if (error) throw error;
+        return data || [];
+    };
+
+    return {
+        table,
+        list,
+
+        find: async (query) => {
+            const rows = await list({ ...query, limit: 1 });
+            return rows[0] || null;
+        },
+
+        get: async (id: RowId) => {
+            const { data, error } = await supabase.from(table).select('*').eq('id', id).maybeSingle();
+            if (error) throw error;
+            return data;
+        },
+
+        count: async (where) => {
+            const { count, error } = await applyWhere(
+                supabase.from(table).select('*', { count: 'exact', head: true }),
+                where
+            );
+            if (error) throw error;
+            return count || 0;
+        },
+
+        insert: async (row) => {
+            const { data, error } = await supabase.from(table).insert(row).select().single();
+            if (error) throw error;
+            return data;
+        },
+
+        insertMany: async (rows) => {
+            if (rows.length === 0) return [];
+            const { data, error } = await supabase.from(table).insert(rows).select();
+            if (error) throw error;
+            return data || [];
+        },
+
+        update: async (id, changes) => {
+            const { data, error } = await supabase.from(table).update(changes).eq('id', id).select().maybeSingle();
+            if (error) throw error;
+            return data;
+        },
+
+        updateWhere: async (where, changes) => {
+            const { error } = await applyWhere(supabase.from(table).update(changes), where);
+            if (error) throw error;
+        },
+
+        remove: async (id) => {
+            const { error } = await supabase.from(table).delete().eq('id', id);
+            if (error) throw error;
+        },
+
+        removeWhere: async (where) => {
+            const { error } = await applyWhere(supabase.from(table).delete(), where);
+            if (error) throw error;
+        },
+
+        subscribe: (onChange) => {
+            // Unique channel per subscriber: several components may watch the same table
+            const channel = supabase
+                .channel(`${table}-${Math.random().toString(36).slice(2)}`)
+                .on('postgres_changes', { event: '*', schema: 'public', table }, () => onChange())
+                .subscribe();
+
+            return () => {
+                supabase.removeChannel(channel);
+            };
+        }
+    };
+}
@@ -0,0 +1,80 @@
+/**
+ * Repository Types - Storage-agnostic data access
+ *
+ * Every repository speaks the Supabase row shape (snake_case columns), so the
+ * same component code runs against the cloud or against IndexedDB:
+ * - SupabaseRepository: thin wrapper around the PostgREST query builder
+ * - DexieRepository:    same queries evaluated on the local database
+ */
+
+// Rows are loosely typed on purpose: callers already work with untyped Supabase rows
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+export type Row = Record<string, any>;
+
+export type RowId = string | number;
+
+// Supabase table names
+export type TableName =
+    | 'tasks'
+    | 'sessions'
+    | 'sleep_entries'
+    | 'task_templates'
+    | 'repeating_tasks'
+    | 'priorities'
+    | 'categories'
+    | 'category_types'
+    | 'periods'
+    | 'period_tasks'
+    | 'profiles'
+    | 'profile_items'
+    | 'analytics_goals'
+    | 'task_bundles'
+    | 'task_bundle_items';
+
+export interface RangeFilter {
+    column: string;
+    gt?: string | number;
+    gte?: string | number;
+    lt?: string | number;
+    lte?: string | number;
+}
+
+/**
+ * Embedded rows of another table (PostgREST "alias:table(*)")
+ * - many: rows of `table` whose `foreignKey` is this row's id
+ * - one:  the row of `table` whose id is this row's `foreignKey`
+ */
+export interface Include {
+    as: string;
+    table: TableName;
+    foreignKey: string;
+    many: boolean;
+    include?: Include[];
+}
+
+export interface ListQuery {
+    where?: Row; // column = value (null matches missing values)
+    ranges?: RangeFilter[];
+    in?: { column: string; values: unknown[] };
+    include?: Include[];
+    orderBy?: string;
+    ascending?: boolean; // Default true
+    limit?: number;
+}
+
+export interface Repository {
+    readonly table: TableName;
+    list(query?: ListQuery): Promise<Row[]>;
+    // First row matching the query, or null
+    find(query: ListQuery): Promise<Row | null>;
+    get(id: RowId): Promise<Row | null>;
+    count(where?: Row): Promise<number>;
+    insert(row: Row): Promise<Row>;
+    insertMany(rows: Row[]): Promise<Row[]>;
+    update(id: RowId, changes: Row): Promise<Row | null>;
+    updateWhere(where: Row, changes: Row): Promise<void>;
+    remove(id: RowId): Promise<void>;
+    removeWhere(where: Row): Promise<void>;
+    // Called after any change to the table; returns the unsubscribe function
+    subscribe(onChange: () => void): () => void;
+}
@@ -1,5 +1,41 @@
-import { db, Task, Session, SleepEntry } from '@/lib/db';
-import { supabase } from '@/lib/supabase';
+import { type Table, type UpdateSpec } from 'dexie';
+import {
+    db,
+    Task,
+    Session,
+    SleepEntry,
+    type RepeatingTask,
+    type Priority,
+    type Category,
+    type Subject,
+    type AttendanceRecord,
+    type DeletedTask,
+    type SyncBase,
+    type SyncTableName
+} from '@/lib/db';
+import {
+    supabase,
+    type SupabaseTask,
+    type SupabaseSession,
+    type SupabaseSleepEntry,
+    type SupabaseTemplate,
+    type SupabasePriority,
+    type SupabaseCategory,
+    type SupabaseSubject,
+    type SupabaseAttendanceRecord,
+    type SupabaseDeletedTask
+} from '@/lib/supabase';
+import { mergeFields, logConflicts, type MergeField } from './conflictResolver';
+import {
+    OUTBOX_BATCH_SIZE,
+    discard,
+    enqueue,
+    getBackingOff,
+    getNextRetryAt,
+    markFailed,
+    markUploaded
+} from './syncOutbox';
+import { DEFAULT_MIN_COMPLETION_TARGET } from '@/utils/streakEngine';
 
 /**
  * SyncManager - Offline-First Synchronization Service
@@ -10,17 +46,31 @@ import { supabase } from '@/lib/supabase';
  * 
  * Features:
  * - Push: Upload unsynced local data to Supabase
- * - Pull: Fetch missing data from Supabase
- * - Prune: Clean up items deleted remotely (safely)
+ * - Merge: If a pending row was also changed remotely since the last sync,
+ *   merge it field by field (see conflictResolver) instead of overwriting
+ * - Pull: Fetch missing data and apply remote edits to synced rows.
+ *   Incremental: only rows whose server_updated_at is past the table's cursor
+ *   are fetched. A full fetch runs on first sync, when asked, or once a week.
+ * - Prune: Clean up items deleted remotely (safely), only after a full fetch
+ * - Every Dexie table is synced, referenced tables first so foreign keys
+ *   (attendance -> subject) can be mapped to server ids
+ * - Identity: every row carries a client-generated uuid (client_id remotely),
+ *   so renaming a task or moving a session doesn't orphan the server row
  * - Non-blocking: Runs asynchronously without freezing UI
  */
 
+export interface SyncOptions {
+    full?: boolean; // Ignore cursors: fetch every row and prune remote deletions
+}
+
 export interface SyncResult {
     success: boolean;
     pushed: number;
     pulled: number;
     pruned: number;
+    conflicts: number;
     errors: string[];
+    nextRetryAt?: number; // When failed uploads are due again (epoch ms)
 }
 
 /**
@@ -39,20 +89,483 @@ export function setSynced(synced: 0 | 1): 'pending' | 'synced' {
     return synced === 1 ? 'synced' : 'pending';
 }
 
+type SyncedRow =
+    | Task
+    | Session
+    | SleepEntry
+    | RepeatingTask
+    | Priority
+    | Category
+    | Subject
+    | AttendanceRecord
+    | DeletedTask;
+type RemoteId = string | number;
+type RemoteRow = { id?: RemoteId; client_id?: string; updated_at?: string; server_updated_at?: string };
+
+// Incremental fetches can't see hard deletes, so do a full fetch at least this often
+const FULL_SYNC_INTERVAL_MS = 7 * 24 * 60 * 60 * 1000;
+
+// Re-read a little before the cursor: rows committed late may carry an older server timestamp
+const CURSOR_OVERLAP_MS = 60 * 1000;
+
+/**
+ * Local id <-> remote id of rows that have been synced at least once
+ */
+interface IdLinks {
+    toRemote: Map<number, RemoteId>;
+    toLocal: Map<RemoteId, number>;
+}
+
+/**
+ * State shared by every table during one sync run.
+ * Links are loaded for the tables a config depends on, so foreign keys
+ * (e.g. attendance -> subject) can be translated between local and remote ids.
+ */
+interface SyncContext {
+    userId: string;
+    links: Partial<Record<SyncTableName, IdLinks>>;
+}
+
+const remoteIdOf = (ctx: SyncContext, table: SyncTableName, localId: number) =>
+    ctx.links[table]?.toRemote.get(localId);
+
+const localIdOf = (ctx: SyncContext, table: SyncTableName, remoteId: RemoteId) =>
+    ctx.links[table]?.toLocal.get(remoteId);
+
+/**
+ * Describes how a Dexie table maps onto its Supabase table
+ */
+interface SyncTable<T extends SyncedRow, R extends RemoteRow> {
+    local: SyncTableName; // Dexie table name
+    remote: string; // Supabase table name
+    fields: MergeField[]; // Mergeable fields and their merge policy
+    dependsOn?: SyncTableName[]; // Tables whose ids this table references
+    toRemote: (row: T, ctx: SyncContext) => Partial<R>;
+    fromRemote: (remote: R, ctx: SyncContext) => Omit<T, 'id'>;
+    // Natural key: pairs rows that don't share a uuid yet (see adoptRemoteIds)
+    sameKey: (local: T, remote: R, ctx: SyncContext) => boolean;
+    describe: (row: T) => string;
+    // Rows whose references aren't synced yet are skipped until the next run
+    canPush?: (row: T, ctx: SyncContext) => boolean;
+    canPull?: (remote: R, ctx: SyncContext) => boolean;
+}
+
+const priorityTable: SyncTable<Priority, SupabasePriority> = {
+    local: 'priorities',
+    remote: 'priorities',
+    fields: [
+        { field: 'color', policy: 'lww' },
+        { field: 'order', policy: 'lww' }
+    ],
+    toRemote: (priority, { userId }) => ({
+        user_id: userId,
+        name: priority.name,
+        color: priority.color,
+        order: priority.order,
+        updated_at: priority.updatedAt?.toISOString() || new Date().toISOString()
+    }),
+    fromRemote: (remotePriority, { userId }) => ({
+        name: remotePriority.name,
+        color: remotePriority.color,
+        order: remotePriority.order,
+        updatedAt: new Date(remotePriority.updated_at || 0),
+        syncStatus: 'synced',
+        userId: userId
+    }),
+    sameKey: (local, remote) => local.name === remote.name,
+    describe: priority => `Priority "${priority.name}"`
+};
+
+const categoryTable: SyncTable<Category, SupabaseCategory> = {
+    local: 'categories',
+    remote: 'categories',
+    fields: [
+        { field: 'type', policy: 'lww' },
+        { field: 'color', policy: 'lww' },
+        { field: 'order', policy: 'lww' },
+        { field: 'isActive', policy: 'lww' }
+    ],
+    toRemote: (category, { userId }) => ({
+        user_id: userId,
+        name: category.name,
+        type: category.type,
+        color: category.color,
+        order: category.order,
+        is_active: category.isActive !== false,
+        updated_at: category.updatedAt?.toISOString() || new Date().toISOString()
+    }),
+    fromRemote: (remoteCategory, { userId }) => ({
+        name: remoteCategory.name,
+        type: remoteCategory.type as Category['type'],
+        color: remoteCategory.color,
+        order: remoteCategory.order,
+        isActive: remoteCategory.is_active !== false,
+        updatedAt: new Date(remoteCategory.updated_at || 0),
+        syncStatus: 'synced',
+        userId: userId
+    }),
+    sameKey: (local, remote) => local.name === remote.name,
+    describe: category => `Category "${category.name}"`
+};
+
+const templateTable: SyncTable<RepeatingTask, SupabaseTemplate> = {
+    local: 'repeatingTasks',
+    remote: 'task_templates',
+    fields: [
+        { field: 'priority', policy: 'lww' },
+        { field: 'targetTime', policy: 'lww' },
+        { field: 'category', policy: 'lww' },
+        { field: 'description', policy: 'lww' },
+        { field: 'richContent', policy: 'lww' },
+        { field: 'repeatPattern', policy: 'lww' },
+        { field: 'repeatDays', policy: 'lww' },
+        { field: 'addAtTime', policy: 'lww' },
+        { field: 'generatedThrough', policy: 'lww' },
+        { field: 'categoryType', policy: 'lww' },
+        { field: 'color', policy: 'lww' },
+        { field: 'isDefault', policy: 'lww' },
+        { field: 'icon', policy: 'lww' },
+        { field: 'isActive', policy: 'lww' },
+        { field: 'minCompletionTarget', policy: 'lww' },
+        { field: 'achieverStrike', policy: 'lww' },
+        { field: 'fighterStrike', policy: 'lww' },
+        { field: 'lastCompletedDate', policy: 'lww' },
+        { field: 'checklist', policy: 'lww' },
+        { field: 'recurrence', policy: 'lww' },
+        { field: 'streakProtection', policy: 'lww' }
+    ],
+    toRemote: (template, { userId }) => ({
+        user_id: userId,
+        name: template.name,
+        priority: template.priority,
+        target_time: template.targetTime,
+        category: template.category || null,
+        description: template.description || '',
+        rich_content: template.richContent || null,
+        repeat_pattern: template.repeatPattern,
+        repeat_days: template.repeatDays || null,
+        add_at_time: template.addAtTime || null,
+        generated_through: template.generatedThrough || null,
+        category_type: template.categoryType || null,
+        color: template.color || null,
+        is_default: template.isDefault || false,
+        icon: template.icon || null,
+        strike_count: template.strikeCount || 0,
+        is_active: template.isActive,
+        min_completion_target: template.minCompletionTarget,
+        achiever_strike: template.achieverStrike || 0,
+        fighter_strike: template.fighterStrike || 0,
+        last_completed_date: template.lastCompletedDate || null,
+        checklist: template.checklist || [],
+        recurrence: template.recurrence || null,
+        streak_protection: template.streakProtection || null,
+        created_at: template.createdAt?.toISOString() || new Date().toISOString(),
+        updated_at: template.updatedAt?.toISOString() || new Date().toISOString()
+    }),
+    fromRemote: (remoteTemplate, { userId }) => ({
+        name: remoteTemplate.name,
+        priority: remoteTemplate.priority,
+        targetTime: remoteTemplate.target_time,
+        category: remoteTemplate.category || undefined,
+        description: remoteTemplate.description || '',
+        richContent: remoteTemplate.rich_content || undefined,
+        repeatPattern: remoteTemplate.repeat_pattern as RepeatingTask['repeatPattern'],
+        repeatDays: remoteTemplate.repeat_days || undefined,
+        addAtTime: remoteTemplate.add_at_time || undefined,
+        generatedThrough: remoteTemplate.generated_through || undefined,
+        categoryType: (remoteTemplate.category_type || undefined) as RepeatingTask['categoryType'],
+        color: remoteTemplate.color || undefined,
+        isDefault: remoteTemplate.is_default || false,
+        icon: remoteTemplate.icon || undefined,
+        strikeCount: remoteTemplate.strike_count || 0,
+        isActive: remoteTemplate.is_active,
+        createdAt: new Date(remoteTemplate.created_at),
+        updatedAt: new Date(remoteTemplate.updated_at || remoteTemplate.created_at),
+        minCompletionTarget: remoteTemplate.min_completion_target ?? DEFAULT_MIN_COMPLETION_TARGET,
+        achieverStrike: remoteTemplate.achiever_strike || 0,
+        fighterStrike: remoteTemplate.fighter_strike || 0,
+        lastCompletedDate: remoteTemplate.last_completed_date || undefined,
+        checklist: remoteTemplate.checklist || [],
+        recurrence: remoteTemplate.recurrence || null,
+        streakProtection: remoteTemplate.streak_protection || null,
+        syncStatus: 'synced',
+        userId: userId
+    }),
+    sameKey: (local, remote) => local.name === remote.name,
+    describe: template => `Template "${template.name}"`
+};
+
+const taskTable: SyncTable<Task, SupabaseTask> = {
+    local: 'tasks',
+    remote: 'tasks',
+    fields: [
+        { field: 'name', policy: 'lww' },
+        { field: 'status', policy: 'lww' },
+        { field: 'priority', policy: 'lww' },
+        { field: 'targetTime', policy: 'lww' },
+        { field: 'description', policy: 'lww' },
+        { field: 'completedDescription', policy: 'lww' },
+        { field: 'progress', policy: 'max' }, // Never drop logged work
+        { field: 'isDeleted', policy: 'lww' },
+        { field: 'periodTaskId', policy: 'lww' },
+        { field: 'templateId', policy: 'lww' },
+        { field: 'date', policy: 'lww' }, // Moved by the carry-over
+        { field: 'carryOverCount', policy: 'max' },
+        { field: 'carriedTo', policy: 'lww' },
+        { field: 'checklist', policy: 'lww' },
+        { field: 'progressMode', policy: 'lww' },
+        { field: 'plannedStart', policy: 'lww' },
+        { field: 'plannedEnd', policy: 'lww' }
+    ],
+    toRemote: (task, { userId }) => ({
+        user_id: userId,
+        date: task.date,
+        name: task.name,
+        status: task.status,
+        priority: task.priority,
+        target_time: task.targetTime,
+        description: task.description || '',
+        completed_description: task.completedDescription || null,
+        progress: task.progress || 0,
+        is_deleted: task.isDeleted || false,
+        created_at: task.createdAt?.toISOString() || new Date().toISOString(),
+        updated_at: task.updatedAt?.toISOString() || new Date().toISOString(),
+        period_task_id: task.periodTaskId || null,
+        template_id: task.templateId || null,
+        carry_over_count: task.carryOverCount || 0,
+        carried_to: task.carriedTo || null,
+        checklist: task.checklist || [],
+        progress_mode: task.progressMode || 'time',
+        planned_start: task.plannedStart || null,
+        planned_end: task.plannedEnd || null
+    }),
+    fromRemote: (remoteTask, { userId }) => ({
+        date: remoteTask.date,
+        name: remoteTask.name,
+        status: remoteTask.status as Task['status'],
+        priority: remoteTask.priority,
+        targetTime: remoteTask.target_time,
+        description: remoteTask.description || '',
+        completedDescription: remoteTask.completed_description || '',
+        progress: remoteTask.progress || 0,
+        isDeleted: remoteTask.is_deleted || false,
+        createdAt: new Date(remoteTask.created_at),
+        updatedAt: new Date(remoteTask.updated_at),
+        syncStatus: 'synced', // Mark as synced (synced = 1)
+        userId: userId,
+        periodTaskId: remoteTask.period_task_id, // Map from snake_case
+        templateId: remoteTask.template_id || null,
+        carryOverCount: remoteTask.carry_over_count || 0,
+        carriedTo: remoteTask.carried_to || null,
+        checklist: remoteTask.checklist || [],
+        progressMode: (remoteTask.progress_mode || 'time') as Task['progressMode'],
+        plannedStart: remoteTask.planned_start || null,
+        plannedEnd: remoteTask.planned_end || null
+    }),
+    sameKey: (local, remote) => local.date === remote.date && local.name === remote.name,
+    describe: task => `Task "${task.name}"`
+};
+
+const sessionTable: SyncTable<Session, SupabaseSession> = {
+    local: 'sessions',
+    remote: 'sessions',
+    dependsOn: ['tasks'],
+    fields: [
+        { field: 'taskId', policy: 'lww' }, // Drives calculateTaskProgress
+        { field: 'customName', policy: 'lww' },
+        { field: 'category', policy: 'lww' },
+        { field: 'categoryType', policy: 'lww' },
+        { field: 'startTime', policy: 'lww' },
+        { field: 'endTime', policy: 'lww' },
+        { field: 'description', policy: 'lww' },
+        { field: 'richContent', policy: 'lww' },
+        { field: 'isDeleted', policy: 'lww' }
+    ],
+    toRemote: (session, ctx) => ({
+        user_id: ctx.userId,
+        date: session.date,
+        task_id: session.taskId ? remoteIdOf(ctx, 'tasks', session.taskId) as string : null,
+        custom_name: session.customName || '',
+        category: session.category,
+        category_type: session.categoryType,
+        start_time: session.startTime,
+        end_time: session.endTime,
+        description: session.description || '',
+        rich_content: session.richContent || null,
+        is_deleted: session.isDeleted || false,
+        created_at: session.createdAt?.toISOString() || new Date().toISOString(),
+        updated_at: session.updatedAt?.toISOString() || new Date().toISOString()
+    }),
+    fromRemote: (remoteSession, ctx) => ({
+        date: remoteSession.date,
+        taskId: remoteSession.task_id ? localIdOf(ctx, 'tasks', remoteSession.task_id) ?? null : null,
+        customName: remoteSession.custom_name || '',
+        category: remoteSession.category,
+        categoryType: remoteSession.category_type as Session['categoryType'],
+        startTime: remoteSession.start_time,
+        endTime: remoteSession.end_time,
+        description: remoteSession.description || '',
+        richContent: remoteSession.rich_content || undefined,
+        isDeleted: remoteSession.is_deleted || false,
+        createdAt: new Date(remoteSession.created_at),
+        updatedAt: new Date(remoteSession.updated_at || remoteSession.created_at),
+        syncStatus: 'synced',
+        userId: ctx.userId
+    }),
+    sameKey: (local, remote) =>
+        local.date === remote.date &&
+        local.startTime === remote.start_time &&
+        local.endTime === remote.end_time,
+    describe: session => `Session at ${session.startTime}`,
+    // Keep the task link: wait until the linked task exists on both sides
+    canPush: (session, ctx) => !session.taskId || remoteIdOf(ctx, 'tasks', session.taskId) !== undefined,
+    canPull: (remote, ctx) => !remote.task_id || localIdOf(ctx, 'tasks', remote.task_id) !== undefined
+};
+
+const sleepTable: SyncTable<SleepEntry, SupabaseSleepEntry> = {
+    local: 'sleepEntries',
+    remote: 'sleep_entries',
+    fields: [
+        { field: 'wakeUpTime', policy: 'lww' },
+        { field: 'bedTime', policy: 'lww' }
+    ],
+    toRemote: (entry, { userId }) => ({
+        user_id: userId,
+        date: entry.date,
+        wake_up_time: entry.wakeUpTime || null,
+        bed_time: entry.bedTime || null,
+        created_at: new Date().toISOString(),
+        updated_at: entry.updatedAt?.toISOString() || new Date().toISOString()
+    }),
+    fromRemote: (remoteEntry, { userId }) => ({
+        date: remoteEntry.date,
+        wakeUpTime: remoteEntry.wake_up_time || '',
+        bedTime: remoteEntry.bed_time || '',
+        updatedAt: new Date(remoteEntry.updated_at || remoteEntry.created_at),
+        syncStatus: 'synced',
+        userId: userId
+    }),
+    sameKey: (local, remote) => local.date === remote.date,
+    describe: entry => `Sleep entry ${entry.date}`
+};
+
+const subjectTable: SyncTable<Subject, SupabaseSubject> = {
+    local: 'subjects',
+    remote: 'subjects',
+    fields: [
+        { field: 'criteria', policy: 'lww' },
+        { field: 'professor', policy: 'lww' },
+        { field: 'color', policy: 'lww' },
+        { field: 'isDeleted', policy: 'lww' }
+    ],
+    toRemote: (subject, { userId }) => ({
+        user_id: userId,
+        name: subject.name,
+        criteria: subject.criteria,
+        professor: subject.professor || null,
+        color: subject.color,
+        is_deleted: subject.isDeleted || false,
+        updated_at: subject.updatedAt?.toISOString() || new Date().toISOString()
+    }),
+    fromRemote: (remoteSubject, { userId }) => ({
+        name: remoteSubject.name,
+        criteria: remoteSubject.criteria,
+        professor: remoteSubject.professor || undefined,
+        color: remoteSubject.color,
+        isDeleted: remoteSubject.is_deleted || false,
+        updatedAt: new Date(remoteSubject.updated_at || remoteSubject.created_at),
+        syncStatus: 'synced',
+        userId: userId
+    }),
+    sameKey: (local, remote) => local.name === remote.name,
+    describe: subject => `Subject "${subject.name}"`
+};
+
+const attendanceTable: SyncTable<AttendanceRecord, SupabaseAttendanceRecord> = {
+    local: 'attendanceRecords',
+    remote: 'attendance_records',
+    dependsOn: ['subjects'],
+    fields: [
+        { field: 'status', policy: 'lww' },
+        { field: 'isDeleted', policy: 'lww' }
+    ],
+    toRemote: (record, ctx) => ({
+        user_id: ctx.userId,
+        subject_id: remoteIdOf(ctx, 'subjects', record.subjectId) as number,
+        date: record.date,
+        status: record.status,
+        is_deleted: record.isDeleted || false,
+        updated_at: record.updatedAt?.toISOString() || new Date().toISOString()
+    }),
+    fromRemote: (remoteRecord, ctx) => ({
+        subjectId: localIdOf(ctx, 'subjects', remoteRecord.subject_id),
+        date: remoteRecord.date,
+        status: remoteRecord.status as AttendanceRecord['status'],
+        isDeleted: remoteRecord.is_deleted || false,
+        updatedAt: new Date(remoteRecord.updated_at || remoteRecord.created_at),
+        syncStatus: 'synced',
+        userId: ctx.userId
+    }),
+    sameKey: (local, remote, ctx) =>
+        local.date === remote.date &&
+        local.subjectId === localIdOf(ctx, 'subjects', remote.subject_id),
+    describe: record => `Attendance ${record.date}`,
+    canPush: (record, ctx) => remoteIdOf(ctx, 'subjects', record.subjectId) !== undefined,
+    canPull: (remote, ctx) => localIdOf(ctx, 'subjects', remote.subject_id) !== undefined
+};
+
+const deletedTaskTable: SyncTable<DeletedTask, SupabaseDeletedTask> = {
+    local: 'deletedTasks',
+    remote: 'deleted_tasks',
+    fields: [],
+    toRemote: (deleted, { userId }) => ({
+        user_id: userId,
+        date: deleted.date,
+        task_name: deleted.taskName,
+        deleted_at: deleted.deletedAt?.toISOString() || new Date().toISOString(),
+        updated_at: deleted.updatedAt?.toISOString() || new Date().toISOString()
+    }),
+    fromRemote: (remoteDeleted, { userId }) => ({
+        date: remoteDeleted.date,
+        taskName: remoteDeleted.task_name,
+        deletedAt: new Date(remoteDeleted.deleted_at),
+        updatedAt: new Date(remoteDeleted.updated_at || remoteDeleted.deleted_at),
+        syncStatus: 'synced',
+        userId: userId
+    }),
+    sameKey: (local, remote) => local.date === remote.date && local.taskName === remote.task_name,
+    describe: deleted => `Deleted task "${deleted.taskName}"`
+};
+
+// Sync currently running, if any
+let inFlight: Promise<SyncResult> | null = null;
+
 /**
  * Main Sync Function
  * 
  * Synchronizes local Dexie database with Supabase cloud storage
- * Implements push, pull, and prune strategies
+ * Implements push (with merge), pull, and prune strategies
  * 
+ * @param options - Pass { full: true } to re-fetch everything (escape hatch for drift)
  * @returns SyncResult with statistics and any errors
  */
-export async function syncData(): Promise<SyncResult> {
+export function syncData(options: SyncOptions = {}): Promise<SyncResult> {
+    // One sync at a time: callers arriving mid-run share its result
+    if (!inFlight) {
+        inFlight = runSync(options).finally(() => {
+            inFlight = null;
+        });
+    }
+    return inFlight;
+}
+
+async function runSync(options: SyncOptions): Promise<SyncResult> {
     const result: SyncResult = {
         success: false,
         pushed: 0,
         pulled: 0,
         pruned: 0,
+        conflicts: 0,
         errors: []
     };
 
@@ -73,424 +586,414 @@ export async function syncData(): Promise<SyncResult> {
 
         console.log('🔄 Starting sync...');
 
-        // === PHASE 1: PUSH (Upload unsynced data) ===
-        await pushTasks(user.id, result);
-        await pushSessions(user.id, result);
-        await pushSleepEntries(user.id, result);
+        const ctx: SyncContext = { userId: user.id, links: {} };
 
-        // === PHASE 2: PULL (Fetch missing data) ===
-        await pullTasks(user.id, result);
-        await pullSessions(user.id, result);
-        await pullSleepEntries(user.id, result);
+        if (options.full) {
+            await db.syncCursors.clear();
+        }
 
-        // === PHASE 3: PRUNE (Clean deleted remote data) ===
-        await pruneTasks(user.id, result);
-        await pruneSessions(user.id, result);
-        await pruneSleepEntries(user.id, result);
+        // Referenced tables first, so their remote ids exist for the tables linking to them
+        await syncTable(priorityTable, ctx, result);
+        await syncTable(categoryTable, ctx, result);
+        await syncTable(templateTable, ctx, result);
+        await syncTable(taskTable, ctx, result);
+        await syncTable(sessionTable, ctx, result);
+        await syncTable(sleepTable, ctx, result);
+        await syncTable(subjectTable, ctx, result);
+        await syncTable(attendanceTable, ctx, result);
+        await syncTable(deletedTaskTable, ctx, result);
 
         result.success = result.errors.length === 0;
+        result.nextRetryAt = await getNextRetryAt();
 
         console.log('✅ Sync complete!', result);
 
         return result;
 
-    } catch (error: any) {
-        result.errors.push(`Sync failed: ${error.message}`);
+    } catch (error) {
+        result.errors.push(`Sync failed: ${(error as Error).message}`);
         console.error('❌ Sync error:', error);
         return result;
     }
 }
 
 /**
- * PUSH: Upload unsynced tasks (synced === 0)
+ * Run push, pull and prune for a single table against one remote snapshot
  */
-async function pushTasks(userId: string, result: SyncResult): Promise<void> {
-    try {
-        // Find all tasks with synced === 0 (pending upload)
-        const unsyncedTasks = await db.tasks
-            .where('syncStatus')
-            .equals('pending')
-            .toArray();
+async function syncTable<T extends SyncedRow, R extends RemoteRow>(
+    config: SyncTable<T, R>,
+    ctx: SyncContext,
+    result: SyncResult
+): Promise<void> {
+    for (const dependency of config.dependsOn || []) {
+        ctx.links[dependency] = await loadLinks(dependency);
+    }
 
-        for (const task of unsyncedTasks) {
-            try {
-                const supabaseTask = {
-                    user_id: userId,
-                    date: task.date,
-                    name: task.name,
-                    status: task.status,
-                    priority: task.priority,
-                    target_time: task.targetTime,
-                    description: task.description || '',
-                    completed_description: task.completedDescription || null,
-                    progress: task.progress || 0,
-                    is_deleted: task.isDeleted || false,
-                    created_at: task.createdAt?.toISOString() || new Date().toISOString(),
-                    updated_at: task.updatedAt?.toISOString() || new Date().toISOString(),
-                    period_task_id: task.periodTaskId || null
-                };
-
-                const { error } = await supabase
-                    .from('tasks')
-                    .upsert(supabaseTask, {
-                        onConflict: 'user_id,date,name'
-                    });
-
-                if (error) {
-                    result.errors.push(`Task "${task.name}": ${error.message}`);
-                } else {
-                    // Mark as synced (synced = 1)
-                    await db.tasks.update(task.id!, {
-                        syncStatus: 'synced',
-                        userId: userId
-                    });
-                    result.pushed++;
-                }
-            } catch (err: any) {
-                result.errors.push(`Task "${task.name}": ${err.message}`);
-            }
-        }
-    } catch (error: any) {
-        result.errors.push(`Push tasks failed: ${error.message}`);
+    const state = await db.syncCursors.get(config.local);
+    const full = !state?.fullSyncedAt ||
+        Date.now() - state.fullSyncedAt.getTime() > FULL_SYNC_INTERVAL_MS;
+
+    let query = supabase
+        .from(config.remote)
+        .select('*')
+        .eq('user_id', ctx.userId);
+
+    if (!full && state.cursor) {
+        const since = new Date(new Date(state.cursor).getTime() - CURSOR_OVERLAP_MS);
+        query = query.gte('server_updated_at', since.toISOString());
     }
-}
 
-/**
- * PUSH: Upload unsynced sessions (synced === 0)
- */
-async function pushSessions(userId: string, result: SyncResult): Promise<void> {
-    try {
-        const unsyncedSessions = await db.sessions
-            .where('syncStatus')
-            .equals('pending')
-            .toArray();
+    const { data, error } = await query;
 
-        for (const session of unsyncedSessions) {
-            try {
-                const supabaseSession = {
-                    user_id: userId,
-                    date: session.date,
-                    task_id: null,
-                    custom_name: session.customName || '',
-                    category: session.category,
-                    category_type: session.categoryType,
-                    start_time: session.startTime,
-                    end_time: session.endTime,
-                    description: session.description || '',
-                    is_deleted: session.isDeleted || false,
-                    created_at: session.createdAt?.toISOString() || new Date().toISOString()
-                };
-
-                const { error } = await supabase
-                    .from('sessions')
-                    .upsert(supabaseSession, {
-                        onConflict: 'user_id,date,start_time,end_time'
-                    });
-
-                if (error) {
-                    result.errors.push(`Session at ${session.startTime}: ${error.message}`);
-                } else {
-                    await db.sessions.update(session.id!, {
-                        syncStatus: 'synced',
-                        userId: userId
-                    });
-                    result.pushed++;
-                }
-            } catch (err: any) {
-                result.errors.push(`Session at ${session.startTime}: ${err.message}`);
-            }
-        }
-    } catch (error: any) {
-        result.errors.push(`Push sessions failed: ${error.message}`);
+    if (error) {
+        result.errors.push(`Fetch ${config.remote} failed: ${error.message}`);
+        return;
+    }
+
+    const remoteRows = (data || []) as R[];
+
+    // Taken before PUSH: rows saved after the fetch may hide changes committed meanwhile
+    const cursor = remoteRows.reduce<string | undefined>(
+        (max, r) => (r.server_updated_at && (!max || r.server_updated_at > max) ? r.server_updated_at : max),
+        state?.cursor
+    );
+
+    // === PHASE 0: ADOPT (Pair rows created before uuids / offline on two devices) ===
+    await adoptRemoteIds(config, ctx, remoteRows);
+
+    // === PHASE 1: PUSH (Upload unsynced data, merging remote edits) ===
+    await pushTable(config, ctx, remoteRows, result);
+
+    // Failed uploads are tracked by the outbox; only pull errors hold the cursor back
+    const errorCount = result.errors.length;
+
+    // === PHASE 2: PULL (Fetch missing data and remote edits) ===
+    const deferred = await pullTable(config, ctx, remoteRows, result);
+
+    // === PHASE 3: PRUNE (Clean deleted remote data) ===
+    // Needs the complete remote table, otherwise unchanged rows would look deleted
+    if (full) {
+        await pruneTable(config, ctx, remoteRows, result);
+    }
+
+    // Only move the cursor forward if the whole table synced cleanly
+    // (deferred rows must be fetched again once their links resolve)
+    if (result.errors.length === errorCount && deferred === 0) {
+        await db.syncCursors.put({
+            table: config.local,
+            cursor,
+            fullSyncedAt: full ? new Date() : state?.fullSyncedAt
+        });
     }
 }
 
+const localTable = <T extends SyncedRow>(config: SyncTable<T, RemoteRow>) =>
+    db.table<T, number>(config.local) as Table<T, number>;
+
+// Dexie can't check a partial update against a generic row type
+const updateRow = <T extends SyncedRow>(table: Table<T, number>, id: number, changes: object) =>
+    table.update(id, changes as UpdateSpec<T>);
+
+const remoteUpdatedAt = (remote: RemoteRow) => remote.updated_at || '';
+
+// The uuid generated on the device that created the row is its identity everywhere
+const isSameRow = (local: SyncedRow, remote: RemoteRow) => !!local.uuid && local.uuid === remote.client_id;
+
+// Row has local changes waiting in the outbox
+const isQueued = (row: SyncedRow) => row.syncStatus === 'pending' || row.syncStatus === 'error';
+
 /**
- * PUSH: Upload unsynced sleep entries (synced === 0)
+ * Read the local <-> remote id pairs of a table from its sync snapshots
  */
-async function pushSleepEntries(userId: string, result: SyncResult): Promise<void> {
-    try {
-        const unsyncedEntries = await db.sleepEntries
-            .where('syncStatus')
-            .equals('pending')
-            .toArray();
-
-        for (const entry of unsyncedEntries) {
-            try {
-                const supabaseSleep = {
-                    user_id: userId,
-                    date: entry.date,
-                    wake_up_time: entry.wakeUpTime || null,
-                    bed_time: entry.bedTime || null,
-                    created_at: new Date().toISOString()
-                };
-
-                const { error } = await supabase
-                    .from('sleep_entries')
-                    .upsert(supabaseSleep, {
-                        onConflict: 'user_id,date'
-                    });
-
-                if (error) {
-                    result.errors.push(`Sleep entry ${entry.date}: ${error.message}`);
-                } else {
-                    await db.sleepEntries.update(entry.id!, {
-                        syncStatus: 'synced',
-                        userId: userId
-                    });
-                    result.pushed++;
-                }
-            } catch (err: any) {
-                result.errors.push(`Sleep entry ${entry.date}: ${err.message}`);
-            }
-        }
-    } catch (error: any) {
-        result.errors.push(`Push sleep entries failed: ${error.message}`);
+async function loadLinks(table: SyncTableName): Promise<IdLinks> {
+    const rows = await db.table<SyncedRow, number>(table).toArray();
+    const links: IdLinks = { toRemote: new Map(), toLocal: new Map() };
+
+    for (const row of rows) {
+        const remoteId = row.syncBase?.remoteId;
+        if (remoteId === undefined) continue;
+        links.toRemote.set(row.id!, remoteId);
+        links.toLocal.set(remoteId, row.id!);
     }
+
+    return links;
 }
 
 /**
- * PULL: Fetch tasks missing locally from Supabase
+ * Build the merge base for a remote row: its id and updated_at plus the
+ * mergeable field values in local shape
  */
-async function pullTasks(userId: string, result: SyncResult): Promise<void> {
-    try {
-        const { data: remoteTasks, error } = await supabase
-            .from('tasks')
-            .select('*')
-            .eq('user_id', userId);
-
-        if (error) {
-            result.errors.push(`Pull tasks failed: ${error.message}`);
-            return;
-        }
-
-        if (!remoteTasks) return;
-
-        const localTasks = await db.tasks.toArray();
-
-        for (const remoteTask of remoteTasks) {
-            // Check if exists locally by matching date+name (since IDs differ)
-            const exists = localTasks.find(
-                l => l.date === remoteTask.date && l.name === remoteTask.name
-            );
-
-            if (!exists) {
-                // Add missing task to local database
-                await db.tasks.add({
-                    date: remoteTask.date,
-                    name: remoteTask.name,
-                    status: remoteTask.status,
-                    priority: remoteTask.priority,
-                    targetTime: remoteTask.target_time,
-                    description: remoteTask.description || '',
-                    completedDescription: remoteTask.completed_description || '',
-                    progress: remoteTask.progress || 0,
-                    isDeleted: remoteTask.is_deleted || false,
-                    createdAt: new Date(remoteTask.created_at),
-                    updatedAt: new Date(remoteTask.updated_at),
-                    syncStatus: 'synced', // Mark as synced (synced = 1)
-                    userId: userId,
-                    periodTaskId: remoteTask.period_task_id // Map from snake_case
-                });
-                result.pulled++;
-            }
-        }
-    } catch (error: any) {
-        result.errors.push(`Pull tasks failed: ${error.message}`);
-    }
+function snapshot<T extends SyncedRow, R extends RemoteRow>(
+    config: SyncTable<T, R>,
+    remote: R,
+    ctx: SyncContext
+): SyncBase {
+    const values = config.fromRemote(remote, ctx) as Record<string, unknown>;
+    return {
+        remoteId: remote.id,
+        updatedAt: remoteUpdatedAt(remote),
+        values: Object.fromEntries(config.fields.map(({ field }) => [field, values[field]]))
+    };
 }
 
 /**
- * PULL: Fetch sessions missing locally from Supabase
+ * Merge a pending local row with a remote row that changed since the last sync.
+ * Writes the merged values locally, logs field conflicts and returns the row to push.
  */
-async function pullSessions(userId: string, result: SyncResult): Promise<void> {
-    try {
-        const { data: remoteSessions, error } = await supabase
-            .from('sessions')
-            .select('*')
-            .eq('user_id', userId);
-
-        if (error) {
-            result.errors.push(`Pull sessions failed: ${error.message}`);
-            return;
-        }
+async function mergeWithRemote<T extends SyncedRow, R extends RemoteRow>(
+    config: SyncTable<T, R>,
+    local: T,
+    remote: R,
+    ctx: SyncContext,
+    result: SyncResult
+): Promise<T> {
+    const localUpdatedAt = local.updatedAt ? new Date(local.updatedAt).toISOString() : '';
+    const remoteUpdated = remoteUpdatedAt(remote);
+
+    const { merged, conflicts } = mergeFields(
+        config.fields,
+        local as unknown as Record<string, unknown>,
+        config.fromRemote(remote, ctx) as Record<string, unknown>,
+        local.syncBase?.values,
+        localUpdatedAt,
+        remoteUpdated
+    );
+
+    // The merged row is a new version on both sides
+    const changes = { ...merged, updatedAt: new Date() };
+    await updateRow(localTable(config), local.id!, changes);
+    await logConflicts(config.local, local.id!, config.describe(local), conflicts, localUpdatedAt, remoteUpdated);
+    result.conflicts += conflicts.length;
+
+    return { ...local, ...changes } as T;
+}
 
-        if (!remoteSessions) return;
-
-        const localSessions = await db.sessions.toArray();
-
-        for (const remoteSession of remoteSessions) {
-            const exists = localSessions.find(
-                l => l.date === remoteSession.date &&
-                    l.startTime === remoteSession.start_time &&
-                    l.endTime === remoteSession.end_time
-            );
-
-            if (!exists) {
-                await db.sessions.add({
-                    date: remoteSession.date,
-                    taskId: null,
-                    customName: remoteSession.custom_name || '',
-                    category: remoteSession.category,
-                    categoryType: remoteSession.category_type,
-                    startTime: remoteSession.start_time,
-                    endTime: remoteSession.end_time,
-                    description: remoteSession.description || '',
-                    isDeleted: remoteSession.is_deleted || false,
-                    createdAt: new Date(remoteSession.created_at),
-                    syncStatus: 'synced',
-                    userId: userId
-                });
-                result.pulled++;
-            }
-        }
-    } catch (error: any) {
-        result.errors.push(`Pull sessions failed: ${error.message}`);
+/**
+ * ADOPT: Rows the server hasn't confirmed yet (no syncBase) take the uuid of a
+ * remote row with the same natural key that no local row claims. This pairs
+ * rows from before uuids existed, and rows created offline on two devices
+ * (e.g. the same day's sleep entry), instead of uploading duplicates.
+ */
+async function adoptRemoteIds<T extends SyncedRow, R extends RemoteRow>(
+    config: SyncTable<T, R>,
+    ctx: SyncContext,
+    remoteRows: R[]
+): Promise<void> {
+    const table = localTable(config);
+    const localRows = await table.toArray();
+    const claimed = new Set(localRows.map(row => row.uuid));
+
+    for (const row of localRows) {
+        if (row.syncBase) continue;
+
+        const remote = remoteRows.find(r =>
+            r.client_id && !claimed.has(r.client_id) && config.sameKey(row, r, ctx)
+        );
+        if (!remote) continue;
+
+        claimed.add(remote.client_id);
+        await updateRow(table, row.id!, { uuid: remote.client_id });
     }
 }
 
 /**
- * PULL: Fetch sleep entries missing locally from Supabase
+ * PUSH: Upload unsynced rows (synced === 0) through the outbox
+ * 
+ * If the remote copy changed since this device last synced it, the rows are
+ * merged per field first so neither device's edits are silently overwritten.
+ * Rows are upserted in batches; when a batch fails its rows are retried one by
+ * one so a single bad row can't hold back the rest, and rows that still fail
+ * are marked 'error' and backed off (see syncOutbox).
  */
-async function pullSleepEntries(userId: string, result: SyncResult): Promise<void> {
+async function pushTable<T extends SyncedRow, R extends RemoteRow>(
+    config: SyncTable<T, R>,
+    ctx: SyncContext,
+    remoteRows: R[],
+    result: SyncResult
+): Promise<void> {
+    const table = localTable(config);
+
     try {
-        const { data: remoteEntries, error } = await supabase
-            .from('sleep_entries')
-            .select('*')
-            .eq('user_id', userId);
-
-        if (error) {
-            result.errors.push(`Pull sleep entries failed: ${error.message}`);
-            return;
-        }
+        // Pending uploads plus earlier failures
+        const queuedRows = await table
+            .where('syncStatus')
+            .anyOf('pending', 'error')
+            .toArray();
 
-        if (!remoteEntries) return;
+        await enqueue(config.local, queuedRows.map(row => row.id!));
+        const backingOff = await getBackingOff(config.local);
 
-        const localEntries = await db.sleepEntries.toArray();
+        const rowsToPush: T[] = [];
+        for (const row of queuedRows) {
+            if (backingOff.has(row.id!)) continue;
+            if (config.canPush && !config.canPush(row, ctx)) continue;
 
-        for (const remoteEntry of remoteEntries) {
-            const exists = localEntries.find(l => l.date === remoteEntry.date);
+            const remote = remoteRows.find(r => isSameRow(row, r));
+            const remoteChanged = remote && remoteUpdatedAt(remote) !== row.syncBase?.updatedAt;
 
-            if (!exists) {
-                await db.sleepEntries.add({
-                    date: remoteEntry.date,
-                    wakeUpTime: remoteEntry.wake_up_time || '',
-                    bedTime: remoteEntry.bed_time || '',
-                    syncStatus: 'synced',
-                    userId: userId
-                });
-                result.pulled++;
+            rowsToPush.push(remoteChanged
+                ? await mergeWithRemote(config, row, remote, ctx, result)
+                : row);
+        }
+
+        for (let i = 0; i < rowsToPush.length; i += OUTBOX_BATCH_SIZE) {
+            const batch = rowsToPush.slice(i, i + OUTBOX_BATCH_SIZE);
+            const error = await upsertBatch(config, batch, ctx, remoteRows, result);
+            if (!error) continue;
+
+            if (batch.length === 1) {
+                await markFailed(config.local, [batch[0].id!], error);
+                result.errors.push(`${config.describe(batch[0])}: ${error}`);
+                continue;
+            }
+
+            // Isolate the row(s) that made the batch fail
+            for (const row of batch) {
+                const rowError = await upsertBatch(config, [row], ctx, remoteRows, result);
+                if (rowError) {
+                    await markFailed(config.local, [row.id!], rowError);
+                    result.errors.push(`${config.describe(row)}: ${rowError}`);
+                }
             }
         }
-    } catch (error: any) {
-        result.errors.push(`Pull sleep entries failed: ${error.message}`);
+    } catch (error) {
+        result.errors.push(`Push ${config.remote} failed: ${(error as Error).message}`);
     }
 }
 
 /**
- * PRUNE: Remove tasks that were deleted remotely
- * 
- * SAFETY: Only deletes items with synced === 1 (already uploaded)
- * Never touches synced === 0 items (pending upload)
+ * Upsert rows in one request and mark them synced.
+ * Returns the error message if the request failed.
  */
-async function pruneTasks(userId: string, result: SyncResult): Promise<void> {
+async function upsertBatch<T extends SyncedRow, R extends RemoteRow>(
+    config: SyncTable<T, R>,
+    rows: T[],
+    ctx: SyncContext,
+    remoteRows: R[],
+    result: SyncResult
+): Promise<string | undefined> {
+    const table = localTable(config);
+
     try {
-        const { data: remoteTasks, error } = await supabase
-            .from('tasks')
-            .select('*')
-            .eq('user_id', userId);
-
-        if (error) {
-            result.errors.push(`Prune tasks failed: ${error.message}`);
-            return;
+        const { data, error } = await supabase
+            .from(config.remote)
+            .upsert(rows.map(row => ({ ...config.toRemote(row, ctx), client_id: row.uuid })), {
+                onConflict: 'client_id'
+            })
+            .select();
+
+        if (error) return error.message;
+
+        const savedRows = (data || []) as R[];
+        const uploaded: number[] = [];
+
+        for (const row of rows) {
+            const saved = savedRows.find(r => isSameRow(row, r));
+            if (!saved) continue;
+
+            // Mark as synced (synced = 1) and remember what the server has
+            await updateRow(table, row.id!, {
+                syncStatus: 'synced',
+                userId: ctx.userId,
+                syncBase: snapshot(config, saved, ctx)
+            });
+            uploaded.push(row.id!);
+
+            // Keep the remote snapshot current so PULL/PRUNE see this row
+            const index = remoteRows.findIndex(r => isSameRow(row, r));
+            if (index >= 0) remoteRows[index] = saved;
+            else remoteRows.push(saved);
         }
 
-        const localTasks = await db.tasks.toArray();
-
-        for (const localTask of localTasks) {
-            // SAFETY: Only prune synced items (synced === 1)
-            if (localTask.syncStatus === 'synced') {
-                const existsRemotely = remoteTasks?.find(
-                    r => r.date === localTask.date && r.name === localTask.name
-                );
-
-                if (!existsRemotely) {
-                    // Item was deleted remotely, safe to delete locally
-                    await db.tasks.delete(localTask.id!);
-                    result.pruned++;
-                }
-            }
-            // SAFETY: Skip items with synced === 0 (pending upload)
-        }
-    } catch (error: any) {
-        result.errors.push(`Prune tasks failed: ${error.message}`);
+        await markUploaded(config.local, uploaded);
+        result.pushed += uploaded.length;
+        return undefined;
+    } catch (err) {
+        return (err as Error).message;
     }
 }
 
 /**
- * PRUNE: Remove sessions that were deleted remotely
+ * PULL: Add rows missing locally and apply remote edits to synced rows
+ *
+ * @returns Number of rows deferred because their links can't be resolved yet
  */
-async function pruneSessions(userId: string, result: SyncResult): Promise<void> {
+async function pullTable<T extends SyncedRow, R extends RemoteRow>(
+    config: SyncTable<T, R>,
+    ctx: SyncContext,
+    remoteRows: R[],
+    result: SyncResult
+): Promise<number> {
+    const table = localTable(config);
+    let deferred = 0;
+
     try {
-        const { data: remoteSessions, error } = await supabase
-            .from('sessions')
-            .select('*')
-            .eq('user_id', userId);
-
-        if (error) {
-            result.errors.push(`Prune sessions failed: ${error.message}`);
-            return;
-        }
+        const localRows = await table.toArray();
 
-        const localSessions = await db.sessions.toArray();
+        for (const remote of remoteRows) {
+            if (config.canPull && !config.canPull(remote, ctx)) {
+                deferred++;
+                continue;
+            }
 
-        for (const localSession of localSessions) {
-            if (localSession.syncStatus === 'synced') {
-                const existsRemotely = remoteSessions?.find(
-                    r => r.date === localSession.date &&
-                        r.start_time === localSession.startTime &&
-                        r.end_time === localSession.endTime
-                );
+            const local = localRows.find(l => isSameRow(l, remote));
+            const base = snapshot(config, remote, ctx);
 
-                if (!existsRemotely) {
-                    await db.sessions.delete(localSession.id!);
-                    result.pruned++;
-                }
+            if (!local) {
+                // Add missing row to local database
+                await table.add({ ...config.fromRemote(remote, ctx), uuid: remote.client_id, syncBase: base } as T);
+                result.pulled++;
+            } else if (!isQueued(local) && base.updatedAt !== local.syncBase?.updatedAt) {
+                // Edited on another device and nothing pending here: take the remote values
+                await updateRow(table, local.id!, {
+                    ...base.values,
+                    updatedAt: config.fromRemote(remote, ctx).updatedAt,
+                    syncStatus: 'synced',
+                    syncBase: base
+                });
+                result.pulled++;
             }
+            // Queued rows were merged during PUSH (or are merged when their retry is due)
         }
-    } catch (error: any) {
-        result.errors.push(`Prune sessions failed: ${error.message}`);
+    } catch (error) {
+        result.errors.push(`Pull ${config.remote} failed: ${(error as Error).message}`);
     }
+
+    return deferred;
 }
 
 /**
- * PRUNE: Remove sleep entries that were deleted remotely
+ * PRUNE: Remove rows that were deleted remotely
+ * 
+ * SAFETY: Only deletes items with synced === 1 (already uploaded)
+ * Never touches synced === 0 items (pending upload)
  */
-async function pruneSleepEntries(userId: string, result: SyncResult): Promise<void> {
-    try {
-        const { data: remoteEntries, error } = await supabase
-            .from('sleep_entries')
-            .select('*')
-            .eq('user_id', userId);
-
-        if (error) {
-            result.errors.push(`Prune sleep entries failed: ${error.message}`);
-            return;
-        }
+async function pruneTable<T extends SyncedRow, R extends RemoteRow>(
+    config: SyncTable<T, R>,
+    ctx: SyncContext,
+    remoteRows: R[],
+    result: SyncResult
+): Promise<void> {
+    const table = localTable(config);
 
-        const localEntries = await db.sleepEntries.toArray();
+    try {
+        const localRows = await table.toArray();
 
-        for (const localEntry of localEntries) {
-            if (localEntry.syncStatus === 'synced') {
-                const existsRemotely = remoteEntries?.find(r => r.date === localEntry.date);
+        for (const localRow of localRows) {
+            // SAFETY: Only prune synced items (synced === 1)
+            if (localRow.syncStatus === 'synced') {
+                const existsRemotely = remoteRows.some(r => isSameRow(localRow, r));
 
                 if (!existsRemotely) {
-                    await db.sleepEntries.delete(localEntry.id!);
+                    // Item was deleted remotely, safe to delete locally
+                    await table.delete(localRow.id!);
+                    await discard(config.local, [localRow.id!]);
                     result.pruned++;
                 }
             }
+            // SAFETY: Skip items with synced === 0 (pending upload)
         }
-    } catch (error: any) {
-        result.errors.push(`Prune sleep entries failed: ${error.message}`);
+    } catch (error) {
+        result.errors.push(`Prune ${config.remote} failed: ${(error as Error).message}`);
     }
 }
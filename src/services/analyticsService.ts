@@ -1,4 +1,6 @@
-import { supabase, SupabaseSession } from '@/lib/supabase';
+import { SupabaseSession } from '@/lib/supabase';
+import { repositories } from '@/repositories';
+import { formatDateString } from '@/utils/dateUtils';
 import { type Category } from '@/lib/db';
 import { type CategoryType } from '@/components/SettingsDialog';
 
@@ -30,35 +32,22 @@ export interface AnalyticsCategoryType {
  * Returns raw data to be processed by the frontend.
  */
 export const fetchAnalyticsData = async (userId: string, dateFrom: Date, dateTo: Date, dayStartHour: number = 0) => {
-    // Format dates to YYYY-MM-DD for comparison, or ISO if using timestamp columns
-    // Assuming 'date' column in sessions is 'YYYY-MM-DD' based on previous context
-    const fromStr = dateFrom.toISOString().split('T')[0];
-    const toStr = dateTo.toISOString().split('T')[0];
+    const fromStr = formatDateString(dateFrom);
+    const toStr = formatDateString(dateTo);
 
     // Fetch Sessions and Sleep Entries in parallel
-    const [sessionsResult, sleepResult] = await Promise.all([
-        supabase
-            .from('sessions')
-            .select('*')
-            .eq('user_id', userId)
-            .gte('date', fromStr)
-            .lte('date', toStr),
-        supabase
-            .from('sleep_entries')
-            .select('*')
-            .eq('user_id', userId)
-            .gte('date', fromStr)
-            .lte('date', toStr)
+    const inRange = { where: { user_id: userId }, ranges: [{ column: 'date', gte: fromStr, lte: toStr }] };
+    const [sessionsData, sleepData] = await Promise.all([
+        repositories.sessions.list(inRange),
+        repositories.sleep_entries.list(inRange)
     ]);
 
-    if (sessionsResult.error) throw sessionsResult.error;
-    if (sleepResult.error) throw sleepResult.error;
-
     // Do NOT filter out "Sleep" sessions. 
     // Manual sleep sessions (from Execution table) should take precedence or coexist.
     // The subtractBusy logic later will ensure we don't double count if they overlap with calculated sleep.
-    let allData = (sessionsResult.data as AnalyticsSession[]);
-    const rawSleepData = sleepResult.data || [];
+    // Sessions still being timed have no end yet
+    let allData = (sessionsData as AnalyticsSession[]).filter(s => s.end_time);
+    const rawSleepData = sleepData || [];
 
     // Deduplicate Sleep Entries: Ensure only one entry per date (take the latest)
     const uniqueSleepEntries = new Map<string, any>();
@@ -236,13 +225,10 @@ export const fetchAnalyticsData = async (userId: string, dateFrom: Date, dateTo:
  * Fetches ALL categories (active and inactive) for the Analytics filter.
  */
 export const fetchAllCategories = async (userId: string) => {
-    const { data, error } = await supabase
-        .from('categories')
-        .select('*')
-        .eq('user_id', userId)
-        .order('order', { ascending: true });
-
-    if (error) throw error;
+    const data = await repositories.categories.list({
+        where: { user_id: userId },
+        orderBy: 'order'
+    });
     return data as AnalyticsCategory[];
 };
 
@@ -250,13 +236,10 @@ export const fetchAllCategories = async (userId: string) => {
  * Fetches ALL category types (active and inactive) for the Analytics filter.
  */
 export const fetchAllCategoryTypes = async (userId: string) => {
-    const { data, error } = await supabase
-        .from('category_types')
-        .select('*')
-        .eq('user_id', userId)
-        .order('order', { ascending: true });
-
-    if (error) throw error;
+    const data = await repositories.category_types.list({
+        where: { user_id: userId },
+        orderBy: 'order'
+    });
     return data as AnalyticsCategoryType[];
 };
 
@@ -274,44 +257,21 @@ export interface AnalyticsGoal {
  * Goals CRUD
  */
 export const fetchGoals = async (userId: string) => {
-    const { data, error } = await supabase
-        .from('analytics_goals')
-        .select('*')
-        .eq('user_id', userId)
-        .order('created_at', { ascending: true });
-
-    if (error) throw error;
+    const data = await repositories.analytics_goals.list({
+        where: { user_id: userId },
+        orderBy: 'created_at'
+    });
     return data as AnalyticsGoal[];
 };
 
 export const createGoal = async (goal: Omit<AnalyticsGoal, 'id' | 'created_at'>) => {
-    const { data, error } = await supabase
-        .from('analytics_goals')
-        .insert(goal)
-        .select()
-        .single();
-
-    if (error) throw error;
-    return data as AnalyticsGoal;
+    return await repositories.analytics_goals.insert(goal) as AnalyticsGoal;
 };
 
 export const updateGoal = async (id: number, updates: Partial<AnalyticsGoal>) => {
-    const { data, error } = await supabase
-        .from('analytics_goals')
-        .update(updates)
-        .eq('id', id)
-        .select()
-        .single();
-
-    if (error) throw error;
-    return data as AnalyticsGoal;
+    return await repositories.analytics_goals.update(id, updates) as AnalyticsGoal;
 };
 
 export const deleteGoal = async (id: number) => {
-    const { error } = await supabase
-        .from('analytics_goals')
-        .delete()
-        .eq('id', id);
-
-    if (error) throw error;
+    await repositories.analytics_goals.remove(id);
 };
@@ -1,6 +1,6 @@
 
 import { db, Subject, AttendanceRecord } from '@/lib/db';
-import { getTodayIST } from '@/utils/dateUtils';
+import { getToday } from '@/utils/dateUtils';
 
 export interface SubjectStats {
     subject: Subject;
@@ -26,6 +26,7 @@ export const addSubject = async (
         criteria,
         color,
         professor,
+        updatedAt: new Date(),
         syncStatus: 'pending',
         userId: 'local'
     });
@@ -37,17 +38,20 @@ export const updateSubject = async (
 ) => {
     return await db.subjects.update(id, {
         ...updates,
+        updatedAt: new Date(),
         syncStatus: 'pending'
     });
 };
 
+// Soft delete so the deletion reaches other devices on the next sync
 export const deleteSubject = async (id: number) => {
-    await db.attendanceRecords.where({ subjectId: id }).delete();
-    return await db.subjects.delete(id);
+    const changes = { isDeleted: true, updatedAt: new Date(), syncStatus: 'pending' as const };
+    await db.attendanceRecords.where({ subjectId: id }).modify(changes);
+    return await db.subjects.update(id, changes);
 };
 
 export const getAllSubjects = async () => {
-    return await db.subjects.toArray();
+    return await db.subjects.filter(s => !s.isDeleted).toArray();
 };
 
 /**
@@ -56,7 +60,7 @@ export const getAllSubjects = async () => {
 export const markAttendance = async (
     subjectId: number,
     status: 'present' | 'absent' | 'cancelled',
-    date: string = getTodayIST()
+    date: string = getToday()
 ) => {
     // Check if record exists for this date
     const existing = await db.attendanceRecords
@@ -64,9 +68,11 @@ export const markAttendance = async (
         .first();
 
     if (existing) {
-        if (existing.status === status) return; // No change
+        if (existing.status === status && !existing.isDeleted) return; // No change
         await db.attendanceRecords.update(existing.id!, {
             status,
+            isDeleted: false,
+            updatedAt: new Date(),
             syncStatus: 'pending'
         });
     } else {
@@ -74,6 +80,7 @@ export const markAttendance = async (
             subjectId,
             date,
             status,
+            updatedAt: new Date(),
             syncStatus: 'pending',
             userId: 'local'
         });
@@ -81,7 +88,7 @@ export const markAttendance = async (
 };
 
 export const getAttendanceForDate = async (date: string) => {
-    return await db.attendanceRecords.where({ date }).toArray();
+    return await db.attendanceRecords.where({ date }).filter(r => !r.isDeleted).toArray();
 };
 
 /**
@@ -90,6 +97,7 @@ export const getAttendanceForDate = async (date: string) => {
 export const getSubjectStats = async (subject: Subject): Promise<SubjectStats> => {
     const records = await db.attendanceRecords
         .where({ subjectId: subject.id! })
+        .filter(r => !r.isDeleted)
         .toArray();
 
     const validRecords = records.filter(r => r.status !== 'cancelled');
@@ -0,0 +1,387 @@
+import { db, SYNC_TABLES, type SyncTableName } from '@/lib/db';
+import { getCurrentUserId, isLocalMode, repositories, type Row, type TableName } from '@/repositories';
+import { syncData } from '@/services/SyncManager';
+import { getToday } from '@/utils/dateUtils';
+
+/**
+ * Backup Service - Versioned JSON archive of the whole workspace
+ *
+ * An archive holds every Dexie table plus the entities that only live behind
+ * the repository layer (periods, profiles, bundles, goals...). Restoring can:
+ * - replace: wipe the workspace and load the archive as is (local-only mode:
+ *            in cloud mode the next sync would pull the wiped rows back)
+ * - merge:   keep current data; add what is missing and take archived rows
+ *            that were edited more recently (matched by uuid / natural key)
+ *
+ * Archives from older app versions are upgraded step by step (MIGRATIONS)
+ * before they are previewed or restored.
+ */
+
+export const BACKUP_FORMAT = 'daily-tracker-backup';
+export const BACKUP_VERSION = 1;
+
+export type RestoreMode = 'merge' | 'replace';
+
+type RemoteBackupTable =
+    | 'category_types'
+    | 'periods'
+    | 'period_tasks'
+    | 'profiles'
+    | 'profile_items'
+    | 'task_bundles'
+    | 'task_bundle_items'
+    | 'analytics_goals';
+
+export interface BackupArchive {
+    format: typeof BACKUP_FORMAT;
+    version: number;
+    exportedAt: string;
+    local: Partial<Record<SyncTableName, Row[]>>;
+    remote: Partial<Record<RemoteBackupTable, Row[]>>;
+    templateNames: Record<string, string>; // Template id (as referenced by profiles/bundles) -> name
+}
+
+export interface BackupTableCount {
+    table: string;
+    label: string;
+    count: number;
+}
+
+export interface BackupPreview {
+    archive: BackupArchive;
+    exportedAt: Date;
+    counts: BackupTableCount[];
+    total: number;
+}
+
+export interface RestoreResult {
+    added: number;
+    updated: number;
+    skipped: number;
+}
+
+// Archive version -> upgrade to version + 1. Add a step whenever BACKUP_VERSION is bumped.
+const MIGRATIONS: Record<number, (archive: BackupArchive) => BackupArchive> = {};
+
+const LOCAL_LABELS: Record<SyncTableName, string> = {
+    tasks: 'Tasks',
+    sessions: 'Sessions',
+    sleepEntries: 'Sleep entries',
+    repeatingTasks: 'Templates',
+    priorities: 'Priorities',
+    categories: 'Categories',
+    subjects: 'Subjects',
+    attendanceRecords: 'Attendance records',
+    deletedTasks: 'Deleted tasks'
+};
+
+interface RemoteTableSpec {
+    table: RemoteBackupTable;
+    label: string;
+    key: (row: Row) => string; // Natural key used when merging
+    parent?: { column: string; table: RemoteBackupTable };
+    templateColumn?: string;
+}
+
+// Parents before children
+const REMOTE_TABLES: RemoteTableSpec[] = [
+    { table: 'category_types', label: 'Main categories', key: row => row.name },
+    { table: 'periods', label: 'Periods', key: row => `${row.title}|${row.start_date}` },
+    {
+        table: 'period_tasks',
+        label: 'Period goals',
+        key: row => `${row.period_id}|${row.title}`,
+        parent: { column: 'period_id', table: 'periods' }
+    },
+    { table: 'profiles', label: 'Profiles', key: row => row.name },
+    {
+        table: 'profile_items',
+        label: 'Profile items',
+        key: row => `${row.profile_id}|${row.template_id}`,
+        parent: { column: 'profile_id', table: 'profiles' },
+        templateColumn: 'template_id'
+    },
+    { table: 'task_bundles', label: 'Bundles', key: row => row.name },
+    {
+        table: 'task_bundle_items',
+        label: 'Bundle items',
+        key: row => `${row.bundle_id}|${row.template_id}`,
+        parent: { column: 'bundle_id', table: 'task_bundles' },
+        templateColumn: 'template_id'
+    },
+    { table: 'analytics_goals', label: 'Analytics goals', key: row => row.label }
+];
+
+// Foreign keys between Dexie tables (child table -> column -> parent table)
+const LOCAL_LINKS: Partial<Record<SyncTableName, { column: string; table: SyncTableName }>> = {
+    sessions: { column: 'taskId', table: 'tasks' },
+    attendanceRecords: { column: 'subjectId', table: 'subjects' }
+};
+
+// Natural keys of the Dexie tables, as SyncManager pairs rows on them: a backup
+// from another device has other uuids for the same templates, tasks, days...
+const LOCAL_KEYS: Record<SyncTableName, (row: Row) => string> = {
+    tasks: row => `${row.date}|${row.name}`,
+    sessions: row => `${row.date}|${row.startTime}|${row.endTime}`,
+    sleepEntries: row => row.date,
+    repeatingTasks: row => row.name,
+    priorities: row => row.name,
+    categories: row => row.name,
+    subjects: row => row.name,
+    attendanceRecords: row => `${row.subjectId}|${row.date}`, // subjectId already re-pointed
+    deletedTasks: row => `${row.date}|${row.taskName}`
+};
+
+const DATE_FIELDS = ['createdAt', 'updatedAt', 'deletedAt'];
+
+const timeOf = (value: unknown) => (value ? new Date(value as string | Date).getTime() : 0);
+
+/**
+ * EXPORT
+ */
+export async function createBackup(): Promise<BackupArchive> {
+    const local: BackupArchive['local'] = {};
+    for (const table of SYNC_TABLES) {
+        const rows = await db.table(table).toArray();
+        // Sync bookkeeping belongs to this device, not to the data
+        local[table] = rows.map(({ syncBase, syncStatus, ...row }) => row);
+    }
+
+    const remote: BackupArchive['remote'] = {};
+    for (const { table } of REMOTE_TABLES) {
+        const rows = await repositories[table].list();
+        remote[table] = rows.map(({ user_id, ...row }) => row);
+    }
+
+    const templates = await repositories.task_templates.list();
+
+    return {
+        format: BACKUP_FORMAT,
+        version: BACKUP_VERSION,
+        exportedAt: new Date().toISOString(),
+        local,
+        remote,
+        templateNames: Object.fromEntries(templates.map(template => [String(template.id), template.name]))
+    };
+}
+
+export const backupFilename = () => `daily-tracker-backup-${getToday()}.json`;
+
+/**
+ * IMPORT: parse, upgrade and summarize an archive before restoring it
+ */
+export function parseBackup(text: string): BackupPreview {
+    let archive: BackupArchive;
+    try {
+        archive = JSON.parse(text);
+    } catch {
+        throw new Error('This file is not valid JSON.');
+    }
+
+    if (!archive || archive.format !== BACKUP_FORMAT || typeof archive.version !== 'number') {
+        throw new Error('This file is not a Daily Tracker backup.');
+    }
+    if (archive.version > BACKUP_VERSION) {
+        throw new Error('This backup was made by a newer version of the app. Update the app to restore it.');
+    }
+
+    while (archive.version < BACKUP_VERSION) {
+        const upgrade = MIGRATIONS[archive.version];
+        if (!upgrade) throw new Error(`Backups of version ${archive.version} can't be restored anymore.`);
+        archive = { ...upgrade(archive), version: archive.version + 1 };
+    }
+
+    archive.local = archive.local || {};
+    archive.remote = archive.remote || {};
+    archive.templateNames = archive.templateNames || {};
+
+    const counts: BackupTableCount[] = [
+        ...SYNC_TABLES.map(table => ({ table, label: LOCAL_LABELS[table], count: archive.local[table]?.length || 0 })),
+        ...REMOTE_TABLES.map(({ table, label }) => ({ table, label, count: archive.remote[table]?.length || 0 }))
+    ];
+
+    return {
+        archive,
+        exportedAt: new Date(archive.exportedAt),
+        counts,
+        total: counts.reduce((sum, entry) => sum + entry.count, 0)
+    };
+}
+
+// JSON turned Dates into strings; archived rows are new local changes to upload
+function reviveLocalRow(row: Row, userId: string): Row {
+    const revived: Row = { ...row, syncStatus: 'pending', userId };
+    for (const field of DATE_FIELDS) {
+        if (typeof revived[field] === 'string') revived[field] = new Date(revived[field]);
+    }
+    if (!revived.updatedAt) revived.updatedAt = revived.createdAt || new Date();
+    return revived;
+}
+
+async function restoreLocal(
+    archive: BackupArchive,
+    mode: RestoreMode,
+    userId: string,
+    result: RestoreResult
+): Promise<Map<number, number | undefined>> {
+    // Archived id -> local id, per table (to re-point links between tables)
+    const idMaps = new Map<SyncTableName, Map<number, number>>();
+    // Local task id -> archived period goal id, re-pointed once period goals are restored
+    const periodLinks = new Map<number, number | undefined>();
+
+    const tables = [...SYNC_TABLES.map(name => db.table(name)), db.syncOutbox, db.syncConflicts];
+
+    await db.transaction('rw', tables, async () => {
+        if (mode === 'replace') {
+            for (const table of tables) await table.clear();
+        }
+
+        for (const name of SYNC_TABLES) {
+            const table = db.table(name);
+            const ids = new Map<number, number>();
+            idMaps.set(name, ids);
+            const link = LOCAL_LINKS[name];
+            const key = LOCAL_KEYS[name];
+            const existingByKey = mode === 'merge'
+                ? new Map((await table.toArray()).map(row => [key(row), row]))
+                : new Map<string, Row>();
+
+            for (const archived of archive.local[name] || []) {
+                const { id: archivedId, ...row } = reviveLocalRow(archived, userId);
+                if (link && row[link.column] != null) {
+                    row[link.column] = idMaps.get(link.table)?.get(row[link.column]) ?? null;
+                }
+
+                let localId: number;
+                if (mode === 'replace') {
+                    localId = await table.add({ ...row, id: archivedId }) as number;
+                    result.added++;
+                } else {
+                    const existing = (row.uuid ? await table.where('uuid').equals(row.uuid).first() : undefined)
+                        ?? existingByKey.get(key(row));
+                    if (!existing) {
+                        localId = await table.add(row) as number;
+                        result.added++;
+                    } else if (timeOf(row.updatedAt) > timeOf(existing.updatedAt)) {
+                        localId = existing.id;
+                        // The local row keeps its sync identity
+                        await table.put({ ...row, id: localId, uuid: existing.uuid, syncBase: existing.syncBase });
+                        result.updated++;
+                    } else {
+                        localId = existing.id;
+                        result.skipped++;
+                        ids.set(archivedId, localId);
+                        continue;
+                    }
+                }
+
+                ids.set(archivedId, localId);
+                if (name === 'tasks' && row.periodTaskId) periodLinks.set(localId, row.periodTaskId);
+            }
+        }
+    });
+
+    return periodLinks;
+}
+
+async function restoreRemote(
+    archive: BackupArchive,
+    mode: RestoreMode,
+    userId: string,
+    result: RestoreResult
+): Promise<Map<RemoteBackupTable, Map<string, unknown>>> {
+    // Templates are referenced by id, which differs between workspaces: match them by name
+    const templates = await repositories.task_templates.list();
+    const templateIdByName = new Map(templates.map(template => [template.name, template.id]));
+    const resolveTemplate = (archivedId: unknown) =>
+        templateIdByName.get(archive.templateNames[String(archivedId)]);
+
+    if (mode === 'replace') {
+        for (const { table } of [...REMOTE_TABLES].reverse()) {
+            const rows = await repositories[table].list();
+            for (const row of rows) await repositories[table].remove(row.id);
+        }
+    }
+
+    const idMaps = new Map<RemoteBackupTable, Map<string, unknown>>();
+
+    for (const spec of REMOTE_TABLES) {
+        const repository = repositories[spec.table as TableName];
+        const ids = new Map<string, unknown>();
+        idMaps.set(spec.table, ids);
+
+        const existing = mode === 'merge' ? await repository.list() : [];
+        const existingByKey = new Map(existing.map(row => [spec.key(row), row]));
+
+        for (const archived of archive.remote[spec.table] || []) {
+            const { id: archivedId, ...row } = archived;
+            // Child tables are owned through their parent and have no user_id column
+            if (!spec.parent) row.user_id = userId;
+
+            if (spec.parent) {
+                row[spec.parent.column] = idMaps.get(spec.parent.table)?.get(String(row[spec.parent.column]));
+                if (row[spec.parent.column] === undefined) {
+                    result.skipped++; // Parent wasn't restored
+                    continue;
+                }
+            }
+            if (spec.templateColumn) {
+                row[spec.templateColumn] = resolveTemplate(row[spec.templateColumn]);
+                if (row[spec.templateColumn] === undefined) {
+                    result.skipped++; // Template no longer exists
+                    continue;
+                }
+            }
+
+            const match = existingByKey.get(spec.key(row));
+            if (match) {
+                ids.set(String(archivedId), match.id);
+                result.skipped++;
+                continue;
+            }
+
+            const inserted = await repository.insert(row);
+            ids.set(String(archivedId), inserted.id);
+            result.added++;
+        }
+    }
+
+    return idMaps;
+}
+
+/**
+ * Restore an archive into the current workspace
+ */
+export async function restoreBackup(archive: BackupArchive, mode: RestoreMode): Promise<RestoreResult> {
+    if (mode === 'replace' && !isLocalMode) {
+        throw new Error('Replacing the workspace is only available in local-only mode.');
+    }
+
+    const userId = (await getCurrentUserId()) || 'local';
+    const result: RestoreResult = { added: 0, updated: 0, skipped: 0 };
+
+    const periodLinks = await restoreLocal(archive, mode, userId, result);
+
+    // Profiles and bundles point at cloud template ids: upload the restored templates first
+    if (!isLocalMode) {
+        const sync = await syncData();
+        if (!sync.success) console.warn('Uploading restored templates failed', sync.errors);
+    }
+
+    const remoteIds = await restoreRemote(archive, mode, userId, result);
+
+    // Tasks planned from a period goal: point them at the restored goal
+    const periodTaskIds = remoteIds.get('period_tasks');
+    for (const [taskId, archivedGoalId] of periodLinks) {
+        await db.tasks.update(taskId, {
+            periodTaskId: (periodTaskIds?.get(String(archivedGoalId)) as number | undefined) ?? undefined
+        });
+    }
+
+    if (mode === 'replace') {
+        // The next sync must fetch everything again
+        await db.syncCursors.clear();
+    }
+
+    return result;
+}
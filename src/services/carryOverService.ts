@@ -0,0 +1,215 @@
+import { calculateDuration, type ChecklistItem } from '@/lib/db';
+import { repositories, type Row } from '@/repositories';
+import { formatDateString, getLogicalDateString, parseDateString } from '@/utils/dateUtils';
+import { copyChecklist } from '@/utils/checklist';
+import { getRecurrenceRule, isScheduledOn } from '@/utils/recurrence';
+import { isDuplicate, templateTaskClientId } from './templateGenerationService';
+import { fetchTemplates, toTaskTemplateId, type TaskTemplate } from './templateService';
+import { recalculateTaskProgress } from './taskProgressService';
+
+/**
+ * Carry Over Service - Roll a day's unfinished tasks into the next day
+ *
+ * A task is unfinished when the sessions logged on it cover less than its
+ * target; what carries over is the remaining target time. Tasks are either
+ * moved (same row, new date) or copied (the original stays on its day and is
+ * marked with carried_to so it is not carried twice).
+ *
+ * Template tasks are always copied: their streak chain needs one task per
+ * day, so the original keeps its day's progress and the copy becomes the
+ * next day's instance of the template: it gets the client_id generation
+ * would give that day's task (templateTaskClientId), and when the template
+ * is due that day, the template's full target plus the remaining time. If
+ * that day already has one, the remaining time is added to its target
+ * instead. Run it after generation (useTemplateGenerator does), so a due
+ * day's task exists first.
+ *
+ * Only the unchecked checklist items go along with a copy; a moved task keeps
+ * its checklist as it is.
+ */
+
+export type CarryOverMode = 'move' | 'copy';
+
+export interface CarryOverSettings {
+    mode: CarryOverMode;
+    automatic: boolean; // Carry yesterday's tasks over when a new day starts
+}
+
+export interface CarryOverResult {
+    carried: Row[]; // Tasks now holding the remaining time on the next day
+    skipped: number; // Unfinished tasks with nothing left to carry
+}
+
+const SETTINGS_KEY = 'carry_over_settings';
+const LAST_RUN_KEY = 'carry_over_last_run'; // Last day carried into
+const LOCK_NAME = 'carry-over';
+const MAX_CATCH_UP_DAYS = 14;
+
+export const DEFAULT_CARRY_OVER_SETTINGS: CarryOverSettings = {
+    mode: 'copy',
+    automatic: false
+};
+
+export function loadCarryOverSettings(): CarryOverSettings {
+    try {
+        return { ...DEFAULT_CARRY_OVER_SETTINGS, ...JSON.parse(localStorage.getItem(SETTINGS_KEY) || '{}') };
+    } catch {
+        return DEFAULT_CARRY_OVER_SETTINGS;
+    }
+}
+
+export function saveCarryOverSettings(settings: CarryOverSettings): void {
+    localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+}
+
+const shiftDate = (date: string, days: number) => {
+    const day = parseDateString(date);
+    day.setDate(day.getDate() + days);
+    return formatDateString(day);
+};
+
+export const nextDate = (date: string) => shiftDate(date, 1);
+
+export async function carryOverTasks(userId: string, fromDate: string, toDate: string, mode: CarryOverMode): Promise<CarryOverResult> {
+    const [tasks, sessions, targetTasks] = await Promise.all([
+        repositories.tasks.list({ where: { date: fromDate, user_id: userId } }),
+        repositories.sessions.list({ where: { date: fromDate, user_id: userId } }),
+        repositories.tasks.list({ where: { date: toDate, user_id: userId } })
+    ]);
+
+    const result: CarryOverResult = { carried: [], skipped: 0 };
+    const now = new Date().toISOString();
+
+    let templates: TaskTemplate[] | undefined;
+    const templateOf = async (templateId: string) => {
+        templates = templates || await fetchTemplates(userId);
+        return templates.find(template => template.id && toTaskTemplateId(template.id) === templateId);
+    };
+
+    const addToExisting = async (task: Row, existing: Row, remaining: number, openItems: ChecklistItem[], carryOverCount: number) => {
+        // Items the next day's task doesn't have yet
+        const titles = new Set((existing.checklist || []).map((item: ChecklistItem) => item.title));
+        await repositories.tasks.update(existing.id, {
+            target_time: (existing.target_time || 0) + remaining,
+            checklist: [...(existing.checklist || []), ...openItems.filter(item => !titles.has(item.title))],
+            carry_over_count: Math.max(existing.carry_over_count || 0, carryOverCount),
+            updated_at: now
+        });
+        await repositories.tasks.update(task.id, { carried_to: toDate, updated_at: now });
+        const updated = await recalculateTaskProgress(userId, existing.id);
+        if (updated) result.carried.push(updated);
+    };
+
+    for (const task of tasks) {
+        if (task.is_deleted || task.carried_to || !(task.target_time > 0) || (task.progress || 0) >= 100) continue;
+
+        const logged = sessions
+            .filter(s => s.task_id === task.id)
+            .reduce((sum, s) => sum + calculateDuration(s.start_time, s.end_time), 0);
+        const remaining = task.target_time - logged;
+        if (remaining <= 0) {
+            result.skipped++;
+            continue;
+        }
+        const carryOverCount = (task.carry_over_count || 0) + 1;
+        const openItems = copyChecklist((task.checklist || []).filter((item: ChecklistItem) => !item.done));
+
+        // The next day's task of the same template (or of the same name, for plain tasks)
+        const existing = targetTasks.find(t => task.template_id
+            ? t.template_id === task.template_id
+            : !t.template_id && t.name === task.name);
+
+        if (existing) {
+            await addToExisting(task, existing, remaining, openItems, carryOverCount);
+        } else if (mode === 'move' && !task.template_id) {
+            result.carried.push(await repositories.tasks.update(task.id, {
+                date: toDate,
+                target_time: remaining,
+                progress: 0,
+                status: 'lagging',
+                achiever_strike: 0,
+                fighter_strike: 0,
+                carry_over_count: carryOverCount,
+                updated_at: now
+            }));
+        } else {
+            // The template's own target too, when its task for that day is still to be generated
+            const template = task.template_id ? await templateOf(task.template_id) : undefined;
+            const due = template?.isActive && isScheduledOn(getRecurrenceRule(template), toDate);
+            const targetTime = remaining + (due ? template.targetTime || 60 : 0);
+            const ownItems = due ? copyChecklist(template.checklist) : [];
+            const ownTitles = new Set(ownItems.map(item => item.title));
+            const checklist = [...ownItems, ...openItems.filter(item => !ownTitles.has(item.title))];
+
+            let copy: Row;
+            try {
+                copy = await repositories.tasks.insert({
+                    ...(task.template_id && { client_id: templateTaskClientId(userId, task.template_id, toDate) }),
+                    user_id: userId,
+                    date: toDate,
+                    name: task.name,
+                    status: 'lagging',
+                    priority: task.priority ?? null,
+                    target_time: targetTime,
+                    description: task.description || '',
+                    completed_description: '',
+                    progress: 0,
+                    checklist,
+                    progress_mode: task.progress_mode || 'time',
+                    template_id: task.template_id ?? null,
+                    period_task_id: task.period_task_id ?? null,
+                    achiever_strike: 0,
+                    fighter_strike: 0,
+                    carry_over_count: carryOverCount,
+                    created_at: now,
+                    updated_at: now
+                });
+            } catch (error) {
+                if (!task.template_id || !isDuplicate(error)) throw error;
+                // Another tab or device made that day's task first
+                const [created] = await repositories.tasks.list({
+                    where: { date: toDate, user_id: userId, template_id: task.template_id }
+                });
+                if (!created) throw error;
+                await addToExisting(task, created, remaining, openItems, carryOverCount);
+                continue;
+            }
+            await repositories.tasks.update(task.id, { carried_to: toDate, updated_at: now });
+            result.carried.push(copy);
+        }
+    }
+
+    return result;
+}
+
+/**
+ * Once per logical day: carry the unfinished tasks of each day since the
+ * last run into the next one, up to today (yesterday's only, the first
+ * time). Returns null when it already ran today, or while another tab of
+ * this browser is carrying over.
+ */
+export async function runAutomaticCarryOver(userId: string, dayStartHour: number, mode: CarryOverMode): Promise<CarryOverResult | null> {
+    const run = async () => {
+        const today = getLogicalDateString(new Date(), dayStartHour);
+        const lastRun = localStorage.getItem(LAST_RUN_KEY);
+        if (lastRun && lastRun >= today) return null;
+
+        const floor = shiftDate(today, -MAX_CATCH_UP_DAYS);
+        const from = [lastRun || shiftDate(today, -1), floor].sort()[1];
+
+        const result: CarryOverResult = { carried: [], skipped: 0 };
+        for (let date = from; date < today; date = nextDate(date)) {
+            const day = await carryOverTasks(userId, date, nextDate(date), mode);
+            result.carried.push(...day.carried);
+            result.skipped += day.skipped;
+            // Marked per day, once done: a failed day is tried again on the next run
+            localStorage.setItem(LAST_RUN_KEY, nextDate(date));
+        }
+        // Tasks carried into a day before today went on to the next
+        return { ...result, carried: result.carried.filter(task => task.date === today) };
+    };
+
+    // One tab at a time, like template generation
+    if (!navigator.locks) return run();
+    return navigator.locks.request(LOCK_NAME, { ifAvailable: true }, lock => (lock ? run() : null));
+}
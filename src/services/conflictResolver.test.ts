@@ -0,0 +1,130 @@
+import 'fake-indexeddb/auto';
+import { beforeEach, describe, expect, it } from 'vitest';
+import { db, type Task } from '@/lib/db';
+import { isSameValue, logConflicts, mergeFields, resolveConflict, type MergeField } from './conflictResolver';
+
+const FIELDS: MergeField[] = [
+    { field: 'name', policy: 'lww' },
+    { field: 'progress', policy: 'max' },
+    { field: 'description', policy: 'prefer-remote' }
+];
+
+const base = { name: 'Read', progress: 40, description: 'Chapter 1' };
+const EARLIER = '2026-10-19T08:00:00.000Z';
+const LATER = '2026-10-19T09:00:00.000Z';
+
+describe('mergeFields', () => {
+    it('takes a field changed on this device only', () => {
+        const { merged, conflicts } = mergeFields(FIELDS, { ...base, name: 'Read more' }, base, base, EARLIER, LATER);
+        expect(merged).toEqual({ ...base, name: 'Read more' });
+        expect(conflicts).toEqual([]);
+    });
+
+    it('takes a field changed on the other device only', () => {
+        const { merged, conflicts } = mergeFields(FIELDS, base, { ...base, description: 'Chapter 2' }, base, LATER, EARLIER);
+        expect(merged).toEqual({ ...base, description: 'Chapter 2' });
+        expect(conflicts).toEqual([]);
+    });
+
+    it('keeps the changes of both sides to different fields', () => {
+        const { merged, conflicts } = mergeFields(
+            FIELDS, { ...base, name: 'Read more' }, { ...base, progress: 80 }, base, EARLIER, LATER
+        );
+        expect(merged).toEqual({ ...base, name: 'Read more', progress: 80 });
+        expect(conflicts).toEqual([]);
+    });
+
+    it('applies the field policy and reports a field changed on both sides', () => {
+        const local = { name: 'Read more', progress: 90, description: 'Chapter 3' };
+        const remote = { name: 'Read less', progress: 60, description: 'Chapter 2' };
+        const { merged, conflicts } = mergeFields(FIELDS, local, remote, base, LATER, EARLIER);
+
+        expect(merged).toEqual({ name: 'Read more', progress: 90, description: 'Chapter 2' });
+        expect(conflicts).toEqual([
+            { field: 'name', localValue: 'Read more', remoteValue: 'Read less', appliedValue: 'Read more' },
+            { field: 'progress', localValue: 90, remoteValue: 60, appliedValue: 90 },
+            { field: 'description', localValue: 'Chapter 3', remoteValue: 'Chapter 2', appliedValue: 'Chapter 2' }
+        ]);
+    });
+
+    it('lets the newer edit win a last-write-wins field', () => {
+        const { merged } = mergeFields(FIELDS, { ...base, name: 'Mine' }, { ...base, name: 'Theirs' }, base, EARLIER, LATER);
+        expect(merged.name).toBe('Theirs');
+    });
+
+    it('treats every field that differs as a conflict without a base', () => {
+        const { conflicts } = mergeFields(FIELDS, { ...base, name: 'Mine' }, base, undefined, LATER, EARLIER);
+        expect(conflicts.map(c => c.field)).toEqual(['name']);
+    });
+
+    it('sees no change between empty values', () => {
+        const local = { name: 'Read', progress: 40, description: '' };
+        for (const empty of [undefined, null, false]) {
+            const { merged, conflicts } = mergeFields(FIELDS, local, { ...local, description: empty }, base, EARLIER, LATER);
+            expect(conflicts).toEqual([]);
+            expect(merged.description).toBe('');
+        }
+    });
+});
+
+describe('isSameValue', () => {
+    it('treats undefined, null, empty strings and false as empty', () => {
+        const empties = [undefined, null, '', false];
+        for (const a of empties) for (const b of empties) expect(isSameValue(a, b)).toBe(true);
+        expect(isSameValue(0, null)).toBe(false);
+        expect(isSameValue('0', '')).toBe(false);
+    });
+
+    it('compares arrays and objects by content', () => {
+        expect(isSameValue([{ title: 'a', done: false }], [{ title: 'a', done: false }])).toBe(true);
+        expect(isSameValue([1, 2], [2, 1])).toBe(false);
+    });
+});
+
+describe('resolveConflict', () => {
+    const addTask = () => db.tasks.add({
+        date: '2026-10-19',
+        name: 'Read more',
+        status: 'lagging',
+        priority: null,
+        targetTime: 60,
+        description: '',
+        completedDescription: '',
+        progress: 0,
+        createdAt: new Date(EARLIER),
+        updatedAt: new Date(EARLIER),
+        syncStatus: 'synced'
+    } as Task);
+
+    const conflictOn = async (localId: number) => {
+        await logConflicts('tasks', localId, 'Task "Read"', [
+            { field: 'name', localValue: 'Read more', remoteValue: 'Read less', appliedValue: 'Read more' }
+        ], LATER, EARLIER);
+        return (await db.syncConflicts.toArray())[0];
+    };
+
+    beforeEach(async () => {
+        await db.tasks.clear();
+        await db.syncConflicts.clear();
+    });
+
+    it('writes the other value back and queues it for upload', async () => {
+        const id = await addTask();
+        const conflict = await conflictOn(id);
+
+        await resolveConflict(conflict.id!, 'remote');
+
+        expect(await db.tasks.get(id)).toMatchObject({ name: 'Read less', syncStatus: 'pending' });
+        expect(await db.syncConflicts.get(conflict.id!)).toMatchObject({ status: 'resolved' });
+    });
+
+    it('leaves the row alone when the applied value is kept', async () => {
+        const id = await addTask();
+        const conflict = await conflictOn(id);
+
+        await resolveConflict(conflict.id!, 'local');
+
+        expect(await db.tasks.get(id)).toMatchObject({ name: 'Read more', syncStatus: 'synced' });
+        expect(await db.syncConflicts.get(conflict.id!)).toMatchObject({ status: 'resolved' });
+    });
+});
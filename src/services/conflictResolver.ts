@@ -0,0 +1,191 @@
+import { db, type SyncConflict } from '@/lib/db';
+
+/**
+ * Conflict Resolver - Per-field merge for two-way sync
+ *
+ * When the same row was edited on this device AND on another device since the
+ * last sync, every mergeable field is compared against the last synced
+ * snapshot (three-way merge):
+ * - Changed on one side only -> that side wins, nothing is lost
+ * - Changed on both sides    -> the field's merge policy picks a value and the
+ *                               collision is written to the conflict log so the
+ *                               user can review it and keep the other value
+ */
+
+/**
+ * - lww: last write wins (compares row updatedAt)
+ * - max: keep the larger number (e.g. progress, never drop logged work)
+ * - prefer-local / prefer-remote: one side always wins
+ */
+export type MergePolicy = 'lww' | 'max' | 'prefer-local' | 'prefer-remote';
+
+export interface MergeField {
+    field: string; // Local (camelCase) field name
+    policy: MergePolicy;
+}
+
+export interface FieldConflict {
+    field: string;
+    localValue: unknown;
+    remoteValue: unknown;
+    appliedValue: unknown;
+}
+
+export interface MergeResult {
+    merged: Record<string, unknown>;
+    conflicts: FieldConflict[];
+}
+
+// Treat undefined, null, '' and false as the same "empty" value; compare arrays and objects by content
+const normalize = (value: unknown) => {
+    if (value === undefined || value === '' || value === false) return null;
+    if (value !== null && typeof value === 'object') return JSON.stringify(value);
+    return value;
+};
+
+export const isSameValue = (a: unknown, b: unknown): boolean => normalize(a) === normalize(b);
+
+function applyPolicy(policy: MergePolicy, localValue: unknown, remoteValue: unknown, localIsNewer: boolean): unknown {
+    switch (policy) {
+        case 'max':
+            return Math.max(Number(localValue) || 0, Number(remoteValue) || 0);
+        case 'prefer-local':
+            return localValue;
+        case 'prefer-remote':
+            return remoteValue;
+        case 'lww':
+        default:
+            return localIsNewer ? localValue : remoteValue;
+    }
+}
+
+/**
+ * Pure three-way merge of a local and remote version of the same row.
+ *
+ * @param fields - Mergeable fields and their policies
+ * @param local - Local row (camelCase)
+ * @param remote - Remote row converted to local shape
+ * @param base - Values as of the last successful sync (undefined if never synced)
+ * @param localUpdatedAt - ISO timestamp of the local edit
+ * @param remoteUpdatedAt - ISO timestamp of the remote edit
+ */
+export function mergeFields(
+    fields: MergeField[],
+    local: Record<string, unknown>,
+    remote: Record<string, unknown>,
+    base: Record<string, unknown> | undefined,
+    localUpdatedAt: string,
+    remoteUpdatedAt: string
+): MergeResult {
+    const merged: Record<string, unknown> = {};
+    const conflicts: FieldConflict[] = [];
+    const localIsNewer = new Date(localUpdatedAt).getTime() >= new Date(remoteUpdatedAt).getTime();
+
+    for (const { field, policy } of fields) {
+        const localValue = local[field];
+        const remoteValue = remote[field];
+
+        if (isSameValue(localValue, remoteValue)) {
+            merged[field] = localValue;
+            continue;
+        }
+
+        // Without a base (row never synced from here) we can't tell who changed what
+        if (base && field in base) {
+            if (isSameValue(localValue, base[field])) {
+                merged[field] = remoteValue; // Only the other device changed it
+                continue;
+            }
+            if (isSameValue(remoteValue, base[field])) {
+                merged[field] = localValue; // Only this device changed it
+                continue;
+            }
+        }
+
+        const appliedValue = applyPolicy(policy, localValue, remoteValue, localIsNewer);
+        merged[field] = appliedValue;
+        conflicts.push({ field, localValue, remoteValue, appliedValue });
+    }
+
+    return { merged, conflicts };
+}
+
+/**
+ * Record field conflicts in the local conflict log.
+ * An open conflict for the same row + field is replaced by the newer one.
+ */
+export async function logConflicts(
+    table: SyncConflict['table'],
+    localId: number,
+    label: string,
+    conflicts: FieldConflict[],
+    localUpdatedAt: string,
+    remoteUpdatedAt: string
+): Promise<void> {
+    if (conflicts.length === 0) return;
+
+    await db.transaction('rw', db.syncConflicts, async () => {
+        for (const conflict of conflicts) {
+            const existing = await db.syncConflicts
+                .where({ table, localId })
+                .filter(c => c.field === conflict.field && c.status === 'open')
+                .first();
+
+            const entry: SyncConflict = {
+                table,
+                localId,
+                label,
+                field: conflict.field,
+                localValue: conflict.localValue,
+                remoteValue: conflict.remoteValue,
+                appliedValue: conflict.appliedValue,
+                localUpdatedAt,
+                remoteUpdatedAt,
+                status: 'open',
+                detectedAt: new Date()
+            };
+
+            if (existing) {
+                await db.syncConflicts.update(existing.id!, entry);
+            } else {
+                await db.syncConflicts.add(entry);
+            }
+        }
+    });
+}
+
+/**
+ * All conflicts still waiting for a user decision (newest first)
+ */
+export async function getOpenConflicts(): Promise<SyncConflict[]> {
+    const open = await db.syncConflicts.where('status').equals('open').toArray();
+    return open.sort((a, b) => b.detectedAt.getTime() - a.detectedAt.getTime());
+}
+
+/**
+ * Resolve a conflict by keeping this device's or the other device's value.
+ * If the chosen value differs from what the merge applied, the row is marked
+ * pending so the next sync pushes the user's choice.
+ */
+export async function resolveConflict(conflictId: number, choice: 'local' | 'remote'): Promise<void> {
+    const conflict = await db.syncConflicts.get(conflictId);
+    if (!conflict || conflict.status === 'resolved') return;
+
+    const value = choice === 'local' ? conflict.localValue : conflict.remoteValue;
+    const table = db.table(conflict.table);
+
+    await db.transaction('rw', table, db.syncConflicts, async () => {
+        if (!isSameValue(value, conflict.appliedValue)) {
+            await table.update(conflict.localId, {
+                [conflict.field]: value,
+                updatedAt: new Date(),
+                syncStatus: 'pending'
+            });
+        }
+
+        await db.syncConflicts.update(conflictId, {
+            status: 'resolved',
+            resolvedAt: new Date()
+        });
+    });
+}
@@ -0,0 +1,76 @@
+import { calculateDuration } from '@/lib/db';
+import { repositories, type Row } from '@/repositories';
+import { toCsv } from '@/utils/csv';
+import { formatDateString } from '@/utils/dateUtils';
+
+/**
+ * CSV Export Service - Sessions and tasks of a date range, one row per record,
+ * for analysis in a spreadsheet. Only recorded data is exported: the sleep
+ * sessions that Analytics derives from sleep entries are not.
+ */
+
+export type CsvExportKind = 'sessions' | 'tasks';
+
+const SESSION_HEADERS = [
+    'Date', 'Start', 'End', 'Duration (min)', 'Category', 'Category Type', 'Linked Task', 'Name', 'Description'
+];
+
+const TASK_HEADERS = [
+    'Date', 'Task', 'Priority', 'Status', 'Target (min)', 'Progress (%)', 'Achiever Streak', 'Fighter Streak',
+    'Description', 'Completion Notes'
+];
+
+const listInRange = (table: 'sessions' | 'tasks', userId: string, from: Date, to: Date) =>
+    repositories[table].list({
+        where: { user_id: userId },
+        ranges: [{ column: 'date', gte: formatDateString(from), lte: formatDateString(to) }],
+        orderBy: 'date'
+    }).then(rows => rows.filter(row => !row.is_deleted));
+
+export async function exportSessionsCsv(userId: string, from: Date, to: Date): Promise<string> {
+    const sessions = await listInRange('sessions', userId, from, to);
+    sessions.sort((a, b) => a.date.localeCompare(b.date) || (a.start_time || '').localeCompare(b.start_time || ''));
+
+    // Linked tasks are usually on the same day, but a session may be logged against an older task
+    const taskIds = [...new Set(sessions.map(session => session.task_id).filter(Boolean))];
+    const tasks = taskIds.length > 0
+        ? await repositories.tasks.list({ in: { column: 'id', values: taskIds } })
+        : [];
+    const taskNames = new Map(tasks.map(task => [String(task.id), task.name as string]));
+
+    const rows = sessions.map((session: Row) => [
+        session.date,
+        session.start_time,
+        session.end_time,
+        session.start_time && session.end_time ? calculateDuration(session.start_time, session.end_time) : null,
+        session.category,
+        session.category_type,
+        session.task_id ? taskNames.get(String(session.task_id)) : null,
+        session.custom_name,
+        session.description
+    ]);
+
+    return toCsv(SESSION_HEADERS, rows);
+}
+
+export async function exportTasksCsv(userId: string, from: Date, to: Date): Promise<string> {
+    const tasks = await listInRange('tasks', userId, from, to);
+
+    const rows = tasks.map((task: Row) => [
+        task.date,
+        task.name,
+        task.priority,
+        task.status,
+        task.target_time ?? 0,
+        task.progress ?? 0,
+        task.achiever_strike ?? 0,
+        task.fighter_strike ?? 0,
+        task.description,
+        task.completed_description
+    ]);
+
+    return toCsv(TASK_HEADERS, rows);
+}
+
+export const csvExportFilename = (kind: CsvExportKind, from: Date, to: Date) =>
+    `daily-tracker-${kind}-${formatDateString(from)}-to-${formatDateString(to)}.csv`;
@@ -0,0 +1,187 @@
+import { db } from '@/lib/db';
+import { AVAILABLE_COLORS } from '@/lib/colors';
+import { repositories, type Row, type RowId } from '@/repositories';
+import { getZonedDateTime } from '@/utils/dateUtils';
+import { recalculateTaskProgress } from './taskProgressService';
+
+/**
+ * Focus Service - Pomodoro style work/break cycles on a planned task
+ *
+ * The cycle is kept in Dexie (preferences) as timestamps, like the session
+ * timer, so it survives reloads. Each completed work block is recorded as an
+ * execution session linked to the task (category "Deep Focus"), after which
+ * the task's progress and streaks are recomputed.
+ */
+
+export const FOCUS_KEY = 'focusSession';
+export const FOCUS_CATEGORY = 'Deep Focus';
+const FOCUS_SETTINGS_KEY = 'focus_settings';
+
+export type FocusPhase = 'work' | 'short_break' | 'long_break';
+
+export interface FocusSettings {
+    workMinutes: number;
+    shortBreakMinutes: number;
+    longBreakMinutes: number;
+    blocksBeforeLongBreak: number;
+}
+
+export interface FocusState {
+    taskId: RowId;
+    taskName: string;
+    date: string; // The task's day: blocks are logged there
+    phase: FocusPhase;
+    phaseStartedAt: number;
+    phaseEndsAt: number;
+    completedBlocks: number;
+    settings: FocusSettings;
+}
+
+export interface FocusAdvance {
+    state: FocusState;
+    recorded: Row[]; // Sessions of the work blocks that just completed
+}
+
+export const DEFAULT_FOCUS_SETTINGS: FocusSettings = {
+    workMinutes: 25,
+    shortBreakMinutes: 5,
+    longBreakMinutes: 15,
+    blocksBeforeLongBreak: 4
+};
+
+export function loadFocusSettings(): FocusSettings {
+    try {
+        return { ...DEFAULT_FOCUS_SETTINGS, ...JSON.parse(localStorage.getItem(FOCUS_SETTINGS_KEY) || '{}') };
+    } catch {
+        return DEFAULT_FOCUS_SETTINGS;
+    }
+}
+
+export function saveFocusSettings(settings: FocusSettings): void {
+    localStorage.setItem(FOCUS_SETTINGS_KEY, JSON.stringify(settings));
+}
+
+export async function getFocusState(): Promise<FocusState | null> {
+    const preference = await db.preferences.get(FOCUS_KEY);
+    return (preference?.value as FocusState) || null;
+}
+
+const saveFocusState = (state: FocusState | null) =>
+    state ? db.preferences.put({ key: FOCUS_KEY, value: state }) : db.preferences.delete(FOCUS_KEY);
+
+const phaseMinutes = (phase: FocusPhase, settings: FocusSettings) =>
+    phase === 'work' ? settings.workMinutes
+        : phase === 'long_break' ? settings.longBreakMinutes
+            : settings.shortBreakMinutes;
+
+const startPhase = (state: FocusState, phase: FocusPhase, at: number): FocusState => ({
+    ...state,
+    phase,
+    phaseStartedAt: at,
+    phaseEndsAt: at + phaseMinutes(phase, state.settings) * 60000
+});
+
+// The category blocks are logged under, created on first use
+async function ensureFocusCategory(userId: string): Promise<Row> {
+    const existing = await repositories.categories.find({ where: { user_id: userId, name: FOCUS_CATEGORY } });
+    if (existing) return existing;
+
+    const categories = await repositories.categories.list({ where: { user_id: userId } });
+    const workType = categories.find(c => String(c.type).toLowerCase() === 'work')?.type || 'work';
+    return repositories.categories.insert({
+        user_id: userId,
+        name: FOCUS_CATEGORY,
+        type: workType,
+        color: AVAILABLE_COLORS.find(c => c.name === 'Violet')?.value || AVAILABLE_COLORS[0].value,
+        order: categories.length + 1,
+        is_active: true
+    });
+}
+
+async function recordWorkBlock(userId: string, state: FocusState, endedAt: number): Promise<Row | null> {
+    const category = await ensureFocusCategory(userId);
+    const session = await repositories.sessions.insert({
+        user_id: userId,
+        date: state.date,
+        task_id: state.taskId,
+        custom_name: '',
+        category: category.name,
+        category_type: category.type,
+        start_time: getZonedDateTime(new Date(state.phaseStartedAt)).time,
+        end_time: getZonedDateTime(new Date(endedAt)).time,
+        description: `Focus block ${state.completedBlocks + 1}`,
+        created_at: new Date(endedAt).toISOString()
+    });
+    await recalculateTaskProgress(userId, state.taskId);
+    return session;
+}
+
+export async function startFocus(task: { id: RowId; name: string; date: string }, settings: FocusSettings): Promise<FocusState> {
+    saveFocusSettings(settings);
+    const state = startPhase({
+        taskId: task.id,
+        taskName: task.name,
+        date: task.date,
+        phase: 'work',
+        phaseStartedAt: 0,
+        phaseEndsAt: 0,
+        completedBlocks: 0,
+        settings
+    }, 'work', Date.now());
+    await saveFocusState(state);
+    return state;
+}
+
+/**
+ * Move the cycle forward to `now`: record the work blocks that ended and
+ * start the following phases. A phase that ended while the app was closed
+ * is followed by the next one starting now, so time away never counts as focus.
+ */
+export async function advanceFocus(userId: string, now = Date.now()): Promise<FocusAdvance | null> {
+    let state = await getFocusState();
+    if (!state || now < state.phaseEndsAt) return null;
+
+    const recorded: Row[] = [];
+    if (state.phase === 'work') {
+        const session = await recordWorkBlock(userId, state, state.phaseEndsAt);
+        if (session) recorded.push(session);
+        const completedBlocks = state.completedBlocks + 1;
+        const longBreak = completedBlocks % state.settings.blocksBeforeLongBreak === 0;
+        state = startPhase({ ...state, completedBlocks }, longBreak ? 'long_break' : 'short_break', state.phaseEndsAt);
+    }
+    if (now >= state.phaseEndsAt) {
+        state = startPhase(state, 'work', now);
+    }
+
+    await saveFocusState(state);
+    return { state, recorded };
+}
+
+/**
+ * End the current phase early: a work block is recorded up to now
+ */
+export async function skipFocusPhase(userId: string): Promise<FocusAdvance | null> {
+    const state = await getFocusState();
+    if (!state) return null;
+
+    const now = Date.now();
+    await saveFocusState({ ...state, phaseEndsAt: now });
+    return advanceFocus(userId, now);
+}
+
+/**
+ * Leave focus mode. A work block in progress is recorded if it lasted a minute or more.
+ */
+export async function stopFocus(userId: string): Promise<Row[]> {
+    const state = await getFocusState();
+    if (!state) return [];
+
+    const now = Date.now();
+    const recorded: Row[] = [];
+    if (state.phase === 'work' && now - state.phaseStartedAt >= 60000) {
+        const session = await recordWorkBlock(userId, state, Math.min(now, state.phaseEndsAt));
+        if (session) recorded.push(session);
+    }
+    await saveFocusState(null);
+    return recorded;
+}
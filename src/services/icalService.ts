@@ -0,0 +1,184 @@
+import { calculateDuration, type Category } from '@/lib/db';
+import { repositories, type Row } from '@/repositories';
+import { buildCalendar, escapeIcsText, formatIcsUtc, parseIcsEvents, type IcsEvent } from '@/utils/ical';
+import { formatDateString, getTimeZoneForDate, getZonedDateTime, parseDateString, zonedTimeToDate } from '@/utils/dateUtils';
+
+/**
+ * iCal Service - Bridge between calendar apps (Google, Outlook) and the tracker
+ *
+ * Export: logged sessions become VEVENTs, planned tasks become VTODOs.
+ * Import: the timed events of one day become execution sessions, each mapped
+ * to one of the user's categories.
+ *
+ * A tracker day runs from dayStartHour to dayStartHour of the next calendar
+ * day, so a 01:00 session of a day starting at 04:00 happened the day after.
+ * Times are read and written in the zone the day was recorded in.
+ */
+
+export interface CalendarImportCandidate {
+    key: string;
+    event: IcsEvent;
+    startTime: string; // HH:mm
+    endTime: string; // HH:mm
+    category: Category | null; // Suggested from the event's categories / title
+    duplicate: boolean; // A session with the same times and name already exists
+}
+
+const UID_DOMAIN = 'daily-tracker';
+
+const shiftDay = (date: string, days: number) => {
+    const day = parseDateString(date);
+    day.setDate(day.getDate() + days);
+    return formatDateString(day);
+};
+
+// Real start of a session, given the logical day it was logged on
+const sessionStart = (date: string, startTime: string, dayStartHour: number) => {
+    const hours = Number(startTime.split(':')[0]);
+    const calendarDay = hours < dayStartHour ? shiftDay(date, 1) : date;
+    return zonedTimeToDate(calendarDay, startTime, getTimeZoneForDate(date));
+};
+
+/**
+ * EXPORT
+ */
+export async function exportCalendar(userId: string, from: Date, to: Date, dayStartHour = 0): Promise<string> {
+    const inRange = {
+        where: { user_id: userId },
+        ranges: [{ column: 'date', gte: formatDateString(from), lte: formatDateString(to) }],
+        orderBy: 'date'
+    };
+    const [sessions, tasks] = await Promise.all([
+        repositories.sessions.list(inRange),
+        repositories.tasks.list(inRange)
+    ]);
+
+    const taskNames = new Map(tasks.map(task => [String(task.id), task.name as string]));
+    const stamp = `DTSTAMP:${formatIcsUtc(new Date())}`;
+
+    const events = sessions
+        .filter(session => !session.is_deleted && session.start_time && session.end_time)
+        .map((session: Row) => {
+            const start = sessionStart(session.date, session.start_time, dayStartHour);
+            // calculateDuration already wraps sessions that cross midnight
+            const end = new Date(start.getTime() + calculateDuration(session.start_time, session.end_time) * 60000);
+            const title = session.custom_name || taskNames.get(String(session.task_id)) || session.category;
+
+            const lines = [
+                `UID:session-${session.client_id || session.id}@${UID_DOMAIN}`,
+                stamp,
+                `DTSTART:${formatIcsUtc(start)}`,
+                `DTEND:${formatIcsUtc(end)}`,
+                `SUMMARY:${escapeIcsText(title || 'Session')}`
+            ];
+            if (session.category) lines.push(`CATEGORIES:${escapeIcsText(session.category)}`);
+            if (session.description) lines.push(`DESCRIPTION:${escapeIcsText(session.description)}`);
+            return { type: 'VEVENT' as const, lines };
+        });
+
+    const todos = tasks
+        .filter(task => !task.is_deleted)
+        .map((task: Row) => {
+            const done = (task.progress || 0) >= 100;
+            const lines = [
+                `UID:task-${task.client_id || task.id}@${UID_DOMAIN}`,
+                stamp,
+                `DUE;VALUE=DATE:${task.date.replace(/-/g, '')}`,
+                `SUMMARY:${escapeIcsText(task.name || 'Task')}`,
+                `STATUS:${done ? 'COMPLETED' : 'NEEDS-ACTION'}`,
+                `PERCENT-COMPLETE:${Math.min(100, Math.round(task.progress || 0))}`
+            ];
+            if (task.priority) lines.push(`CATEGORIES:${escapeIcsText(task.priority)}`);
+            if (task.description) lines.push(`DESCRIPTION:${escapeIcsText(task.description)}`);
+            return { type: 'VTODO' as const, lines };
+        });
+
+    return buildCalendar([...events, ...todos]);
+}
+
+export const calendarFilename = (from: Date, to: Date) =>
+    `daily-tracker-${formatDateString(from)}-to-${formatDateString(to)}.ics`;
+
+/**
+ * IMPORT
+ */
+
+// Event categories first, then the title: "Deep Work: spec review" -> Deep Work
+export function suggestCategory(event: IcsEvent, categories: Category[]): Category | null {
+    const byName = (name: string) =>
+        categories.find(category => category.name.toLowerCase() === name.toLowerCase());
+
+    for (const name of event.categories) {
+        const match = byName(name);
+        if (match) return match;
+    }
+
+    const title = event.summary.toLowerCase();
+    const inTitle = categories
+        .filter(category => title.includes(category.name.toLowerCase()))
+        .sort((a, b) => b.name.length - a.name.length);
+    return inTitle[0] || null;
+}
+
+/**
+ * Read a calendar file and list the timed events of a tracker day
+ */
+export async function readCalendarDay(
+    text: string,
+    userId: string,
+    date: string,
+    categories: Category[],
+    dayStartHour = 0
+): Promise<CalendarImportCandidate[]> {
+    const events = parseIcsEvents(text);
+    if (events.length === 0) throw new Error('No events found in this file.');
+
+    const dayStart = sessionStart(date, `${String(dayStartHour).padStart(2, '0')}:00`, dayStartHour);
+    const dayEnd = sessionStart(shiftDay(date, 1), `${String(dayStartHour).padStart(2, '0')}:00`, dayStartHour);
+    const timeZone = getTimeZoneForDate(date);
+
+    const existing = await repositories.sessions.list({ where: { date, user_id: userId } });
+    const existingKeys = new Set(existing.map(session => `${session.start_time}|${session.end_time}|${session.custom_name || ''}`));
+
+    return events
+        .filter(event => !event.allDay && event.start >= dayStart && event.start < dayEnd && event.end > event.start)
+        .sort((a, b) => a.start.getTime() - b.start.getTime())
+        .map((event, index) => {
+            // A session can't span more than a day: cut long events at the end of the tracker day
+            const end = event.end > dayEnd ? dayEnd : event.end;
+            const startTime = getZonedDateTime(event.start, timeZone).time;
+            const endTime = getZonedDateTime(end, timeZone).time;
+            return {
+                key: `${event.uid || 'event'}-${index}`,
+                event,
+                startTime,
+                endTime,
+                category: suggestCategory(event, categories),
+                duplicate: existingKeys.has(`${startTime}|${endTime}|${event.summary}`)
+            };
+        });
+}
+
+/**
+ * Create one execution session per selected event
+ */
+export async function importCalendarSessions(
+    userId: string,
+    date: string,
+    selections: { candidate: CalendarImportCandidate; category: Category }[]
+): Promise<number> {
+    const now = new Date().toISOString();
+    const inserted = await repositories.sessions.insertMany(selections.map(({ candidate, category }) => ({
+        user_id: userId,
+        date,
+        task_id: null,
+        custom_name: candidate.event.summary,
+        category: category.name,
+        category_type: category.type,
+        start_time: candidate.startTime,
+        end_time: candidate.endTime,
+        description: candidate.event.description,
+        created_at: now
+    })));
+    return inserted.length;
+}
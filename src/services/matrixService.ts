@@ -1,5 +1,6 @@
 
-import { supabase } from '@/lib/supabase';
+import { repositories } from '@/repositories';
+import { formatDateString } from '@/utils/dateUtils';
 import { ProfileItem } from './profileService';
 
 export interface MatrixDataPoint {
@@ -11,35 +12,25 @@ export interface MatrixDataPoint {
 // Fetch tasks associated with a profile
 export const fetchMatrixData = async (profileId: number, from: Date, to: Date) => {
     // 1. Get Profile Items (Templates)
-    const { data: items, error: itemsError } = await supabase
-        .from('profile_items')
-        .select(`
-            *,
-            template:task_templates(*)
-        `)
-        .eq('profile_id', profileId)
-        .order('order_index');
-
-    if (itemsError) throw itemsError;
+    const items = await repositories.profile_items.list({
+        include: [{ as: 'template', table: 'task_templates', foreignKey: 'template_id', many: false }],
+        where: { profile_id: profileId },
+        orderBy: 'order_index'
+    });
 
     // 2. Get Tasks (Logs)
     const templateNames = items.map(i => i.template.name);
-    const fromStr = from.toISOString().split('T')[0];
-    const toStr = to.toISOString().split('T')[0];
+    const fromStr = formatDateString(from);
+    const toStr = formatDateString(to);
 
     // Optimize: only fetch what we need. 
     // If templateNames is empty, skip fetching tasks
     let tasks: any[] = [];
     if (templateNames.length > 0) {
-        const { data: tasksData, error: tasksError } = await supabase
-            .from('tasks')
-            .select('id, date, name, status, progress')
-            .in('name', templateNames)
-            .gte('date', fromStr)
-            .lte('date', toStr);
-
-        if (tasksError) throw tasksError;
-        tasks = tasksData || [];
+        tasks = await repositories.tasks.list({
+            in: { column: 'name', values: templateNames },
+            ranges: [{ column: 'date', gte: fromStr, lte: toStr }]
+        });
     }
 
     return {
@@ -59,16 +50,10 @@ export const upsertTaskStatus = async (
 
     if (taskId) {
         // Update existing
-        const { error } = await supabase
-            .from('tasks')
-            .update({ status, progress })
-            .eq('id', taskId);
-        if (error) throw error;
+        await repositories.tasks.update(taskId, { status, progress });
     } else {
         // Create new task from template
-        const { error } = await supabase
-            .from('tasks')
-            .insert({
+        await repositories.tasks.insert({
                 date,
                 name: template.name,
                 status,
@@ -79,6 +64,5 @@ export const upsertTaskStatus = async (
 
                 user_id: template.user_id
             });
-        if (error) throw error;
     }
 };
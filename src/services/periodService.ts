@@ -1,4 +1,4 @@
-import { supabase } from '@/lib/supabase';
+import { getCurrentUserId, repositories } from '@/repositories';
 import { format } from 'date-fns';
 
 export interface Period {
@@ -27,17 +27,16 @@ export const fetchActivePeriods = async (date: Date): Promise<Period[]> => {
     // Format date as YYYY-MM-DD (Local Time) to match DB 'date' column
     const dateStr = format(date, 'yyyy-MM-dd');
 
-    const { data, error } = await supabase
-        .from('periods')
-        .select(`
-            *,
-            tasks:period_tasks(*)
-        `)
-        .lte('start_date', dateStr)
-        .gte('end_date', dateStr)
-        .order('created_at', { ascending: false });
-
-    if (error) throw error;
+    const data = await repositories.periods.list({
+        include: [{ as: 'tasks', table: 'period_tasks', foreignKey: 'period_id', many: true }],
+        ranges: [
+            { column: 'start_date', lte: dateStr },
+            { column: 'end_date', gte: dateStr }
+        ],
+        orderBy: 'created_at',
+        ascending: false
+    });
+
     return data as Period[];
 };
 
@@ -45,12 +44,7 @@ export const fetchActivePeriods = async (date: Date): Promise<Period[]> => {
  * Fetch all periods for the user (for the manager view).
  */
 export const fetchAllPeriods = async (): Promise<Period[]> => {
-    const { data, error } = await supabase
-        .from('periods')
-        .select('*')
-        .order('start_date', { ascending: false });
-
-    if (error) throw error;
+    const data = await repositories.periods.list({ orderBy: 'start_date', ascending: false });
     return data as Period[];
 };
 
@@ -58,35 +52,27 @@ export const fetchAllPeriods = async (): Promise<Period[]> => {
  * Fetch full details of a period, including tasks and their progress.
  */
 export const fetchPeriodDetails = async (periodId: number): Promise<Period> => {
-    const { data: period, error: periodError } = await supabase
-        .from('periods')
-        .select('*')
-        .eq('id', periodId)
-        .single();
-
-    if (periodError) throw periodError;
+    const period = await repositories.periods.get(periodId);
+    if (!period) throw new Error(`Period ${periodId} not found`);
 
     // Fetch tasks
-    const { data: tasks, error: tasksError } = await supabase
-        .from('period_tasks')
-        .select('*')
-        .eq('period_id', periodId)
-        .order('created_at', { ascending: true });
-
-    if (tasksError) throw tasksError;
+    const tasks = await repositories.period_tasks.list({
+        where: { period_id: periodId },
+        orderBy: 'created_at'
+    });
 
     // Calculate progress for each task (count execution instances)
     const tasksWithProgress = await Promise.all(tasks.map(async (task) => {
-        const { count, error: countError } = await supabase
-            .from('tasks')
-            .select('*', { count: 'exact', head: true })
-            .eq('period_task_id', task.id);
-
-        if (countError) console.error('Error counting executions for task', task.id, countError);
+        let count = 0;
+        try {
+            count = await repositories.tasks.count({ period_task_id: task.id });
+        } catch (countError) {
+            console.error('Error counting executions for task', task.id, countError);
+        }
 
         return {
             ...task,
-            executionValues: count || 0
+            executionValues: count
         };
     }));
 
@@ -97,61 +83,34 @@ export const fetchPeriodDetails = async (periodId: number): Promise<Period> => {
 };
 
 export const createPeriod = async (period: Partial<Period>) => {
-    const { data: { user } } = await supabase.auth.getUser();
-    if (!user) throw new Error('User not authenticated');
-
-    const { data, error } = await supabase
-        .from('periods')
-        .insert({
-            user_id: user.id,
-            title: period.title,
-            start_date: period.start_date,
-            end_date: period.end_date
-        })
-        .select()
-        .single();
-
-    if (error) throw error;
-    return data;
+    const userId = await getCurrentUserId();
+    if (!userId) throw new Error('User not authenticated');
+
+    return repositories.periods.insert({
+        user_id: userId,
+        title: period.title,
+        start_date: period.start_date,
+        end_date: period.end_date
+    });
 };
 
 export const createPeriodTask = async (periodId: number, title: string) => {
-    const { data, error } = await supabase
-        .from('period_tasks')
-        .insert({
-            period_id: periodId,
-            title: title
-        })
-        .select()
-        .single();
-
-    if (error) throw error;
-    return data;
+    return repositories.period_tasks.insert({
+        period_id: periodId,
+        title: title,
+        is_completed: false
+    });
 };
 
 export const updatePeriodTaskStatus = async (taskId: number, isCompleted: boolean) => {
-    const { error } = await supabase
-        .from('period_tasks')
-        .update({ is_completed: isCompleted })
-        .eq('id', taskId);
-
-    if (error) throw error;
+    await repositories.period_tasks.update(taskId, { is_completed: isCompleted });
 };
 
 export const deletePeriod = async (periodId: number) => {
-    const { error } = await supabase
-        .from('periods')
-        .delete()
-        .eq('id', periodId);
-
-    if (error) throw error;
+    await repositories.period_tasks.removeWhere({ period_id: periodId });
+    await repositories.periods.remove(periodId);
 };
 
 export const deletePeriodTask = async (taskId: number) => {
-    const { error } = await supabase
-        .from('period_tasks')
-        .delete()
-        .eq('id', taskId);
-
-    if (error) throw error;
+    await repositories.period_tasks.remove(taskId);
 };
@@ -1,4 +1,4 @@
-import { supabase } from '@/lib/supabase';
+import { repositories } from '@/repositories';
 // import { Database } from '@/types/supabase';
 
 // Manual interface definitions if we don't have auto-generated Supabase types yet.
@@ -26,62 +26,35 @@ export interface ProfileItem {
  * PROFILES CRUD
  */
 export const fetchProfiles = async (userId: string) => {
-    const { data, error } = await supabase
-        .from('profiles')
-        .select('*')
-        .eq('user_id', userId)
-        .order('created_at', { ascending: true });
-
-    if (error) throw error;
+    const data = await repositories.profiles.list({
+        where: { user_id: userId },
+        orderBy: 'created_at'
+    });
     return data as Profile[];
 };
 
 export const createProfile = async (profile: Partial<Profile>) => {
-    const { data, error } = await supabase
-        .from('profiles')
-        .insert(profile)
-        .select()
-        .single();
-
-    if (error) throw error;
-    return data as Profile;
+    return await repositories.profiles.insert(profile) as Profile;
 };
 
 export const updateProfile = async (id: number, updates: Partial<Profile>) => {
-    const { data, error } = await supabase
-        .from('profiles')
-        .update(updates)
-        .eq('id', id)
-        .select()
-        .single();
-
-    if (error) throw error;
-    return data as Profile;
+    return await repositories.profiles.update(id, updates) as Profile;
 };
 
 export const deleteProfile = async (id: number) => {
-    const { error } = await supabase
-        .from('profiles')
-        .delete()
-        .eq('id', id);
-
-    if (error) throw error;
+    await repositories.profile_items.removeWhere({ profile_id: id });
+    await repositories.profiles.remove(id);
 };
 
 /**
  * PROFILE ITEMS CRUD
  */
 export const fetchProfileItems = async (profileId: number) => {
-    const { data, error } = await supabase
-        .from('profile_items')
-        .select(`
-            *,
-            template:task_templates(*)
-        `)
-        .eq('profile_id', profileId)
-        .order('order_index', { ascending: true });
-
-    if (error) throw error;
+    const data = await repositories.profile_items.list({
+        include: [{ as: 'template', table: 'task_templates', foreignKey: 'template_id', many: false }],
+        where: { profile_id: profileId },
+        orderBy: 'order_index'
+    });
     return data as ProfileItem[];
 };
 
@@ -90,12 +63,7 @@ export const addItemsToProfile = async (profileId: number, templateIds: number[]
     if (templateIds.length === 0) return;
 
     // Get current count to append to the end
-    const { count } = await supabase
-        .from('profile_items')
-        .select('*', { count: 'exact', head: true })
-        .eq('profile_id', profileId);
-
-    const startOrder = count || 0;
+    const startOrder = await repositories.profile_items.count({ profile_id: profileId });
 
     const items = templateIds.map((tid, idx) => ({
         profile_id: profileId,
@@ -103,29 +71,17 @@ export const addItemsToProfile = async (profileId: number, templateIds: number[]
         order_index: startOrder + idx
     }));
 
-    const { error } = await supabase
-        .from('profile_items')
-        .insert(items);
-
-    if (error) throw error;
+    await repositories.profile_items.insertMany(items);
 };
 
 export const removeProfileItem = async (itemId: number) => {
-    const { error } = await supabase
-        .from('profile_items')
-        .delete()
-        .eq('id', itemId);
-
-    if (error) throw error;
+    await repositories.profile_items.remove(itemId);
 };
 
 export const reorderProfileItems = async (items: { id: number, order_index: number }[]) => {
     // This might be better done via a stored procedure or multiple updates
     // For simplicity in MVP:
     for (const item of items) {
-        await supabase
-            .from('profile_items')
-            .update({ order_index: item.order_index })
-            .eq('id', item.id);
+        await repositories.profile_items.update(item.id, { order_index: item.order_index });
     }
 };
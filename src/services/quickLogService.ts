@@ -0,0 +1,110 @@
+import { calculateDuration } from '@/lib/db';
+import { repositories, type Row, type RowId } from '@/repositories';
+import { getCurrentTime, getLogicalDateString } from '@/utils/dateUtils';
+import { matchTask, parseQuickLog, type QuickLogCategory } from '@/utils/quickLogParser';
+import { fromLogicalMinutes, getLogicalRange, toLogicalMinutes } from '@/utils/sessionValidation';
+import { recalculateTaskProgress } from './taskProgressService';
+
+/**
+ * Quick Log Service - Resolve a parsed quick-log line into a session draft
+ * (task of that day, times, default category) and save it
+ */
+
+export interface QuickLogDraft {
+    date: string;
+    startTime: string;
+    endTime: string;
+    category: QuickLogCategory;
+    categoryGuessed: boolean; // No category in the text: the default one is used
+    task?: { id: RowId; name: string };
+    customName: string;
+}
+
+interface QuickLogContext {
+    defaultDate: string; // The day being viewed
+    categories: QuickLogCategory[];
+    dayStartHour: number;
+}
+
+// HH:mm a number of minutes after (or before) a clock time
+const addMinutes = (time: string, minutes: number) => fromLogicalMinutes(toLogicalMinutes(time) + minutes);
+
+// End of the day's last finished session, to log a bare duration after it
+async function lastSessionEnd(userId: string, date: string, dayStartHour: number): Promise<string | null> {
+    const sessions = await repositories.sessions.list({ where: { date, user_id: userId } });
+    const last = sessions
+        .filter(s => s.start_time && s.end_time)
+        .map(s => ({ end: s.end_time, logical: getLogicalRange(s.start_time, s.end_time, dayStartHour).end }))
+        .sort((a, b) => b.logical - a.logical)[0];
+    return last?.end ?? null;
+}
+
+/**
+ * Build the session a line of text describes. Throws with a hint when the
+ * text has no usable time.
+ */
+export async function previewQuickLog(userId: string, text: string, { defaultDate, categories, dayStartHour }: QuickLogContext): Promise<QuickLogDraft> {
+    const today = getLogicalDateString(new Date(), dayStartHour);
+    const now = getCurrentTime();
+    const parsed = parseQuickLog(text, { today, defaultDate, categories, now });
+    const isToday = parsed.date === today;
+
+    let { startTime, endTime } = parsed;
+    const duration = parsed.durationMinutes;
+
+    if (startTime && !endTime) {
+        if (duration) endTime = addMinutes(startTime, duration);
+        else if (isToday) endTime = now;
+        else throw new Error('Add an end time or a duration, e.g. "9-10:30" or "from 9 45m"');
+    } else if (!startTime && duration) {
+        // Today it ends now; another day it follows that day's last session
+        const after = isToday ? null : await lastSessionEnd(userId, parsed.date, dayStartHour);
+        if (after) {
+            startTime = after;
+            endTime = addMinutes(after, duration);
+        } else {
+            endTime = now;
+            startTime = addMinutes(now, -duration);
+        }
+    }
+    if (!startTime || !endTime) {
+        throw new Error('Add a time range like "9:30-11" or a duration like "45m"');
+    }
+    if (calculateDuration(startTime, endTime) <= 0) {
+        throw new Error(`${startTime}–${endTime} is not a time range`);
+    }
+
+    const tasks = await repositories.tasks.list({ where: { date: parsed.date, user_id: userId } });
+    const task = matchTask(parsed.text, tasks.map(t => ({ id: t.id, name: t.name })));
+
+    // Same default as a new session: first work category
+    const category = parsed.category || categories.find(c => c.type === 'work') || categories[0];
+    if (!category) throw new Error('Create a category first');
+
+    return {
+        date: parsed.date,
+        startTime,
+        endTime,
+        category,
+        categoryGuessed: !parsed.category,
+        task,
+        customName: task ? '' : parsed.text
+    };
+}
+
+export async function saveQuickLog(userId: string, draft: QuickLogDraft): Promise<Row> {
+    const session = await repositories.sessions.insert({
+        user_id: userId,
+        date: draft.date,
+        task_id: draft.task?.id ?? null,
+        custom_name: draft.customName,
+        category: draft.category.name,
+        category_type: draft.category.type,
+        start_time: draft.startTime,
+        end_time: draft.endTime,
+        description: '',
+        created_at: new Date().toISOString()
+    });
+    if (draft.task) await recalculateTaskProgress(userId, draft.task.id);
+    return session;
+}
@@ -0,0 +1,205 @@
+import { repositories, type Row, type RowId } from '@/repositories';
+import { formatDateString, parseDateString } from '@/utils/dateUtils';
+import { fromLogicalMinutes, getLogicalRange } from '@/utils/sessionValidation';
+import { recalculateTaskProgress } from './taskProgressService';
+
+/**
+ * Session Fix Service - One-click fixes for the issues found by validateSessions,
+ * and the split / merge / duplicate / resize edits of the timeline
+ *
+ * Every change works on the stored rows (not the component's copy) and
+ * recomputes the progress of the tasks whose linked sessions changed length.
+ */
+
+const pad = (value: number) => value.toString().padStart(2, '0');
+
+const nextDay = (date: string) => {
+    const day = parseDateString(date);
+    day.setDate(day.getDate() + 1);
+    return formatDateString(day);
+};
+
+// The session fields a piece or copy of a session keeps
+const copyOf = (session: Row): Row => ({
+    user_id: session.user_id,
+    date: session.date,
+    task_id: session.task_id ?? null,
+    custom_name: session.custom_name || '',
+    category: session.category,
+    category_type: session.category_type,
+    description: session.description || '',
+    rich_content: session.rich_content || '',
+    created_at: new Date().toISOString()
+});
+
+async function getSessions(...ids: RowId[]): Promise<Row[]> {
+    const sessions = await Promise.all(ids.map(id => repositories.sessions.get(id)));
+    if (sessions.some(s => !s)) throw new Error('Session no longer exists');
+    return sessions;
+}
+
+/**
+ * The task a session's copy on another day belongs to: that day's task of the
+ * same template, else of the same name. Null when the day has none.
+ */
+async function sameTaskOn(session: Row, date: string): Promise<RowId | null> {
+    if (!session.task_id) return null;
+    const task = await repositories.tasks.get(session.task_id);
+    if (!task) return null;
+    const sameTask = await repositories.tasks.find({
+        where: task.template_id
+            ? { user_id: session.user_id, date, template_id: task.template_id }
+            : { user_id: session.user_id, date, name: task.name }
+    });
+    return sameTask?.id ?? null;
+}
+
+async function refreshTasks(userId: string, sessions: Row[]): Promise<void> {
+    const taskIds = [...new Set(sessions.map(s => s.task_id).filter(Boolean))];
+    await Promise.all(taskIds.map(taskId => recalculateTaskProgress(userId, taskId)));
+}
+
+/**
+ * Remove the overlap from the earlier of two sessions. When the later one sits
+ * inside it, the earlier session keeps the parts before and after; when they
+ * cover the same time, the earlier one is removed as a duplicate.
+ */
+export async function trimOverlap(firstId: RowId, secondId: RowId, dayStartHour: number): Promise<void> {
+    const [first, second] = await getSessions(firstId, secondId);
+    const a = getLogicalRange(first.start_time, first.end_time, dayStartHour);
+    const b = getLogicalRange(second.start_time, second.end_time, dayStartHour);
+    const time = (minutes: number) => fromLogicalMinutes(minutes, dayStartHour);
+
+    const pieces = [
+        { start: a.start, end: Math.min(a.end, b.start) },
+        { start: Math.max(a.start, b.end), end: a.end }
+    ].filter(p => p.end > p.start);
+
+    if (pieces.length === 0) {
+        await repositories.sessions.remove(first.id);
+    } else {
+        await repositories.sessions.update(first.id, { start_time: time(pieces[0].start), end_time: time(pieces[0].end) });
+        if (pieces[1]) {
+            await repositories.sessions.insert({ ...copyOf(first), start_time: time(pieces[1].start), end_time: time(pieces[1].end) });
+        }
+    }
+    await refreshTasks(first.user_id, [first]);
+}
+
+/**
+ * Combine two sessions into the first one, covering both of their times.
+ * Empty fields of the first are filled from the second. Sessions with time
+ * between them are refused: the merged one would log that gap as tracked.
+ */
+export async function mergeSessions(firstId: RowId, secondId: RowId, dayStartHour: number): Promise<Row> {
+    const [first, second] = await getSessions(firstId, secondId);
+    const a = getLogicalRange(first.start_time, first.end_time, dayStartHour);
+    const b = getLogicalRange(second.start_time, second.end_time, dayStartHour);
+    if (a.end < b.start || b.end < a.start) {
+        throw new Error('Only sessions that overlap or touch can be merged');
+    }
+
+    const descriptions = [first.description, second.description].filter(Boolean);
+    const merged = await repositories.sessions.update(first.id, {
+        start_time: fromLogicalMinutes(Math.min(a.start, b.start), dayStartHour),
+        end_time: fromLogicalMinutes(Math.max(a.end, b.end), dayStartHour),
+        task_id: first.task_id ?? second.task_id ?? null,
+        custom_name: first.custom_name || second.custom_name || '',
+        description: [...new Set(descriptions)].join('\n'),
+        rich_content: first.rich_content || second.rich_content || ''
+    });
+    await repositories.sessions.remove(second.id);
+    await refreshTasks(first.user_id, [first, second]);
+    return merged;
+}
+
+/**
+ * Split a session that runs past the logical day boundary: it ends at
+ * dayStartHour and the rest continues on the next day, linked to that day's
+ * task like duplicateSession does. With no such task the rest is left
+ * unlinked (check the tail's task_id).
+ */
+export async function splitAtDayBoundary(sessionId: RowId, dayStartHour: number): Promise<Row[]> {
+    const [session] = await getSessions(sessionId);
+    const dayStart = `${pad(dayStartHour)}:00`;
+    const date = nextDay(session.date);
+
+    const head = await repositories.sessions.update(session.id, { end_time: dayStart });
+    const tail = await repositories.sessions.insert({
+        ...copyOf(session),
+        date,
+        task_id: await sameTaskOn(session, date),
+        start_time: dayStart,
+        end_time: session.end_time
+    });
+    await refreshTasks(session.user_id, [session, tail]);
+    return [head, tail];
+}
+
+/**
+ * Log an untracked gap as a session of the given category
+ */
+export async function fillGap(
+    userId: string,
+    date: string,
+    start: string,
+    end: string,
+    category: { name: string; type: string }
+): Promise<Row> {
+    return repositories.sessions.insert({
+        user_id: userId,
+        date,
+        task_id: null,
+        custom_name: '',
+        category: category.name,
+        category_type: category.type,
+        start_time: start,
+        end_time: end,
+        description: '',
+        created_at: new Date().toISOString()
+    });
+}
+
+/**
+ * Cut a session in two at a time inside it; both halves keep its fields
+ */
+export async function splitSession(sessionId: RowId, at: string, dayStartHour: number): Promise<Row[]> {
+    const [session] = await getSessions(sessionId);
+    const range = getLogicalRange(session.start_time, session.end_time, dayStartHour);
+    const cut = getLogicalRange(session.start_time, at, dayStartHour).end;
+    if (cut <= range.start || cut >= range.end) {
+        throw new Error(`${at} is not inside ${session.start_time}–${session.end_time}`);
+    }
+
+    const head = await repositories.sessions.update(session.id, { end_time: at });
+    const tail = await repositories.sessions.insert({ ...copyOf(session), start_time: at, end_time: session.end_time });
+    return [head, tail];
+}
+
+/**
+ * Copy a session to another day at the same times. A linked task is replaced
+ * by the same task on that day (see sameTaskOn), if there is one.
+ */
+export async function duplicateSession(sessionId: RowId, date: string): Promise<Row> {
+    const [session] = await getSessions(sessionId);
+
+    const copy = await repositories.sessions.insert({
+        ...copyOf(session),
+        date,
+        task_id: await sameTaskOn(session, date),
+        start_time: session.start_time,
+        end_time: session.end_time
+    });
+    await refreshTasks(session.user_id, [copy]);
+    return copy;
+}
+
+/**
+ * Move the start and end of a session
+ */
+export async function resizeSession(sessionId: RowId, startTime: string, endTime: string): Promise<Row> {
+    const [session] = await getSessions(sessionId);
+    const resized = await repositories.sessions.update(session.id, { start_time: startTime, end_time: endTime });
+    await refreshTasks(session.user_id, [session]);
+    return resized;
+}
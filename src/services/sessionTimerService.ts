@@ -0,0 +1,188 @@
+import { db } from '@/lib/db';
+import { repositories, type Row, type RowId } from '@/repositories';
+import {
+    formatDateString,
+    getLogicalDateString,
+    getZonedDateTime,
+    parseDateString,
+    zonedTimeToDate
+} from '@/utils/dateUtils';
+
+/**
+ * Session Timer Service - Live stopwatch for the Execution table
+ *
+ * A running timer owns an open session: a row with a start time and an empty
+ * end time, logged on the logical day it was started. The timer itself is kept
+ * in Dexie (preferences) as timestamps, so it survives reloads and device
+ * sleep: elapsed time is always recomputed from the clock.
+ *
+ * - pause: closes the open session at the current time
+ * - resume: opens a new session with the same category / task / name
+ * - stop: closes the open session and forgets the timer
+ *
+ * A session never spans two logical days: when the day boundary (dayStartHour)
+ * passes while the timer runs, the session is closed there and continued on
+ * the next day.
+ */
+
+export const SESSION_TIMER_KEY = 'sessionTimer';
+
+// Fields carried over from one segment to the next
+export interface SessionTimerTemplate {
+    task_id: RowId | null;
+    custom_name: string;
+    category: string;
+    category_type: string;
+    description: string;
+}
+
+export interface SessionTimer {
+    sessionId: RowId | null; // Open session, null while paused
+    date: string; // Logical day of the open session
+    startedAt: number | null; // Start of the running segment (ms), null while paused
+    accumulatedMs: number; // Closed segments
+    template: SessionTimerTemplate;
+}
+
+const pad = (value: number) => value.toString().padStart(2, '0');
+
+const nextDay = (date: string) => {
+    const day = parseDateString(date);
+    day.setDate(day.getDate() + 1);
+    return formatDateString(day);
+};
+
+export async function getSessionTimer(): Promise<SessionTimer | null> {
+    const preference = await db.preferences.get(SESSION_TIMER_KEY);
+    return (preference?.value as SessionTimer) || null;
+}
+
+const saveSessionTimer = (timer: SessionTimer | null) =>
+    timer
+        ? db.preferences.put({ key: SESSION_TIMER_KEY, value: timer })
+        : db.preferences.delete(SESSION_TIMER_KEY);
+
+export const isTimerRunning = (timer: SessionTimer | null) => !!timer && timer.startedAt !== null;
+
+export function getElapsedMs(timer: SessionTimer | null, now = Date.now()): number {
+    if (!timer) return 0;
+    return timer.accumulatedMs + (timer.startedAt !== null ? Math.max(0, now - timer.startedAt) : 0);
+}
+
+/**
+ * 3725000 -> "1:02:05"
+ */
+export function formatElapsed(ms: number): string {
+    const totalSeconds = Math.floor(ms / 1000);
+    const hours = Math.floor(totalSeconds / 3600);
+    const minutes = Math.floor((totalSeconds % 3600) / 60);
+    const seconds = totalSeconds % 60;
+    return `${hours}:${pad(minutes)}:${pad(seconds)}`;
+}
+
+async function openSession(userId: string, template: SessionTimerTemplate, now: Date, dayStartHour: number) {
+    const date = getLogicalDateString(now, dayStartHour);
+    const session = await repositories.sessions.insert({
+        ...template,
+        user_id: userId,
+        date,
+        start_time: getZonedDateTime(now).time,
+        end_time: '',
+        created_at: now.toISOString()
+    });
+    return { sessionId: session.id as RowId, date };
+}
+
+/**
+ * Close the open session at `now`, splitting it at each logical day boundary
+ * it crossed. Returns the sessions that were closed.
+ */
+async function closeSession(timer: SessionTimer, now: Date, dayStartHour: number): Promise<Row[]> {
+    if (timer.sessionId === null) return [];
+
+    const open = await repositories.sessions.get(timer.sessionId);
+    if (!open) return []; // Deleted from the table while the timer ran
+
+    const dayStart = `${pad(dayStartHour)}:00`;
+    const closed: Row[] = [];
+    let current = open;
+
+    for (;;) {
+        const boundary = zonedTimeToDate(nextDay(current.date), dayStart);
+        if (now < boundary) {
+            closed.push(await repositories.sessions.update(current.id, { end_time: getZonedDateTime(now).time }));
+            return closed;
+        }
+
+        closed.push(await repositories.sessions.update(current.id, { end_time: dayStart }));
+        current = await repositories.sessions.insert({
+            user_id: current.user_id,
+            date: nextDay(current.date),
+            task_id: current.task_id,
+            custom_name: current.custom_name,
+            category: current.category,
+            category_type: current.category_type,
+            description: current.description,
+            start_time: dayStart,
+            end_time: '',
+            created_at: boundary.toISOString()
+        });
+    }
+}
+
+// The open session may have been edited in the table: carry its current fields over
+const templateFrom = (session: Row | undefined, fallback: SessionTimerTemplate): SessionTimerTemplate =>
+    session
+        ? {
+            task_id: session.task_id ?? null,
+            custom_name: session.custom_name || '',
+            category: session.category,
+            category_type: session.category_type,
+            description: session.description || ''
+        }
+        : fallback;
+
+export async function startSessionTimer(userId: string, template: SessionTimerTemplate, dayStartHour: number): Promise<SessionTimer> {
+    const existing = await getSessionTimer();
+    if (existing) throw new Error('A timer is already running.');
+
+    const now = new Date();
+    const { sessionId, date } = await openSession(userId, template, now, dayStartHour);
+    const timer: SessionTimer = { sessionId, date, startedAt: now.getTime(), accumulatedMs: 0, template };
+    await saveSessionTimer(timer);
+    return timer;
+}
+
+export async function pauseSessionTimer(dayStartHour: number): Promise<Row[]> {
+    const timer = await getSessionTimer();
+    if (!timer || timer.startedAt === null) return [];
+
+    const now = new Date();
+    const closed = await closeSession(timer, now, dayStartHour);
+    await saveSessionTimer({
+        ...timer,
+        sessionId: null,
+        startedAt: null,
+        accumulatedMs: getElapsedMs(timer, now.getTime()),
+        template: templateFrom(closed[closed.length - 1], timer.template)
+    });
+    return closed;
+}
+
+export async function resumeSessionTimer(userId: string, dayStartHour: number): Promise<void> {
+    const timer = await getSessionTimer();
+    if (!timer || timer.startedAt !== null) return;
+
+    const now = new Date();
+    const { sessionId, date } = await openSession(userId, timer.template, now, dayStartHour);
+    await saveSessionTimer({ ...timer, sessionId, date, startedAt: now.getTime() });
+}
+
+export async function stopSessionTimer(dayStartHour: number): Promise<Row[]> {
+    const timer = await getSessionTimer();
+    if (!timer) return [];
+
+    const closed = await closeSession(timer, new Date(), dayStartHour);
+    await saveSessionTimer(null);
+    return closed;
+}
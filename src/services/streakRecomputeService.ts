@@ -0,0 +1,217 @@
+import { repositories, type RowId } from '@/repositories';
+import { fetchChainTasks, fetchStreakSchedule } from '@/lib/streakCalculator';
+import { fetchTemplates, toTaskTemplateId } from '@/services/templateService';
+import { toCsv } from '@/utils/csv';
+import { getToday } from '@/utils/dateUtils';
+import { getStreakSeries, type StreakCounts } from '@/utils/streakEngine';
+
+/**
+ * Streak Recompute Service - Rewrite stored streaks in bulk
+ *
+ * A job recomputes the streaks of every template (or the selected ones)
+ * through the streak engine, in two steps:
+ *   1. plan:  walk each template's whole history and list the tasks whose
+ *             stored streaks differ; nothing is written
+ *   2. apply: once the report was reviewed, write the changed values
+ *
+ * The job lives outside React so it keeps running when its dialog is
+ * closed; components follow it through subscribeStreakRecompute. Each step
+ * can be cancelled between templates / batches.
+ */
+
+export interface StreakRecomputeOptions {
+    templateIds?: number[]; // Unset: every template
+    from?: string; // Only tasks in this range are rewritten; earlier days still count
+    to?: string;
+}
+
+export interface StreakChange {
+    taskId: RowId;
+    template: string;
+    date: string;
+    progress: number;
+    before: StreakCounts;
+    after: StreakCounts;
+}
+
+export interface StreakRecomputeReport {
+    options: StreakRecomputeOptions;
+    createdAt: string;
+    templates: number;
+    checked: number; // Tasks in the range
+    changes: StreakChange[];
+}
+
+export type StreakRecomputeStatus = 'idle' | 'planning' | 'review' | 'applying' | 'done' | 'cancelled' | 'error';
+
+export interface StreakRecomputeState {
+    status: StreakRecomputeStatus;
+    open: boolean; // Whether the tool is shown
+    options: StreakRecomputeOptions;
+    done: number;
+    total: number;
+    current?: string; // Template being planned
+    report?: StreakRecomputeReport;
+    applied: number;
+    error?: string;
+}
+
+const APPLY_BATCH_SIZE = 20;
+
+let state: StreakRecomputeState = { status: 'idle', open: false, options: {}, done: 0, total: 0, applied: 0 };
+let controller: AbortController | null = null;
+const listeners = new Set<(state: StreakRecomputeState) => void>();
+
+const setState = (changes: Partial<StreakRecomputeState>) => {
+    state = { ...state, ...changes };
+    listeners.forEach(listener => listener(state));
+};
+
+export const getStreakRecomputeState = () => state;
+
+export function subscribeStreakRecompute(listener: (state: StreakRecomputeState) => void): () => void {
+    listeners.add(listener);
+    return () => { listeners.delete(listener); };
+}
+
+export const isStreakRecomputeRunning = () => state.status === 'planning' || state.status === 'applying';
+
+/**
+ * Show the tool; a running job is shown as it is, otherwise it starts over
+ * with the given options (e.g. the template whose schedule just changed)
+ */
+export function openStreakRecompute(options: StreakRecomputeOptions = {}): void {
+    if (isStreakRecomputeRunning() || state.status === 'review') {
+        setState({ open: true });
+        return;
+    }
+    setState({ status: 'idle', open: true, options, done: 0, total: 0, current: undefined, report: undefined, applied: 0, error: undefined });
+}
+
+export const closeStreakRecompute = () => setState({ open: false });
+
+export const cancelStreakRecompute = () => controller?.abort();
+
+// Back to the options of the last run
+export function resetStreakRecompute(): void {
+    if (isStreakRecomputeRunning()) return;
+    setState({ status: 'idle', done: 0, total: 0, current: undefined, report: undefined, applied: 0, error: undefined });
+}
+
+const inRange = (date: string, { from, to }: StreakRecomputeOptions) => (!from || date >= from) && (!to || date <= to);
+
+export async function startStreakRecompute(userId: string, options: StreakRecomputeOptions): Promise<void> {
+    if (!userId || isStreakRecomputeRunning()) return;
+    controller = new AbortController();
+    const { signal } = controller;
+
+    setState({ status: 'planning', options, done: 0, total: 0, current: undefined, report: undefined, applied: 0, error: undefined });
+
+    try {
+        const templates = (await fetchTemplates(userId))
+            .filter(t => t.id && (!options.templateIds || options.templateIds.includes(t.id)));
+        setState({ total: templates.length });
+
+        const today = getToday();
+        const changes: StreakChange[] = [];
+        let checked = 0;
+
+        for (const [index, template] of templates.entries()) {
+            if (signal.aborted) {
+                setState({ status: 'cancelled', current: undefined });
+                return;
+            }
+            setState({ current: template.name });
+
+            const taskTemplateId = toTaskTemplateId(template.id!);
+            const [schedule, tasks] = await Promise.all([
+                fetchStreakSchedule(taskTemplateId),
+                fetchChainTasks(userId, taskTemplateId, template.name)
+            ]);
+            const series = getStreakSeries(schedule, tasks, today);
+
+            // Series and tasks are both oldest first
+            tasks.forEach((task, i) => {
+                if (!inRange(task.date, options)) return;
+                checked++;
+                const after = series[i];
+                if (task.achiever_strike === after.achiever && task.fighter_strike === after.fighter) return;
+                changes.push({
+                    taskId: task.id,
+                    template: template.name,
+                    date: task.date,
+                    progress: task.progress || 0,
+                    before: { achiever: task.achiever_strike || 0, fighter: task.fighter_strike || 0 },
+                    after: { achiever: after.achiever, fighter: after.fighter }
+                });
+            });
+
+            setState({ done: index + 1 });
+        }
+
+        setState({
+            status: 'review',
+            current: undefined,
+            report: { options, createdAt: new Date().toISOString(), templates: templates.length, checked, changes }
+        });
+    } catch (error) {
+        console.error('Streak recompute failed', error);
+        setState({ status: 'error', current: undefined, error: (error as Error).message });
+    } finally {
+        controller = null;
+    }
+}
+
+/**
+ * Write the reviewed report. Cancelling keeps what was written so far.
+ */
+export async function applyStreakRecompute(): Promise<void> {
+    const { report } = state;
+    if (state.status !== 'review' || !report) return;
+    controller = new AbortController();
+    const { signal } = controller;
+
+    setState({ status: 'applying', done: 0, total: report.changes.length, applied: 0 });
+
+    try {
+        const updatedAt = new Date().toISOString();
+        for (let i = 0; i < report.changes.length; i += APPLY_BATCH_SIZE) {
+            if (signal.aborted) {
+                setState({ status: 'cancelled' });
+                return;
+            }
+            const batch = report.changes.slice(i, i + APPLY_BATCH_SIZE);
+            await Promise.all(batch.map(change => repositories.tasks.update(change.taskId, {
+                achiever_strike: change.after.achiever,
+                fighter_strike: change.after.fighter,
+                updated_at: updatedAt
+            })));
+            setState({ done: i + batch.length, applied: i + batch.length });
+        }
+        setState({ status: 'done' });
+    } catch (error) {
+        console.error('Writing recomputed streaks failed', error);
+        setState({ status: 'error', error: (error as Error).message });
+    } finally {
+        controller = null;
+    }
+}
+
+const REPORT_HEADERS = [
+    'Date', 'Template', 'Progress (%)', 'Achiever Before', 'Achiever After', 'Fighter Before', 'Fighter After'
+];
+
+export function streakReportCsv(report: StreakRecomputeReport): string {
+    return toCsv(REPORT_HEADERS, report.changes.map(change => [
+        change.date,
+        change.template,
+        change.progress,
+        change.before.achiever,
+        change.after.achiever,
+        change.before.fighter,
+        change.after.fighter
+    ]));
+}
+
+export const streakReportFilename = (report: StreakRecomputeReport) =>
+    `daily-tracker-streak-recompute-${report.createdAt.slice(0, 10)}.csv`;
@@ -0,0 +1,48 @@
+import 'fake-indexeddb/auto';
+import { beforeEach, describe, expect, it } from 'vitest';
+import { db } from '@/lib/db';
+import { createDexieRepository } from '@/repositories/dexieRepository';
+import { discard, enqueue, getLastUploadError, markFailed } from './syncOutbox';
+
+const tasks = createDexieRepository('tasks');
+
+const addTask = async (name: string) => {
+    const task = await tasks.insert({ date: '2026-10-19', name, status: 'lagging', target_time: 60, progress: 0 });
+    return Number(task!.id);
+};
+
+beforeEach(async () => {
+    await db.syncOutbox.clear();
+    await db.tasks.clear();
+});
+
+describe('sync outbox', () => {
+    it('reports the last failed upload', async () => {
+        const id = await addTask('Read');
+        await enqueue('tasks', [id]);
+        await markFailed('tasks', [id], 'duplicate key value');
+
+        expect(await getLastUploadError()).toBe('duplicate key value');
+        expect((await db.tasks.get(id))?.syncStatus).toBe('error');
+    });
+
+    it('forgets the failure of a discarded row', async () => {
+        const id = await addTask('Read');
+        await markFailed('tasks', [id], 'duplicate key value');
+        await discard('tasks', [id]);
+
+        expect(await getLastUploadError()).toBeUndefined();
+    });
+
+    it('drops the entries of rows deleted locally', async () => {
+        const [read, write] = [await addTask('Read'), await addTask('Write')];
+        await markFailed('tasks', [read], 'first failure');
+        await markFailed('tasks', [write], 'second failure');
+
+        await tasks.remove(write);
+        expect(await getLastUploadError()).toBe('first failure');
+
+        await tasks.removeWhere({ name: 'Read' });
+        expect(await db.syncOutbox.count()).toBe(0);
+    });
+});
@@ -0,0 +1,132 @@
+import { db, SYNC_TABLES, type SyncOutboxEntry, type SyncTableName } from '@/lib/db';
+
+/**
+ * Sync Outbox - Upload queue for SyncManager
+ *
+ * Every row with syncStatus 'pending' or 'error' is waiting to be uploaded.
+ * The outbox table keeps the upload state of those rows across reloads:
+ * - enqueue: a row gets an entry the first time a sync tries to push it
+ * - failure: attempts++, the row is marked 'error' and retried after an
+ *            exponential backoff (30s, 1m, 2m ... capped at 30m)
+ * - success: the entry is removed
+ * - delete:  the entry is removed with its row (deleted locally, or pruned
+ *            after a remote delete), so its last failure isn't reported
+ */
+
+// Rows per upsert request
+export const OUTBOX_BATCH_SIZE = 50;
+
+const BASE_RETRY_MS = 30 * 1000;
+const MAX_RETRY_MS = 30 * 60 * 1000;
+
+export const retryDelay = (attempts: number) =>
+    Math.min(BASE_RETRY_MS * 2 ** Math.max(attempts - 1, 0), MAX_RETRY_MS);
+
+/**
+ * Add queued rows to the outbox (rows already in it keep their retry state)
+ */
+export async function enqueue(table: SyncTableName, localIds: number[]): Promise<void> {
+    if (localIds.length === 0) return;
+
+    await db.transaction('rw', db.syncOutbox, async () => {
+        const existing = await db.syncOutbox
+            .where('[table+localId]')
+            .anyOf(localIds.map(id => [table, id]))
+            .toArray();
+        const known = new Set(existing.map(entry => entry.localId));
+
+        await db.syncOutbox.bulkAdd(
+            localIds
+                .filter(id => !known.has(id))
+                .map(localId => ({ table, localId, attempts: 0, nextAttemptAt: 0 }))
+        );
+    });
+}
+
+/**
+ * Ids of rows still backing off after a failed upload
+ */
+export async function getBackingOff(table: SyncTableName, now = Date.now()): Promise<Set<number>> {
+    const waiting = await db.syncOutbox
+        .where('nextAttemptAt')
+        .above(now)
+        .filter(entry => entry.table === table)
+        .toArray();
+    return new Set(waiting.map(entry => entry.localId));
+}
+
+async function removeEntries(table: SyncTableName, localIds: number[]): Promise<void> {
+    if (localIds.length === 0) return;
+
+    await db.syncOutbox
+        .where('[table+localId]')
+        .anyOf(localIds.map(id => [table, id]))
+        .delete();
+}
+
+/**
+ * Remove uploaded rows from the outbox
+ */
+export const markUploaded = removeEntries;
+
+/**
+ * Remove deleted rows from the outbox: there is nothing left to upload
+ */
+export const discard = removeEntries;
+
+/**
+ * Record a failed upload: schedule the retry and mark the rows 'error'
+ */
+export async function markFailed(table: SyncTableName, localIds: number[], reason: string): Promise<void> {
+    if (localIds.length === 0) return;
+
+    const rows = db.table(table);
+
+    await db.transaction('rw', db.syncOutbox, rows, async () => {
+        for (const localId of localIds) {
+            const entry = await db.syncOutbox.where({ table, localId }).first();
+            const attempts = (entry?.attempts || 0) + 1;
+            const update: Omit<SyncOutboxEntry, 'id'> = {
+                table,
+                localId,
+                attempts,
+                nextAttemptAt: Date.now() + retryDelay(attempts),
+                lastError: reason,
+                lastAttemptAt: new Date()
+            };
+
+            if (entry) await db.syncOutbox.update(entry.id!, update);
+            else await db.syncOutbox.add(update);
+
+            await rows.update(localId, { syncStatus: 'error' });
+        }
+    });
+}
+
+/**
+ * Number of local changes not uploaded yet (pending or failed)
+ */
+export async function getQueueDepth(): Promise<number> {
+    const counts = await Promise.all(
+        SYNC_TABLES.map(table =>
+            db.table(table).where('syncStatus').anyOf('pending', 'error').count()
+        )
+    );
+    return counts.reduce((sum, count) => sum + count, 0);
+}
+
+/**
+ * Reason of the most recent failed upload still waiting for a retry
+ */
+export async function getLastUploadError(): Promise<string | undefined> {
+    const latest = await db.syncOutbox.orderBy('lastAttemptAt').reverse().first();
+    return latest?.lastError;
+}
+
+/**
+ * When the next backed-off upload becomes due (epoch ms)
+ */
+export async function getNextRetryAt(): Promise<number | undefined> {
+    const next = await db.syncOutbox.where('nextAttemptAt').above(Date.now()).first();
+    return next?.nextAttemptAt;
+}
@@ -0,0 +1,43 @@
+import { calculateDuration } from '@/lib/db';
+import { calculateStreakForTask } from '@/lib/streakCalculator';
+import { repositories, type Row, type RowId } from '@/repositories';
+import { getTaskProgress } from '@/utils/checklist';
+
+/**
+ * Task Progress Service - Recompute a task's progress and streaks from the
+ * sessions linked to it, the same way calculateTaskProgress does for the
+ * local database: logged minutes on the task's day / target minutes, or the
+ * checked part of its checklist when the task counts that instead.
+ */
+export async function recalculateTaskProgress(userId: string, taskId: RowId): Promise<Row | null> {
+    const task = await repositories.tasks.get(taskId);
+    if (!task) return null;
+
+    const taskSessions = await repositories.sessions.list({
+        where: { task_id: taskId, date: task.date, user_id: userId }
+    });
+    const totalMinutes = taskSessions.reduce((sum, s) => sum + calculateDuration(s.start_time, s.end_time), 0);
+
+    const progressPercent = getTaskProgress({
+        targetTime: task.target_time,
+        progressMode: task.progress_mode,
+        checklist: task.checklist
+    }, totalMinutes);
+
+    console.log(`♻️ Syncing Task ${taskId}: ${totalMinutes}m / ${task.target_time}m = ${progressPercent}%`);
+
+    const streaks = await calculateStreakForTask(
+        userId,
+        task.template_id,
+        task.date,
+        progressPercent,
+        task.name
+    );
+
+    return repositories.tasks.update(taskId, {
+        progress: progressPercent,
+        achiever_strike: streaks.achiever_strike,
+        fighter_strike: streaks.fighter_strike,
+        updated_at: new Date().toISOString()
+    });
+}
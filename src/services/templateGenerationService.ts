@@ -0,0 +1,178 @@
+import { repositories, type Row } from '@/repositories';
+import { fetchStreakSchedule } from '@/lib/streakCalculator';
+import { fetchTemplates, toTaskTemplateId, type TaskTemplate } from '@/services/templateService';
+import { copyChecklist } from '@/utils/checklist';
+import { getCurrentTime, getLogicalDateString } from '@/utils/dateUtils';
+import { getRecurrenceRule, getWeekRange, isScheduledOn, shiftDate } from '@/utils/recurrence';
+import { toLogicalMinutes } from '@/utils/sessionValidation';
+import { meetsAchiever } from '@/utils/streakEngine';
+
+/**
+ * Template Generation Service - Create each day's tasks from the active templates
+ *
+ * A template gets at most one task per day, keyed by template ID + date:
+ *   - the task's client_id is derived from that key, and client_id is unique
+ *     (in Supabase and in Dexie), so two tabs or devices generating the same
+ *     day at once end up with one task; the loser's insert is skipped
+ *   - a task already on that day (added by hand from PlanningTable, or made
+ *     by the old name-based generator) counts as generated
+ *   - the template remembers the last day it was generated for
+ *     (generated_through), so a deleted task is not brought back
+ *
+ * Days are logical days (dayStartHour). Today's task waits until the
+ * template's addAtTime; days missed while the app was closed are backfilled,
+ * up to MAX_BACKFILL_DAYS back. "X times a week" templates are only
+ * generated for today, while the week's quota isn't met.
+ */
+
+export interface TemplateGenerationResult {
+    created: Row[];
+    dates: string[]; // Days that got new tasks
+}
+
+const MAX_BACKFILL_DAYS = 14;
+const LOCK_NAME = 'template-generation';
+
+const listeners = new Set<(result: TemplateGenerationResult) => void>();
+
+// Called after a run that created tasks; returns the unsubscribe function
+export function subscribeTemplateGeneration(listener: (result: TemplateGenerationResult) => void): () => void {
+    listeners.add(listener);
+    return () => { listeners.delete(listener); };
+}
+
+/**
+ * Deterministic uuid (version 8, custom) of a string: four seeded 32-bit
+ * FNV-1a hashes. Not cryptographic; it only has to be stable and unique
+ * enough to tell one template day from another.
+ */
+function hashUuid(key: string): string {
+    const hex = [0, 1, 2, 3].map(seed => {
+        const input = `${seed}:${key}`;
+        let hash = 0x811c9dc5;
+        for (let i = 0; i < input.length; i++) {
+            hash ^= input.charCodeAt(i);
+            hash = Math.imul(hash, 0x01000193);
+        }
+        return (hash >>> 0).toString(16).padStart(8, '0');
+    }).join('');
+    const variant = ((parseInt(hex[16], 16) & 0x3) | 0x8).toString(16);
+    return `${hex.slice(0, 8)}-${hex.slice(8, 12)}-8${hex.slice(13, 16)}-${variant}${hex.slice(17, 20)}-${hex.slice(20)}`;
+}
+
+// The client_id of a template's task on a day (templateId as on tasks: see toTaskTemplateId)
+export const templateTaskClientId = (userId: string, templateId: string, date: string) =>
+    hashUuid(`${userId}:${templateId}:${date}`);
+
+// Unique violation: Postgres 23505, Dexie ConstraintError
+export const isDuplicate = (error: unknown) =>
+    (error as { code?: string })?.code === '23505' || (error as Error)?.name === 'ConstraintError';
+
+const daysBetween = (from: string, to: string) => {
+    const days: string[] = [];
+    for (let date = from; date <= to; date = shiftDate(date, 1)) days.push(date);
+    return days;
+};
+
+// Whether the template's task belongs to this day yet
+const isAddTimeReached = (template: TaskTemplate, dayStartHour: number, now: string) =>
+    !template.addAtTime || toLogicalMinutes(template.addAtTime, dayStartHour) <= toLogicalMinutes(now, dayStartHour);
+
+const isTemplateTask = (task: Row, template: TaskTemplate) => task.template_id
+    ? task.template_id === toTaskTemplateId(template.id!)
+    : task.name === template.name;
+
+async function weeklyQuotaMet(template: TaskTemplate, weekTasks: Row[], today: string): Promise<boolean> {
+    const rule = getRecurrenceRule(template);
+    const schedule = await fetchStreakSchedule(toTaskTemplateId(template.id!));
+    const met = weekTasks.filter(task => task.date !== today && meetsAchiever(schedule, task.progress || 0)).length;
+    return met >= (rule.timesPerWeek || 1);
+}
+
+async function generate(userId: string, dayStartHour: number): Promise<TemplateGenerationResult> {
+    const today = getLogicalDateString(new Date(), dayStartHour);
+    const now = getCurrentTime();
+    const floor = shiftDate(today, -MAX_BACKFILL_DAYS);
+    const week = getWeekRange(today);
+
+    // Days each template still needs, oldest first
+    const plans = (await fetchTemplates(userId))
+        .filter(template => template.id && template.isActive)
+        .map(template => {
+            // A template never generated before starts today
+            const from = template.generatedThrough ? shiftDate(template.generatedThrough, 1) : today;
+            const until = isAddTimeReached(template, dayStartHour, now) ? today : shiftDate(today, -1);
+            return { template, from: from < floor ? floor : from, until };
+        })
+        .filter(plan => plan.from <= plan.until);
+
+    const result: TemplateGenerationResult = { created: [], dates: [] };
+    if (plans.length === 0) return result;
+
+    const rangeStart = plans.reduce((start, plan) => (plan.from < start ? plan.from : start), week.start);
+    const tasks = await repositories.tasks.list({
+        where: { user_id: userId },
+        ranges: [{ column: 'date', gte: rangeStart, lte: today }]
+    });
+
+    for (const { template, from, until } of plans) {
+        const rule = getRecurrenceRule(template);
+        const own = tasks.filter(task => isTemplateTask(task, template));
+        let dates = daysBetween(from, until).filter(date => isScheduledOn(rule, date));
+
+        if (rule.freq === 'weekly_count') {
+            const weekTasks = own.filter(task => task.date >= week.start && task.date <= week.end);
+            dates = dates.includes(today) && !(await weeklyQuotaMet(template, weekTasks, today)) ? [today] : [];
+        }
+
+        for (const date of dates) {
+            if (own.some(task => task.date === date)) continue;
+
+            const timestamp = new Date().toISOString();
+            try {
+                result.created.push(await repositories.tasks.insert({
+                    client_id: templateTaskClientId(userId, toTaskTemplateId(template.id!), date),
+                    user_id: userId,
+                    date,
+                    name: template.name,
+                    status: 'lagging',
+                    priority: template.priority || null,
+                    target_time: template.targetTime || 60,
+                    description: template.description || '',
+                    completed_description: '',
+                    progress: 0,
+                    checklist: copyChecklist(template.checklist),
+                    template_id: toTaskTemplateId(template.id!),
+                    achiever_strike: 0,
+                    fighter_strike: 0,
+                    created_at: timestamp,
+                    updated_at: timestamp
+                }));
+                if (!result.dates.includes(date)) result.dates.push(date);
+            } catch (error) {
+                if (!isDuplicate(error)) throw error;
+                // Another tab or device generated it first
+            }
+        }
+
+        await repositories.task_templates.update(template.id!, { generated_through: until });
+    }
+
+    return result;
+}
+
+/**
+ * Create the tasks of every active template up to the current logical day.
+ * Returns null when another tab of this browser is already generating.
+ */
+export async function generateTemplateTasks(userId: string, dayStartHour: number): Promise<TemplateGenerationResult | null> {
+    const run = async () => {
+        const result = await generate(userId, dayStartHour);
+        if (result.created.length > 0) listeners.forEach(listener => listener(result));
+        return result;
+    };
+
+    // One tab at a time; the unique client_id still covers other devices
+    if (!navigator.locks) return run();
+    return navigator.locks.request(LOCK_NAME, { ifAvailable: true }, lock => (lock ? run() : null));
+}
@@ -1,4 +1,4 @@
-import { supabase } from '@/lib/supabase';
+import { repositories, type Row, type RowId } from '@/repositories';
 import { RepeatingTask } from '@/lib/db';
 
 // Re-using RepeatingTask interface but extending for DB fields if needed
@@ -29,21 +29,23 @@ export interface TaskBundleItem {
  * TEMPLATES CRUD
  */
 export const fetchTemplates = async (userId: string) => {
-    const { data, error } = await supabase
-        .from('task_templates')
-        .select('*')
-        .eq('user_id', userId)
-        .order('created_at', { ascending: true });
-
-    if (error) throw error;
+    const data = await repositories.task_templates.list({
+        where: { user_id: userId },
+        orderBy: 'created_at'
+    });
 
     // Map DB fields to RepeatingTask interface if needed (snake_case to camelCase)
     return data.map(t => ({
         ...t,
         targetTime: t.target_time,
         repeatPattern: t.repeat_pattern,
+        repeatDays: t.repeat_days || undefined,
+        addAtTime: t.add_at_time || undefined,
+        generatedThrough: t.generated_through || undefined,
         isActive: t.is_active,
-        isDefault: t.is_default
+        isDefault: t.is_default,
+        streakProtection: t.streak_protection || null,
+        createdAt: t.created_at
     })) as TaskTemplate[];
 };
 
@@ -59,19 +61,17 @@ export const createTemplate = async (template: Partial<TaskTemplate>) => {
         category: template.category,
         description: template.description,
         repeat_pattern: template.repeatPattern,
+        repeat_days: template.repeatDays || null,
+        add_at_time: template.addAtTime || null,
+        recurrence: template.recurrence || null,
+        streak_protection: template.streakProtection || null,
         is_active: template.isActive,
         is_default: template.isDefault,
+        checklist: template.checklist || [],
         // Add gamification fields if they exist in schema, else ignore
     };
 
-    const { data, error } = await supabase
-        .from('task_templates')
-        .insert(dbPayload)
-        .select()
-        .single();
-
-    if (error) throw error;
-    return data;
+    return repositories.task_templates.insert(dbPayload);
 };
 
 export const updateTemplate = async (id: number, updates: Partial<TaskTemplate>) => {
@@ -79,6 +79,10 @@ export const updateTemplate = async (id: number, updates: Partial<TaskTemplate>)
     if (updates.name !== undefined) dbPayload.name = updates.name;
     if (updates.targetTime !== undefined) dbPayload.target_time = updates.targetTime;
     if (updates.repeatPattern !== undefined) dbPayload.repeat_pattern = updates.repeatPattern;
+    if (updates.repeatDays !== undefined) dbPayload.repeat_days = updates.repeatDays || null;
+    if (updates.addAtTime !== undefined) dbPayload.add_at_time = updates.addAtTime || null;
+    if (updates.recurrence !== undefined) dbPayload.recurrence = updates.recurrence;
+    if (updates.streakProtection !== undefined) dbPayload.streak_protection = updates.streakProtection;
     if (updates.isActive !== undefined) dbPayload.is_active = updates.isActive;
     if (updates.isDefault !== undefined) dbPayload.is_default = updates.isDefault; // Fixed bug here too if it was missing before or just consistent
 
@@ -88,46 +92,51 @@ export const updateTemplate = async (id: number, updates: Partial<TaskTemplate>)
     if (updates.priority !== undefined) dbPayload.priority = updates.priority;
     if (updates.color !== undefined) dbPayload.color = updates.color;
     if (updates.icon !== undefined) dbPayload.icon = updates.icon;
+    if (updates.checklist !== undefined) dbPayload.checklist = updates.checklist;
 
 
-    const { data, error } = await supabase
-        .from('task_templates')
-        .update(dbPayload)
-        .eq('id', id)
-        .select()
-        .single();
+    return repositories.task_templates.update(id, dbPayload);
+};
 
-    if (error) throw error;
-    return data;
+/**
+ * The template_id tasks made from a cloud template carry (see fetchTemplateForTask)
+ */
+export const toTaskTemplateId = (templateId: RowId) =>
+    `ffffffff-ffff-ffff-ffff-${String(templateId).padStart(12, '0')}`;
+
+/**
+ * The template a task was created from. Tasks made in PlanningTable point at
+ * cloud templates with a uuid-shaped id (ffffffff-ffff-ffff-ffff-<id>), so
+ * the numeric id is read back out of it when the plain lookup finds nothing.
+ */
+export const fetchTemplateForTask = async (templateId: RowId): Promise<Row | null> => {
+    const template = await repositories.repeating_tasks.get(templateId).catch(() => null);
+    if (template) return template;
+
+    const cloudId = String(templateId).match(/^ffffffff-ffff-ffff-ffff-(\d{12})$/);
+    if (!cloudId) return null;
+    return repositories.task_templates.get(Number(cloudId[1])).catch(() => null);
 };
 
 export const deleteTemplate = async (id: number) => {
-    const { error } = await supabase
-        .from('task_templates')
-        .delete()
-        .eq('id', id);
-
-    if (error) throw error;
+    await repositories.task_templates.remove(id);
 };
 
 /**
  * BUNDLES CRUD
  */
 export const fetchBundles = async (userId: string) => {
-    const { data, error } = await supabase
-        .from('task_bundles')
-        .select(`
-            *,
-            items:task_bundle_items(
-                *,
-                template:task_templates(*)
-            )
-        `)
-        .eq('user_id', userId)
-        .order('created_at', { ascending: true });
-
-    if (error) throw error;
-    if (error) throw error;
+    const data = await repositories.task_bundles.list({
+        include: [{
+            as: 'items',
+            table: 'task_bundle_items',
+            foreignKey: 'bundle_id',
+            many: true,
+            include: [{ as: 'template', table: 'task_templates', foreignKey: 'template_id', many: false }]
+        }],
+        where: { user_id: userId },
+        orderBy: 'created_at'
+    });
 
     // Process the data to map nested template fields to camelCase
     return data.map(bundle => ({
@@ -143,18 +152,12 @@ export const fetchBundles = async (userId: string) => {
                 // Add other mapped fields if necessary, consistent with fetchTemplates
             } : null
         }))
-    }));
+    })) as TaskBundle[];
 };
 
 export const createBundle = async (userId: string, name: string, color: string, templateIds: number[]) => {
     // 1. Create Bundle
-    const { data: bundle, error: bundleError } = await supabase
-        .from('task_bundles')
-        .insert({ user_id: userId, name, color })
-        .select()
-        .single();
-
-    if (bundleError) throw bundleError;
+    const bundle = await repositories.task_bundles.insert({ user_id: userId, name, color });
 
     // 2. Create Bundle Items
     if (templateIds.length > 0) {
@@ -164,21 +167,13 @@ export const createBundle = async (userId: string, name: string, color: string,
             order_index: index
         }));
 
-        const { error: itemsError } = await supabase
-            .from('task_bundle_items')
-            .insert(itemsPayload);
-
-        if (itemsError) throw itemsError;
+        await repositories.task_bundle_items.insertMany(itemsPayload);
     }
 
     return bundle;
 };
 
 export const deleteBundle = async (id: number) => {
-    const { error } = await supabase
-        .from('task_bundles')
-        .delete()
-        .eq('id', id);
-
-    if (error) throw error;
+    await repositories.task_bundle_items.removeWhere({ bundle_id: id });
+    await repositories.task_bundles.remove(id);
 };
@@ -2,7 +2,7 @@
 import { cleanupOutdatedCaches, precacheAndRoute } from 'workbox-precaching';
 import { clientsClaim } from 'workbox-core';
 import { db } from './lib/db';
-import { getLogicalDateString } from './utils/dateUtils';
+import { getLogicalDateString, getZonedDateTime, setTimeZone, type TimeZoneChange } from './utils/dateUtils';
 
 declare let self: ServiceWorkerGlobalScope;
 
@@ -26,14 +26,20 @@ self.addEventListener('push', (event) => {
     // If you implemented push notifications later, this is where you'd handle them
 });
 
+// The app stores the user's timezone in Dexie for us (no localStorage in a worker)
+async function loadTimeZone() {
+    const preference = await db.preferences.get('timezone');
+    const value = preference?.value as { timeZone: string; history: TimeZoneChange[] } | undefined;
+    if (value?.timeZone) setTimeZone(value.timeZone, value.history);
+}
+
 async function checkRecentExecutionAndNotify() {
     try {
+        await loadTimeZone();
         const now = new Date();
-        // IST Timezone enforcement (simple offset check isn't enough, we rely on string parsing)
-        const istString = now.toLocaleString("en-US", { timeZone: "Asia/Kolkata", hour12: false });
-        const istNow = new Date(istString);
+        const zonedNow = getZonedDateTime(now);
 
-        // Calculate "Today" and "Yesterday" in IST terms to query DB
+        // Calculate "Today" and "Yesterday" in the user's timezone to query DB
         const todayStr = getLogicalDateString(now); // This defaults to startHour=0 which is fine for "Calendar Date"
 
         // We also check Yesterday because of the "Day Start Time" feature (e.g., 4 AM).
@@ -59,6 +65,11 @@ async function checkRecentExecutionAndNotify() {
             return;
         }
 
+        // A live timer is recording a session right now
+        if (allSessions.some(s => !!s.startTime && !s.endTime && !s.isDeleted)) {
+            return;
+        }
+
         const validSessions = allSessions.filter(s => !!s.endTime && !!s.startTime);
         if (validSessions.length === 0) {
             await showReminder();
@@ -80,8 +91,7 @@ async function checkRecentExecutionAndNotify() {
         };
 
         // Current time in continuous minutes
-        const currentH = istNow.getHours();
-        const currentM = istNow.getMinutes();
+        const [currentH, currentM] = zonedNow.time.split(':').map(Number);
         const currentContinuous = 1440 + (currentH * 60) + currentM;
 
         let covered = false;
@@ -0,0 +1,56 @@
+import { generateUuid, type ChecklistItem } from '@/lib/db';
+
+/**
+ * Checklist - Subtasks of a planned task and the progress they add up to
+ *
+ * A task counts either the time logged on it (default) or its checked items.
+ * Items with an estimate weigh by their minutes; items without one weigh as
+ * much as the average estimated item, or all the same when none has one.
+ */
+
+export type ProgressMode = 'time' | 'checklist';
+
+interface ProgressSource {
+    targetTime: number;
+    progressMode?: ProgressMode | null;
+    checklist?: ChecklistItem[] | null;
+}
+
+export const createChecklistItem = (title: string, estimate?: number): ChecklistItem => ({
+    id: generateUuid(),
+    title,
+    done: false,
+    ...(estimate ? { estimate } : {})
+});
+
+/**
+ * Fresh copy of a checklist: new ids, nothing checked (template -> task)
+ */
+export const copyChecklist = (items: ChecklistItem[] | null | undefined): ChecklistItem[] =>
+    (items || []).map(item => ({ ...item, id: generateUuid(), done: false }));
+
+// Minutes the checklist estimates in total, 0 when no item has an estimate
+export const getChecklistEstimate = (items: ChecklistItem[] | null | undefined): number =>
+    (items || []).reduce((sum, item) => sum + (item.estimate || 0), 0);
+
+export function getChecklistProgress(items: ChecklistItem[] | null | undefined): number {
+    if (!items?.length) return 0;
+
+    const estimated = items.filter(item => item.estimate && item.estimate > 0);
+    const fallback = estimated.length
+        ? estimated.reduce((sum, item) => sum + item.estimate!, 0) / estimated.length
+        : 1;
+    const weight = (item: ChecklistItem) => (item.estimate && item.estimate > 0 ? item.estimate : fallback);
+
+    const total = items.reduce((sum, item) => sum + weight(item), 0);
+    const done = items.filter(item => item.done).reduce((sum, item) => sum + weight(item), 0);
+    return Math.round((done / total) * 100);
+}
+
+/**
+ * Progress in % of a task given the minutes logged on it
+ */
+export function getTaskProgress({ targetTime, progressMode, checklist }: ProgressSource, loggedMinutes: number): number {
+    if (progressMode === 'checklist' && checklist?.length) return getChecklistProgress(checklist);
+    return targetTime > 0 ? Math.round((loggedMinutes / targetTime) * 100) : 0;
+}
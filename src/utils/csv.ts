@@ -0,0 +1,24 @@
+/**
+ * CSV helpers (RFC 4180) for spreadsheet exports
+ */
+
+type CsvValue = string | number | boolean | null | undefined;
+
+// Text starting with these is run as a formula by Excel / Sheets
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+const escapeCell = (value: CsvValue): string => {
+    if (value === null || value === undefined) return '';
+    let text = String(value);
+    if (typeof value === 'string' && FORMULA_PREFIX.test(text)) text = `'${text}`;
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/**
+ * Build a CSV document from a header row and data rows
+ */
+export function toCsv(headers: string[], rows: CsvValue[][]): string {
+    return [headers, ...rows]
+        .map(row => row.map(escapeCell).join(','))
+        .join('\r\n');
+}
@@ -1,104 +1,211 @@
 /**
- * IST (Indian Standard Time) Date Utilities
- * 
- * All functions in this file enforce Asia/Kolkata timezone to prevent timezone shift bugs.
- * The app is designed for users in India and always operates in IST, regardless of system timezone.
+ * Date Utilities - Dates in the user's timezone
+ *
+ * Day strings (YYYY-MM-DD) and session times (HH:mm) are wall-clock values in
+ * the user's timezone, a preference kept in UserPreferencesContext and pushed
+ * here with setTimeZone(). Date objects that stand for a day (selectedDate,
+ * calendar picks) are midnight in the browser's zone: only their year, month
+ * and day matter.
+ *
+ * Before the preference existed the app always ran in Asia/Kolkata, so days
+ * older than the first entry of the zone history were recorded in IST.
  */
 
+export const LEGACY_TIME_ZONE = 'Asia/Kolkata';
+
+export interface TimeZoneChange {
+    timeZone: string;
+    since: string; // YYYY-MM-DD, first day recorded in this zone
+}
+
 /**
- * Get current date in IST timezone as YYYY-MM-DD string
- * 
- * Example: If it's 2 AM on Dec 13 in India, returns "2025-12-13"
- * (Even if system timezone would say it's still Dec 12)
+ * The zone the browser (or service worker) runs in
  */
-export function getTodayIST(): string {
-    return new Date().toLocaleDateString("en-CA", {
-        timeZone: "Asia/Kolkata"
-    });
+export function getBrowserTimeZone(): string {
+    try {
+        return Intl.DateTimeFormat().resolvedOptions().timeZone || LEGACY_TIME_ZONE;
+    } catch {
+        return LEGACY_TIME_ZONE;
+    }
+}
+
+export function isValidTimeZone(timeZone: string): boolean {
+    try {
+        new Intl.DateTimeFormat('en-US', { timeZone });
+        return true;
+    } catch {
+        return false;
+    }
 }
 
 /**
- * Convert any Date object to YYYY-MM-DD string in IST timezone
- * 
- * @param date - JavaScript Date object
- * @returns YYYY-MM-DD string in IST
+ * Every IANA zone the browser knows, for the timezone picker
  */
-export function formatToIST(date: Date): string {
-    return date.toLocaleDateString("en-CA", {
-        timeZone: "Asia/Kolkata"
-    });
+export function getSupportedTimeZones(): string[] {
+    const intl = Intl as typeof Intl & { supportedValuesOf?: (key: 'timeZone') => string[] };
+    const zones = intl.supportedValuesOf?.('timeZone') || [];
+    // Older browsers can't list zones: offer at least the current ones
+    return zones.length > 0 ? zones : [...new Set([LEGACY_TIME_ZONE, getBrowserTimeZone(), 'UTC'])];
 }
 
+let activeTimeZone = getBrowserTimeZone();
+let timeZoneHistory: TimeZoneChange[] = [];
+
 /**
- * Get current time in IST as HH:mm string
- * 
- * @returns Current time in 24-hour format (e.g., "14:30")
+ * Set the user's timezone and the zones their past days were recorded in
  */
-export function getCurrentTimeIST(): string {
-    const now = new Date();
-    const istTime = now.toLocaleTimeString("en-GB", {
-        timeZone: "Asia/Kolkata",
-        hour12: false,
+export function setTimeZone(timeZone: string, history: TimeZoneChange[] = timeZoneHistory): void {
+    activeTimeZone = isValidTimeZone(timeZone) ? timeZone : getBrowserTimeZone();
+    timeZoneHistory = [...history].sort((a, b) => a.since.localeCompare(b.since));
+}
+
+export function getTimeZone(): string {
+    return activeTimeZone;
+}
+
+/**
+ * The zone a day's data was recorded in
+ *
+ * @param dateString - Day in YYYY-MM-DD format
+ */
+export function getTimeZoneForDate(dateString: string): string {
+    let zone = LEGACY_TIME_ZONE;
+    for (const change of timeZoneHistory) {
+        if (change.since > dateString) break;
+        zone = change.timeZone;
+    }
+    return zone;
+}
+
+const pad = (value: number) => value.toString().padStart(2, '0');
+
+/**
+ * Wall-clock date and time of an instant in a zone
+ *
+ * @returns { date: "2025-12-13", time: "14:30", hour: 14 }
+ */
+export function getZonedDateTime(instant: Date, timeZone: string = activeTimeZone) {
+    const parts = new Intl.DateTimeFormat('en-US', {
+        timeZone,
+        hourCycle: 'h23',
+        year: 'numeric',
+        month: '2-digit',
+        day: '2-digit',
         hour: '2-digit',
         minute: '2-digit'
-    });
-    return istTime;
+    }).formatToParts(instant);
+    const part = (type: Intl.DateTimeFormatPartTypes) => Number(parts.find(p => p.type === type)?.value);
+
+    const hour = part('hour') % 24;
+    return {
+        date: `${part('year')}-${pad(part('month'))}-${pad(part('day'))}`,
+        time: `${pad(hour)}:${pad(part('minute'))}`,
+        hour
+    };
 }
 
 /**
- * Parse a YYYY-MM-DD string and create a Date object representing that date in IST
- * 
- * @param dateString - Date string in YYYY-MM-DD format
- * @returns Date object at midnight IST for that date
+ * The instant a wall-clock time happened at, e.g. a session start
+ *
+ * @param dateString - Day in YYYY-MM-DD format
+ * @param time - HH:mm on that day
+ * @param timeZone - Defaults to the zone the day was recorded in
  */
-export function parseISTDate(dateString: string): Date {
-    // Create date in IST by using the date string with IST time component
+export function zonedTimeToDate(dateString: string, time: string, timeZone: string = getTimeZoneForDate(dateString)): Date {
     const [year, month, day] = dateString.split('-').map(Number);
+    const [hours, minutes] = time.split(':').map(Number);
+    const wallClock = Date.UTC(year, month - 1, day, hours, minutes);
+
+    // Offset of the zone at that moment; a second pass settles DST transitions
+    const offsetAt = (instant: number) => {
+        const zoned = getZonedDateTime(new Date(instant), timeZone);
+        const [zy, zm, zd] = zoned.date.split('-').map(Number);
+        const [zh, zmin] = zoned.time.split(':').map(Number);
+        return Date.UTC(zy, zm - 1, zd, zh, zmin) - instant;
+    };
+
+    let instant = wallClock - offsetAt(wallClock);
+    instant = wallClock - offsetAt(instant);
+    return new Date(instant);
+}
+
+/**
+ * Get current date in the user's timezone as YYYY-MM-DD string
+ *
+ * Example: If it's 2 AM on Dec 13 in the user's zone, returns "2025-12-13"
+ * (Even if the system timezone would say it's still Dec 12)
+ */
+export function getToday(): string {
+    return getZonedDateTime(new Date()).date;
+}
+
+/**
+ * Convert a day (Date object) to its YYYY-MM-DD string
+ *
+ * @param date - Midnight of the day in the browser's zone
+ * @returns YYYY-MM-DD string
+ */
+export function formatDateString(date: Date): string {
+    return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
 
-    // Create a date string that will be interpreted correctly
-    // Using ISO format with IST offset (+05:30)
-    const istOffset = '+05:30';
-    const isoString = `${dateString}T00:00:00${istOffset}`;
+/**
+ * Get current time in the user's timezone as HH:mm string
+ *
+ * @returns Current time in 24-hour format (e.g., "14:30")
+ */
+export function getCurrentTime(): string {
+    return getZonedDateTime(new Date()).time;
+}
 
-    return new Date(isoString);
+/**
+ * Parse a YYYY-MM-DD string into the Date object of that day
+ *
+ * @param dateString - Date string in YYYY-MM-DD format
+ * @returns Date object at midnight (browser zone) of that day
+ */
+export function parseDateString(dateString: string): Date {
+    const [year, month, day] = dateString.split('-').map(Number);
+    return new Date(year, month - 1, day);
 }
 
+const shiftDays = (dateString: string, days: number) => {
+    const date = parseDateString(dateString);
+    date.setDate(date.getDate() + days);
+    return formatDateString(date);
+};
+
 /**
- * Get date string for yesterday in IST
+ * Get date string for yesterday in the user's timezone
  */
-export function getYesterdayIST(): string {
-    const now = new Date();
-    const yesterday = new Date(now.getTime() - 24 * 60 * 60 * 1000);
-    return formatToIST(yesterday);
+export function getYesterday(): string {
+    return shiftDays(getToday(), -1);
 }
 
 /**
- * Get date string for tomorrow in IST
+ * Get date string for tomorrow in the user's timezone
  */
-export function getTomorrowIST(): string {
-    const now = new Date();
-    const tomorrow = new Date(now.getTime() + 24 * 60 * 60 * 1000);
-    return formatToIST(tomorrow);
+export function getTomorrow(): string {
+    return shiftDays(getToday(), 1);
 }
 
 /**
- * Check if a date string is today in IST
+ * Check if a date string is today in the user's timezone
  */
-export function isTodayIST(dateString: string): boolean {
-    return dateString === getTodayIST();
+export function isToday(dateString: string): boolean {
+    return dateString === getToday();
 }
 
 /**
- * Format a date for display in Indian format
- * 
+ * Format a date for display
+ *
  * @param date - Date object or YYYY-MM-DD string
  * @returns Formatted string like "13 Dec 2025"
  */
 export function formatDateForDisplay(date: Date | string): string {
-    const dateObj = typeof date === 'string' ? parseISTDate(date) : date;
+    const dateObj = typeof date === 'string' ? parseDateString(date) : date;
 
-    return dateObj.toLocaleDateString("en-IN", {
-        timeZone: "Asia/Kolkata",
+    return dateObj.toLocaleDateString("en-GB", {
         day: 'numeric',
         month: 'short',
         year: 'numeric'
@@ -108,38 +215,21 @@ export function formatDateForDisplay(date: Date | string): string {
 /**
  * Get the "logical" date based on a start hour offset.
  * If the current time (or given time) hour is < startHour, it belongs to the previous day.
- * 
+ *
  * @param date - The date/time to check (defaults to now)
  * @param startHour - The hour (0-23) when the day logically starts
- * @returns Date object normalized to midnight of the logical date in IST
+ * @returns Date object of the logical day (midnight, browser zone)
  */
 export function getLogicalDate(date: Date = new Date(), startHour: number = 0): Date {
-    // Clone to avoid mutating original
-    const workingDate = new Date(date);
-
-    // Get hour in IST 
-    // Optimization: Since we are in an IST environment context (per file header),
-    // and we want to perform simple hour subtraction, we can adjust the underlying time.
-
-    // However, to be safe with timezone boundaries:
-    // 1. Convert to IST time string to know the "apparent" wall clock time
-    const istString = workingDate.toLocaleString("en-US", { timeZone: "Asia/Kolkata", hour12: false });
-    const istDate = new Date(istString);
-
-    const currentHour = istDate.getHours();
-
-    // 2. Logic: If currentHour < startHour, subtract 1 day from the date
-    if (currentHour < startHour) {
-        workingDate.setTime(workingDate.getTime() - 24 * 60 * 60 * 1000);
-    }
-
-    // 3. Return the midnight version of this logical date
-    return parseISTDate(formatToIST(workingDate));
+    // Wall clock of that instant in the user's zone
+    const zoned = getZonedDateTime(date);
+    const logicalDay = zoned.hour < startHour ? shiftDays(zoned.date, -1) : zoned.date;
+    return parseDateString(logicalDay);
 }
 
 /**
  * Get the logical date string (YYYY-MM-DD)
  */
 export function getLogicalDateString(date: Date = new Date(), startHour: number = 0): string {
-    return formatToIST(getLogicalDate(date, startHour));
+    return formatDateString(getLogicalDate(date, startHour));
 }
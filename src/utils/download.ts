@@ -0,0 +1,17 @@
+/**
+ * Save generated content (backups, exports) as a file in the browser
+ */
+export function downloadFile(content: string, filename: string, mimeType: string): void {
+    const blob = new Blob([content], { type: mimeType });
+    const url = URL.createObjectURL(blob);
+
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = filename;
+    document.body.appendChild(link);
+    link.click();
+    link.remove();
+
+    // Give the browser a tick to start the download before releasing the blob
+    setTimeout(() => URL.revokeObjectURL(url), 0);
+}
@@ -0,0 +1,209 @@
+import { getTimeZone, isValidTimeZone, zonedTimeToDate } from './dateUtils';
+
+/**
+ * iCalendar (RFC 5545) helpers: just enough to write VEVENT / VTODO
+ * components and to read the events that Google Calendar and Outlook export.
+ */
+
+export interface IcsProperty {
+    name: string;
+    params: Record<string, string>;
+    value: string;
+}
+
+export interface IcsEvent {
+    uid: string;
+    summary: string;
+    description: string;
+    categories: string[];
+    start: Date;
+    end: Date;
+    allDay: boolean;
+}
+
+const MAX_LINE_OCTETS = 75;
+
+export const escapeIcsText = (text: string) =>
+    text
+        .replace(/\\/g, '\\\\')
+        .replace(/;/g, '\\;')
+        .replace(/,/g, '\\,')
+        .replace(/\r?\n/g, '\\n');
+
+export const unescapeIcsText = (text: string) =>
+    text.replace(/\\([\\;,nN])/g, (_, c: string) => (c === 'n' || c === 'N' ? '\n' : c));
+
+// Long lines are folded: CRLF followed by a space, at most 75 octets per line
+const foldLine = (line: string): string => {
+    const encoder = new TextEncoder();
+    if (encoder.encode(line).length <= MAX_LINE_OCTETS) return line;
+
+    const parts: string[] = [];
+    let current = '';
+    let octets = 0;
+    for (const char of line) {
+        const size = encoder.encode(char).length;
+        const limit = parts.length === 0 ? MAX_LINE_OCTETS : MAX_LINE_OCTETS - 1;
+        if (octets + size > limit) {
+            parts.push(current);
+            current = '';
+            octets = 0;
+        }
+        current += char;
+        octets += size;
+    }
+    parts.push(current);
+    return parts.join('\r\n ');
+};
+
+/** UTC time, e.g. 20261019T070000Z */
+export const formatIcsUtc = (date: Date) =>
+    date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+
+/**
+ * Build a VCALENDAR document. Each component is a list of "NAME[;PARAMS]:value"
+ * lines, already escaped, without BEGIN/END.
+ */
+export function buildCalendar(components: { type: 'VEVENT' | 'VTODO'; lines: string[] }[]): string {
+    const lines = [
+        'BEGIN:VCALENDAR',
+        'VERSION:2.0',
+        'PRODID:-//Daily Tracker//EN',
+        'CALSCALE:GREGORIAN',
+        ...components.flatMap(({ type, lines }) => [`BEGIN:${type}`, ...lines, `END:${type}`]),
+        'END:VCALENDAR'
+    ];
+    return lines.map(foldLine).join('\r\n') + '\r\n';
+}
+
+/**
+ * Unfold and split a document into its content lines
+ */
+export function parseIcsLines(text: string): IcsProperty[] {
+    const unfolded = text.replace(/\r\n/g, '\n').replace(/\n[ \t]/g, '');
+    const properties: IcsProperty[] = [];
+
+    for (const line of unfolded.split('\n')) {
+        if (!line.trim()) continue;
+
+        // The value starts at the first colon that is not inside a quoted parameter
+        let inQuotes = false;
+        let colon = -1;
+        for (let i = 0; i < line.length; i++) {
+            if (line[i] === '"') inQuotes = !inQuotes;
+            else if (line[i] === ':' && !inQuotes) {
+                colon = i;
+                break;
+            }
+        }
+        if (colon === -1) continue;
+
+        const [name, ...rawParams] = line.slice(0, colon).split(';');
+        const params: Record<string, string> = {};
+        for (const param of rawParams) {
+            const [key, ...rest] = param.split('=');
+            params[key.toUpperCase()] = rest.join('=').replace(/^"|"$/g, '');
+        }
+        properties.push({ name: name.toUpperCase(), params, value: line.slice(colon + 1) });
+    }
+
+    return properties;
+}
+
+/**
+ * Read a DATE or DATE-TIME value. UTC values (trailing Z) are exact; values
+ * with a TZID are read in that zone, and "floating" values without a zone in
+ * the user's timezone.
+ */
+export function parseIcsDate(property: IcsProperty): { date: Date; allDay: boolean } | null {
+    const match = property.value.match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})?(Z)?)?$/);
+    if (!match) return null;
+
+    const [, year, month, day, hours, minutes, seconds, utc] = match;
+    if (hours === undefined) {
+        return { date: new Date(Number(year), Number(month) - 1, Number(day)), allDay: true };
+    }
+
+    if (utc) {
+        return {
+            date: new Date(Date.UTC(Number(year), Number(month) - 1, Number(day), Number(hours), Number(minutes), Number(seconds || 0))),
+            allDay: false
+        };
+    }
+
+    const timeZone = property.params.TZID && isValidTimeZone(property.params.TZID) ? property.params.TZID : getTimeZone();
+    return { date: zonedTimeToDate(`${year}-${month}-${day}`, `${hours}:${minutes}`, timeZone), allDay: false };
+}
+
+const parseDuration = (value: string): number | null => {
+    const match = value.match(/^([+-])?P(?:(\d+)W)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?)?$/);
+    if (!match) return null;
+    const [, sign, weeks, days, hours, minutes, seconds] = match;
+    const ms = ((Number(weeks || 0) * 7 + Number(days || 0)) * 86400 +
+        Number(hours || 0) * 3600 + Number(minutes || 0) * 60 + Number(seconds || 0)) * 1000;
+    return sign === '-' ? -ms : ms;
+};
+
+/**
+ * Read the VEVENTs of a calendar. Recurring events are read as their first
+ * occurrence only; events without a start are ignored.
+ */
+export function parseIcsEvents(text: string): IcsEvent[] {
+    const events: IcsEvent[] = [];
+    let current: IcsProperty[] | null = null;
+    let nested = 0; // VALARMs inside an event
+
+    for (const property of parseIcsLines(text)) {
+        if (property.name === 'BEGIN') {
+            if (property.value.toUpperCase() === 'VEVENT') current = [];
+            else if (current) nested++;
+            continue;
+        }
+        if (property.name === 'END') {
+            if (current && nested > 0) nested--;
+            else if (current && property.value.toUpperCase() === 'VEVENT') {
+                const event = toEvent(current);
+                if (event) events.push(event);
+                current = null;
+            }
+            continue;
+        }
+        if (current && nested === 0) current.push(property);
+    }
+
+    return events;
+}
+
+function toEvent(properties: IcsProperty[]): IcsEvent | null {
+    const get = (name: string) => properties.find(property => property.name === name);
+
+    const startProperty = get('DTSTART');
+    const start = startProperty && parseIcsDate(startProperty);
+    if (!start) return null;
+
+    const endProperty = get('DTEND');
+    const durationProperty = get('DURATION');
+    let end = endProperty ? parseIcsDate(endProperty)?.date : undefined;
+    if (!end && durationProperty) {
+        const ms = parseDuration(durationProperty.value);
+        if (ms !== null) end = new Date(start.date.getTime() + ms);
+    }
+    if (!end) {
+        // RFC 5545: a DATE start lasts one day, a DATE-TIME start has no duration
+        end = start.allDay ? new Date(start.date.getTime() + 86400000) : start.date;
+    }
+
+    return {
+        uid: get('UID')?.value || '',
+        summary: unescapeIcsText(get('SUMMARY')?.value || ''),
+        description: unescapeIcsText(get('DESCRIPTION')?.value || ''),
+        categories: properties
+            .filter(property => property.name === 'CATEGORIES')
+            .flatMap(property => property.value.match(/(?:\\.|[^,])+/g) || []) // Split on unescaped commas
+            .map(category => unescapeIcsText(category).trim())
+            .filter(Boolean),
+        start: start.date,
+        end,
+        allDay: start.allDay
+    };
+}
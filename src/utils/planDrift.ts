@@ -0,0 +1,119 @@
+import { formatDuration } from '@/lib/db';
+import { getLogicalRange } from '@/utils/sessionValidation';
+
+/**
+ * Plan Drift - Compare a day's time-blocked plan with what was logged
+ *
+ * Every planned task can hold a block (planned start and end, HH:mm on the
+ * logical day). The sessions linked to the task are what actually happened:
+ * the drift of a block is how much later (or earlier) the work in it
+ * started and the last session ended, and how much of the logged time fell
+ * inside the block.
+ */
+
+export interface PlannedBlock {
+    taskId: number | string;
+    name: string;
+    start: string;
+    end: string;
+}
+
+export interface DriftSession {
+    taskId: number | string | null;
+    startTime: string;
+    endTime: string; // Empty while a live timer is recording
+}
+
+export type DriftStatus = 'upcoming' | 'missed' | 'on_time' | 'late' | 'early';
+
+export interface BlockDrift {
+    block: PlannedBlock;
+    plannedMinutes: number;
+    actualStart?: string;
+    actualEnd?: string;
+    actualMinutes: number; // Logged on the task, in or out of the block
+    inBlockMinutes: number; // Logged on the task within the block
+    startDrift?: number; // Minutes the work started after the planned start (negative: before)
+    endDrift?: number; // Minutes the work ended after the planned end
+    status: DriftStatus;
+}
+
+export interface PlanDriftOptions {
+    dayStartHour?: number;
+    toleranceMinutes?: number; // Starting this close to the plan counts as on time
+    now?: string; // On the current day: open sessions run until now, later blocks are upcoming
+}
+
+export const DEFAULT_DRIFT_TOLERANCE_MINUTES = 10;
+
+export function getPlanDrift(
+    blocks: PlannedBlock[],
+    sessions: DriftSession[],
+    { dayStartHour = 0, toleranceMinutes = DEFAULT_DRIFT_TOLERANCE_MINUTES, now }: PlanDriftOptions = {}
+): BlockDrift[] {
+    const nowMinutes = now ? getLogicalRange(now, now, dayStartHour).start : undefined;
+
+    return blocks
+        .map(block => {
+            const planned = getLogicalRange(block.start, block.end, dayStartHour);
+            const ranges = sessions
+                .filter(s => s.taskId === block.taskId && s.startTime && (s.endTime || now))
+                .map(s => ({
+                    ...getLogicalRange(s.startTime, s.endTime || now!, dayStartHour),
+                    startTime: s.startTime,
+                    endTime: s.endTime || now!
+                }))
+                .filter(r => r.end > r.start)
+                .sort((a, b) => a.start - b.start);
+
+            const drift: BlockDrift = {
+                block,
+                plannedMinutes: planned.end - planned.start,
+                actualMinutes: ranges.reduce((sum, r) => sum + r.end - r.start, 0),
+                inBlockMinutes: ranges.reduce(
+                    (sum, r) => sum + Math.max(0, Math.min(r.end, planned.end) - Math.max(r.start, planned.start)),
+                    0
+                ),
+                status: 'missed'
+            };
+
+            if (ranges.length === 0) {
+                if (nowMinutes !== undefined && nowMinutes < planned.start + toleranceMinutes) drift.status = 'upcoming';
+                return drift;
+            }
+
+            // Work inside the block counts first, so a stray earlier session doesn't make it "early"
+            const first = ranges.find(r => r.end > planned.start && r.start < planned.end) || ranges[0];
+            const last = ranges.reduce((latest, r) => (r.end > latest.end ? r : latest));
+            drift.actualStart = first.startTime;
+            drift.actualEnd = last.endTime;
+            drift.startDrift = first.start - planned.start;
+            drift.endDrift = last.end - planned.end;
+            drift.status = Math.abs(drift.startDrift) <= toleranceMinutes
+                ? 'on_time'
+                : drift.startDrift > 0 ? 'late' : 'early';
+            return drift;
+        })
+        .sort((a, b) =>
+            getLogicalRange(a.block.start, a.block.end, dayStartHour).start -
+            getLogicalRange(b.block.start, b.block.end, dayStartHour).start
+        );
+}
+
+// "+15m" / "−1h 5m" / "±0m"
+export function formatDrift(minutes: number): string {
+    return `${minutes > 0 ? '+' : minutes < 0 ? '−' : '±'}${formatDuration(Math.abs(minutes))}`;
+}
+
+export function describeDrift(drift: BlockDrift): string {
+    switch (drift.status) {
+        case 'upcoming':
+            return 'Not started yet';
+        case 'missed':
+            return 'Nothing logged';
+        case 'on_time':
+            return `Started on time, ended ${formatDrift(drift.endDrift!)}`;
+        default:
+            return `Started ${formatDrift(drift.startDrift!)} ${drift.status}, ended ${formatDrift(drift.endDrift!)}`;
+    }
+}
@@ -0,0 +1,237 @@
+import { formatDateString, parseDateString } from '@/utils/dateUtils';
+
+/**
+ * Quick Log Parser - Turn one line of text into the parts of a session
+ *
+ *   "9:30-11 deep focus on API refactor #work"
+ *   "45m gym yesterday"
+ *   "from 2pm 1h30m reading"
+ *
+ * Everything is matched with regular expressions against the user's own
+ * categories: dates, a time range or a start, a duration and #tags are taken
+ * out of the text, category names are looked for in what is left, and the
+ * rest is the session name (fuzzy-matched against the day's tasks by matchTask).
+ */
+
+export interface QuickLogCategory {
+    name: string;
+    type: string;
+}
+
+export interface QuickLogTask {
+    id: number | string;
+    name: string;
+}
+
+export interface ParsedQuickLog {
+    date: string;
+    startTime?: string;
+    endTime?: string; // 'now' is resolved to the current time
+    durationMinutes?: number;
+    category?: QuickLogCategory;
+    text: string; // What is left: the session name or the words of a task
+}
+
+export interface ParseQuickLogOptions {
+    today: string; // Logical day the relative dates count from
+    defaultDate: string; // Day used when the text names none
+    categories: QuickLogCategory[];
+    now?: string;
+}
+
+const WEEKDAYS = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
+const STOP_WORDS = new Set(['on', 'for', 'at', 'from', 'since', 'the', 'a', 'an', 'of', 'to', 'with', 'and', 'doing', 'did']);
+
+const TIME = String.raw`(\d{1,2})(?:[:.](\d{2}))?\s*(am|pm)?`;
+const RANGE_RE = new RegExp(String.raw`\b${TIME}\s*(?:-|–|to|until|till)\s*(?:(now)|${TIME})(?![\w:])`, 'i');
+const START_RE = new RegExp(String.raw`\b(?:at|from|since|started)\s+${TIME}(?![\w:])`, 'i');
+const CLOCK_RE = /\b(\d{1,2})[:.](\d{2})\s*(am|pm)?(?![\w:])/i;
+const HOURS_RE = /(\d+(?:\.\d+)?)\s*(?:h|hrs?|hours?)(?![a-z])/i;
+const MINUTES_RE = /(\d+)\s*(?:m|mins?|minutes?)(?![a-z])/i;
+const TAG_RE = /#([\w-]+)/g;
+
+const pad = (value: number) => value.toString().padStart(2, '0');
+
+const normalize = (value: string) => value.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const shiftDate = (date: string, days: number) => {
+    const day = parseDateString(date);
+    day.setDate(day.getDate() + days);
+    return formatDateString(day);
+};
+
+// 24h minutes of a matched time, or null when it is not a clock time
+function toMinutes(hour: string, minute: string | undefined, meridiem: string | undefined): number | null {
+    let h = Number(hour);
+    const m = minute ? Number(minute) : 0;
+    if (m > 59) return null;
+    if (meridiem) {
+        if (h < 1 || h > 12) return null;
+        h = (h % 12) + (meridiem.toLowerCase() === 'pm' ? 12 : 0);
+    }
+    if (h > 23) return null;
+    return h * 60 + m;
+}
+
+const toTime = (minutes: number) => `${pad(Math.floor(minutes / 60) % 24)}:${pad(minutes % 60)}`;
+
+/**
+ * Take the first match of a pattern out of the text
+ */
+function take(text: string, pattern: RegExp): [RegExpMatchArray | null, string] {
+    const match = text.match(pattern);
+    if (!match || match.index === undefined) return [null, text];
+    return [match, `${text.slice(0, match.index)} ${text.slice(match.index + match[0].length)}`];
+}
+
+function takeDate(text: string, today: string): [string | null, string] {
+    const [relative, afterRelative] = take(text, /\b(today|yesterday|tomorrow)\b/i);
+    if (relative) {
+        const offset = { today: 0, yesterday: -1, tomorrow: 1 }[relative[1].toLowerCase() as 'today'];
+        return [shiftDate(today, offset), afterRelative];
+    }
+
+    const [ago, afterAgo] = take(text, /\b(\d+)\s*d(?:ays?)?\s+ago\b/i);
+    if (ago) return [shiftDate(today, -Number(ago[1])), afterAgo];
+
+    const [weekday, afterWeekday] = take(text, new RegExp(`\\b(?:last\\s+)?(${WEEKDAYS.join('|')})\\b`, 'i'));
+    if (weekday) {
+        // The latest one up to today
+        const target = WEEKDAYS.indexOf(weekday[1].toLowerCase());
+        const back = (parseDateString(today).getDay() - target + 7) % 7;
+        return [shiftDate(today, -back), afterWeekday];
+    }
+
+    const [iso, afterIso] = take(text, /\b(\d{4})-(\d{2})-(\d{2})\b/);
+    if (iso) return [`${iso[1]}-${iso[2]}-${iso[3]}`, afterIso];
+
+    // Day first, as formatDateForDisplay shows dates
+    const [dayMonth, afterDayMonth] = take(text, /\b(\d{1,2})\/(\d{1,2})(?:\/(\d{4}))?\b/);
+    if (dayMonth) {
+        const year = dayMonth[3] || today.slice(0, 4);
+        return [`${year}-${pad(Number(dayMonth[2]))}-${pad(Number(dayMonth[1]))}`, afterDayMonth];
+    }
+
+    return [null, text];
+}
+
+function findCategory(text: string, tags: string[], categories: QuickLogCategory[]): [QuickLogCategory | undefined, string] {
+    // A tag naming a category wins, then a category name in the text, then a tag naming a type
+    for (const tag of tags) {
+        const byName = categories.find(c => normalize(c.name) === normalize(tag));
+        if (byName) return [byName, text];
+    }
+
+    const byLength = [...categories].sort((a, b) => b.name.length - a.name.length);
+    for (const category of byLength) {
+        const [match, rest] = take(text, new RegExp(`\\b${escapeRegExp(category.name)}\\b`, 'i'));
+        if (match) return [category, rest];
+    }
+
+    for (const tag of tags) {
+        const byType = categories.find(c => normalize(c.type) === normalize(tag));
+        if (byType) return [byType, text];
+    }
+    return [undefined, text];
+}
+
+export function parseQuickLog(input: string, { today, defaultDate, categories, now }: ParseQuickLogOptions): ParsedQuickLog {
+    let text = input;
+
+    const tags = [...text.matchAll(TAG_RE)].map(m => m[1]);
+    text = text.replace(TAG_RE, ' ');
+
+    const [date, afterDate] = takeDate(text, today);
+    text = afterDate;
+
+    let startTime: string | undefined;
+    let endTime: string | undefined;
+
+    const [range, afterRange] = take(text, RANGE_RE);
+    if (range) {
+        const [, sh, sm, sMeridiem, isNow, eh, em, eMeridiem] = range;
+        let start = toMinutes(sh, sm, sMeridiem);
+        let end = isNow ? null : toMinutes(eh, em, eMeridiem);
+        // "11-1" means 11:00-13:00, "9pm-1" runs past midnight
+        if (start !== null && end !== null && !eMeridiem && end <= start && end + 12 * 60 > start && end < 12 * 60) {
+            end += 12 * 60;
+        }
+        // "2-4pm" means 14:00-16:00, "11-1pm" 11:00-13:00
+        if (start !== null && end !== null && !sMeridiem && eMeridiem === 'pm' && start < 12 * 60 && start + 12 * 60 <= end) {
+            start += 12 * 60;
+        }
+        if (start !== null && (isNow || end !== null)) {
+            startTime = toTime(start);
+            endTime = isNow ? now : toTime(end!);
+            text = afterRange;
+        }
+    }
+
+    let durationMinutes = 0;
+    const [hours, afterHours] = take(text, HOURS_RE);
+    if (hours) {
+        durationMinutes += Math.round(Number(hours[1]) * 60);
+        text = afterHours;
+    }
+    const [minutes, afterMinutes] = take(text, MINUTES_RE);
+    if (minutes) {
+        durationMinutes += Number(minutes[1]);
+        text = afterMinutes;
+    }
+
+    if (!startTime) {
+        const [start, afterStart] = take(text, START_RE);
+        const [clock, afterClock] = start ? [null, text] : take(text, CLOCK_RE);
+        const found = start || clock;
+        const minutesOfDay = found && toMinutes(found[1], found[2], found[3]);
+        if (minutesOfDay !== null && minutesOfDay !== undefined) {
+            startTime = toTime(minutesOfDay);
+            text = start ? afterStart : afterClock;
+        }
+    }
+
+    const [category, afterCategory] = findCategory(text, tags, categories);
+    text = afterCategory;
+
+    // Drop filler words left at the edges ("deep focus on API refactor" -> "API refactor")
+    const words = text.split(/\s+/).filter(Boolean);
+    while (words.length && STOP_WORDS.has(words[0].toLowerCase())) words.shift();
+    while (words.length && STOP_WORDS.has(words[words.length - 1].toLowerCase())) words.pop();
+
+    return {
+        date: date || defaultDate,
+        startTime,
+        endTime,
+        durationMinutes: durationMinutes || undefined,
+        category,
+        text: words.join(' ')
+    };
+}
+
+const tokenize = (value: string) =>
+    value.toLowerCase().split(/[^a-z0-9]+/).filter(word => word.length > 1 && !STOP_WORDS.has(word));
+
+// "refactor" matches "refactoring", "api" matches "API"
+const sameWord = (a: string, b: string) =>
+    a === b || (Math.min(a.length, b.length) >= 4 && (a.startsWith(b) || b.startsWith(a)));
+
+/**
+ * The task whose name shares the most words with the text, if at least half
+ * of the task's words are there
+ */
+export function matchTask<T extends QuickLogTask>(text: string, tasks: T[]): T | undefined {
+    const words = tokenize(text);
+    if (words.length === 0) return undefined;
+
+    let best: { task: T; score: number } | undefined;
+    for (const task of tasks) {
+        const taskWords = tokenize(task.name);
+        if (taskWords.length === 0) continue;
+        const shared = taskWords.filter(tw => words.some(w => sameWord(w, tw))).length;
+        const score = shared / taskWords.length + shared / (words.length * 10); // Ties go to the closer name
+        if (shared / taskWords.length >= 0.5 && (!best || score > best.score)) best = { task, score };
+    }
+    return best?.task;
+}
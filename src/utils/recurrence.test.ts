@@ -0,0 +1,49 @@
+import { describe, expect, it } from 'vitest';
+import { getRecurrenceRule, isScheduledOn, needsStartDate, type RecurrenceRule } from './recurrence';
+
+// 2026-10-05 is a Monday, 2026-10-15 a Thursday
+const dueDays = (rule: RecurrenceRule, dates: string[]) => dates.filter(date => isScheduledOn(rule, date));
+
+describe('isScheduledOn', () => {
+    it('counts a monthly interval from the start date', () => {
+        const everyOtherMonth: RecurrenceRule = { freq: 'monthly', interval: 2, monthDay: 15, startDate: '2026-01-15' };
+        expect(dueDays(everyOtherMonth, ['2026-02-15', '2026-03-15', '2026-04-15', '2026-05-15'])).toEqual(['2026-03-15', '2026-05-15']);
+    });
+
+    it('takes the weekday of a weekly rule without weekdays from the start date', () => {
+        const weekly: RecurrenceRule = { freq: 'weekly', startDate: '2026-10-05' };
+        expect(dueDays(weekly, ['2026-10-12', '2026-10-15', '2026-10-19'])).toEqual(['2026-10-12', '2026-10-19']);
+    });
+
+    it('is never due when an interval has no start date to count from', () => {
+        expect(dueDays({ freq: 'monthly', interval: 2, monthDay: 15 }, ['2026-02-15', '2026-03-15'])).toEqual([]);
+        expect(dueDays({ freq: 'daily', interval: 3 }, ['2026-10-05', '2026-10-06', '2026-10-07'])).toEqual([]);
+    });
+
+    it('is never due when a weekly rule has neither weekdays nor a start date', () => {
+        expect(dueDays({ freq: 'weekly' }, ['2026-10-15', '2026-10-22'])).toEqual([]);
+    });
+
+    it('needs no start date for plain rules', () => {
+        expect(needsStartDate({ freq: 'daily' })).toBe(false);
+        expect(needsStartDate({ freq: 'weekly', weekdays: [1] })).toBe(false);
+        expect(dueDays({ freq: 'weekly', weekdays: [4] }, ['2026-10-14', '2026-10-15'])).toEqual(['2026-10-15']);
+    });
+});
+
+describe('getRecurrenceRule', () => {
+    it('anchors a rule saved without a start date to the day the template was created', () => {
+        const rule = getRecurrenceRule({ recurrence: { freq: 'daily', interval: 2 }, createdAt: '2026-10-05T08:00:00Z' });
+        expect(rule.startDate).toBe('2026-10-05');
+        expect(dueDays(rule, ['2026-10-06', '2026-10-07'])).toEqual(['2026-10-07']);
+    });
+
+    it('keeps a start date the rule already has', () => {
+        const rule = getRecurrenceRule({ recurrence: { freq: 'daily', interval: 2, startDate: '2026-10-06' }, createdAt: '2026-10-05' });
+        expect(rule.startDate).toBe('2026-10-06');
+    });
+
+    it('leaves plain rules unbounded', () => {
+        expect(getRecurrenceRule({ repeatPattern: 'weekly', repeatDays: [1], createdAt: '2026-10-05' })).toEqual({ freq: 'weekly', weekdays: [1] });
+    });
+});
@@ -0,0 +1,204 @@
+/**
+ * Recurrence - When a repeating task is due, RRULE-style
+ *
+ *   { freq: 'daily', interval: 3 }                          every 3 days
+ *   { freq: 'weekly', weekdays: [1, 3] }                    Mondays and Wednesdays
+ *   { freq: 'monthly', monthDay: -1 }                       last day of the month
+ *   { freq: 'monthly', nthWeekday: { nth: 2, weekday: 2 } } 2nd Tuesday
+ *   { freq: 'weekly_count', timesPerWeek: 3 }               3 times a week, any days
+ *
+ * Intervals count from startDate; startDate, endDate and exceptions bound
+ * every rule. A rule with an interval, or a weekly rule without weekdays,
+ * can't place its days without startDate (see needsStartDate): templates fall
+ * back to the day they were created, and a bare rule is never due. Days the rule skips are off-days: they neither add to nor
+ * break a streak. A times-per-week chain only breaks on a week (Monday to
+ * Sunday) that ended below its quota.
+ *
+ * Dates are YYYY-MM-DD strings, compared as day numbers so no time zone or
+ * DST shift can move them.
+ */
+
+/**
+ * When a repeating task is due. Dates are YYYY-MM-DD.
+ */
+export interface RecurrenceRule {
+    freq: 'daily' | 'weekly' | 'monthly' | 'weekly_count';
+    interval?: number; // Every N days / weeks / months (default 1), counted from startDate
+    weekdays?: number[]; // weekly: 0=Sunday, 1=Monday, ..., 6=Saturday
+    monthDay?: number; // monthly: day of the month, -1 = last day
+    nthWeekday?: { nth: number; weekday: number }; // monthly: e.g. 2nd Tuesday, nth -1 = last
+    timesPerWeek?: number; // weekly_count: X times per week, on any days
+    startDate?: string;
+    endDate?: string;
+    exceptions?: string[]; // Skipped dates
+}
+
+// How templates stored their schedule before recurrence rules
+export interface LegacyPattern {
+    repeatPattern: 'daily' | 'weekly' | 'custom';
+    repeatDays?: number[];
+}
+
+export type RecurrenceFrequency = RecurrenceRule['freq'];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Furthest nextOccurrences looks: two years covers a yearly monthly rule
+const SEARCH_LIMIT_DAYS = 2 * 366;
+export const WEEKDAY_LABELS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+const ORDINALS: Record<number, string> = { 1: '1st', 2: '2nd', 3: '3rd', 4: '4th', [-1]: 'last' };
+
+const pad = (n: number) => String(n).padStart(2, '0');
+
+// Days since 1970-01-01
+const toDayNumber = (date: string) => {
+    const [y, m, d] = date.split('-').map(Number);
+    return Math.round(Date.UTC(y, m - 1, d) / DAY_MS);
+};
+
+const fromDayNumber = (day: number) => {
+    const date = new Date(day * DAY_MS);
+    return `${date.getUTCFullYear()}-${pad(date.getUTCMonth() + 1)}-${pad(date.getUTCDate())}`;
+};
+
+const weekdayOf = (day: number) => (day + 4) % 7; // 1970-01-01 was a Thursday
+const mondayOf = (day: number) => day - ((weekdayOf(day) + 6) % 7);
+const daysInMonth = (year: number, month: number) => new Date(Date.UTC(year, month, 0)).getUTCDate();
+
+// A Date is taken in local time; an ISO string by its date part
+const toDateString = (value: Date | string) => typeof value === 'string'
+    ? value.slice(0, 10)
+    : `${value.getFullYear()}-${pad(value.getMonth() + 1)}-${pad(value.getDate())}`;
+
+export const shiftDate = (date: string, days: number) => fromDayNumber(toDayNumber(date) + days);
+
+/**
+ * The rule of a template: its recurrence, or the one its legacy
+ * repeatPattern/repeatDays describe
+ */
+export function getRecurrenceRule(
+    template: (Partial<LegacyPattern> & { recurrence?: RecurrenceRule | null; createdAt?: Date | string | null }) | null | undefined
+): RecurrenceRule {
+    let rule: RecurrenceRule = { freq: 'daily' };
+    if (template?.recurrence) rule = template.recurrence;
+    else if (template && template.repeatPattern !== 'daily' && template.repeatDays?.length) {
+        rule = { freq: 'weekly', weekdays: template.repeatDays };
+    }
+
+    // Rules saved before the editor always set startDate count from the template's first day
+    if (needsStartDate(rule) && template?.createdAt) return { ...rule, startDate: toDateString(template.createdAt) };
+    return rule;
+}
+
+/**
+ * Whether a rule has an interval or weekday to count from startDate, but no startDate
+ */
+export const needsStartDate = (rule: RecurrenceRule) =>
+    !rule.startDate && ((rule.interval || 1) > 1 || (rule.freq === 'weekly' && !rule.weekdays?.length));
+
+/**
+ * repeatPattern/repeatDays that older code reads for a rule
+ */
+export function toLegacyPattern(rule: RecurrenceRule): LegacyPattern {
+    const plain = !rule.interval || rule.interval === 1;
+    if (rule.freq === 'daily' && plain) return { repeatPattern: 'daily', repeatDays: undefined };
+    if (rule.freq === 'weekly' && plain) return { repeatPattern: 'weekly', repeatDays: rule.weekdays };
+    return { repeatPattern: 'custom', repeatDays: undefined };
+}
+
+export function isScheduledOn(rule: RecurrenceRule, date: string): boolean {
+    if (needsStartDate(rule)) return false;
+    if (rule.startDate && date < rule.startDate) return false;
+    if (rule.endDate && date > rule.endDate) return false;
+    if (rule.exceptions?.includes(date)) return false;
+
+    const interval = Math.max(1, rule.interval || 1);
+    const day = toDayNumber(date);
+    const anchor = rule.startDate ? toDayNumber(rule.startDate) : 0;
+
+    switch (rule.freq) {
+        case 'daily':
+            return (day - anchor) % interval === 0;
+        case 'weekly': {
+            const weekdays = rule.weekdays?.length ? rule.weekdays : [weekdayOf(anchor)];
+            const weeks = Math.round((mondayOf(day) - mondayOf(anchor)) / 7);
+            return weekdays.includes(weekdayOf(day)) && weeks % interval === 0;
+        }
+        case 'monthly': {
+            const [year, month, dayOfMonth] = date.split('-').map(Number);
+            if (rule.startDate) {
+                const [startYear, startMonth] = rule.startDate.split('-').map(Number);
+                if (((year - startYear) * 12 + month - startMonth) % interval !== 0) return false;
+            }
+            const lastDay = daysInMonth(year, month);
+            if (rule.nthWeekday) {
+                const { nth, weekday } = rule.nthWeekday;
+                if (weekdayOf(day) !== weekday) return false;
+                return nth === -1 ? dayOfMonth + 7 > lastDay : Math.ceil(dayOfMonth / 7) === nth;
+            }
+            // Day 31 falls on the last day of shorter months
+            const target = !rule.monthDay || rule.monthDay === -1 ? lastDay : Math.min(rule.monthDay, lastDay);
+            return dayOfMonth === target;
+        }
+        case 'weekly_count':
+            return true; // Any day; the weekly quota decides
+        default:
+            return false;
+    }
+}
+
+/**
+ * The next due dates from the given one (included)
+ */
+export function nextOccurrences(rule: RecurrenceRule, from: string, count: number): string[] {
+    const dates: string[] = [];
+    const day = toDayNumber(from);
+    for (let candidate = day; candidate <= day + SEARCH_LIMIT_DAYS && dates.length < count; candidate++) {
+        const candidateDate = fromDayNumber(candidate);
+        if (rule.endDate && candidateDate > rule.endDate) break;
+        if (isScheduledOn(rule, candidateDate)) dates.push(candidateDate);
+    }
+    return dates;
+}
+
+/**
+ * Monday to Sunday of the week a date falls in
+ */
+export function getWeekRange(date: string): { start: string; end: string } {
+    const monday = mondayOf(toDayNumber(date));
+    return { start: fromDayNumber(monday), end: fromDayNumber(monday + 6) };
+}
+
+export function describeRecurrence(rule: RecurrenceRule): string {
+    const interval = Math.max(1, rule.interval || 1);
+    let text: string;
+
+    switch (rule.freq) {
+        case 'daily':
+            text = interval === 1 ? 'Every day' : `Every ${interval} days`;
+            break;
+        case 'weekly': {
+            const days = (rule.weekdays || []).slice().sort().map(d => WEEKDAY_LABELS[d]).join(', ');
+            text = `${interval === 1 ? 'Weekly' : `Every ${interval} weeks`}${days ? ` on ${days}` : ''}`;
+            break;
+        }
+        case 'monthly': {
+            const every = interval === 1 ? 'Monthly' : `Every ${interval} months`;
+            text = rule.nthWeekday
+                ? `${every} on the ${ORDINALS[rule.nthWeekday.nth] || `${rule.nthWeekday.nth}th`} ${WEEKDAY_LABELS[rule.nthWeekday.weekday]}`
+                : `${every} on ${!rule.monthDay || rule.monthDay === -1 ? 'the last day' : `day ${rule.monthDay}`}`;
+            break;
+        }
+        case 'weekly_count': {
+            const times = rule.timesPerWeek || 1;
+            text = `${times} time${times === 1 ? '' : 's'} a week`;
+            break;
+        }
+        default:
+            text = 'Custom';
+    }
+
+    if (rule.startDate) text += ` from ${rule.startDate}`;
+    if (rule.endDate) text += ` until ${rule.endDate}`;
+    if (rule.exceptions?.length) text += `, skipping ${rule.exceptions.length} day${rule.exceptions.length === 1 ? '' : 's'}`;
+    return text;
+}
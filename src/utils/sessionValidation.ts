@@ -0,0 +1,147 @@
+/**
+ * Session Validation - Find the problems in a day's sessions that the
+ * timeline otherwise hides: overlapping sessions, sessions that run past the
+ * logical day boundary (dayStartHour) and untracked gaps between sessions.
+ *
+ * Times are HH:mm on the logical day, so an hour below dayStartHour belongs
+ * to the next calendar day, the same as generateTimelineSlices.
+ */
+
+export interface ValidatedSession {
+    id?: number | string;
+    startTime: string;
+    endTime: string; // Empty while a live timer is recording
+}
+
+export type SessionIssue<S extends ValidatedSession = ValidatedSession> =
+    | { type: 'overlap'; key: string; first: S; second: S; start: string; end: string; minutes: number }
+    | { type: 'crosses_boundary'; key: string; session: S; boundary: string; minutes: number }
+    | { type: 'gap'; key: string; start: string; end: string; minutes: number; before?: S; after?: S };
+
+export interface ValidateSessionsOptions {
+    dayStartHour?: number;
+    gapThresholdMinutes?: number;
+    wakeTime?: string; // Gaps are only looked for between wake and bed time
+    bedTime?: string;
+    now?: string; // On the current day: open sessions run until now and gaps stop here
+}
+
+export const DEFAULT_GAP_THRESHOLD_MINUTES = 15;
+
+const DAY_MINUTES = 24 * 60;
+
+const pad = (n: number) => String(n).padStart(2, '0');
+
+/**
+ * Minutes since the start of the logical day
+ */
+export function toLogicalMinutes(time: string, dayStartHour = 0): number {
+    const [h, m] = time.split(':').map(Number);
+    return ((h * 60 + m) - dayStartHour * 60 + DAY_MINUTES) % DAY_MINUTES;
+}
+
+/**
+ * HH:mm of a number of minutes since the start of the logical day
+ */
+export function fromLogicalMinutes(minutes: number, dayStartHour = 0): string {
+    const clock = (((minutes + dayStartHour * 60) % DAY_MINUTES) + DAY_MINUTES) % DAY_MINUTES;
+    return `${pad(Math.floor(clock / 60))}:${pad(clock % 60)}`;
+}
+
+/**
+ * Start and end of a session on the logical day. The end may pass DAY_MINUTES
+ * when the session runs past the boundary; an end exactly on it is not a crossing.
+ */
+export function getLogicalRange(startTime: string, endTime: string, dayStartHour = 0): { start: number; end: number } {
+    const start = toLogicalMinutes(startTime, dayStartHour);
+    let end = toLogicalMinutes(endTime, dayStartHour);
+    if (end < start || (end === 0 && start > 0)) end += DAY_MINUTES;
+    return { start, end };
+}
+
+export function validateSessions<S extends ValidatedSession>(
+    sessions: S[],
+    {
+        dayStartHour = 0,
+        gapThresholdMinutes = DEFAULT_GAP_THRESHOLD_MINUTES,
+        wakeTime,
+        bedTime,
+        now
+    }: ValidateSessionsOptions = {}
+): SessionIssue<S>[] {
+    const issues: SessionIssue<S>[] = [];
+    const time = (minutes: number) => fromLogicalMinutes(minutes, dayStartHour);
+
+    const ranged = sessions
+        .filter(s => s.startTime && (s.endTime || now))
+        .map(session => ({ session, ...getLogicalRange(session.startTime, session.endTime || now!, dayStartHour) }))
+        .filter(r => r.end > r.start)
+        .sort((a, b) => a.start - b.start || b.end - a.end);
+
+    // --- 1. BOUNDARY ---
+    for (const r of ranged) {
+        if (r.session.endTime && r.end > DAY_MINUTES) {
+            issues.push({
+                type: 'crosses_boundary',
+                key: `boundary-${r.session.id}`,
+                session: r.session,
+                boundary: time(0),
+                minutes: r.end - DAY_MINUTES
+            });
+        }
+    }
+
+    // --- 2. OVERLAPS (every pair, sorted by start) ---
+    for (let i = 0; i < ranged.length; i++) {
+        for (let j = i + 1; j < ranged.length && ranged[j].start < ranged[i].end; j++) {
+            const start = ranged[j].start;
+            const end = Math.min(ranged[i].end, ranged[j].end);
+            issues.push({
+                type: 'overlap',
+                key: `overlap-${ranged[i].session.id}-${ranged[j].session.id}`,
+                first: ranged[i].session,
+                second: ranged[j].session,
+                start: time(start),
+                end: time(end),
+                minutes: end - start
+            });
+        }
+    }
+
+    // --- 3. GAPS (between wake and bed time, or the first and last session) ---
+    if (ranged.length > 0 || wakeTime) {
+        const windowStart = wakeTime ? toLogicalMinutes(wakeTime, dayStartHour) : ranged[0].start;
+        let windowEnd = bedTime
+            ? getLogicalRange(wakeTime || time(0), bedTime, dayStartHour).end
+            : Math.max(...ranged.map(r => r.end), windowStart);
+        if (now) windowEnd = Math.min(windowEnd, Math.max(toLogicalMinutes(now, dayStartHour), windowStart));
+        windowEnd = Math.min(windowEnd, DAY_MINUTES);
+
+        let covered = windowStart;
+        let before: S | undefined;
+        const pushGap = (end: number, after?: S) => {
+            if (end - covered < gapThresholdMinutes || end <= covered) return;
+            issues.push({
+                type: 'gap',
+                key: `gap-${covered}-${end}`,
+                start: time(covered),
+                end: time(end),
+                minutes: end - covered,
+                before,
+                after
+            });
+        };
+
+        for (const r of ranged) {
+            if (r.start >= windowEnd) break;
+            if (r.start > covered) pushGap(r.start, r.session);
+            if (r.end > covered) {
+                covered = r.end;
+                before = r.session;
+            }
+        }
+        pushGap(windowEnd);
+    }
+
+    return issues;
+}
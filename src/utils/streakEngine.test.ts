@@ -0,0 +1,135 @@
+import { describe, expect, it } from 'vitest';
+import type { RecurrenceRule, StreakProtection } from '@/lib/db';
+import { getStreakSeries, getStreaksOn, withoutDeleted, type StreakHistoryEntry, type StreakSchedule } from './streakEngine';
+
+// 2026-10-05, 2026-10-12 and 2026-10-19 are Mondays
+const schedule = (rule: RecurrenceRule, protection?: StreakProtection): StreakSchedule =>
+    ({ rule, minCompletionTarget: 50, protection });
+
+const daily = schedule({ freq: 'daily' });
+
+const entries = (...days: [string, number][]): StreakHistoryEntry[] =>
+    days.map(([date, progress]) => ({ date, progress }));
+
+const counts = (days: { achiever: number; fighter: number }[]) => days.map(d => [d.achiever, d.fighter]);
+
+describe('daily schedules', () => {
+    it('counts met days in a row', () => {
+        const series = getStreakSeries(daily, entries(['2026-10-05', 60], ['2026-10-06', 120], ['2026-10-07', 150]));
+        expect(counts(series)).toEqual([[1, 0], [2, 1], [3, 2]]);
+    });
+
+    it('breaks both chains on a day without a task', () => {
+        const series = getStreakSeries(daily, entries(['2026-10-05', 120], ['2026-10-06', 120], ['2026-10-08', 120]));
+        expect(counts(series)).toEqual([[1, 1], [2, 2], [1, 1]]);
+    });
+
+    it('breaks both chains on a day below the target', () => {
+        const series = getStreakSeries(daily, entries(['2026-10-05', 120], ['2026-10-06', 40], ['2026-10-07', 60]));
+        expect(counts(series)).toEqual([[1, 1], [0, 0], [1, 0]]);
+    });
+
+    it('resets only the fighter chain on a day achieved but not fought', () => {
+        const series = getStreakSeries(daily, entries(['2026-10-05', 120], ['2026-10-06', 110], ['2026-10-07', 80]));
+        expect(counts(series)).toEqual([[1, 1], [2, 2], [3, 0]]);
+    });
+
+    it('skips the off-days of an interval', () => {
+        const everyOther = schedule({ freq: 'daily', interval: 2, startDate: '2026-10-05' });
+        const series = getStreakSeries(everyOther, entries(['2026-10-05', 60], ['2026-10-07', 60], ['2026-10-09', 60]));
+        expect(counts(series)).toEqual([[1, 0], [2, 0], [3, 0]]);
+    });
+
+    it('leaves deleted tasks out of the chain', () => {
+        const history = [
+            { date: '2026-10-05', progress: 60 },
+            { date: '2026-10-06', progress: 60, is_deleted: true },
+            { date: '2026-10-07', progress: 60, isDeleted: false },
+            { date: '2026-10-08', progress: 60 }
+        ];
+        expect(getStreakSeries(daily, withoutDeleted(history)).map(d => d.achiever)).toEqual([1, 1, 2]);
+    });
+
+    it('counts the better of two tasks on the same day', () => {
+        for (const order of [[20, 80], [80, 20]]) {
+            const history = entries(['2026-10-05', 60], ['2026-10-06', order[0]], ['2026-10-06', order[1]]);
+            expect(getStreakSeries(daily, history).map(d => d.achiever)).toEqual([1, 2, 2]);
+        }
+    });
+});
+
+describe('weekly schedules', () => {
+    const mondayWednesday = schedule({ freq: 'weekly', weekdays: [1, 3] });
+
+    it('does not break on the days in between', () => {
+        const series = getStreakSeries(mondayWednesday, entries(['2026-10-05', 60], ['2026-10-07', 60], ['2026-10-12', 60]));
+        expect(series.map(d => d.achiever)).toEqual([1, 2, 3]);
+    });
+
+    it('breaks on a due day without a task', () => {
+        const day = getStreaksOn(mondayWednesday, entries(['2026-10-05', 60]), { date: '2026-10-12', progress: 60 });
+        expect(day.achiever).toBe(1);
+    });
+});
+
+describe('monthly schedules', () => {
+    it('counts the last day of each month', () => {
+        const lastDay = schedule({ freq: 'monthly', monthDay: -1 });
+        const series = getStreakSeries(lastDay, entries(['2026-09-30', 60], ['2026-10-31', 60], ['2026-11-30', 60]));
+        expect(series.map(d => d.achiever)).toEqual([1, 2, 3]);
+    });
+
+    it('breaks on a missed month', () => {
+        const secondTuesday = schedule({ freq: 'monthly', nthWeekday: { nth: 2, weekday: 2 } });
+        const day = getStreaksOn(secondTuesday, entries(['2026-09-08', 60]), { date: '2026-11-10', progress: 60 });
+        expect(day.achiever).toBe(1);
+    });
+});
+
+describe('weekly_count schedules', () => {
+    const twiceAWeek = schedule({ freq: 'weekly_count', timesPerWeek: 2 });
+
+    it('keeps the chain through a week that met its quota', () => {
+        const history = entries(['2026-10-05', 60], ['2026-10-08', 60], ['2026-10-12', 60], ['2026-10-14', 60]);
+        const day = getStreaksOn(twiceAWeek, history, { date: '2026-10-19', progress: 60 });
+        expect(day.achiever).toBe(5);
+    });
+
+    it('breaks at the end of a week below its quota', () => {
+        const history = entries(['2026-10-05', 60], ['2026-10-08', 60], ['2026-10-12', 60]);
+        const day = getStreaksOn(twiceAWeek, history, { date: '2026-10-19', progress: 60 });
+        expect(day.achiever).toBe(1);
+    });
+
+    it('waits for a week that is still running', () => {
+        const history = entries(['2026-10-05', 60], ['2026-10-08', 60], ['2026-10-12', 60]);
+        const day = getStreaksOn(twiceAWeek, history, { date: '2026-10-14', progress: 0 }, '2026-10-14');
+        expect(day.achiever).toBe(3);
+    });
+});
+
+describe('open days', () => {
+    it('does not break on today before anything is logged', () => {
+        const day = getStreaksOn(daily, entries(['2026-10-05', 60], ['2026-10-06', 60]), { date: '2026-10-07', progress: 0 }, '2026-10-07');
+        expect(day).toMatchObject({ achiever: 2, open: true });
+    });
+
+    it('breaks on today once the day is over', () => {
+        const day = getStreaksOn(daily, entries(['2026-10-05', 60], ['2026-10-06', 60]), { date: '2026-10-07', progress: 0 }, '2026-10-08');
+        expect(day).toMatchObject({ achiever: 0, open: false });
+    });
+
+    it('keeps a missed day open through the grace window', () => {
+        const history = entries(['2026-10-05', 60], ['2026-10-06', 60]);
+        const today = { date: '2026-10-08', progress: 0 };
+
+        const withGrace = schedule({ freq: 'daily' }, { graceDays: 1 });
+        expect(getStreaksOn(withGrace, history, today, '2026-10-08').achiever).toBe(2);
+        expect(getStreaksOn(daily, history, today, '2026-10-08').achiever).toBe(0);
+    });
+
+    it('does not reset the fighter chain on a day still open', () => {
+        const day = getStreaksOn(daily, entries(['2026-10-05', 120]), { date: '2026-10-06', progress: 60 }, '2026-10-06');
+        expect(counts([day])).toEqual([[2, 1]]);
+    });
+});
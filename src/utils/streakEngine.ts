@@ -0,0 +1,238 @@
+import { getRecurrenceRule, getWeekRange, isScheduledOn, shiftDate, type LegacyPattern, type RecurrenceRule } from '@/utils/recurrence';
+
+/**
+ * Streak Engine - The one place achiever/fighter streaks are computed
+ *
+ * Pure: a template's schedule and the day-by-day progress of its tasks in,
+ * chain lengths out. The calculator (lib/streakCalculator), the template
+ * strikes, the badges and the server (supabase/functions/recompute-streaks)
+ * all read their numbers from here, so it imports nothing but recurrence.
+ *
+ *   Achiever: due days in a row at or above the template's minimum target
+ *   Fighter:  due days in a row above 100%
+ *
+ * Days the template isn't due on (see utils/recurrence) keep the chains as
+ * they are. A met due day adds one. A missed due day breaks both chains,
+ * unless:
+ *   - it is still running, or within the grace window for logging late
+ *   - it is a planned rest day
+ *   - a freeze token is left: it is spent and the chains stay as they are.
+ *     A token is earned every `freezeEvery` met days.
+ * "X times a week" templates only miss at the end of a week below its quota.
+ * Tasks the user deleted are not part of the chain (see withoutDeleted).
+ */
+
+/**
+ * What keeps a streak alive through a missed day
+ */
+export interface StreakProtection {
+    freezeEvery?: number; // Met days that earn a freeze token (unset: no freezes)
+    maxFreezes?: number; // Most tokens held at once (default 2)
+    restDays?: string[]; // Planned rest days: a miss on them doesn't break the streak
+    graceDays?: number; // Days a miss waits for late logging before it counts
+}
+
+export const DEFAULT_MIN_COMPLETION_TARGET = 50;
+export const FIGHTER_THRESHOLD = 100;
+export const DEFAULT_MAX_FREEZES = 2;
+
+export interface StreakHistoryEntry {
+    date: string;
+    progress: number;
+}
+
+export interface StreakSchedule {
+    rule: RecurrenceRule;
+    minCompletionTarget: number;
+    protection?: StreakProtection | null;
+}
+
+export interface StreakCounts {
+    achiever: number;
+    fighter: number;
+}
+
+export interface StreakDay extends StreakCounts {
+    date: string;
+    progress: number;
+    logged: boolean; // A task exists for the day
+    due: boolean;
+    open: boolean; // Still running, or within the grace window
+    rest: boolean; // A planned rest day
+    frozen: boolean; // A freeze was spent on this day (or on the week ending on it)
+    freezesLeft: number;
+    freezesUsed: number; // Spent during the current achiever chain
+}
+
+// The streak fields of a template
+interface ScheduleSource extends Partial<LegacyPattern> {
+    recurrence?: RecurrenceRule | null;
+    minCompletionTarget?: number | null;
+    streakProtection?: StreakProtection | null;
+    createdAt?: Date | string | null; // Anchors a rule saved without startDate
+}
+
+export function getStreakSchedule(template: ScheduleSource | null | undefined): StreakSchedule {
+    const target = template?.minCompletionTarget;
+    return {
+        rule: getRecurrenceRule(template),
+        minCompletionTarget: target === null || target === undefined ? DEFAULT_MIN_COMPLETION_TARGET : target,
+        protection: template?.streakProtection || null
+    };
+}
+
+// Soft-deleted tasks, as rows (is_deleted) or Dexie records (isDeleted)
+interface DeletableTask {
+    is_deleted?: boolean | null;
+    isDeleted?: boolean | null;
+}
+
+/**
+ * The tasks that count toward a chain: all but the ones the user deleted
+ */
+export const withoutDeleted = <T extends DeletableTask>(tasks: T[]): T[] =>
+    tasks.filter(task => !task.is_deleted && !task.isDeleted);
+
+export const meetsAchiever = (schedule: StreakSchedule, progress: number) => progress >= schedule.minCompletionTarget;
+export const meetsFighter = (progress: number) => progress > FIGHTER_THRESHOLD;
+
+/**
+ * Walk every day from the first entry to `until`, oldest first
+ *
+ * @param today - First day that is still running; without it every day is over
+ */
+function walkChain(
+    schedule: StreakSchedule,
+    entries: StreakHistoryEntry[],
+    until: string,
+    today?: string
+): Map<string, StreakDay> {
+    const { rule, protection } = schedule;
+    const days = new Map<string, StreakDay>();
+
+    // Two tasks on one day (e.g. a duplicate): the better one counts
+    const progressOn = new Map<string, number>();
+    for (const entry of entries) {
+        if (entry.date > until) continue;
+        progressOn.set(entry.date, Math.max(progressOn.get(entry.date) ?? 0, entry.progress || 0));
+    }
+    const first = [...progressOn.keys()].sort()[0] || until;
+
+    const restDays = new Set(protection?.restDays || []);
+    const freezeEvery = Math.max(0, protection?.freezeEvery || 0);
+    const maxFreezes = protection?.maxFreezes ?? DEFAULT_MAX_FREEZES;
+    const openFrom = today === undefined ? undefined : shiftDate(today, -Math.max(0, protection?.graceDays || 0));
+    const isOpen = (date: string) => openFrom !== undefined && date >= openFrom;
+
+    let achiever = 0;
+    let fighter = 0;
+    let freezesLeft = 0;
+    let freezesUsed = 0;
+    let towardFreeze = 0;
+
+    const meet = () => {
+        achiever++;
+        if (freezeEvery && ++towardFreeze >= freezeEvery) {
+            towardFreeze = 0;
+            freezesLeft = Math.min(maxFreezes, freezesLeft + 1);
+        }
+    };
+
+    // Whether a freeze saved the chains
+    const miss = () => {
+        if (achiever === 0 && fighter === 0) return false;
+        if (freezesLeft > 0) {
+            freezesLeft--;
+            freezesUsed++;
+            return true;
+        }
+        achiever = 0;
+        fighter = 0;
+        freezesUsed = 0;
+        towardFreeze = 0;
+        return false;
+    };
+
+    for (let date = first; date <= until; date = shiftDate(date, 1)) {
+        const logged = progressOn.has(date);
+        const progress = progressOn.get(date) ?? 0;
+        const open = isOpen(date);
+        const due = isScheduledOn(rule, date);
+        const rest = due && restDays.has(date);
+        const achieved = meetsAchiever(schedule, progress);
+        const fought = meetsFighter(progress);
+        let frozen = false;
+
+        if (rule.freq === 'weekly_count') {
+            if (due && achieved) meet();
+            if (due && fought) fighter++;
+
+            // The week is over: check it against its quota, less its rest days
+            const week = getWeekRange(date);
+            if (date === week.end && !open) {
+                let dueDays = 0;
+                let met = 0;
+                let fighterMet = 0;
+                for (let day = week.start; day <= week.end; day = shiftDate(day, 1)) {
+                    if (!isScheduledOn(rule, day) || restDays.has(day)) continue;
+                    dueDays++;
+                    const dayProgress = progressOn.get(day) ?? 0;
+                    if (meetsAchiever(schedule, dayProgress)) met++;
+                    if (meetsFighter(dayProgress)) fighterMet++;
+                }
+                const quota = Math.min(Math.max(1, rule.timesPerWeek || 1), dueDays);
+                if (met < quota) frozen = miss();
+                else if (fighterMet < quota) fighter = 0;
+            }
+        } else if (due) {
+            if (achieved) meet();
+            if (fought) fighter++;
+            else if (achieved && !rest && !open) fighter = 0;
+
+            if (!achieved && !rest && !open) frozen = miss();
+        }
+
+        days.set(date, { date, progress, logged, due, open, rest, frozen, achiever, fighter, freezesLeft, freezesUsed });
+    }
+
+    return days;
+}
+
+/**
+ * Streaks on one day
+ *
+ * @param history - The task's other days (any order); only those before the day count
+ * @param today - First day that is still running; without it every day is over
+ */
+export function getStreaksOn(
+    schedule: StreakSchedule,
+    history: StreakHistoryEntry[],
+    day: StreakHistoryEntry,
+    today?: string
+): StreakDay {
+    const entries = [...history.filter(h => h.date < day.date), day];
+    return walkChain(schedule, entries, day.date, today).get(day.date)!;
+}
+
+/**
+ * Streaks on every day of a task's history, oldest first
+ */
+export function getStreakSeries(schedule: StreakSchedule, days: StreakHistoryEntry[], today?: string): StreakDay[] {
+    if (days.length === 0) return [];
+    const sorted = [...days].sort((a, b) => a.date.localeCompare(b.date));
+    const walked = walkChain(schedule, sorted, sorted[sorted.length - 1].date, today);
+    return sorted.map(day => walked.get(day.date)!);
+}
+
+/**
+ * Every day from the first entry to `until`, logged or not
+ */
+export function getStreakTimeline(
+    schedule: StreakSchedule,
+    entries: StreakHistoryEntry[],
+    until: string,
+    today?: string
+): StreakDay[] {
+    if (entries.length === 0) return [];
+    return [...walkChain(schedule, entries, until, today).values()];
+}
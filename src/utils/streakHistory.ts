@@ -0,0 +1,123 @@
+import { WEEKDAY_LABELS } from '@/utils/recurrence';
+import {
+    FIGHTER_THRESHOLD,
+    getStreakTimeline,
+    meetsAchiever,
+    type StreakDay,
+    type StreakHistoryEntry,
+    type StreakSchedule
+} from '@/utils/streakEngine';
+
+/**
+ * Streak History - Every past chain of a habit and its records
+ *
+ * Built on the streak engine's day-by-day timeline: a chain starts on the
+ * day its streak goes from 0 to 1 and breaks on the day it drops back to 0.
+ */
+
+export type ChainKind = 'achiever' | 'fighter';
+
+export type ChainBreak =
+    | 'ongoing' // Not broken (yet)
+    | 'not_logged' // A due day without a task
+    | 'below_target' // A due day logged below the target
+    | 'below_quota'; // An "X times a week" week below its quota
+
+export interface StreakChain {
+    kind: ChainKind;
+    start: string;
+    end: string; // Last day the chain grew
+    length: number;
+    brokenOn?: string;
+    reason: ChainBreak;
+    breakProgress?: number; // Progress on the day that broke it
+}
+
+export interface WeekdayRate {
+    weekday: number; // 0=Sunday
+    label: string;
+    due: number;
+    met: number;
+    rate: number; // 0-100
+}
+
+export interface StreakHistory {
+    days: StreakDay[];
+    chains: StreakChain[]; // Newest first
+    longest: Record<ChainKind, StreakChain | null>;
+    weekdays: WeekdayRate[];
+}
+
+function findChains(schedule: StreakSchedule, days: StreakDay[], kind: ChainKind): StreakChain[] {
+    const chains: StreakChain[] = [];
+    let current: StreakChain | null = null;
+    let previous = 0;
+
+    for (const day of days) {
+        const value = day[kind];
+        if (value > previous) {
+            if (!current) current = { kind, start: day.date, end: day.date, length: 0, reason: 'ongoing' };
+            current.end = day.date;
+            current.length = value;
+        } else if (value === 0 && current) {
+            current.brokenOn = day.date;
+            current.breakProgress = day.progress;
+            current.reason = schedule.rule.freq === 'weekly_count'
+                ? 'below_quota'
+                : day.logged ? 'below_target' : 'not_logged';
+            chains.push(current);
+            current = null;
+        }
+        previous = value;
+    }
+
+    if (current) chains.push(current);
+    return chains;
+}
+
+const longestOf = (chains: StreakChain[]) =>
+    chains.reduce<StreakChain | null>((best, chain) => (!best || chain.length > best.length ? chain : best), null);
+
+/**
+ * @param entries - Every day of the habit's tasks (any order)
+ * @param today - First day that is still running
+ */
+export function getStreakHistory(schedule: StreakSchedule, entries: StreakHistoryEntry[], today: string): StreakHistory {
+    const days = getStreakTimeline(schedule, entries, today, today);
+    const achiever = findChains(schedule, days, 'achiever');
+    const fighter = findChains(schedule, days, 'fighter');
+
+    // Only days that are over count towards the rates
+    const weekdays = WEEKDAY_LABELS.map((label, weekday) => ({ weekday, label, due: 0, met: 0, rate: 0 }));
+    for (const day of days) {
+        if (!day.due || day.rest || day.open) continue;
+        const rate = weekdays[new Date(`${day.date}T00:00:00`).getDay()];
+        rate.due++;
+        if (meetsAchiever(schedule, day.progress)) rate.met++;
+    }
+    weekdays.forEach(rate => {
+        rate.rate = rate.due ? Math.round((rate.met / rate.due) * 100) : 0;
+    });
+
+    return {
+        days,
+        chains: [...achiever, ...fighter].sort((a, b) => b.start.localeCompare(a.start)),
+        longest: { achiever: longestOf(achiever), fighter: longestOf(fighter) },
+        weekdays
+    };
+}
+
+export function describeChainBreak(chain: StreakChain, minCompletionTarget: number): string {
+    switch (chain.reason) {
+        case 'ongoing':
+            return 'Still going';
+        case 'not_logged':
+            return 'Nothing logged';
+        case 'below_quota':
+            return 'Week below its quota';
+        case 'below_target':
+            return chain.kind === 'fighter'
+                ? `${chain.breakProgress ?? 0}%, not over ${FIGHTER_THRESHOLD}%`
+                : `${chain.breakProgress ?? 0}% of the ${minCompletionTarget}% goal`;
+    }
+}
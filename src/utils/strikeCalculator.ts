@@ -1,8 +1,11 @@
 import { db, type RepeatingTask } from '@/lib/db';
+import { getToday } from '@/utils/dateUtils';
+import { getStreakSchedule, getStreaksOn, meetsAchiever, withoutDeleted } from '@/utils/streakEngine';
 
 /**
  * Strike Calculation Utility
- * Handles Achiever and Fighter strike counting for template-based tasks
+ * Keeps the Achiever and Fighter strikes stored on a template in step with
+ * its tasks. The rules live in the streak engine (utils/streakEngine).
  */
 
 interface StrikeUpdate {
@@ -12,33 +15,7 @@ interface StrikeUpdate {
 }
 
 /**
- * Check if two dates are consecutive (nextDate = prevDate + 1 day)
- */
-function isNextDay(prevDateStr: string | undefined, currentDateStr: string): boolean {
-    if (!prevDateStr) return false;
-
-    const prevDate = new Date(prevDateStr);
-    const currentDate = new Date(currentDateStr);
-
-    // Add 1 day to previous date
-    const nextDay = new Date(prevDate);
-    nextDay.setDate(nextDay.getDate() + 1);
-
-    // Compare dates (ignoring time)
-    return (
-        nextDay.getFullYear() === currentDate.getFullYear() &&
-        nextDay.getMonth() === currentDate.getMonth() &&
-        nextDay.getDate() === currentDate.getDate()
-    );
-}
-
-/**
- * Calculate and update template strikes based on task completion
- * 
- * Rules:
- * - Achiever Strike: Progress >= minCompletionTarget (consecutive days)
- * - Fighter Strike: Progress > 100% (consecutive days)
- * - Both reset to 0 if progress < minCompletionTarget
+ * Calculate a template's strikes from the local history of its tasks
  * 
  * @param template - The repeating task template
  * @param todayDateStr - ISO date string (YYYY-MM-DD)
@@ -50,57 +27,19 @@ export async function updateTemplateStrikes(
     todayDateStr: string,
     taskProgress: number
 ): Promise<StrikeUpdate> {
-    const { minCompletionTarget = 50, achieverStrike = 0, fighterStrike = 0, lastCompletedDate } = template;
-
-    // CRITICAL FIX: Don't recalculate if we've already processed today
-    // Strikes should only be updated once per day, not on every progress change
-    if (lastCompletedDate === todayDateStr) {
-        // Already processed today - just update the existing record, don't recalculate
-        // We'll keep the current strike values
-        return {
-            achieverStrike,
-            fighterStrike,
-            lastCompletedDate: todayDateStr,
-        };
-    }
-
-    // Check if this is a consecutive day (different from today)
-    const isConsecutive = isNextDay(lastCompletedDate, todayDateStr);
-
-    // Evaluate performance
-    const meetsMinimum = taskProgress >= minCompletionTarget;
-    const isFighter = taskProgress > 100;
-
-    // Case 1: Failed minimum → Reset both strikes to 0
-    if (!meetsMinimum) {
-        return {
-            achieverStrike: 0,
-            fighterStrike: 0,
-            lastCompletedDate: todayDateStr,
-        };
-    }
-
-    // Case 2: Non-consecutive day → Reset and start fresh
-    if (!isConsecutive) {
-        return {
-            achieverStrike: 1,
-            fighterStrike: isFighter ? 1 : 0,
-            lastCompletedDate: todayDateStr,
-        };
-    }
-
-    // Case 3: Consecutive day + meets minimum
-    // Achiever always increments if minimum is met
-    const newAchieverStrike = achieverStrike + 1;
+    const schedule = getStreakSchedule(template);
+    const history = withoutDeleted(await db.tasks
+        .filter(t => t.name === template.name && t.date < todayDateStr)
+        .toArray());
 
-    // Fighter only increments if exceeds 100%
-    // If not Fighter today (< 100%), reset Fighter strike to 0
-    const newFighterStrike = isFighter ? fighterStrike + 1 : 0;
+    const streaks = getStreaksOn(schedule, history, { date: todayDateStr, progress: taskProgress }, getToday());
 
     return {
-        achieverStrike: newAchieverStrike,
-        fighterStrike: newFighterStrike,
-        lastCompletedDate: todayDateStr,
+        achieverStrike: streaks.achiever,
+        fighterStrike: streaks.fighter,
+        lastCompletedDate: meetsAchiever(schedule, taskProgress)
+            ? todayDateStr
+            : template.lastCompletedDate || todayDateStr,
     };
 }
 
@@ -116,6 +55,7 @@ export async function saveTemplateStrikes(
         fighterStrike: strikeUpdate.fighterStrike,
         lastCompletedDate: strikeUpdate.lastCompletedDate,
         updatedAt: new Date(),
+        syncStatus: 'pending',
     });
 }
 
@@ -0,0 +1,130 @@
+import { createClient, type SupabaseClient } from 'npm:@supabase/supabase-js@2';
+import { shiftDate } from '@/utils/recurrence';
+import { getStreakSchedule, getStreakSeries, withoutDeleted } from '@/utils/streakEngine';
+
+/**
+ * Recompute Streaks - The streak engine on the server
+ *
+ * Rewrites the stored achiever/fighter streaks of a chain (a template's
+ * tasks, or the tasks of one name without a template) through the engine the
+ * app uses (src/utils/streakEngine.ts), so rows written by any path - sync
+ * pushes, other devices, direct edits - end up with the app's numbers.
+ *
+ * Called with
+ *   - the changed row, by the tasks trigger (see migration
+ *     20261019_recompute_streaks_trigger.sql): { record, old_record }
+ *   - a chain, by a signed-in user: { template_id } or { name }
+ */
+
+interface TaskRow {
+    id: number;
+    user_id: string;
+    date: string;
+    name: string | null;
+    template_id: string | null;
+    progress: number | null;
+    is_deleted: boolean | null;
+    achiever_strike: number | null;
+    fighter_strike: number | null;
+}
+
+interface Chain {
+    userId: string;
+    templateId: string | null;
+    name: string | null;
+}
+
+const json = (body: unknown, status = 200) =>
+    new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json' } });
+
+/**
+ * The template of a chain, as templateService.fetchTemplateForTask finds it:
+ * tasks made from a cloud template carry ffffffff-ffff-ffff-ffff-<id>
+ */
+async function fetchSchedule(supabase: SupabaseClient, templateId: string | null) {
+    const cloudId = templateId?.match(/^ffffffff-ffff-ffff-ffff-(\d{12})$/);
+    if (!cloudId) return getStreakSchedule(null);
+
+    const { data: template } = await supabase.from('task_templates').select('*').eq('id', Number(cloudId[1])).maybeSingle();
+    return getStreakSchedule(template && {
+        recurrence: template.recurrence,
+        repeatPattern: template.repeat_pattern,
+        repeatDays: template.repeat_days,
+        minCompletionTarget: template.min_completion_target,
+        streakProtection: template.streak_protection,
+        createdAt: template.created_at
+    });
+}
+
+async function recomputeChain(supabase: SupabaseClient, chain: Chain, today: string): Promise<number> {
+    let query = supabase.from('tasks').select('*').eq('user_id', chain.userId);
+    query = chain.templateId ? query.eq('template_id', chain.templateId) : query.is('template_id', null).eq('name', chain.name);
+    const { data, error } = await query.order('date');
+    if (error) throw error;
+
+    const tasks = withoutDeleted((data || []) as TaskRow[]);
+    if (tasks.length === 0) return 0;
+
+    const schedule = await fetchSchedule(supabase, chain.templateId);
+    const series = getStreakSeries(schedule, tasks.map(t => ({ date: t.date, progress: t.progress || 0 })), today);
+
+    // Series and tasks are both oldest first
+    const changed = tasks
+        .map((task, i) => ({ task, streaks: series[i] }))
+        .filter(({ task, streaks }) => task.achiever_strike !== streaks.achiever || task.fighter_strike !== streaks.fighter);
+
+    const updatedAt = new Date().toISOString();
+    for (const { task, streaks } of changed) {
+        const { error: updateError } = await supabase.from('tasks').update({
+            achiever_strike: streaks.achiever,
+            fighter_strike: streaks.fighter,
+            updated_at: updatedAt
+        }).eq('id', task.id);
+        if (updateError) throw updateError;
+    }
+    return changed.length;
+}
+
+const chainOf = (task: TaskRow | null | undefined): Chain | null =>
+    task && (task.template_id || task.name)
+        ? { userId: task.user_id, templateId: task.template_id, name: task.template_id ? null : task.name }
+        : null;
+
+Deno.serve(async request => {
+    const url = Deno.env.get('SUPABASE_URL')!;
+    const serviceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+    const supabase = createClient(url, serviceKey, { auth: { persistSession: false } });
+
+    const token = request.headers.get('Authorization')?.replace(/^Bearer /, '') || '';
+    const body = await request.json().catch(() => ({}));
+    const chains: Chain[] = [];
+
+    if (token === serviceKey) {
+        // From the trigger: the chain the row is in now, and the one it left
+        for (const task of [body.record, body.old_record]) {
+            const chain = chainOf(task);
+            if (chain) chains.push(chain);
+        }
+    } else {
+        const { data: { user } } = await supabase.auth.getUser(token);
+        if (!user) return json({ error: 'Not signed in' }, 401);
+        if (!body.template_id && !body.name) return json({ error: 'template_id or name is required' }, 400);
+        chains.push({ userId: user.id, templateId: body.template_id || null, name: body.template_id ? null : body.name });
+    }
+
+    // The server doesn't know the user's time zone or day start: a day only
+    // counts as over once it is over everywhere
+    const today = typeof body.today === 'string' ? body.today : shiftDate(new Date().toISOString().slice(0, 10), -1);
+
+    const unique = chains.filter((chain, i) => chains.findIndex(c =>
+        c.userId === chain.userId && c.templateId === chain.templateId && c.name === chain.name) === i);
+
+    try {
+        let updated = 0;
+        for (const chain of unique) updated += await recomputeChain(supabase, chain, today);
+        return json({ chains: unique.length, updated });
+    } catch (error) {
+        console.error('Streak recompute failed', error);
+        return json({ error: (error as Error).message }, 500);
+    }
+});
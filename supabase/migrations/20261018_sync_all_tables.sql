@@ -0,0 +1,119 @@
+-- Sync every local table: templates, priorities, categories, attendance and deleted tasks.
+-- Each synced table needs updated_at for conflict detection; rows are matched on
+-- client_id (see 20261019_add_client_id.sql), so names don't have to be unique.
+
+-- Task Templates: columns the app stores locally but the table was missing
+alter table task_templates
+add column if not exists rich_content text,
+add column if not exists repeat_days integer[],
+add column if not exists add_at_time text,
+add column if not exists category_type text,
+add column if not exists strike_count integer default 0,
+add column if not exists min_completion_target integer default 50,
+add column if not exists achiever_strike integer default 0,
+add column if not exists fighter_strike integer default 0,
+add column if not exists last_completed_date date,
+add column if not exists updated_at timestamp with time zone default timezone('utc'::text, now()) not null;
+
+alter table priorities
+add column if not exists updated_at timestamp with time zone default timezone('utc'::text, now()) not null;
+
+alter table categories
+add column if not exists updated_at timestamp with time zone default timezone('utc'::text, now()) not null;
+
+-- Create Subjects table (Attendance tracker)
+create table if not exists subjects (
+  id bigint primary key generated always as identity,
+  user_id uuid references auth.users not null,
+  name text not null,
+  criteria integer default 75 not null,
+  professor text,
+  color text not null,
+  is_deleted boolean default false not null,
+  created_at timestamp with time zone default timezone('utc'::text, now()) not null,
+  updated_at timestamp with time zone default timezone('utc'::text, now()) not null
+);
+
+-- Create Attendance Records table
+create table if not exists attendance_records (
+  id bigint primary key generated always as identity,
+  user_id uuid references auth.users not null,
+  subject_id bigint references subjects(id) on delete cascade not null,
+  date date not null,
+  status text not null check (status in ('present', 'absent', 'cancelled')),
+  is_deleted boolean default false not null,
+  created_at timestamp with time zone default timezone('utc'::text, now()) not null,
+  updated_at timestamp with time zone default timezone('utc'::text, now()) not null
+);
+
+-- Create Deleted Tasks table (keeps template tasks from being regenerated)
+create table if not exists deleted_tasks (
+  id bigint primary key generated always as identity,
+  user_id uuid references auth.users not null,
+  date date not null,
+  task_name text not null,
+  deleted_at timestamp with time zone default timezone('utc'::text, now()) not null,
+  updated_at timestamp with time zone default timezone('utc'::text, now()) not null
+);
+
+-- Indexes
+create index if not exists subjects_user_id_idx on subjects(user_id);
+create index if not exists attendance_records_user_id_idx on attendance_records(user_id);
+create index if not exists attendance_records_subject_id_idx on attendance_records(subject_id);
+create index if not exists deleted_tasks_user_id_idx on deleted_tasks(user_id);
+
+-- RLS Policies
+alter table subjects enable row level security;
+alter table attendance_records enable row level security;
+alter table deleted_tasks enable row level security;
+
+-- Subjects Policies
+create policy "Users can view their own subjects"
+  on subjects for select
+  using (auth.uid() = user_id);
+
+create policy "Users can insert their own subjects"
+  on subjects for insert
+  with check (auth.uid() = user_id);
+
+create policy "Users can update their own subjects"
+  on subjects for update
+  using (auth.uid() = user_id);
+
+create policy "Users can delete their own subjects"
+  on subjects for delete
+  using (auth.uid() = user_id);
+
+-- Attendance Records Policies
+create policy "Users can view their own attendance records"
+  on attendance_records for select
+  using (auth.uid() = user_id);
+
+create policy "Users can insert their own attendance records"
+  on attendance_records for insert
+  with check (auth.uid() = user_id);
+
+create policy "Users can update their own attendance records"
+  on attendance_records for update
+  using (auth.uid() = user_id);
+
+create policy "Users can delete their own attendance records"
+  on attendance_records for delete
+  using (auth.uid() = user_id);
+
+-- Deleted Tasks Policies
+create policy "Users can view their own deleted tasks"
+  on deleted_tasks for select
+  using (auth.uid() = user_id);
+
+create policy "Users can insert their own deleted tasks"
+  on deleted_tasks for insert
+  with check (auth.uid() = user_id);
+
+create policy "Users can update their own deleted tasks"
+  on deleted_tasks for update
+  using (auth.uid() = user_id);
+
+create policy "Users can delete their own deleted tasks"
+  on deleted_tasks for delete
+  using (auth.uid() = user_id);
@@ -0,0 +1,35 @@
+-- Stable sync identity: every row carries the uuid generated by the client that
+-- created it. Upserts key on client_id, so renaming a task or changing a
+-- session's times updates the row instead of inserting a duplicate.
+-- Existing rows get a fresh uuid; clients adopt it on their next full sync by
+-- pairing rows on the old natural keys.
+
+do $$
+declare
+  t text;
+begin
+  foreach t in array array[
+    'tasks', 'sessions', 'sleep_entries', 'task_templates', 'priorities',
+    'categories', 'subjects', 'attendance_records', 'deleted_tasks'
+  ]
+  loop
+    execute format(
+      'alter table %I add column if not exists client_id uuid default gen_random_uuid() not null',
+      t
+    );
+    execute format(
+      'create unique index if not exists %I on %I(client_id)',
+      t || '_client_id_key', t
+    );
+  end loop;
+end;
+$$;
+
+-- Natural keys are only used to pair old rows now, not to match upserts: a row
+-- renamed on one device to a name another row has elsewhere must still go up
+drop index if exists task_templates_user_name_key;
+drop index if exists priorities_user_name_key;
+drop index if exists categories_user_name_key;
+alter table subjects drop constraint if exists subjects_user_id_name_key;
+alter table attendance_records drop constraint if exists attendance_records_user_id_subject_id_date_key;
+alter table deleted_tasks drop constraint if exists deleted_tasks_user_id_date_task_name_key;
@@ -0,0 +1,8 @@
+-- User timezone, stored next to day_start_hour.
+-- timezone_history lists the zone each range of days was recorded in:
+--   [{ "timeZone": "Europe/Berlin", "since": "2026-10-19" }, ...]
+-- Days before the first entry were recorded in Asia/Kolkata, the zone the app
+-- used before it was configurable.
+
+alter table profiles add column if not exists timezone text;
+alter table profiles add column if not exists timezone_history jsonb not null default '[]'::jsonb;
@@ -0,0 +1,38 @@
+-- Incremental sync: clients only pull rows changed since their last sync.
+-- updated_at is written by the client (used for last-write-wins), so clock skew
+-- between devices makes it unsafe as a cursor. server_updated_at is set by the
+-- database on every insert/update and is only used for "changed since" queries.
+
+create or replace function set_server_updated_at()
+returns trigger as $$
+begin
+  new.server_updated_at = timezone('utc'::text, now());
+  return new;
+end;
+$$ language plpgsql;
+
+do $$
+declare
+  t text;
+begin
+  foreach t in array array[
+    'tasks', 'sessions', 'sleep_entries', 'task_templates', 'priorities',
+    'categories', 'subjects', 'attendance_records', 'deleted_tasks'
+  ]
+  loop
+    execute format(
+      'alter table %I add column if not exists server_updated_at timestamp with time zone default timezone(''utc''::text, now()) not null',
+      t
+    );
+    execute format('drop trigger if exists %I on %I', t || '_server_updated_at', t);
+    execute format(
+      'create trigger %I before insert or update on %I for each row execute function set_server_updated_at()',
+      t || '_server_updated_at', t
+    );
+    execute format(
+      'create index if not exists %I on %I(user_id, server_updated_at)',
+      t || '_user_server_updated_at_idx', t
+    );
+  end loop;
+end;
+$$;
@@ -0,0 +1,13 @@
+-- Conflict-aware sync: every synced table needs an updated_at timestamp
+-- so clients can tell which side changed since their last sync.
+-- Clients send updated_at themselves; the default only covers old rows.
+
+alter table sessions
+add column if not exists updated_at timestamp with time zone default timezone('utc'::text, now()) not null;
+
+alter table sleep_entries
+add column if not exists updated_at timestamp with time zone default timezone('utc'::text, now()) not null;
+
+-- Backfill from created_at so existing rows keep their original ordering
+update sessions set updated_at = created_at where created_at is not null;
+update sleep_entries set updated_at = created_at where created_at is not null;
@@ -0,0 +1,7 @@
+-- Carry-over of unfinished tasks to the next day.
+-- carry_over_count: how many days in a row the task has been carried over.
+-- carried_to: set on a task whose remaining time was copied to that day,
+--   so running the carry-over again does not copy it twice.
+
+alter table tasks add column if not exists carry_over_count integer not null default 0;
+alter table tasks add column if not exists carried_to date;
@@ -0,0 +1,11 @@
+-- Checklists (subtasks) inside planned tasks.
+-- checklist: ordered items [{ id, title, done, estimate? }], estimate in minutes.
+-- progress_mode: 'time' counts logged minutes against target_time,
+--   'checklist' counts the checked part of the checklist.
+-- task_templates.checklist is the default checklist, copied unchecked into
+--   every task created from the template.
+
+alter table tasks add column if not exists checklist jsonb not null default '[]'::jsonb;
+alter table tasks add column if not exists progress_mode text not null default 'time'
+    check (progress_mode in ('time', 'checklist'));
+alter table task_templates add column if not exists checklist jsonb not null default '[]'::jsonb;
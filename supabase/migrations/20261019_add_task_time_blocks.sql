@@ -0,0 +1,7 @@
+-- Time-blocked day plan: each planned task can be scheduled into a block.
+-- planned_start / planned_end are HH:mm on the task's logical day, the same
+--   as sessions.start_time / end_time; an end before the start runs past
+--   midnight.
+
+alter table tasks add column if not exists planned_start text;
+alter table tasks add column if not exists planned_end text;
@@ -0,0 +1,8 @@
+-- Automatic task generation from templates (see src/services/templateGenerationService.ts).
+-- generated_through: last day a task was generated for. Generation resumes
+--   the day after it (backfilling missed days), and a task deleted on an
+--   earlier day is not generated again.
+-- Generated tasks get a client_id derived from the template and the day, so
+-- the unique client_id index keeps two devices from creating the same task.
+
+alter table task_templates add column if not exists generated_through date;
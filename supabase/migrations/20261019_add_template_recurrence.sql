@@ -0,0 +1,9 @@
+-- RRULE-style recurrence for task templates (see src/utils/recurrence.ts).
+-- recurrence: { freq: 'daily' | 'weekly' | 'monthly' | 'weekly_count',
+--   interval?, weekdays?, monthDay?, nthWeekday?: { nth, weekday },
+--   timesPerWeek?, startDate?, endDate?, exceptions?: [date] }
+-- When null, repeat_pattern / repeat_days still describe the schedule.
+-- repeat_pattern is kept in step ('custom' for anything it can't express)
+-- for older clients.
+
+alter table task_templates add column if not exists recurrence jsonb;
@@ -0,0 +1,7 @@
+-- Streak protection per task template (see src/utils/streakEngine.ts).
+-- streak_protection: { freezeEvery?, maxFreezes?, restDays?: [date], graceDays? }
+-- freezeEvery met days earn a freeze token (up to maxFreezes, default 2);
+-- a missed day spends one instead of breaking the streak. Misses on rest
+-- days never break it, and a miss waits graceDays for late logging.
+
+alter table task_templates add column if not exists streak_protection jsonb;
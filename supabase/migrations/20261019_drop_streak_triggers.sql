@@ -0,0 +1,22 @@
+-- Streaks are computed by one engine (src/utils/streakEngine.ts): the
+-- planner saves them with a task's progress, and a chain is recomputed
+-- through it when its history changes. The trigger-based calculators from
+-- migrations/ follow older, diverging rules (yesterday only, a 60% default
+-- target, no schedule), so drop any that are still installed.
+
+drop trigger if exists update_streak_logic on tasks;
+drop trigger if exists calculate_streak_trigger on tasks;
+drop trigger if exists propagate_streak_trigger on tasks;
+drop trigger if exists propagate_streak_changes on tasks;
+drop trigger if exists trg_recalc_streaks on tasks;
+drop trigger if exists trigger_calculate_streak on tasks;
+drop trigger if exists trigger_propagate_streak on tasks;
+
+drop function if exists calculate_streaks() cascade;
+drop function if exists calculate_streak_logic() cascade;
+drop function if exists propagate_streak_change() cascade;
+drop function if exists propagate_future_update() cascade;
+drop function if exists recalculate_streak_chain(uuid, uuid) cascade;
+drop function if exists trigger_recalc_wrapper() cascade;
+drop function if exists calculate_streak_on_save() cascade;
+drop function if exists propagate_streak_update_func() cascade;
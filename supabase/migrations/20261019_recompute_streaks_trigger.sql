@@ -0,0 +1,48 @@
+-- Keep stored streaks right whatever writes a task (sync pushes, other
+-- devices, direct edits): a change to a task's progress, day or chain calls
+-- the recompute-streaks edge function, which runs the app's streak engine
+-- over the chain (see supabase/functions/recompute-streaks).
+--
+-- Needs pg_net and two Vault secrets; without them the trigger does nothing:
+--   select vault.create_secret('https://<project>.supabase.co', 'project_url');
+--   select vault.create_secret('<service role key>', 'service_role_key');
+--
+-- Only the columns streaks are computed from fire it, so the function's own
+-- streak updates don't call it again.
+
+create extension if not exists pg_net;
+
+create or replace function recompute_streaks_on_change() returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  project_url text;
+  service_key text;
+begin
+  select decrypted_secret into project_url from vault.decrypted_secrets where name = 'project_url';
+  select decrypted_secret into service_key from vault.decrypted_secrets where name = 'service_role_key';
+  if project_url is null or service_key is null then
+    return null;
+  end if;
+
+  perform net.http_post(
+    url := project_url || '/functions/v1/recompute-streaks',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || service_key
+    ),
+    body := jsonb_build_object(
+      'record', case when tg_op = 'DELETE' then null else to_jsonb(new) end,
+      'old_record', case when tg_op = 'INSERT' then null else to_jsonb(old) end
+    )
+  );
+  return null;
+end;
+$$;
+
+drop trigger if exists recompute_streaks_on_change on tasks;
+create trigger recompute_streaks_on_change
+  after insert or delete or update of progress, date, template_id, name on tasks
+  for each row execute function recompute_streaks_on_change();